@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import * as contactService from '../services/contact.service.js';
+import { AppError } from '../utils/errors.js';
+
+// Helper to get authenticated user
+const getUser = (req: Request) => {
+  if (!req.user) throw new AppError('User not authenticated', 401);
+  return req.user as { id: string; username: string; email: string };
+};
+
+const parseContactId = (value: unknown): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError('Invalid contact ID', 400, true);
+  }
+  return id;
+};
+
+/**
+ * GET /api/contacts
+ * List contacts by name, with how often and how recently the user exchanged mail with them.
+ */
+export const getContacts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const contacts = await contactService.listContacts(user.id);
+    res.json({ success: true, data: { contacts } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/contacts
+ * Create a contact.
+ */
+export const createContact = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const contact = await contactService.createContact(user.id, req.body);
+    res.status(201).json({ success: true, data: contact });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/contacts/:id
+ * Replace a contact's name, addresses and notes.
+ */
+export const updateContact = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const contact = await contactService.updateContact(user.id, parseContactId(req.params.id), req.body);
+    if (!contact) {
+      throw new AppError('Contact not found', 404, true);
+    }
+    res.json({ success: true, data: contact });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/contacts/:id
+ * Delete a contact; its addresses are not harvested again.
+ */
+export const deleteContact = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const deleted = await contactService.deleteContact(user.id, parseContactId(req.params.id));
+    if (!deleted) {
+      throw new AppError('Contact not found', 404, true);
+    }
+    res.json({ success: true, message: 'Contact deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/contacts/harvest
+ * Count cached mail not counted yet and add contacts for sent mail recipients without one.
+ */
+export const harvestContacts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const result = await contactService.harvestContacts(user.id);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import * as draftService from '../services/draft.service.js';
+import { AppError } from '../utils/errors.js';
+
+// Helper to get authenticated user
+const getUser = (req: Request) => {
+  if (!req.user) throw new AppError('User not authenticated', 401);
+  return req.user as { id: string; username: string; email: string };
+};
+
+// Drafts are keyed by the client-generated UUID
+const parseDraftId = (value: unknown): string => {
+  const id = String(value ?? '');
+  if (!/^[A-Za-z0-9-]{1,64}$/.test(id)) {
+    throw new AppError('Invalid draft ID', 400, true);
+  }
+  return id;
+};
+
+/**
+ * GET /api/drafts
+ * List drafts, newest first. Query: ?since=ISO (delta sync, includes deleted tombstones)
+ */
+export const getDrafts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const since = req.query.since as string | undefined;
+    if (since && Number.isNaN(Date.parse(since))) {
+      throw new AppError('since must be an ISO timestamp', 400, true);
+    }
+
+    const drafts = await draftService.listDrafts(user.id, since);
+    res.json({ success: true, data: { drafts } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/drafts/:id
+ * Create or replace a draft and mirror it to the account's IMAP Drafts folder.
+ */
+export const saveDraft = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const draftId = parseDraftId(req.params.id);
+
+    const draft = await draftService.saveDraft(user.id, draftId, req.body);
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/drafts/:id
+ * Delete a draft and its IMAP copy.
+ */
+export const deleteDraft = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const draftId = parseDraftId(req.params.id);
+
+    const deleted = await draftService.deleteDraft(user.id, draftId);
+    if (!deleted) {
+      throw new AppError('Draft not found', 404, true);
+    }
+    res.json({ success: true, message: 'Draft deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import * as emailAccountsService from '../services/email-accounts.service.js';
 import * as smtpAccountsService from '../services/smtp-accounts.service.js';
+import { imapIdleManager } from '../services/imap-idle.service.js';
+import { imapPool } from '../services/imap-pool.service.js';
 import { logger } from '../utils/logger.js';
 
 // Type assertion function to check if request has authenticated user
@@ -70,6 +72,7 @@ export const addEmailAccount = async (req: Request, res: Response) => {
     };
     
     const newAccount = await emailAccountsService.createEmailAccount(accountData);
+    imapIdleManager.refreshUser(user.id);
     
     // Don't return password in the response
     const { password: _password, outgoingPassword: _outgoingPassword, ...sanitizedAccount } = newAccount;
@@ -99,6 +102,8 @@ export const updateEmailAccount = async (req: Request, res: Response) => {
     if (!updatedAccount) {
       return res.status(404).json({ message: 'Email account not found' });
     }
+    imapIdleManager.refreshUser(user.id);
+    imapPool.closeUser(user.id);
     
     // Don't return password in the response
     const { password: _password, outgoingPassword: _outgoingPassword, ...sanitizedAccount } = updatedAccount;
@@ -128,6 +133,8 @@ export const deleteEmailAccount = async (req: Request, res: Response) => {
     if (!deleted) {
       return res.status(404).json({ message: 'Email account not found' });
     }
+    imapIdleManager.refreshUser(user.id);
+    imapPool.closeUser(user.id);
     
     res.json({ message: 'Email account deleted successfully' });
   } catch (error) {
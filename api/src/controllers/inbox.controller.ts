@@ -1,8 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
 import * as inboxService from '../services/inbox.service.js';
+import { getInboxAttachment } from '../services/attachment.service.js';
+import { getConversation as getConversationForMessage, type ConversationRef } from '../services/thread.service.js';
+import { UNDO_SEND_MAX_DELAY, UNDO_SEND_MIN_DELAY } from '../services/scheduled-mail.service.js';
+import { DEFAULT_POLL_INTERVAL, MAX_POLL_INTERVAL, MIN_POLL_INTERVAL } from '../services/poll-scheduler.service.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
-import { signalInboxSyncComplete, signalSettingsUpdated } from '../utils/signaling.js';
+import { labelNameSchema } from '../utils/validationSchemas.js';
+import { signalInboxSyncComplete, signalInboxUpdate, signalSettingsUpdated } from '../utils/signaling.js';
 
 // Helper to get authenticated user
 const getUser = (req: Request) => {
@@ -118,6 +125,7 @@ export const syncInbox = async (req: Request, res: Response, next: NextFunction)
         total: result.totalOnServer,
         fetched: result.fetched,
         cached: result.cached,
+        reconciled: result.reconciled,
         source: 'server',
       },
     });
@@ -166,6 +174,351 @@ export const searchOnServer = async (req: Request, res: Response, next: NextFunc
   }
 };
 
+/**
+ * POST /api/inbox/search/indexed
+ * Ranked full-text search over the server's mail cache (all synced mail,
+ * POP3 included). Same response shape as /search.
+ * Body: { query, accountCode?, mailbox?, sinceMonths?: number, limit?: number, offset?: number }
+ */
+export const searchIndexed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const { query, accountCode, mailbox, sinceMonths, limit, offset } = req.body;
+
+    if (!query || typeof query !== 'string' || query.trim().length === 0) {
+      return next(new AppError('query is required', 400, true));
+    }
+
+    const result = await inboxService.searchCachedMails(user.id, query.trim(), {
+      accountCode: accountCode || undefined,
+      mailbox: mailbox || undefined,
+      sinceMonths: Number(sinceMonths) || 0,
+      limit: Number(limit) || undefined,
+      offset: Math.max(Number(offset) || 0, 0),
+    });
+
+    res.json({
+      success: true,
+      data: {
+        mails: result.mails,
+        searched: result.searched,
+        dateRange: result.dateRange,
+        protocol: result.protocol,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Helper to parse a :uid route param (IMAP UIDs are positive integers)
+const parseUid = (value: string): number => {
+  const uid = parseInt(value, 10);
+  if (!Number.isInteger(uid) || uid <= 0 || String(uid) !== value) {
+    throw new AppError('Invalid message UID', 400, true);
+  }
+  return uid;
+};
+
+// Labels are IMAP keywords; anything else would break the STORE command
+const parseLabels = (value: unknown, field: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(label => labelNameSchema.safeParse(label).success)) {
+    throw new AppError(`${field} must be a list of valid labels`, 400, true);
+  }
+  return value.map((label: string) => label.trim());
+};
+
+/**
+ * Shared validation for flag changes.
+ */
+const parseFlagChanges = (body: Request['body']): inboxService.MailFlagChanges => {
+  const { isRead, isStarred } = body ?? {};
+  if (isRead !== undefined && typeof isRead !== 'boolean') {
+    throw new AppError('isRead must be a boolean', 400, true);
+  }
+  if (isStarred !== undefined && typeof isStarred !== 'boolean') {
+    throw new AppError('isStarred must be a boolean', 400, true);
+  }
+  return {
+    isRead,
+    isStarred,
+    addLabels: parseLabels(body?.addLabels, 'addLabels'),
+    removeLabels: parseLabels(body?.removeLabels, 'removeLabels'),
+  };
+};
+
+/**
+ * PATCH /api/inbox/:accountCode/:uid/flags
+ * Write read/starred state and labels (IMAP keywords) back to the mail server and the server cache.
+ * Body: { isRead?: boolean, isStarred?: boolean, addLabels?: string[], removeLabels?: string[], mailbox?: string }
+ */
+export const updateMailFlags = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const uid = parseUid(req.params.uid as string);
+    const changes = parseFlagChanges(req.body);
+
+    const updated = await inboxService.updateMailFlags(user.id, accountCode, [uid], changes, req.body.mailbox || 'INBOX');
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uid, ...changes, updated },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/inbox/:accountCode/flags
+ * Bulk flag and label changes for messages of one mailbox (single IMAP session).
+ * Body: { uids: number[], isRead?: boolean, isStarred?: boolean, addLabels?: string[], removeLabels?: string[], mailbox?: string }
+ */
+export const bulkUpdateMailFlags = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const { uids, mailbox } = req.body ?? {};
+
+    if (!Array.isArray(uids) || uids.length === 0 || !uids.every((u) => Number.isInteger(u) && u > 0)) {
+      return next(new AppError('uids must be a non-empty array of message UIDs', 400, true));
+    }
+    const changes = parseFlagChanges(req.body);
+
+    const updated = await inboxService.updateMailFlags(user.id, accountCode, uids, changes, mailbox || 'INBOX');
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uids, ...changes, updated },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/inbox/:accountCode/:uid
+ * Delete a message on the mail server and remove it from the server cache.
+ * Query: ?mailbox=INBOX
+ */
+export const deleteMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const uid = parseUid(req.params.uid as string);
+    const mailbox = (req.query.mailbox as string) || 'INBOX';
+
+    const deleted = await inboxService.deleteMails(user.id, accountCode, [uid], mailbox);
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uids: [uid], deleted },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/inbox/:accountCode/delete
+ * Bulk delete messages on the mail server (single IMAP session).
+ * Body: { uids: number[], mailbox?: string }
+ */
+export const bulkDeleteMails = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const { uids, mailbox } = req.body;
+
+    if (!Array.isArray(uids) || uids.length === 0 || !uids.every((u) => Number.isInteger(u) && u > 0)) {
+      return next(new AppError('uids must be a non-empty array of message UIDs', 400, true));
+    }
+
+    const deleted = await inboxService.deleteMails(user.id, accountCode, uids, mailbox || 'INBOX');
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uids, deleted },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Shared validation for move/copy requests.
+ */
+const parseTransferBody = (body: Request['body']) => {
+  const { uids, mailbox, destination } = body ?? {};
+  if (!Array.isArray(uids) || uids.length === 0 || !uids.every((u) => Number.isInteger(u) && u > 0)) {
+    throw new AppError('uids must be a non-empty array of message UIDs', 400, true);
+  }
+  if (typeof destination !== 'string' || !destination.trim()) {
+    throw new AppError('destination folder is required', 400, true);
+  }
+  if (mailbox !== undefined && typeof mailbox !== 'string') {
+    throw new AppError('mailbox must be a string', 400, true);
+  }
+  return { uids: uids as number[], mailbox: (mailbox as string) || 'INBOX', destination: destination as string };
+};
+
+/**
+ * POST /api/inbox/:accountCode/move
+ * Move messages to another folder on the mail server.
+ * Body: { uids: number[], mailbox?: string, destination: string }
+ */
+export const moveMails = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const { uids, mailbox, destination } = parseTransferBody(req.body);
+
+    const result = await inboxService.moveMails(user.id, accountCode, uids, mailbox, destination);
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uids, ...result },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/inbox/:accountCode/copy
+ * Copy messages to another folder on the mail server.
+ * Body: { uids: number[], mailbox?: string, destination: string }
+ */
+export const copyMails = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const { uids, mailbox, destination } = parseTransferBody(req.body);
+
+    const result = await inboxService.copyMails(user.id, accountCode, uids, mailbox, destination);
+
+    signalInboxUpdate(user.id, new Date().toISOString());
+
+    res.json({
+      success: true,
+      data: { accountCode, uids, ...result },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/inbox/:accountCode/:uid/body
+ * Full body of a received message (synced mails only carry a snippet until opened).
+ * Query: ?mailbox=INBOX
+ */
+export const getMailBody = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const uid = parseUid(req.params.uid as string);
+    const mailbox = (req.query.mailbox as string) || 'INBOX';
+
+    const body = await inboxService.getMailBody(user.id, accountCode, uid, mailbox);
+
+    res.json({
+      success: true,
+      data: { accountCode, uid, mailbox, ...body },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/inbox/:accountCode/:uid/attachments/:index
+ * Stream one attachment of a received message (index into attachmentsMetadata).
+ * Query: ?mailbox=INBOX&download=1
+ */
+export const downloadAttachment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const accountCode = req.params.accountCode as string;
+    const uid = parseUid(req.params.uid as string);
+    const indexRaw = req.params.index as string;
+    const index = parseInt(indexRaw, 10);
+    if (!Number.isInteger(index) || index < 0 || String(index) !== indexRaw) {
+      return next(new AppError('Invalid attachment index', 400, true));
+    }
+    const mailbox = (req.query.mailbox as string) || 'INBOX';
+    const asDownload = req.query.download === '1' || req.query.download === 'true';
+
+    const attachment = await getInboxAttachment(user.id, accountCode, uid, index, mailbox);
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', String(attachment.size));
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    // Attachment content is untrusted — never let it run as a page on our origin
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox");
+    if (asDownload) {
+      res.attachment(attachment.filename);
+    }
+
+    await pipeline(fs.createReadStream(attachment.filePath), res);
+  } catch (error) {
+    if (res.headersSent) {
+      logger.error('[Attachments] Stream interrupted:', error);
+      res.destroy();
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * GET /api/inbox/thread
+ * Whole conversation (received + sent, oldest first) a message belongs to.
+ * Query: ?accountCode=XXX&uid=123&mailbox=INBOX  or  ?sentThreadId=<sent mail thread ID>
+ */
+export const getConversation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const sentThreadId = req.query.sentThreadId as string | undefined;
+    const accountCode = req.query.accountCode as string | undefined;
+
+    let ref: ConversationRef;
+    if (sentThreadId) {
+      ref = { sentThreadId };
+    } else if (accountCode && req.query.uid) {
+      ref = {
+        accountCode,
+        uid: parseUid(String(req.query.uid)),
+        mailbox: (req.query.mailbox as string) || 'INBOX',
+      };
+    } else {
+      return next(new AppError('accountCode and uid, or sentThreadId, are required', 400, true));
+    }
+
+    const conversation = await getConversationForMessage(user.id, ref);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * GET /api/inbox/accounts
  * Get list of email accounts (not SMTP-only) for the inbox dropdown.
@@ -197,6 +550,8 @@ export const getSettings = async (req: Request, res: Response, next: NextFunctio
       success: true,
       data: {
         inboxCacheLimit: parseInt(settings.inbox_cache_limit || '15', 10),
+        undoSendDelay: parseInt(settings.undo_send_delay || '0', 10),
+        pollInterval: parseInt(settings.poll_interval_minutes || String(DEFAULT_POLL_INTERVAL), 10),
       },
     });
   } catch (error) {
@@ -207,19 +562,39 @@ export const getSettings = async (req: Request, res: Response, next: NextFunctio
 /**
  * PUT /api/inbox/settings
  * Update user inbox settings.
- * Body: { inboxCacheLimit: number }
+ * Body: { inboxCacheLimit?: number, undoSendDelay?: number, pollInterval?: number }
  */
 export const updateSettings = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const user = getUser(req);
-    const { inboxCacheLimit } = req.body;
+    const { inboxCacheLimit, undoSendDelay, pollInterval } = req.body;
+    const changedKeys: string[] = [];
 
     if (inboxCacheLimit !== undefined) {
       const limit = Math.max(5, Math.min(100, parseInt(inboxCacheLimit, 10) || 15));
       await inboxService.setUserSetting(user.id, 'inbox_cache_limit', String(limit));
+      changedKeys.push('inbox_cache_limit');
+    }
+
+    if (undoSendDelay !== undefined) {
+      // 0 turns undo send off; anything else is clamped to 5–30 seconds
+      const seconds = parseInt(undoSendDelay, 10) || 0;
+      const delay = seconds <= 0 ? 0 : Math.max(UNDO_SEND_MIN_DELAY, Math.min(UNDO_SEND_MAX_DELAY, seconds));
+      await inboxService.setUserSetting(user.id, 'undo_send_delay', String(delay));
+      changedKeys.push('undo_send_delay');
+    }
+
+    if (pollInterval !== undefined) {
+      // Background sync in minutes; 0 turns it off
+      const minutes = parseInt(pollInterval, 10) || 0;
+      const interval = minutes <= 0 ? 0 : Math.max(MIN_POLL_INTERVAL, Math.min(MAX_POLL_INTERVAL, minutes));
+      await inboxService.setUserSetting(user.id, 'poll_interval_minutes', String(interval));
+      changedKeys.push('poll_interval_minutes');
+    }
 
+    if (changedKeys.length > 0) {
       // Signal connected clients that settings changed
-      signalSettingsUpdated(user.id, ['inbox_cache_limit']);
+      signalSettingsUpdated(user.id, changedKeys);
     }
 
     res.json({
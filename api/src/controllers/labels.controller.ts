@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import * as labelService from '../services/label.service.js';
+import { AppError } from '../utils/errors.js';
+
+// Helper to get authenticated user
+const getUser = (req: Request) => {
+  if (!req.user) throw new AppError('User not authenticated', 401);
+  return req.user as { id: string; username: string; email: string };
+};
+
+const parseLabelId = (value: unknown): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError('Invalid label ID', 400, true);
+  }
+  return id;
+};
+
+/**
+ * GET /api/labels
+ * List labels with their colours, by name.
+ */
+export const getLabels = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const labels = await labelService.listLabels(user.id);
+    res.json({ success: true, data: { labels } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/labels
+ * Create a label.
+ */
+export const createLabel = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const label = await labelService.createLabel(user.id, req.body);
+    res.status(201).json({ success: true, data: label });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/labels/:id
+ * Rename or recolour a label; a rename is written to the cached mails' keywords.
+ */
+export const updateLabel = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const label = await labelService.updateLabel(user.id, parseLabelId(req.params.id), req.body);
+    if (!label) {
+      throw new AppError('Label not found', 404, true);
+    }
+    res.json({ success: true, data: label });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/labels/:id
+ * Delete a label and remove its keyword from the cached mails.
+ */
+export const deleteLabel = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const deleted = await labelService.deleteLabel(user.id, parseLabelId(req.params.id));
+    if (!deleted) {
+      throw new AppError('Label not found', 404, true);
+    }
+    res.json({ success: true, message: 'Label deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
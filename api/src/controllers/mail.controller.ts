@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import * as mailService from '../services/mail.service.js';
+import * as scheduledMailService from '../services/scheduled-mail.service.js';
+import * as outboxService from '../services/outbox.service.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 
@@ -42,6 +44,13 @@ export const sendMail = async (req: Request, res: Response, next: NextFunction)
     const mailData = req.body;
     
     logger.info(`Send mail request from user ${userId}`);
+
+    // Undo send: hold the mail server-side for the user's delay
+    const undoDelay = await scheduledMailService.getUndoSendDelay(userId);
+    if (undoDelay > 0) {
+      const held = await scheduledMailService.holdMail(userId, mailData, undoDelay);
+      return res.status(202).json({ success: true, queued: true, message: 'Email queued for sending', data: held });
+    }
     
     // Call the new sendMailFromAccount service
     const result = await mailService.sendMailFromAccount(userId, mailData);
@@ -65,26 +74,243 @@ export const fetchMail = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
-// Placeholder: Get mail folders
+// Helper to get the authenticated user id
+const getUserId = (req: Request): string => {
+  const user = req.user;
+  if (!user || !user.id) {
+    throw new AppError('User authentication failed', 401);
+  }
+  return user.id;
+};
+
+/**
+ * GET /api/mail/folders
+ * List IMAP folders with special-use flags and unread/total counts.
+ * Query: ?accountCode=XXX
+ */
 export const getFolders = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // const userId = (req as any).user.userId;
-    // const folders = await mailService.listFolders(userId);
-    logger.info('Placeholder: Get folders called');
-    res.status(200).json({ message: 'Placeholder: Get folders successful' });
+    const userId = getUserId(req);
+    const accountCode = req.query.accountCode as string | undefined;
+
+    if (!accountCode) {
+      return next(new AppError('accountCode is required', 400, true));
+    }
+
+    const folders = await mailService.listFolders(userId, accountCode);
+
+    res.status(200).json({ success: true, data: { accountCode, folders } });
   } catch (error) {
     next(error);
   }
 };
 
-// Placeholder: Create mail folder
+/**
+ * POST /api/mail/folders
+ * Body: { accountCode, name, parentPath? }
+ */
 export const createFolder = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // const userId = (req as any).user.userId;
-    // const folderName = req.body.name;
-    // await mailService.createFolder(userId, folderName);
-    logger.info('Placeholder: Create folder called');
-    res.status(201).json({ message: 'Placeholder: Folder created successfully' });
+    const userId = getUserId(req);
+    const { accountCode, name, parentPath } = req.body;
+
+    const result = await mailService.createFolder(userId, accountCode, name, parentPath);
+
+    res.status(result.created ? 201 : 200).json({
+      success: true,
+      message: result.created ? 'Folder created' : 'Folder already exists',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/mail/folders
+ * Rename a folder (keeps it under the same parent).
+ * Body: { accountCode, path, newName }
+ */
+export const renameFolder = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const { accountCode, path, newName } = req.body;
+
+    const result = await mailService.renameFolder(userId, accountCode, path, newName);
+
+    res.status(200).json({ success: true, message: 'Folder renamed', data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/mail/folders
+ * Query: ?accountCode=XXX&path=Projects/2024
+ */
+export const deleteFolder = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const accountCode = req.query.accountCode as string | undefined;
+    const path = req.query.path as string | undefined;
+
+    if (!accountCode || !path) {
+      return next(new AppError('accountCode and path are required', 400, true));
+    }
+
+    const result = await mailService.deleteFolder(userId, accountCode, path);
+
+    res.status(200).json({ success: true, message: 'Folder deleted', data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// sent_mails ids are UUIDs; reject anything else before it reaches Postgres
+const parseSentMailId = (req: Request): string => {
+  const id = String(req.params.id);
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    throw new AppError('Mail not found', 404, true);
+  }
+  return id;
+};
+
+/**
+ * POST /api/mail/send/:id/undo
+ * Cancel a send still in its undo window; returns the restored draft.
+ */
+export const undoSend = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const draft = await scheduledMailService.undoSend(userId, parseSentMailId(req));
+
+    res.status(200).json({ success: true, message: 'Send undone', data: { draft } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/mail/schedule
+ * Queue a mail for sending at `scheduledAt` (same body as /send).
+ */
+export const scheduleMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const { scheduledAt, ...payload } = req.body;
+
+    const scheduled = await scheduledMailService.scheduleMail(userId, payload, new Date(scheduledAt));
+
+    res.status(201).json({ success: true, message: 'Mail scheduled', data: scheduled });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/mail/scheduled
+ * List mails waiting to be sent, soonest first.
+ */
+export const getScheduledMails = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const mails = await scheduledMailService.listScheduledMails(userId);
+
+    res.status(200).json({ success: true, data: { mails } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/mail/scheduled/:id
+ * Body: { scheduledAt }
+ */
+export const rescheduleMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const scheduled = await scheduledMailService.rescheduleMail(
+      userId,
+      parseSentMailId(req),
+      new Date(req.body.scheduledAt)
+    );
+
+    res.status(200).json({ success: true, message: 'Mail rescheduled', data: scheduled });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/mail/scheduled/:id
+ * Cancel a scheduled mail; 409 once it is already being sent.
+ */
+export const cancelScheduledMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    await scheduledMailService.cancelScheduledMail(userId, parseSentMailId(req));
+
+    res.status(200).json({ success: true, message: 'Scheduled mail cancelled' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/mail/outbox
+ * Failed sends, with their error and next automatic retry.
+ */
+export const getOutbox = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const mails = await outboxService.listOutbox(userId);
+
+    res.status(200).json({ success: true, data: { mails } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/mail/outbox/:id/retry
+ * Queue an immediate retry; the result arrives like any other send (sent_mails signal).
+ */
+export const retryOutboxMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const mail = await outboxService.retryNow(userId, parseSentMailId(req));
+
+    res.status(202).json({ success: true, message: 'Retry queued', data: mail });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/mail/outbox/:id/edit
+ * Move a failed mail back to drafts; returns the draft.
+ */
+export const editOutboxMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const draft = await outboxService.editAsDraft(userId, parseSentMailId(req));
+
+    res.status(200).json({ success: true, message: 'Moved to drafts', data: { draft } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/mail/outbox/:id
+ * Discard a failed mail.
+ */
+export const discardOutboxMail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    await outboxService.discardFailedMail(userId, parseSentMailId(req));
+
+    res.status(200).json({ success: true, message: 'Mail discarded' });
   } catch (error) {
     next(error);
   }
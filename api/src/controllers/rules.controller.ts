@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import * as rulesService from '../services/mail-rules.service.js';
+import { AppError } from '../utils/errors.js';
+import type { MailRule } from '../utils/mailRules.js';
+
+// Helper to get authenticated user
+const getUser = (req: Request) => {
+  if (!req.user) throw new AppError('User not authenticated', 401);
+  return req.user as { id: string; username: string; email: string };
+};
+
+const parseRuleId = (value: unknown): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError('Invalid rule ID', 400, true);
+  }
+  return id;
+};
+
+/**
+ * The rules a preview or run uses: an unsaved rule from the editor, one saved
+ * rule (even when disabled), or undefined for all enabled rules.
+ */
+const resolveRules = async (userId: string, body: { rule?: rulesService.MailRuleInput; ruleId?: number }): Promise<MailRule[] | undefined> => {
+  if (body.rule) {
+    return [{ ...body.rule, id: body.ruleId ?? 0, position: body.rule.position ?? 0 }];
+  }
+  if (body.ruleId) {
+    const rule = (await rulesService.listRules(userId)).find(r => r.id === body.ruleId);
+    if (!rule) throw new AppError('Rule not found', 404, true);
+    return [rule];
+  }
+  return undefined;
+};
+
+/**
+ * GET /api/rules
+ * List filter rules in the order they run.
+ */
+export const getRules = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const rules = await rulesService.listRules(user.id);
+    res.json({ success: true, data: { rules } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/rules
+ * Create a rule; it applies to mail arriving from now on.
+ */
+export const createRule = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const rule = await rulesService.createRule(user.id, req.body);
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/rules/:id
+ * Replace a rule.
+ */
+export const updateRule = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const rule = await rulesService.updateRule(user.id, parseRuleId(req.params.id), req.body);
+    if (!rule) {
+      throw new AppError('Rule not found', 404, true);
+    }
+    res.json({ success: true, data: rule });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/rules/:id
+ */
+export const deleteRule = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const deleted = await rulesService.deleteRule(user.id, parseRuleId(req.params.id));
+    if (!deleted) {
+      throw new AppError('Rule not found', 404, true);
+    }
+    res.json({ success: true, message: 'Rule deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/rules/preview
+ * Dry run over cached INBOX mail: which mails would match, and what would happen.
+ * Body: { rule?, ruleId?, accountCode? }
+ */
+export const previewRules = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const rules = await resolveRules(user.id, req.body);
+    const result = await rulesService.runRules(user.id, { rules, accountCode: req.body.accountCode, dryRun: true });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/rules/run
+ * Apply rules to cached INBOX mail now.
+ * Body: { rule?, ruleId?, accountCode? }
+ */
+export const runRules = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const rules = await resolveRules(user.id, req.body);
+    const result = await rulesService.runRules(user.id, { rules, accountCode: req.body.accountCode });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
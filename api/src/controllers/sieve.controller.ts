@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import * as sieveService from '../services/sieve.service.js';
+import { AppError } from '../utils/errors.js';
+import { sieveScriptNameSchema } from '../utils/validationSchemas.js';
+
+// Helper to get authenticated user
+const getUser = (req: Request) => {
+  if (!req.user) throw new AppError('User not authenticated', 401);
+  return req.user as { id: string; username: string; email: string };
+};
+
+const requireAccountCode = (value: unknown): string => {
+  if (typeof value !== 'string' || !value) {
+    throw new AppError('accountCode is required', 400, true);
+  }
+  return value;
+};
+
+const parseScriptName = (value: unknown): string => {
+  const result = sieveScriptNameSchema.safeParse(value);
+  if (!result.success) {
+    throw new AppError('Invalid script name', 400, true);
+  }
+  return result.data;
+};
+
+/**
+ * GET /api/sieve/scripts?accountCode=
+ * List the account's Sieve scripts and the extensions its server supports.
+ */
+export const listScripts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const result = await sieveService.listScripts(user.id, requireAccountCode(req.query.accountCode));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/sieve/scripts/:name?accountCode=
+ * Read a script.
+ */
+export const getScript = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const script = await sieveService.getScript(
+      user.id, requireAccountCode(req.query.accountCode), parseScriptName(req.params.name)
+    );
+    res.json({ success: true, data: script });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/sieve/scripts/:name
+ * Create or replace a script, optionally making it the active one.
+ * Body: { accountCode, content, activate? }
+ */
+export const putScript = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const { accountCode, content, activate } = req.body;
+    const name = parseScriptName(req.params.name);
+    await sieveService.putScript(user.id, accountCode, name, content, activate);
+    res.json({ success: true, message: activate ? 'Script saved and activated' : 'Script saved' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/sieve/scripts/:name?accountCode=
+ * Delete a script (not the active one).
+ */
+export const deleteScript = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    await sieveService.deleteScript(
+      user.id, requireAccountCode(req.query.accountCode), parseScriptName(req.params.name)
+    );
+    res.json({ success: true, message: 'Script deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/sieve/active
+ * Activate a script, or turn filtering off with name: null.
+ * Body: { accountCode, name }
+ */
+export const setActiveScript = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    await sieveService.setActiveScript(user.id, req.body.accountCode, req.body.name);
+    res.json({ success: true, message: req.body.name ? 'Script activated' : 'Sieve filtering turned off' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/sieve/check
+ * Syntax-check a script on the server without saving it.
+ * Body: { accountCode, content }
+ */
+export const checkScript = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getUser(req);
+    const result = await sieveService.checkScript(user.id, req.body.accountCode, req.body.content);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
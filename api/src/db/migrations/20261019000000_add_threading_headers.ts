@@ -0,0 +1,41 @@
+import type { Knex } from 'knex';
+
+/**
+ * Persist the RFC 5322 threading headers (In-Reply-To / References) for
+ * received and sent mail, plus the conversation each message belongs to.
+ *
+ * conversation_id is computed server-side with the JWZ algorithm across
+ * inbox_cache and sent_mails. sent_mails.thread_id stays the per-mail key
+ * used by the sent-mail routes.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.string('in_reply_to', 998).nullable();
+    table.jsonb('reference_ids').nullable(); // Array of Message-IDs from References
+    table.string('conversation_id', 32).nullable();
+    table.index(['user_id', 'conversation_id']);
+  });
+
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.string('in_reply_to', 998).nullable();
+    table.jsonb('reference_ids').nullable();
+    table.string('conversation_id', 32).nullable();
+    table.index(['user_id', 'conversation_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.dropIndex(['user_id', 'conversation_id']);
+    table.dropColumn('conversation_id');
+    table.dropColumn('reference_ids');
+    table.dropColumn('in_reply_to');
+  });
+
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.dropIndex(['user_id', 'conversation_id']);
+    table.dropColumn('conversation_id');
+    table.dropColumn('reference_ids');
+    table.dropColumn('in_reply_to');
+  });
+}
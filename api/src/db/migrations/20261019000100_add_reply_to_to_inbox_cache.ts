@@ -0,0 +1,17 @@
+import type { Knex } from 'knex';
+
+/**
+ * Persist the Reply-To addresses of received mail so replies go where the
+ * sender asked (mailing lists, support desks, no-reply senders).
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.jsonb('reply_to').nullable(); // Array of addresses from Reply-To
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.dropColumn('reply_to');
+  });
+}
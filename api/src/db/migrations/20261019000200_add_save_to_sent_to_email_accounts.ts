@@ -0,0 +1,18 @@
+import type { Knex } from 'knex';
+
+/**
+ * Per-account switch for APPENDing sent mail to the IMAP \Sent folder.
+ * Providers that file submitted mail themselves (Gmail, Outlook) turn it off
+ * to avoid duplicates.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('email_accounts', (table) => {
+    table.boolean('save_to_sent').notNullable().defaultTo(true);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('email_accounts', (table) => {
+    table.dropColumn('save_to_sent');
+  });
+}
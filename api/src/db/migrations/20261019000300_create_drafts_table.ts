@@ -0,0 +1,47 @@
+import type { Knex } from 'knex';
+
+/**
+ * Server-side drafts, shared by every device of a user and mirrored to the
+ * account's IMAP \Drafts folder (imap_* columns track the current copy).
+ * Deleted drafts keep a tombstone (deleted_at) so other devices drop them on sync.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('drafts', (table) => {
+    // Client-generated UUID, unique per user
+    table.string('id', 64).notNullable();
+    table.integer('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+
+    // Sender
+    table.string('account_code', 10).nullable();
+    table.string('from_email', 255).nullable();
+
+    // Recipients as typed in Compose (comma-separated)
+    table.text('to_addresses').notNullable().defaultTo('');
+    table.text('cc_addresses').notNullable().defaultTo('');
+    table.text('bcc_addresses').notNullable().defaultTo('');
+
+    // Content
+    table.text('subject').notNullable().defaultTo('');
+    table.text('html_body').notNullable().defaultTo('');
+    table.text('text_body').notNullable().defaultTo('');
+    table.jsonb('attachments').notNullable().defaultTo('[]'); // [{id, name, size, sizeFormatted, type, content (base64)}]
+    table.integer('char_count').notNullable().defaultTo(0);
+
+    // Current copy in the IMAP Drafts folder
+    table.string('imap_account_code', 10).nullable();
+    table.string('imap_mailbox', 255).nullable();
+    table.integer('imap_uid').nullable();
+    table.timestamp('imap_synced_at').nullable(); // updated_at of the mirrored version
+
+    table.timestamp('deleted_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.primary(['user_id', 'id']);
+    table.index(['user_id', 'updated_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('drafts');
+}
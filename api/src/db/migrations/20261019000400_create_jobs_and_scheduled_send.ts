@@ -0,0 +1,37 @@
+import type { Knex } from 'knex';
+
+/**
+ * Durable background jobs (scheduled send for now). Rows survive restarts;
+ * the runner claims due jobs with FOR UPDATE SKIP LOCKED and reclaims
+ * stale locks left by a crashed process.
+ *
+ * Scheduled mail itself lives in sent_mails as a `pending` row.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('jobs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.integer('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('type', 50).notNullable();
+    table.jsonb('payload').notNullable().defaultTo('{}');
+    table.timestamp('run_at').notNullable();
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.timestamp('locked_at').nullable();
+    table.text('last_error').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['run_at']);
+    table.index(['user_id', 'type']);
+  });
+
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.timestamp('scheduled_at').nullable(); // Send time of a scheduled (pending) mail
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.dropColumn('scheduled_at');
+  });
+  await knex.schema.dropTableIfExists('jobs');
+}
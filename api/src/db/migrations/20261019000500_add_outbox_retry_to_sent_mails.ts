@@ -0,0 +1,20 @@
+import type { Knex } from 'knex';
+
+/**
+ * Outbox: failed sends stay in sent_mails with status `failed` and
+ * `error_message`. Transient failures are retried by a `send_mail` job;
+ * these columns track how often and when the next attempt runs.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.integer('retry_count').notNullable().defaultTo(0); // Failed attempts so far
+    table.timestamp('next_retry_at').nullable(); // NULL when no automatic retry is queued
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sent_mails', (table) => {
+    table.dropColumn('retry_count');
+    table.dropColumn('next_retry_at');
+  });
+}
@@ -0,0 +1,46 @@
+import type { Knex } from 'knex';
+
+/**
+ * POP3 retention: per-account policy (leave on server, delete after download,
+ * or delete after N days), the UIDL hashes MailVoyage has downloaded, and an
+ * audit log of every message it deleted from a POP3 server.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('email_accounts', (table) => {
+    table.string('pop3_policy', 30).notNullable().defaultTo('leave');
+    table.integer('pop3_retention_days').nullable();
+  });
+
+  // One row per downloaded message still on the server (hash of its UIDL)
+  await knex.schema.createTable('pop3_downloads', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable()
+      .references('id').inTable('users').onDelete('CASCADE');
+    table.string('account_code', 10).notNullable();
+    table.bigInteger('uid').notNullable(); // hashed UIDL, same as inbox_cache.uid
+    table.timestamp('downloaded_at').notNullable().defaultTo(knex.fn.now());
+    table.unique(['user_id', 'account_code', 'uid']);
+  });
+
+  await knex.schema.createTable('pop3_deletions', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable()
+      .references('id').inTable('users').onDelete('CASCADE');
+    table.string('account_code', 10).notNullable();
+    table.bigInteger('uid').notNullable();
+    table.string('uidl', 255).notNullable();
+    table.string('policy', 30).notNullable();
+    table.timestamp('downloaded_at').notNullable();
+    table.timestamp('deleted_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['user_id', 'account_code', 'deleted_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('pop3_deletions');
+  await knex.schema.dropTableIfExists('pop3_downloads');
+  await knex.schema.alterTable('email_accounts', (table) => {
+    table.dropColumn('pop3_retention_days');
+    table.dropColumn('pop3_policy');
+  });
+}
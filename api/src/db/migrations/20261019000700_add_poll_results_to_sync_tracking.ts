@@ -0,0 +1,25 @@
+import type { Knex } from 'knex';
+
+/**
+ * Background polling results per account: when the last attempt ran, how
+ * many mails it fetched and why it failed. `last_synced_at` becomes nullable
+ * so an account claimed for its first poll isn't reported as synced yet.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sync_tracking', (table) => {
+    table.timestamp('last_synced_at').nullable().defaultTo(knex.fn.now()).alter();
+    table.timestamp('last_attempt_at').nullable();
+    table.integer('last_fetched').nullable();
+    table.text('last_error').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`UPDATE sync_tracking SET last_synced_at = COALESCE(last_synced_at, created_at, NOW())`);
+  await knex.schema.alterTable('sync_tracking', (table) => {
+    table.dropColumn('last_error');
+    table.dropColumn('last_fetched');
+    table.dropColumn('last_attempt_at');
+    table.timestamp('last_synced_at').notNullable().defaultTo(knex.fn.now()).alter();
+  });
+}
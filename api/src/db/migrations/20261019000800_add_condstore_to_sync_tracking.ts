@@ -0,0 +1,20 @@
+import type { Knex } from 'knex';
+
+/**
+ * UIDVALIDITY and HIGHESTMODSEQ seen by the last sync of a mailbox, so the
+ * next one can ask the server only for what changed (CONDSTORE/QRESYNC) and
+ * notice when the cached UIDs have been invalidated.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sync_tracking', (table) => {
+    table.bigInteger('uid_validity').nullable();
+    table.bigInteger('highest_modseq').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sync_tracking', (table) => {
+    table.dropColumn('highest_modseq');
+    table.dropColumn('uid_validity');
+  });
+}
@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * Two-phase IMAP sync: mails are first cached with their envelope, attachment
+ * list and a short text snippet (`body_loaded = false`); the full body is
+ * fetched when the message is opened. Existing rows already have their body.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.text('snippet').nullable();
+    table.boolean('body_loaded').notNullable().defaultTo(true);
+  });
+
+  await knex.raw(`
+    UPDATE inbox_cache
+    SET snippet = LEFT(btrim(regexp_replace(text_body, '\\s+', ' ', 'g')), 200)
+    WHERE text_body IS NOT NULL
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.dropColumn('body_loaded');
+    table.dropColumn('snippet');
+  });
+}
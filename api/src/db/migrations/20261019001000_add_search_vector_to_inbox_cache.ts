@@ -0,0 +1,33 @@
+import type { Knex } from 'knex';
+
+/**
+ * Full-text search over cached mail: a generated tsvector of subject (A),
+ * sender (B), recipients (C) and body (D) with a GIN index. The `simple`
+ * configuration doesn't stem, so mail in any language is matched as typed.
+ * Addresses are indexed whole and split at `@` and `.`, so both
+ * "jane@example.com" and "jane" find them. Mails whose body isn't loaded yet
+ * are indexed by their snippet; to_tsvector rejects values over 1 MB, hence the cut.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`
+    ALTER TABLE inbox_cache ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', coalesce(subject, '')), 'A') ||
+      setweight(to_tsvector('simple',
+        coalesce(from_name, '') || ' ' || from_address || ' ' || translate(from_address, '@.', '  ')
+      ), 'B') ||
+      setweight(to_tsvector('simple',
+        coalesce(to_addresses::text, '') || ' ' || translate(coalesce(to_addresses::text, ''), '@.', '  ')
+      ), 'C') ||
+      setweight(to_tsvector('simple', left(coalesce(text_body, snippet, ''), 200000)), 'D')
+    ) STORED
+  `);
+
+  await knex.raw('CREATE INDEX inbox_cache_search_vector_idx ON inbox_cache USING GIN (search_vector)');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS inbox_cache_search_vector_idx');
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.dropColumn('search_vector');
+  });
+}
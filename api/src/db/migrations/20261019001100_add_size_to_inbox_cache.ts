@@ -0,0 +1,17 @@
+import type { Knex } from 'knex';
+
+/**
+ * Message size in bytes (IMAP RFC822.SIZE, or the downloaded POP3 message),
+ * for filter rules that match on size. Rows cached before stay NULL.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.integer('size').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('inbox_cache', (table) => {
+    table.dropColumn('size');
+  });
+}
@@ -0,0 +1,31 @@
+import type { Knex } from 'knex';
+
+/**
+ * User-defined filter rules, applied in `position` order to new INBOX mail
+ * during sync and on demand to cached mail. Conditions and actions are JSON
+ * arrays (see utils/mailRules.ts); a NULL account_code applies to every account.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('mail_rules', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 255).notNullable();
+    table.string('account_code', 10).nullable();
+    table.boolean('enabled').notNullable().defaultTo(true);
+    table.integer('position').notNullable().defaultTo(0);
+    // true: every condition must match, false: any of them
+    table.boolean('match_all').notNullable().defaultTo(true);
+    table.jsonb('conditions').notNullable().defaultTo('[]');
+    table.jsonb('actions').notNullable().defaultTo('[]');
+    // Skip the rules after this one when it matches
+    table.boolean('stop_processing').notNullable().defaultTo(false);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'position']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('mail_rules');
+}
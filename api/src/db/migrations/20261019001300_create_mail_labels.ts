@@ -0,0 +1,23 @@
+import type { Knex } from 'knex';
+
+/**
+ * Labels a user can put on mail, with a colour. A label's name is the IMAP
+ * keyword stored on the messages (inbox_cache.labels mirrors the keywords).
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('mail_labels', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 100).notNullable();
+    // Palette key, e.g. "blue" (see the client's src/lib/labels.ts)
+    table.string('color', 20).notNullable().defaultTo('gray');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('mail_labels');
+}
@@ -0,0 +1,33 @@
+import type { Knex } from 'knex';
+
+/**
+ * Address book. Contacts are created by hand or harvested from sent mail
+ * recipients and cached INBOX senders (see utils/contacts.ts); the counters
+ * and last_contacted_at are recomputed by each harvest and rank Compose
+ * autocomplete. A deleted contact keeps its row (deleted_at) so the next
+ * harvest doesn't bring its addresses back.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('contacts', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 255).nullable();
+    // Lower-case addresses, the first one is preferred
+    table.jsonb('emails').notNullable().defaultTo('[]');
+    table.text('notes').nullable();
+    table.integer('sent_count').notNullable().defaultTo(0);
+    table.integer('received_count').notNullable().defaultTo(0);
+    table.timestamp('last_contacted_at').nullable();
+    table.timestamp('deleted_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id']);
+  });
+
+  await knex.raw('CREATE INDEX idx_contacts_emails ON contacts USING GIN (emails)');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('contacts');
+}
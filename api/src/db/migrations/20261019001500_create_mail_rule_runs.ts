@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+/**
+ * Mail the filter rules already ran on, by Message-ID (see ruleMailKey in
+ * utils/mailRules.ts). Mail trimmed from inbox_cache is inserted again when
+ * it is downloaded again, so the cache alone can't tell new mail apart.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('mail_rule_runs', (table) => {
+    table.integer('user_id').unsigned().notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('account_code', 10).notNullable();
+    table.text('mail_key').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.primary(['user_id', 'account_code', 'mail_key']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('mail_rule_runs');
+}
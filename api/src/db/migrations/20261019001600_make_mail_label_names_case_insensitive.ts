@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * IMAP keywords ignore case, so label names must be unique regardless of it.
+ * Of labels that only differ in case, the oldest is kept; their mail still
+ * carries the keyword.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DELETE FROM mail_labels a
+    USING mail_labels b
+    WHERE a.user_id = b.user_id AND lower(a.name) = lower(b.name) AND a.id > b.id
+  `);
+
+  await knex.schema.alterTable('mail_labels', (table) => {
+    table.dropUnique(['user_id', 'name']);
+  });
+  await knex.raw('CREATE UNIQUE INDEX mail_labels_user_id_lower_name_unique ON mail_labels (user_id, lower(name))');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS mail_labels_user_id_lower_name_unique');
+  await knex.schema.alterTable('mail_labels', (table) => {
+    table.unique(['user_id', 'name']);
+  });
+}
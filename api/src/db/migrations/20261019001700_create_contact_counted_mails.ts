@@ -0,0 +1,30 @@
+import type { Knex } from 'knex';
+
+/**
+ * Received mail already counted towards contacts, by Message-ID (or mailbox
+ * and UID without one), so contact counters only grow: mail trimmed from
+ * inbox_cache and fetched again isn't counted twice. The INBOX mail cached
+ * now was counted by earlier harvests.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('contact_counted_mails', (table) => {
+    table.integer('user_id').unsigned().notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('account_code', 10).notNullable();
+    table.text('mail_key').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.primary(['user_id', 'account_code', 'mail_key']);
+  });
+
+  await knex.raw(`
+    INSERT INTO contact_counted_mails (user_id, account_code, mail_key)
+    SELECT user_id, account_code, COALESCE(message_id, 'uid:' || mailbox || ':' || uid)
+    FROM inbox_cache
+    WHERE mailbox = 'INBOX'
+    ON CONFLICT DO NOTHING
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('contact_counted_mails');
+}
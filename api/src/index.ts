@@ -4,6 +4,11 @@ import { config } from './utils/config.js'; // Use centralized config
 import { initializeDb } from './db/index.js'; // Adjusted path and extension
 import { logger } from './utils/logger.js'; // Use logger
 import { wsService } from './services/websocket.service.js'; // WebSocket service
+import { jobRunner } from './services/job-runner.service.js';
+import { imapIdleManager } from './services/imap-idle.service.js';
+import { imapPool } from './services/imap-pool.service.js';
+import { pollScheduler } from './services/poll-scheduler.service.js';
+import { registerScheduledSendJobs } from './services/scheduled-mail.service.js';
 
 // Initialize Database
 initializeDb()
@@ -26,6 +31,19 @@ initializeDb()
         logger.warn('WebSocket server failed to initialize, running without real-time sync:', error);
         // Continue without WebSocket - graceful degradation
       }
+
+      // Background jobs (scheduled send); pending jobs from before a restart run on the first poll
+      registerScheduledSendJobs();
+      jobRunner.start();
+
+      // Reused IMAP connections for syncs, searches and mail actions
+      imapPool.start();
+
+      // IMAP IDLE push for users with an open WebSocket
+      imapIdleManager.start();
+
+      // Background inbox syncs, also for users without an open tab
+      pollScheduler.start();
       
       server.listen(port, () => {
         logger.info(`Server listening on http://localhost:${port}`);
@@ -36,6 +54,10 @@ initializeDb()
       const shutdown = () => {
         logger.info('Shutting down server...');
         wsService.shutdown();
+        jobRunner.shutdown();
+        imapIdleManager.shutdown();
+        pollScheduler.shutdown();
+        imapPool.shutdown();
         server.close(() => {
           logger.info('Server closed');
           process.exit(0);
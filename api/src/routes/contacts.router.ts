@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import * as contactsController from '../controllers/contacts.controller.js';
+import { authenticateToken } from '../middlewares/auth.js';
+import { validateRequest } from '../middlewares/validateRequest.js';
+import { contactSchema } from '../utils/validationSchemas.js';
+
+const router = Router();
+
+// All contact routes require authentication
+router.use(authenticateToken);
+
+// List contacts
+// GET /api/contacts
+router.get('/', contactsController.getContacts);
+
+// Create a contact
+// POST /api/contacts
+router.post('/', validateRequest({ body: contactSchema }), contactsController.createContact);
+
+// Harvest contacts from sent and received mail
+// POST /api/contacts/harvest
+router.post('/harvest', contactsController.harvestContacts);
+
+// Update a contact
+// PUT /api/contacts/:id
+router.put('/:id', validateRequest({ body: contactSchema }), contactsController.updateContact);
+
+// Delete a contact
+// DELETE /api/contacts/:id
+router.delete('/:id', contactsController.deleteContact);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import * as draftsController from '../controllers/drafts.controller.js';
+import { authenticateToken } from '../middlewares/auth.js';
+import { validateRequest } from '../middlewares/validateRequest.js';
+import { draftSchema } from '../utils/validationSchemas.js';
+
+const router = Router();
+
+// All draft routes require authentication
+router.use(authenticateToken);
+
+// List drafts (delta sync with ?since=)
+// GET /api/drafts
+router.get('/', draftsController.getDrafts);
+
+// Create or replace a draft (mirrored to IMAP \Drafts)
+// PUT /api/drafts/:id
+router.put('/:id', validateRequest({ body: draftSchema }), draftsController.saveDraft);
+
+// Delete a draft and its IMAP copy
+// DELETE /api/drafts/:id
+router.delete('/:id', draftsController.deleteDraft);
+
+export default router;
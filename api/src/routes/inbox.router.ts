@@ -19,6 +19,12 @@ router.post('/sync', inboxController.syncInbox);
 // Search mails on IMAP server (progressive date-range search)
 router.post('/search', inboxController.searchOnServer);
 
+// Ranked full-text search over the server's mail cache, all accounts and mailboxes
+router.post('/search/indexed', inboxController.searchIndexed);
+
+// Conversation (JWZ thread) a received or sent message belongs to
+router.get('/thread', inboxController.getConversation);
+
 // Get email accounts for inbox dropdown (no SMTP-only)
 router.get('/accounts', inboxController.getInboxAccounts);
 
@@ -26,4 +32,18 @@ router.get('/accounts', inboxController.getInboxAccounts);
 router.get('/settings', inboxController.getSettings);
 router.put('/settings', inboxController.updateSettings);
 
+// Write-back: flags, deletion and filing on the mail server
+router.patch('/:accountCode/:uid/flags', inboxController.updateMailFlags);
+router.patch('/:accountCode/flags', inboxController.bulkUpdateMailFlags);
+router.post('/:accountCode/delete', inboxController.bulkDeleteMails);
+router.post('/:accountCode/move', inboxController.moveMails);
+router.post('/:accountCode/copy', inboxController.copyMails);
+router.delete('/:accountCode/:uid', inboxController.deleteMail);
+
+// Full body of a received message (fetched from IMAP on first open, then cached)
+router.get('/:accountCode/:uid/body', inboxController.getMailBody);
+
+// Attachment content for received mail (IMAP BODYSTRUCTURE part, cached on disk)
+router.get('/:accountCode/:uid/attachments/:index', inboxController.downloadAttachment);
+
 export default router;
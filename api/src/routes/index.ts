@@ -6,6 +6,11 @@ import emailAccountsRouter from './email-accounts.router.js';
 import smtpAccountsRouter from './smtp-accounts.router.js';
 import sentMailsRouter from './sent-mails.router.js';
 import inboxRouter from './inbox.router.js';
+import draftsRouter from './drafts.router.js';
+import rulesRouter from './rules.router.js';
+import sieveRouter from './sieve.router.js';
+import labelsRouter from './labels.router.js';
+import contactsRouter from './contacts.router.js';
 
 const router = Router();
 
@@ -16,5 +21,10 @@ router.use('/email-accounts', emailAccountsRouter);
 router.use('/smtp-accounts', smtpAccountsRouter);
 router.use('/sent-mails', sentMailsRouter);
 router.use('/inbox', inboxRouter);
+router.use('/drafts', draftsRouter);
+router.use('/rules', rulesRouter);
+router.use('/sieve', sieveRouter);
+router.use('/labels', labelsRouter);
+router.use('/contacts', contactsRouter);
 
 export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import * as labelsController from '../controllers/labels.controller.js';
+import { authenticateToken } from '../middlewares/auth.js';
+import { validateRequest } from '../middlewares/validateRequest.js';
+import { mailLabelSchema } from '../utils/validationSchemas.js';
+
+const router = Router();
+
+// All label routes require authentication
+router.use(authenticateToken);
+
+// List labels
+// GET /api/labels
+router.get('/', labelsController.getLabels);
+
+// Create a label
+// POST /api/labels
+router.post('/', validateRequest({ body: mailLabelSchema }), labelsController.createLabel);
+
+// Rename or recolour a label
+// PUT /api/labels/:id
+router.put('/:id', validateRequest({ body: mailLabelSchema }), labelsController.updateLabel);
+
+// Delete a label
+// DELETE /api/labels/:id
+router.delete('/:id', labelsController.deleteLabel);
+
+export default router;
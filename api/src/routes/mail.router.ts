@@ -2,7 +2,14 @@ import { Router } from 'express';
 import * as mailController from '../controllers/mail.controller.js';
 import { authenticateToken } from '../middlewares/auth.js';
 import { validateRequest } from '../middlewares/validateRequest.js';
-import { sendMailSchema, setupMailServerSchema } from '../utils/validationSchemas.js';
+import {
+  createFolderSchema,
+  renameFolderSchema,
+  rescheduleMailSchema,
+  scheduleMailSchema,
+  sendMailSchema,
+  setupMailServerSchema,
+} from '../utils/validationSchemas.js';
 
 const router = Router();
 
@@ -15,9 +22,27 @@ router.get('/config', mailController.getMailServerConfig);
 
 // Mail Operations
 router.post('/send', validateRequest({ body: sendMailSchema }), mailController.sendMail);
+router.post('/send/:id/undo', mailController.undoSend);
 router.get('/fetch', mailController.fetchMail); // Add query params validation later
+
+// Scheduled Send
+router.post('/schedule', validateRequest({ body: scheduleMailSchema }), mailController.scheduleMail);
+router.get('/scheduled', mailController.getScheduledMails);
+router.patch('/scheduled/:id', validateRequest({ body: rescheduleMailSchema }), mailController.rescheduleMail);
+router.delete('/scheduled/:id', mailController.cancelScheduledMail);
+
+// Outbox (failed sends)
+router.get('/outbox', mailController.getOutbox);
+router.post('/outbox/:id/retry', mailController.retryOutboxMail);
+router.post('/outbox/:id/edit', mailController.editOutboxMail);
+router.delete('/outbox/:id', mailController.discardOutboxMail);
+
+// Folders (IMAP LIST / CREATE / RENAME / DELETE)
 router.get('/folders', mailController.getFolders);
-router.post('/folders', mailController.createFolder); // Add body validation later
+router.post('/folders', validateRequest({ body: createFolderSchema }), mailController.createFolder);
+router.patch('/folders', validateRequest({ body: renameFolderSchema }), mailController.renameFolder);
+router.delete('/folders', mailController.deleteFolder);
+
 // Add routes for drafts, attachments, specific messages etc.
 
 export default router;
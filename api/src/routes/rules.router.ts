@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import * as rulesController from '../controllers/rules.controller.js';
+import { authenticateToken } from '../middlewares/auth.js';
+import { validateRequest } from '../middlewares/validateRequest.js';
+import { mailRuleSchema, runMailRulesSchema } from '../utils/validationSchemas.js';
+
+const router = Router();
+
+// All rule routes require authentication
+router.use(authenticateToken);
+
+// List filter rules
+// GET /api/rules
+router.get('/', rulesController.getRules);
+
+// Create a rule
+// POST /api/rules
+router.post('/', validateRequest({ body: mailRuleSchema }), rulesController.createRule);
+
+// Dry run over cached mail
+// POST /api/rules/preview
+router.post('/preview', validateRequest({ body: runMailRulesSchema }), rulesController.previewRules);
+
+// Apply rules to cached mail now
+// POST /api/rules/run
+router.post('/run', validateRequest({ body: runMailRulesSchema }), rulesController.runRules);
+
+// Replace a rule
+// PUT /api/rules/:id
+router.put('/:id', validateRequest({ body: mailRuleSchema }), rulesController.updateRule);
+
+// Delete a rule
+// DELETE /api/rules/:id
+router.delete('/:id', rulesController.deleteRule);
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import * as sieveController from '../controllers/sieve.controller.js';
+import { authenticateToken } from '../middlewares/auth.js';
+import { validateRequest } from '../middlewares/validateRequest.js';
+import {
+  checkSieveScriptSchema,
+  putSieveScriptSchema,
+  setActiveSieveScriptSchema,
+} from '../utils/validationSchemas.js';
+
+const router = Router();
+
+// All Sieve routes require authentication
+router.use(authenticateToken);
+
+// List scripts and server extensions
+// GET /api/sieve/scripts?accountCode=
+router.get('/scripts', sieveController.listScripts);
+
+// Read a script
+// GET /api/sieve/scripts/:name?accountCode=
+router.get('/scripts/:name', sieveController.getScript);
+
+// Create or replace a script
+// PUT /api/sieve/scripts/:name
+router.put('/scripts/:name', validateRequest({ body: putSieveScriptSchema }), sieveController.putScript);
+
+// Delete a script
+// DELETE /api/sieve/scripts/:name?accountCode=
+router.delete('/scripts/:name', sieveController.deleteScript);
+
+// Activate a script (name: null turns filtering off)
+// PUT /api/sieve/active
+router.put('/active', validateRequest({ body: setActiveSieveScriptSchema }), sieveController.setActiveScript);
+
+// Syntax check without saving
+// POST /api/sieve/check
+router.post('/check', validateRequest({ body: checkSieveScriptSchema }), sieveController.checkScript);
+
+export default router;
@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import { collectAttachmentParts, type AttachmentPart } from '../utils/mimeStructure.js';
+import { getImapCredentials, withImapMailbox } from './inbox.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CachedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Absolute path of the cached content on disk */
+  filePath: string;
+}
+
+/** Attachment in the shape sendMailFromAccount takes (base64 content) */
+export interface OutgoingAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface ForwardSource {
+  accountCode: string;
+  mailbox: string;
+  uid: number;
+  /** `attachments`: the original's attachments; `message`: the whole original as message/rfc822 */
+  mode: 'attachments' | 'message';
+  /** Subset of attachments to forward (positions in attachmentsMetadata); all when omitted */
+  attachmentIndexes?: number[];
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+// Downloaded parts are kept on disk so repeat downloads and previews don't hit IMAP again
+const CACHE_DIR = path.join(os.tmpdir(), 'mailvoyage-attachments');
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Keep forwards within what common SMTP servers accept
+const MAX_FORWARD_BYTES = 25 * 1024 * 1024;
+
+// Concurrent requests for the same part share one IMAP download
+const inFlight = new Map<string, Promise<CachedAttachment>>();
+let lastSweep = 0;
+
+/** UIDs are only unique within a UIDVALIDITY, so it is part of the key */
+function cacheKey(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  uidValidity: string | null,
+  uid: number,
+  index: number
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${userId}:${accountCode}:${mailbox}:${uidValidity ?? ''}:${uid}:${index}`)
+    .digest('hex');
+}
+
+/**
+ * Create the cache directory readable by this user only. It sits in the shared
+ * temp directory, so one someone else created (or a symlink) is refused.
+ */
+async function ensureCacheDir(): Promise<void> {
+  await fs.promises.mkdir(CACHE_DIR, { recursive: true, mode: 0o700 });
+  const stat = await fs.promises.lstat(CACHE_DIR);
+  if (!stat.isDirectory() || (process.getuid && stat.uid !== process.getuid())) {
+    throw new AppError('Attachment cache directory is not usable', 500, false);
+  }
+  if ((stat.mode & 0o777) !== 0o700) {
+    await fs.promises.chmod(CACHE_DIR, 0o700);
+  }
+}
+
+async function readCache(key: string): Promise<CachedAttachment | null> {
+  const metaPath = path.join(CACHE_DIR, `${key}.json`);
+  const filePath = path.join(CACHE_DIR, `${key}.bin`);
+  try {
+    const [metaRaw, stat] = await Promise.all([
+      fs.promises.readFile(metaPath, 'utf8'),
+      fs.promises.stat(filePath),
+    ]);
+    if (Date.now() - stat.mtimeMs > CACHE_TTL_MS) return null;
+    const meta = JSON.parse(metaRaw) as Omit<CachedAttachment, 'filePath'>;
+    return { ...meta, size: stat.size, filePath };
+  } catch {
+    return null;
+  }
+}
+
+/** Remove expired entries; runs at most once per SWEEP_INTERVAL_MS */
+async function sweepCache(): Promise<void> {
+  if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = Date.now();
+  try {
+    const entries = await fs.promises.readdir(CACHE_DIR);
+    for (const entry of entries) {
+      const entryPath = path.join(CACHE_DIR, entry);
+      const stat = await fs.promises.stat(entryPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > CACHE_TTL_MS) {
+        await fs.promises.rm(entryPath, { force: true });
+      }
+    }
+  } catch (error) {
+    logger.warn('[Attachments] Cache sweep failed:', error);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Cached metadata for the attachment (used to double-check the part we pick) */
+async function getAttachmentMetadata(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  uid: number
+): Promise<Array<{ filename: string; contentType: string; size: number }> | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT attachments_metadata FROM inbox_cache
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4`,
+      [userId, accountCode, mailbox, uid]
+    );
+    return result.rows[0]?.attachments_metadata ?? null;
+  } finally {
+    client.release();
+  }
+}
+
+/** UIDVALIDITY of the mailbox as of its last sync, which the cached UIDs belong to */
+async function getSyncedUidValidity(
+  userId: string,
+  accountCode: string,
+  mailbox: string
+): Promise<string | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT uid_validity FROM sync_tracking
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3`,
+      [userId, accountCode, mailbox]
+    );
+    return result.rows[0]?.uid_validity ?? null;
+  } finally {
+    client.release();
+  }
+}
+
+async function getMessageSubject(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  uid: number
+): Promise<string | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT subject FROM inbox_cache
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4`,
+      [userId, accountCode, mailbox, uid]
+    );
+    return result.rows[0]?.subject ?? null;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Return the content of attachment `index` (position in attachmentsMetadata)
+ * of a received message, downloading the MIME part from IMAP on a cache miss.
+ */
+export async function getInboxAttachment(
+  userId: string,
+  accountCode: string,
+  uid: number,
+  index: number,
+  mailbox: string = 'INBOX'
+): Promise<CachedAttachment> {
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('Attachments can only be downloaded from IMAP accounts', 400, true);
+  }
+
+  const uidValidity = await getSyncedUidValidity(userId, accountCode, mailbox);
+  const key = cacheKey(userId, accountCode, mailbox, uidValidity, uid, index);
+  const cached = await readCache(key);
+  if (cached) return cached;
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const download = (async (): Promise<CachedAttachment> => {
+    const metadata = await getAttachmentMetadata(userId, accountCode, mailbox, uid);
+    const expected = metadata?.[index];
+
+    await ensureCacheDir();
+    const tmpPath = path.join(CACHE_DIR, `${key}.${process.pid}.${Date.now()}.tmp`);
+
+    const { serverKey, ...result } = await withImapMailbox(creds, mailbox, 'Failed to download attachment', async (client) => {
+      // Stored under the UIDVALIDITY the part was fetched with; until a sync
+      // records a changed one, lookups under the old key just miss
+      const current = client.mailbox ? client.mailbox.uidValidity.toString() : null;
+      const message = await client.fetchOne(String(uid), { bodyStructure: true }, { uid: true });
+      if (!message || !message.bodyStructure) {
+        throw new AppError('Message not found on server', 404, true);
+      }
+
+      const parts = collectAttachmentParts(message.bodyStructure);
+      // Prefer the part whose filename matches the cached metadata
+      let target = parts[index];
+      if (expected && target?.filename !== expected.filename) {
+        target = parts.find(p => p.filename === expected.filename) ?? target;
+      }
+      if (!target) {
+        throw new AppError('Attachment not found', 404, true);
+      }
+
+      const { meta, content } = await client.download(String(uid), target.part, { uid: true });
+      await pipeline(content, fs.createWriteStream(tmpPath, { mode: 0o600 }));
+
+      return {
+        serverKey: cacheKey(userId, accountCode, mailbox, current, uid, index),
+        filename: meta.filename || target.filename || expected?.filename || `attachment-${index + 1}`,
+        contentType: meta.contentType || target.contentType,
+      };
+    }).catch(async (error) => {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw error;
+    });
+
+    const filePath = path.join(CACHE_DIR, `${serverKey}.bin`);
+    await fs.promises.rename(tmpPath, filePath);
+    await fs.promises.writeFile(path.join(CACHE_DIR, `${serverKey}.json`), JSON.stringify(result), { mode: 0o600 });
+    const { size } = await fs.promises.stat(filePath);
+
+    logger.info(`[Attachments] Cached part ${index} of ${accountCode}/${mailbox}/${uid} (${size} bytes)`);
+    void sweepCache();
+
+    return { ...result, size, filePath };
+  })();
+
+  inFlight.set(key, download);
+  try {
+    return await download;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Download the full RFC 822 source of a received message.
+ */
+async function getInboxMessageSource(
+  userId: string,
+  accountCode: string,
+  uid: number,
+  mailbox: string
+): Promise<Buffer> {
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('Only IMAP messages can be forwarded as attachments', 400, true);
+  }
+
+  return withImapMailbox(creds, mailbox, 'Failed to download message', async (client) => {
+    const { content } = await client.download(String(uid), undefined, { uid: true });
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of content) {
+      size += chunk.length;
+      if (size > MAX_FORWARD_BYTES) {
+        content.destroy();
+        throw new AppError('Message is too large to forward as an attachment', 413, true);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    if (size === 0) {
+      throw new AppError('Message not found on server', 404, true);
+    }
+    return Buffer.concat(chunks);
+  });
+}
+
+/**
+ * Attachment parts of a received message, read from its BODYSTRUCTURE.
+ * Positions match attachmentsMetadata, which is built the same way.
+ */
+async function getAttachmentParts(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  uid: number
+): Promise<AttachmentPart[]> {
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('Attachments can only be forwarded from IMAP accounts', 400, true);
+  }
+
+  return withImapMailbox(creds, mailbox, 'Failed to read the forwarded message', async (client) => {
+    const message = await client.fetchOne(String(uid), { bodyStructure: true }, { uid: true });
+    if (!message || !message.bodyStructure) {
+      throw new AppError('Message not found on server', 404, true);
+    }
+    return collectAttachmentParts(message.bodyStructure);
+  });
+}
+
+/**
+ * Resolve a forward into outgoing attachments: the original's attachments
+ * (served from the attachment cache) or the original as an .eml file.
+ * Attachments that can't be found fail the forward instead of being left out.
+ */
+export async function getForwardAttachments(
+  userId: string,
+  forward: ForwardSource
+): Promise<OutgoingAttachment[]> {
+  const { accountCode, mailbox, uid } = forward;
+
+  if (forward.mode === 'message') {
+    const [source, subject] = await Promise.all([
+      getInboxMessageSource(userId, accountCode, uid, mailbox),
+      getMessageSubject(userId, accountCode, mailbox, uid),
+    ]);
+    const base = (subject || '').replace(/[\\/:*?"<>|\r\n]+/g, ' ').trim().slice(0, 100);
+    return [{
+      filename: `${base || 'Forwarded message'}.eml`,
+      content: source.toString('base64'),
+      contentType: 'message/rfc822',
+      size: source.length,
+    }];
+  }
+
+  // Listed from the server rather than inbox_cache, which only holds the newest mails
+  const parts = await getAttachmentParts(userId, accountCode, mailbox, uid);
+  const indexes = forward.attachmentIndexes ?? parts.map((_, i) => i);
+  const missing = indexes.filter(index => !parts[index]);
+  if (missing.length > 0) {
+    throw new AppError('Attachment to forward not found on the server', 404, true);
+  }
+
+  const attachments: OutgoingAttachment[] = [];
+  let total = 0;
+  for (const index of indexes) {
+    const cached = await getInboxAttachment(userId, accountCode, uid, index, mailbox);
+    total += cached.size;
+    if (total > MAX_FORWARD_BYTES) {
+      throw new AppError('Forwarded attachments are too large to send', 413, true);
+    }
+    const content = await fs.promises.readFile(cached.filePath);
+    attachments.push({
+      filename: cached.filename,
+      content: content.toString('base64'),
+      contentType: cached.contentType,
+      size: cached.size,
+    });
+  }
+  return attachments;
+}
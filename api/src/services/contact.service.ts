@@ -0,0 +1,396 @@
+/**
+ * Contact Service for MailVoyage API
+ *
+ * The user's address book: contacts edited by hand plus the ones harvested
+ * from mail (see utils/contacts). Sending a mail and caching new INBOX mail
+ * add to the counters of the people involved; each received mail is counted
+ * once (contact_counted_mails), even when the cache trims and refetches it.
+ * - A harvest by hand counts cached INBOX mail not counted yet and adds
+ *   contacts for sent mail recipients that have none
+ * - An address belongs to at most one contact
+ * - Deleting leaves a tombstone until the address is added to a contact again
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import {
+  normalizeAddress,
+  planContactHarvest,
+  type AddressStats,
+  type HarvestContact,
+} from '../utils/contacts.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Contact {
+  id: number;
+  name: string | null;
+  emails: string[];
+  notes: string | null;
+  sentCount: number;
+  receivedCount: number;
+  lastContactedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactInput {
+  name: string;
+  emails: string[];
+  notes: string;
+}
+
+export interface ContactHarvestResult {
+  created: number;
+  updated: number;
+}
+
+const CONTACT_COLUMNS = `id, name, emails, notes, sent_count, received_count, last_contacted_at,
+  created_at, updated_at`;
+
+const mapRow = (row: Record<string, unknown>): Contact => ({
+  id: row.id as number,
+  name: (row.name as string) || null,
+  emails: (row.emails as string[]) || [],
+  notes: (row.notes as string) || null,
+  sentCount: row.sent_count as number,
+  receivedCount: row.received_count as number,
+  lastContactedAt: row.last_contacted_at ? new Date(row.last_contacted_at as string).toISOString() : null,
+  createdAt: new Date(row.created_at as string).toISOString(),
+  updatedAt: new Date(row.updated_at as string).toISOString(),
+});
+
+/** Mail to count towards the address book */
+export type ContactActivity =
+  /** INBOX mail just cached (inbox_cache ids) */
+  | { inboxIds: number[] }
+  /** A mail just sent (sent_mails id) */
+  | { sentMailId: string };
+
+// Per-address totals over the `addresses` rows of the query it ends
+const ADDRESS_TOTALS_SQL = `
+  SELECT email,
+         (array_agg(name ORDER BY at DESC) FILTER (WHERE name IS NOT NULL AND name <> ''))[1] AS name,
+         sum(sent)::int AS sent_count,
+         sum(received)::int AS received_count,
+         max(at) AS last_contacted_at
+  FROM addresses
+  WHERE email <> ''
+  GROUP BY email`;
+
+const CACHED_MAIL_KEY = `COALESCE(c.message_id, 'uid:' || c.mailbox || ':' || c.uid)`;
+
+// Senders of cached INBOX mail (all, or the ids in $2) not counted before,
+// which are marked counted
+const RECEIVED_STATS_SQL = `
+  WITH counted AS (
+    INSERT INTO contact_counted_mails (user_id, account_code, mail_key)
+    SELECT c.user_id, c.account_code, ${CACHED_MAIL_KEY}
+    FROM inbox_cache c
+    WHERE c.user_id = $1 AND c.mailbox = 'INBOX' AND ($2::int[] IS NULL OR c.id = ANY($2::int[]))
+    ON CONFLICT DO NOTHING
+    RETURNING account_code, mail_key
+  ), addresses AS (
+    SELECT lower(trim(c.from_address)) AS email, c.from_name AS name, 0 AS sent, 1 AS received, c.date AS at
+    FROM inbox_cache c
+    JOIN counted k ON k.account_code = c.account_code AND k.mail_key = ${CACHED_MAIL_KEY}
+    WHERE c.user_id = $1 AND c.mailbox = 'INBOX' AND ($2::int[] IS NULL OR c.id = ANY($2::int[]))
+  )
+  ${ADDRESS_TOTALS_SQL}`;
+
+// Recipients (To and Cc) of sent mail, all or the one in $2
+const SENT_STATS_SQL = `
+  WITH addresses AS (
+    SELECT lower(trim(r.email)) AS email, NULL::text AS name, 1 AS sent, 0 AS received, s.sent_at AS at
+    FROM sent_mails s
+    CROSS JOIN LATERAL jsonb_array_elements_text(s.to_emails || COALESCE(s.cc_emails, '[]'::jsonb)) AS r(email)
+    WHERE s.user_id = $1 AND s.status = 'sent' AND ($2::uuid IS NULL OR s.id = $2::uuid)
+  )
+  ${ADDRESS_TOTALS_SQL}`;
+
+const toStats = (row: Record<string, unknown>): AddressStats => ({
+  email: row.email as string,
+  name: (row.name as string | null) ?? null,
+  sentCount: row.sent_count as number,
+  receivedCount: row.received_count as number,
+  lastContactedAt: row.last_contacted_at ? new Date(row.last_contacted_at as string) : null,
+});
+
+// ============================================================================
+// Harvesting
+// ============================================================================
+
+/**
+ * Count mail towards the address book, creating contacts for new
+ * correspondents. Without `activity` this is a harvest by hand: every cached
+ * INBOX mail not counted yet, plus sent mail recipients without a contact.
+ */
+export async function harvestContacts(userId: string, activity?: ContactActivity): Promise<ContactHarvestResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // One harvest per user at a time, so two can't add the same address
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext('contact_harvest'), $1::int)`, [userId]);
+
+    const received = !activity || 'inboxIds' in activity
+      ? (await client.query(RECEIVED_STATS_SQL, [userId, activity?.inboxIds ?? null])).rows.map(toStats)
+      : [];
+    const sent = !activity || 'sentMailId' in activity
+      ? (await client.query(SENT_STATS_SQL, [userId, activity?.sentMailId ?? null])).rows.map(toStats)
+      : [];
+
+    const contactsResult = await client.query(
+      'SELECT id, emails, deleted_at IS NOT NULL AS deleted FROM contacts WHERE user_id = $1',
+      [userId]
+    );
+    const accountsResult = await client.query('SELECT email FROM email_accounts WHERE user_id = $1', [userId]);
+
+    const contacts: HarvestContact[] = contactsResult.rows.map(row => ({
+      id: row.id,
+      emails: row.emails || [],
+      deleted: row.deleted,
+    }));
+    const own = accountsResult.rows.map(row => row.email);
+    // Sent mail was counted when it was sent; by hand it only seeds new contacts
+    const plan = activity
+      ? planContactHarvest([...received, ...sent], contacts, own)
+      : planContactHarvest(received, contacts, own, sent);
+
+    if (plan.created.length > 0) {
+      await client.query(
+        `INSERT INTO contacts (user_id, name, emails, sent_count, received_count, last_contacted_at)
+         SELECT $1, n.name, jsonb_build_array(n.email), n.sent_count, n.received_count, n.last_contacted_at
+         FROM unnest($2::text[], $3::text[], $4::int[], $5::int[], $6::timestamptz[])
+           AS n(name, email, sent_count, received_count, last_contacted_at)`,
+        [
+          userId,
+          plan.created.map(c => c.name),
+          plan.created.map(c => c.email),
+          plan.created.map(c => c.sentCount),
+          plan.created.map(c => c.receivedCount),
+          plan.created.map(c => c.lastContactedAt),
+        ]
+      );
+    }
+    if (plan.incremented.length > 0) {
+      await client.query(
+        `UPDATE contacts c
+         SET sent_count = c.sent_count + u.sent_count,
+             received_count = c.received_count + u.received_count,
+             last_contacted_at = GREATEST(c.last_contacted_at, u.last_contacted_at)
+         FROM unnest($2::int[], $3::int[], $4::int[], $5::timestamptz[])
+           AS u(id, sent_count, received_count, last_contacted_at)
+         WHERE c.user_id = $1 AND c.id = u.id`,
+        [
+          userId,
+          plan.incremented.map(c => c.id),
+          plan.incremented.map(c => c.sentCount),
+          plan.incremented.map(c => c.receivedCount),
+          plan.incremented.map(c => c.lastContactedAt),
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    if (plan.created.length > 0) {
+      logger.debug(`[Contacts] Harvested ${plan.created.length} new contact(s) for user ${userId}`);
+    }
+    return { created: plan.created.length, updated: plan.incremented.length };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('[Contacts] Error harvesting contacts:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Harvest without failing the caller (sync and send paths).
+ */
+export function scheduleContactHarvest(userId: string, activity: ContactActivity): void {
+  harvestContacts(userId, activity).catch(() => {
+    // Already logged; received mail left uncounted is picked up by a harvest by hand
+  });
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function listContacts(userId: string): Promise<Contact[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${CONTACT_COLUMNS} FROM contacts
+       WHERE user_id = $1 AND deleted_at IS NULL
+       ORDER BY lower(COALESCE(NULLIF(name, ''), emails->>0))`,
+      [userId]
+    );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Refuse addresses that belong to another contact, and drop the tombstones
+ * that still claim any of them.
+ */
+async function claimAddresses(
+  client: PoolClient,
+  userId: string,
+  emails: string[],
+  contactId: number | null
+): Promise<void> {
+  const taken = await client.query(
+    `SELECT name, emails FROM contacts
+     WHERE user_id = $1 AND deleted_at IS NULL AND emails ?| $2::text[] AND id IS DISTINCT FROM $3`,
+    [userId, emails, contactId]
+  );
+  if (taken.rows.length > 0) {
+    const other = taken.rows[0];
+    const email = emails.find(e => (other.emails as string[]).includes(e));
+    throw new AppError(
+      `${email} already belongs to ${other.name || other.emails[0]}`,
+      409,
+      true,
+      { emails: `${email} already belongs to another contact` }
+    );
+  }
+  await client.query(
+    'DELETE FROM contacts WHERE user_id = $1 AND deleted_at IS NOT NULL AND emails ?| $2::text[]',
+    [userId, emails]
+  );
+}
+
+/**
+ * Add the mail exchanged so far with addresses just put on a contact by hand
+ * (sent mail and cached INBOX mail) to its counters.
+ */
+async function addAddressHistory(
+  client: PoolClient,
+  userId: string,
+  contactId: number,
+  emails: string[]
+): Promise<void> {
+  if (emails.length === 0) return;
+  await client.query(
+    `WITH addresses AS (
+       SELECT 1 AS sent, 0 AS received, s.sent_at AS at
+       FROM sent_mails s
+       CROSS JOIN LATERAL jsonb_array_elements_text(s.to_emails || COALESCE(s.cc_emails, '[]'::jsonb)) AS r(email)
+       WHERE s.user_id = $1 AND s.status = 'sent' AND lower(trim(r.email)) = ANY($3::text[])
+       UNION ALL
+       SELECT 0, 1, c.date
+       FROM inbox_cache c
+       WHERE c.user_id = $1 AND c.mailbox = 'INBOX' AND lower(trim(c.from_address)) = ANY($3::text[])
+     ), totals AS (
+       SELECT COALESCE(sum(sent), 0)::int AS sent, COALESCE(sum(received), 0)::int AS received, max(at) AS at
+       FROM addresses
+     )
+     UPDATE contacts
+     SET sent_count = sent_count + totals.sent,
+         received_count = received_count + totals.received,
+         last_contacted_at = GREATEST(last_contacted_at, totals.at)
+     FROM totals
+     WHERE user_id = $1 AND id = $2`,
+    [userId, contactId, emails]
+  );
+}
+
+const normalizeInput = (input: ContactInput) => ({
+  name: input.name.trim() || null,
+  emails: [...new Set(input.emails.map(normalizeAddress))],
+  notes: input.notes.trim() || null,
+});
+
+export async function createContact(userId: string, input: ContactInput): Promise<Contact> {
+  const contact = normalizeInput(input);
+  const client = await pool.connect();
+  let created: Contact;
+  try {
+    await client.query('BEGIN');
+    await claimAddresses(client, userId, contact.emails, null);
+    const result = await client.query(
+      `INSERT INTO contacts (user_id, name, emails, notes)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${CONTACT_COLUMNS}`,
+      [userId, contact.name, JSON.stringify(contact.emails), contact.notes]
+    );
+    const id = result.rows[0].id as number;
+    await addAddressHistory(client, userId, id, contact.emails);
+    const stored = await client.query(`SELECT ${CONTACT_COLUMNS} FROM contacts WHERE id = $1`, [id]);
+    await client.query('COMMIT');
+    created = mapRow(stored.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return created;
+}
+
+/**
+ * Replace a contact's name, addresses and notes.
+ * Returns null when the user has no such contact.
+ */
+export async function updateContact(userId: string, contactId: number, input: ContactInput): Promise<Contact | null> {
+  const contact = normalizeInput(input);
+  const client = await pool.connect();
+  let updated: Contact;
+  try {
+    await client.query('BEGIN');
+    const previous = await client.query(
+      'SELECT emails FROM contacts WHERE user_id = $1 AND id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [userId, contactId]
+    );
+    if (previous.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    await claimAddresses(client, userId, contact.emails, contactId);
+
+    // Addresses taken off keep their share of the counters
+    const known = new Set<string>(previous.rows[0].emails || []);
+    await addAddressHistory(client, userId, contactId, contact.emails.filter(e => !known.has(e)));
+    const result = await client.query(
+      `UPDATE contacts SET name = $3, emails = $4, notes = $5, updated_at = NOW()
+       WHERE user_id = $1 AND id = $2
+       RETURNING ${CONTACT_COLUMNS}`,
+      [userId, contactId, contact.name, JSON.stringify(contact.emails), contact.notes]
+    );
+    await client.query('COMMIT');
+    updated = mapRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return updated;
+}
+
+/**
+ * Delete a contact. Returns false when the user has no such contact.
+ */
+export async function deleteContact(userId: string, contactId: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE contacts SET deleted_at = NOW(), updated_at = NOW()
+       WHERE user_id = $1 AND id = $2 AND deleted_at IS NULL`,
+      [userId, contactId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
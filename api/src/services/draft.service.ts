@@ -0,0 +1,298 @@
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import { signalUserSync } from '../utils/signaling.js';
+import { getImapCredentials, withImapClient, withImapMailbox, type ImapCredentials } from './inbox.service.js';
+import { buildRawMessage, findSpecialUseFolder } from './mail.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Same shape as the client's DraftRecord attachments */
+export interface DraftAttachment {
+  id: string;
+  name: string;
+  size: number;
+  sizeFormatted: string;
+  type: string;
+  content: string; // base64
+}
+
+export interface Draft {
+  id: string;
+  accountCode: string | null;
+  fromEmail: string | null;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+  attachments: DraftAttachment[];
+  charCount: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Set on tombstones returned by delta sync (`since`) */
+  deletedAt: string | null;
+}
+
+export type DraftInput = Omit<Draft, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'accountCode' | 'fromEmail'> & {
+  accountCode?: string | null;
+  fromEmail?: string | null;
+  createdAt?: string;
+};
+
+const DRAFT_COLUMNS = `id, account_code, from_email, to_addresses, cc_addresses, bcc_addresses,
+  subject, html_body, text_body, attachments, char_count, created_at, updated_at, deleted_at`;
+
+const toIso = (value: Date | string | null): string | null =>
+  value === null ? null : new Date(value).toISOString();
+
+const mapRow = (row: Record<string, unknown>): Draft => ({
+  id: row.id as string,
+  accountCode: (row.account_code as string | null) ?? null,
+  fromEmail: (row.from_email as string | null) ?? null,
+  to: row.to_addresses as string,
+  cc: row.cc_addresses as string,
+  bcc: row.bcc_addresses as string,
+  subject: row.subject as string,
+  htmlContent: row.html_body as string,
+  textContent: row.text_body as string,
+  attachments: (row.attachments as DraftAttachment[]) || [],
+  charCount: row.char_count as number,
+  createdAt: toIso(row.created_at as Date)!,
+  updatedAt: toIso(row.updated_at as Date)!,
+  deletedAt: toIso(row.deleted_at as Date | null),
+});
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * List a user's drafts, newest first.
+ * With `since`, returns everything changed after it — including tombstones — for delta sync.
+ */
+export async function listDrafts(userId: string, since?: string): Promise<Draft[]> {
+  const client = await pool.connect();
+  try {
+    const result = since
+      ? await client.query(
+          `SELECT ${DRAFT_COLUMNS} FROM drafts
+           WHERE user_id = $1 AND updated_at > $2
+           ORDER BY updated_at DESC`,
+          [userId, since]
+        )
+      : await client.query(
+          `SELECT ${DRAFT_COLUMNS} FROM drafts
+           WHERE user_id = $1 AND deleted_at IS NULL
+           ORDER BY updated_at DESC`,
+          [userId]
+        );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Create or replace a draft, then mirror it to the IMAP Drafts folder in the background.
+ * Saving a draft another device already deleted fails with 410.
+ */
+export async function saveDraft(userId: string, draftId: string, input: DraftInput): Promise<Draft> {
+  const client = await pool.connect();
+  let draft: Draft;
+  try {
+    const result = await client.query(
+      `INSERT INTO drafts (
+         user_id, id, account_code, from_email, to_addresses, cc_addresses, bcc_addresses,
+         subject, html_body, text_body, attachments, char_count, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, COALESCE($13::timestamptz, NOW()), NOW())
+       ON CONFLICT (user_id, id) DO UPDATE SET
+         account_code = EXCLUDED.account_code,
+         from_email = EXCLUDED.from_email,
+         to_addresses = EXCLUDED.to_addresses,
+         cc_addresses = EXCLUDED.cc_addresses,
+         bcc_addresses = EXCLUDED.bcc_addresses,
+         subject = EXCLUDED.subject,
+         html_body = EXCLUDED.html_body,
+         text_body = EXCLUDED.text_body,
+         attachments = EXCLUDED.attachments,
+         char_count = EXCLUDED.char_count,
+         updated_at = NOW()
+       WHERE drafts.deleted_at IS NULL
+       RETURNING ${DRAFT_COLUMNS}`,
+      [
+        userId,
+        draftId,
+        input.accountCode ?? null,
+        input.fromEmail ?? null,
+        input.to,
+        input.cc,
+        input.bcc,
+        input.subject,
+        input.htmlContent,
+        input.textContent,
+        JSON.stringify(input.attachments),
+        input.charCount,
+        input.createdAt ?? null,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Draft was deleted', 410, true);
+    }
+    draft = mapRow(result.rows[0]);
+  } finally {
+    client.release();
+  }
+
+  scheduleDraftMirror(userId, draftId);
+  signalUserSync({ userId, tables: ['drafts'] });
+  return draft;
+}
+
+/**
+ * Delete a draft (tombstone for other devices) and remove its IMAP copy in the background.
+ * Returns false when the user has no such draft.
+ */
+export async function deleteDraft(userId: string, draftId: string): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE drafts
+       SET deleted_at = NOW(), updated_at = NOW(), attachments = '[]'::jsonb, html_body = '', text_body = ''
+       WHERE user_id = $1 AND id = $2 AND deleted_at IS NULL`,
+      [userId, draftId]
+    );
+    if (result.rowCount === 0) return false;
+  } finally {
+    client.release();
+  }
+
+  scheduleDraftMirror(userId, draftId);
+  signalUserSync({ userId, tables: ['drafts'] });
+  return true;
+}
+
+// ============================================================================
+// IMAP Drafts mirror
+// ============================================================================
+
+// One mirror run at a time per draft; each run mirrors the latest saved version
+const mirrorChains = new Map<string, Promise<void>>();
+
+function scheduleDraftMirror(userId: string, draftId: string): void {
+  const key = `${userId}:${draftId}`;
+  const next = (mirrorChains.get(key) ?? Promise.resolve())
+    .then(() => mirrorDraft(userId, draftId))
+    .catch(error => {
+      logger.warn(`[Drafts] Failed to mirror draft ${draftId} to IMAP:`, error);
+    });
+
+  mirrorChains.set(key, next);
+  next.finally(() => {
+    if (mirrorChains.get(key) === next) mirrorChains.delete(key);
+  });
+}
+
+/** IMAP credentials for an account that has a Drafts folder, or null (SMTP-only, POP3, removed) */
+async function getDraftsCredentials(userId: string, accountCode: string | null): Promise<ImapCredentials | null> {
+  if (!accountCode) return null;
+  try {
+    const creds = await getImapCredentials(userId, accountCode);
+    return creds.incomingType === 'IMAP' ? creds : null;
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Bring the IMAP Drafts folder in line with the draft row: APPEND the current
+ * version (\Draft \Seen), then expunge the previous copy. Tombstones only expunge.
+ */
+async function mirrorDraft(userId: string, draftId: string): Promise<void> {
+  const client = await pool.connect();
+  let row: Record<string, unknown> | undefined;
+  try {
+    const result = await client.query(
+      `SELECT ${DRAFT_COLUMNS}, imap_account_code, imap_mailbox, imap_uid, imap_synced_at
+       FROM drafts WHERE user_id = $1 AND id = $2`,
+      [userId, draftId]
+    );
+    row = result.rows[0];
+  } finally {
+    client.release();
+  }
+  if (!row) return;
+
+  const draft = mapRow(row);
+  const previous = row.imap_mailbox && row.imap_uid
+    ? { accountCode: row.imap_account_code as string, mailbox: row.imap_mailbox as string, uid: row.imap_uid as number }
+    : null;
+
+  const alreadyMirrored = toIso(row.imap_synced_at as Date | null) === draft.updatedAt;
+  if (alreadyMirrored && (draft.deletedAt === null || previous === null)) return;
+
+  // APPEND the current version
+  let current: { accountCode: string; mailbox: string; uid: number | null } | null = null;
+  const creds = draft.deletedAt === null ? await getDraftsCredentials(userId, draft.accountCode) : null;
+  if (creds) {
+    const raw = await buildRawMessage({
+      from: draft.fromEmail || creds.email,
+      to: draft.to || undefined,
+      cc: draft.cc || undefined,
+      bcc: draft.bcc || undefined,
+      subject: draft.subject,
+      html: draft.htmlContent,
+      text: draft.textContent || undefined,
+      date: new Date(draft.updatedAt),
+      attachments: draft.attachments.map(att => ({
+        filename: att.name,
+        content: Buffer.from(att.content, 'base64'),
+        contentType: att.type || undefined,
+      })),
+    });
+
+    current = await withImapClient(creds, 'Failed to save draft to Drafts folder', async (imap) => {
+      const draftsPath = await findSpecialUseFolder(imap, '\\Drafts');
+      if (!draftsPath) {
+        logger.warn(`[Drafts] No Drafts folder found for account ${creds.accountCode}, copy not saved`);
+        return null;
+      }
+      const appended = await imap.append(draftsPath, raw, ['\\Draft', '\\Seen'], new Date(draft.updatedAt));
+      // Without UIDPLUS the new copy can't be expunged on the next save
+      return { accountCode: creds.accountCode, mailbox: draftsPath, uid: appended ? appended.uid ?? null : null };
+    });
+  }
+
+  // Expunge the previous version; a leftover copy is better than losing track of the new one
+  if (previous) {
+    try {
+      const previousCreds = await getDraftsCredentials(userId, previous.accountCode);
+      if (previousCreds) {
+        await withImapMailbox(previousCreds, previous.mailbox, 'Failed to remove old draft', async (imap) => {
+          await imap.messageDelete(String(previous.uid), { uid: true });
+        });
+      }
+    } catch (error) {
+      logger.warn(`[Drafts] Old copy of draft ${draftId} left in ${previous.mailbox}:`, error);
+    }
+  }
+
+  const update = await pool.connect();
+  try {
+    await update.query(
+      `UPDATE drafts
+       SET imap_account_code = $3, imap_mailbox = $4, imap_uid = $5, imap_synced_at = $6
+       WHERE user_id = $1 AND id = $2`,
+      [userId, draftId, current?.accountCode ?? null, current?.mailbox ?? null, current?.uid ?? null, draft.updatedAt]
+    );
+  } finally {
+    update.release();
+  }
+
+  logger.debug(`[Drafts] Mirrored draft ${draftId} to IMAP${current ? ` (${current.mailbox}, uid ${current.uid})` : ''}`);
+}
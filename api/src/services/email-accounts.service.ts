@@ -1,6 +1,8 @@
 import pool from '../db/index.js';
 import { logger } from '../utils/logger.js';
 import { encrypt as encPwd, tryDecrypt, isEncrypted } from '../utils/crypto.js';
+import type { Pop3Policy } from '../utils/pop3Retention.js';
+import { buildImapConfig, type ImapCredentials } from './inbox.service.js';
 import { ImapFlow } from 'imapflow';
 import nodemailer from 'nodemailer';
 import net from 'node:net';
@@ -24,6 +26,11 @@ interface EmailAccount {
   outgoingUsername?: string;
   outgoingPassword?: string;
   outgoingSecurity: 'SSL' | 'STARTTLS' | 'NONE';
+  /** APPEND sent mail to the IMAP \Sent folder (off for providers that do it themselves) */
+  saveToSent?: boolean;
+  /** POP3 only: leave mail on the server, delete it after download, or after pop3RetentionDays */
+  pop3Policy?: Pop3Policy;
+  pop3RetentionDays?: number | null;
   isActive?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -47,6 +54,9 @@ const mapFromDb = (data: Record<string, unknown>): EmailAccount => ({
   outgoingUsername: data.outgoing_username as string,
   outgoingPassword: data.outgoing_password as string,
   outgoingSecurity: data.outgoing_security as 'SSL' | 'STARTTLS' | 'NONE',
+  saveToSent: data.save_to_sent as boolean,
+  pop3Policy: data.pop3_policy as Pop3Policy,
+  pop3RetentionDays: (data.pop3_retention_days as number | null) ?? null,
   isActive: data.is_active as boolean,
   createdAt: data.created_at as Date,
   updatedAt: data.updated_at as Date
@@ -79,7 +89,7 @@ export const getEmailAccountsByUserId = async (userId: string): Promise<EmailAcc
     const query = `
       SELECT id, user_id, email, password, account_code, is_primary, incoming_type, incoming_host, incoming_port,
              incoming_username, incoming_security, outgoing_host, outgoing_port,
-             outgoing_username, outgoing_password, outgoing_security, is_active,
+             outgoing_username, outgoing_password, outgoing_security, save_to_sent, pop3_policy, pop3_retention_days, is_active,
              created_at, updated_at
       FROM email_accounts
       WHERE user_id = $1 AND is_active = true
@@ -103,7 +113,7 @@ export const getEmailAccountById = async (accountId: string, userId: string): Pr
     const query = `
       SELECT id, user_id, email, password, account_code, is_primary, incoming_type, incoming_host, incoming_port,
              incoming_username, incoming_security, outgoing_host, outgoing_port,
-             outgoing_username, outgoing_password, outgoing_security, is_active,
+             outgoing_username, outgoing_password, outgoing_security, save_to_sent, pop3_policy, pop3_retention_days, is_active,
              created_at, updated_at
       FROM email_accounts
       WHERE id = $1 AND user_id = $2 AND is_active = true
@@ -177,7 +187,7 @@ export const createEmailAccount = async (accountData: EmailAccount): Promise<Ema
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING id, user_id, email, password, account_code, incoming_type, incoming_host, incoming_port,
                 incoming_username, incoming_security, outgoing_host, outgoing_port,
-                outgoing_username, outgoing_password, outgoing_security, is_active,
+                outgoing_username, outgoing_password, outgoing_security, save_to_sent, pop3_policy, pop3_retention_days, is_active,
                 created_at, updated_at
     `;
     
@@ -276,7 +286,10 @@ export const updateEmailAccount = async (accountId: string, userId: string, upda
       outgoingHost: 'outgoing_host',
       outgoingPort: 'outgoing_port',
       outgoingUsername: 'outgoing_username',
-      outgoingSecurity: 'outgoing_security'
+      outgoingSecurity: 'outgoing_security',
+      saveToSent: 'save_to_sent',
+      pop3Policy: 'pop3_policy',
+      pop3RetentionDays: 'pop3_retention_days'
     };
     
     Object.entries(fieldMappings).forEach(([jsField, dbField]) => {
@@ -317,7 +330,7 @@ export const updateEmailAccount = async (accountId: string, userId: string, upda
       WHERE id = $${whereIdParam} AND user_id = $${whereUserIdParam}
       RETURNING id, user_id, email, password, account_code, is_primary, incoming_type, incoming_host, incoming_port,
                 incoming_username, incoming_security, outgoing_host, outgoing_port,
-                outgoing_username, outgoing_password, outgoing_security, is_active,
+                outgoing_username, outgoing_password, outgoing_security, save_to_sent, pop3_policy, pop3_retention_days, is_active,
                 created_at, updated_at
     `;
     
@@ -539,7 +552,7 @@ export const testEmailAccountConnection = async (accountId: string, userId: stri
   const client = await pool.connect();
   try {
     const query = `
-      SELECT id, email, password, incoming_type, incoming_host, incoming_port, incoming_username, incoming_security,
+      SELECT id, account_code, email, password, incoming_type, incoming_host, incoming_port, incoming_username, incoming_security,
              outgoing_host, outgoing_port, outgoing_username, outgoing_password, outgoing_security
       FROM email_accounts 
       WHERE id = $1 AND user_id = $2 AND is_active = true
@@ -570,12 +583,15 @@ export const testEmailAccountConnection = async (accountId: string, userId: stri
     // 1) Test incoming server (IMAP or POP3)
   if (acc.incoming_type === 'IMAP') {
       await testImap({
+        userId,
+        email: acc.email,
+        accountCode: acc.account_code,
         host: acc.incoming_host,
         port: Number(acc.incoming_port),
-        secure: (acc.incoming_security || 'SSL') === 'SSL',
-        starttls: (acc.incoming_security || 'SSL') === 'STARTTLS',
-        user: acc.incoming_username || acc.email,
-    pass: incomingPass,
+        username: acc.incoming_username || acc.email,
+        password: incomingPass,
+        security: acc.incoming_security || 'SSL',
+        incomingType: acc.incoming_type,
       });
     } else {
       await testPop3({
@@ -610,21 +626,15 @@ export const testEmailAccountConnection = async (accountId: string, userId: stri
 
 // ----- Helpers for testing servers -----
 
-async function testImap(opts: { host: string; port: number; secure: boolean; starttls?: boolean; user: string; pass: string; }): Promise<void> {
-  const client = new ImapFlow({
-    host: opts.host,
-    port: opts.port,
-    secure: opts.secure,
-    auth: { user: opts.user, pass: opts.pass },
-    logger: false,
-  });
+// A fresh connection outside the pool: a pooled one logged in earlier would
+// pass without checking the server, certificate or credentials again
+async function testImap(creds: ImapCredentials): Promise<void> {
+  const client = new ImapFlow(buildImapConfig(creds));
   try {
     await client.connect();
-    // ImapFlow negotiates STARTTLS automatically when server requires
-    // noop login sufficient
   } finally {
     try { await client.logout(); } catch { /* best-effort cleanup */ }
-    try { await client.close(); } catch { /* best-effort cleanup */ }
+    try { client.close(); } catch { /* best-effort cleanup */ }
   }
 }
 
@@ -0,0 +1,316 @@
+/**
+ * IMAP IDLE Manager for MailVoyage API
+ *
+ * Pushes new mail to users while they have the app open.
+ * - One ImapFlow connection per active IMAP account of each user with an open WebSocket
+ * - Connections select INBOX and IDLE; on EXISTS the new UIDs are synced into
+ *   inbox_cache and the user gets an `inbox_new_mail` signal
+ * - Dropped connections reconnect with exponential backoff
+ * - The total number of IDLE connections is capped; accounts over the cap
+ *   still get new mail through regular syncs
+ */
+
+import { ImapFlow } from 'imapflow';
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { signalNewInboxMail } from '../utils/signaling.js';
+import { wsService } from './websocket.service.js';
+import { buildImapConfig, getImapCredentials, getLastSyncedUid, syncInbox } from './inbox.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface IdleSession {
+  userId: string;
+  accountCode: string;
+  client: ImapFlow | null;
+  /** Failed connection attempts since the last successful one */
+  failures: number;
+  reconnectTimer: NodeJS.Timeout | null;
+  /** A sync is running; `syncPending` makes it run again for EXISTS seen meanwhile */
+  isSyncing: boolean;
+  syncPending: boolean;
+  stopped: boolean;
+}
+
+// ============================================================================
+// IDLE Manager Class
+// ============================================================================
+
+class ImapIdleManager {
+  /** userId → accountCode → session */
+  private sessions: Map<string, Map<string, IdleSession>> = new Map();
+  private isStarted = false;
+
+  private readonly MAX_CONNECTIONS = 200;
+  private readonly BASE_RECONNECT_DELAY = 5000; // 5 seconds
+  private readonly MAX_RECONNECT_DELAY = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_FAILURES = 10; // then wait until the user reconnects
+
+  /**
+   * Follow WebSocket presence: watch a user's accounts while they are online
+   */
+  start(): void {
+    if (this.isStarted) return;
+
+    wsService.onPresenceChange((userId, online) => {
+      if (online) {
+        void this.watchUser(userId);
+      } else {
+        this.unwatchUser(userId);
+      }
+    });
+
+    this.isStarted = true;
+    logger.info(`[IDLE] Manager started (max ${this.MAX_CONNECTIONS} connections)`);
+  }
+
+  /** Sessions holding (or reconnecting) an IDLE connection */
+  private get connectionCount(): number {
+    let count = 0;
+    for (const userSessions of this.sessions.values()) {
+      count += userSessions.size;
+    }
+    return count;
+  }
+
+  /**
+   * Open an IDLE connection for each active IMAP account of the user
+   */
+  async watchUser(userId: string): Promise<void> {
+    if (!this.isStarted || this.sessions.has(userId)) return;
+
+    const userSessions: Map<string, IdleSession> = new Map();
+    this.sessions.set(userId, userSessions);
+
+    let accountCodes: string[];
+    try {
+      accountCodes = await this.getImapAccountCodes(userId);
+    } catch (error) {
+      logger.error(`[IDLE] Failed to load accounts for user ${userId}:`, error);
+      this.sessions.delete(userId);
+      return;
+    }
+
+    // The user may have gone offline while the accounts were loading
+    if (this.sessions.get(userId) !== userSessions) return;
+
+    for (const accountCode of accountCodes) {
+      if (this.connectionCount >= this.MAX_CONNECTIONS) {
+        logger.warn(`[IDLE] Connection cap reached, not watching ${accountCode} for user ${userId}`);
+        break;
+      }
+
+      const session: IdleSession = {
+        userId,
+        accountCode,
+        client: null,
+        failures: 0,
+        reconnectTimer: null,
+        isSyncing: false,
+        syncPending: false,
+        stopped: false,
+      };
+      userSessions.set(accountCode, session);
+      void this.connect(session);
+    }
+  }
+
+  /**
+   * Close all IDLE connections of the user
+   */
+  unwatchUser(userId: string): void {
+    const userSessions = this.sessions.get(userId);
+    if (!userSessions) return;
+
+    this.sessions.delete(userId);
+    for (const session of userSessions.values()) {
+      this.stopSession(session);
+    }
+    logger.info(`[IDLE] Stopped watching ${userSessions.size} account(s) for user ${userId}`);
+  }
+
+  /**
+   * Pick up added, edited or removed accounts of an online user
+   */
+  refreshUser(userId: string): void {
+    if (!this.sessions.has(userId)) return;
+    this.unwatchUser(userId);
+    if (wsService.isUserConnected(userId)) {
+      void this.watchUser(userId);
+    }
+  }
+
+  /**
+   * Close every IDLE connection
+   */
+  shutdown(): void {
+    for (const userId of Array.from(this.sessions.keys())) {
+      this.unwatchUser(userId);
+    }
+    this.isStarted = false;
+    logger.info('[IDLE] Manager shutdown complete');
+  }
+
+  // ==========================================================================
+  // Connections
+  // ==========================================================================
+
+  private async connect(session: IdleSession): Promise<void> {
+    session.reconnectTimer = null;
+    if (session.stopped) return;
+
+    const { userId, accountCode } = session;
+    let client: ImapFlow | null = null;
+
+    try {
+      const creds = await getImapCredentials(userId, accountCode);
+      if (session.stopped) return;
+
+      client = new ImapFlow(buildImapConfig(creds));
+      const current = client;
+      session.client = current;
+
+      current.on('error', (error) => {
+        logger.warn(`[IDLE] ${accountCode} connection error: ${error.message}`);
+      });
+      current.on('exists', (data) => {
+        if (data.count > data.prevCount) {
+          void this.syncNewMail(session);
+        }
+      });
+
+      await current.connect();
+      // ImapFlow enters IDLE by itself once the selected mailbox is quiet
+      await current.mailboxOpen('INBOX');
+
+      // stopSession has already logged this connection out
+      if (session.stopped) return;
+
+      // Only an established connection reconnects on close; failed attempts are handled below
+      current.on('close', () => {
+        if (session.client !== current) return;
+        session.client = null;
+        logger.info(`[IDLE] ${accountCode} connection closed for user ${userId}`);
+        this.scheduleReconnect(session);
+      });
+      if (!current.usable) {
+        throw new Error('Connection closed while opening INBOX');
+      }
+
+      session.failures = 0;
+      logger.info(`[IDLE] Watching ${accountCode} INBOX for user ${userId}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[IDLE] Failed to connect ${accountCode} for user ${userId}: ${message}`);
+
+      if (client) {
+        if (session.client === client) session.client = null;
+        client.close();
+      }
+
+      // Wrong credentials won't fix themselves; wait until the account is edited
+      if ((error as { authenticationFailed?: boolean }).authenticationFailed) {
+        logger.warn(`[IDLE] Authentication failed for ${accountCode}, not retrying`);
+        return;
+      }
+      this.scheduleReconnect(session);
+    }
+  }
+
+  private scheduleReconnect(session: IdleSession): void {
+    if (session.stopped || session.reconnectTimer) return;
+
+    session.failures++;
+    if (session.failures > this.MAX_FAILURES) {
+      logger.warn(`[IDLE] Giving up on ${session.accountCode} for user ${session.userId} after ${this.MAX_FAILURES} attempts`);
+      return;
+    }
+
+    // Exponential backoff with ±20% jitter so reconnects after an outage spread out
+    const backoff = Math.min(
+      this.BASE_RECONNECT_DELAY * 2 ** (session.failures - 1),
+      this.MAX_RECONNECT_DELAY
+    );
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    logger.info(`[IDLE] Reconnecting ${session.accountCode} in ${Math.round(delay / 1000)}s (attempt ${session.failures})`);
+    session.reconnectTimer = setTimeout(() => {
+      void this.connect(session);
+    }, delay);
+  }
+
+  private stopSession(session: IdleSession): void {
+    session.stopped = true;
+
+    if (session.reconnectTimer) {
+      clearTimeout(session.reconnectTimer);
+      session.reconnectTimer = null;
+    }
+
+    const client = session.client;
+    session.client = null;
+    if (client) {
+      client.logout().catch(() => client.close());
+    }
+  }
+
+  // ==========================================================================
+  // New mail
+  // ==========================================================================
+
+  /**
+   * Sync UIDs above the tracked one into inbox_cache and notify the user.
+   * EXISTS bursts while a sync is running are folded into one more run.
+   */
+  private async syncNewMail(session: IdleSession): Promise<void> {
+    if (session.isSyncing) {
+      session.syncPending = true;
+      return;
+    }
+
+    const { userId, accountCode } = session;
+    session.isSyncing = true;
+
+    try {
+      do {
+        session.syncPending = false;
+
+        const lastUid = await getLastSyncedUid(userId, accountCode, 'INBOX');
+        const result = await syncInbox(userId, accountCode, { mailbox: 'INBOX' });
+        const newMails = result.mails.filter(mail => mail.uid > lastUid);
+
+        if (newMails.length > 0 && !session.stopped) {
+          const newest = newMails.reduce((a, b) => (b.uid > a.uid ? b : a));
+          signalNewInboxMail(userId, accountCode, newMails.length, newest.subject);
+          logger.info(`[IDLE] ${newMails.length} new mail(s) in ${accountCode} for user ${userId}`);
+        }
+      } while (session.syncPending && !session.stopped);
+    } catch (error) {
+      logger.error(`[IDLE] Failed to sync new mail for ${accountCode}:`, error);
+    } finally {
+      session.isSyncing = false;
+    }
+  }
+
+  private async getImapAccountCodes(userId: string): Promise<string[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT account_code FROM email_accounts
+         WHERE user_id = $1 AND is_active = true AND incoming_type = 'IMAP'
+         ORDER BY is_primary DESC, created_at ASC`,
+        [userId]
+      );
+      return result.rows.map(r => r.account_code as string);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Singleton instance
+export const imapIdleManager = new ImapIdleManager();
+
+export default imapIdleManager;
@@ -0,0 +1,369 @@
+/**
+ * IMAP Connection Pool for MailVoyage API
+ *
+ * Reuses logged-in IMAP connections between requests instead of connecting
+ * and logging out for every sync, search, flag update or body fetch.
+ * - Connections are keyed by `userId:accountCode`, up to MAX_PER_ACCOUNT each;
+ *   once an account is at its limit, callers share the least busy connection
+ *   and ImapFlow queues their commands and mailbox locks
+ * - A connection that sat unused for a while is checked with NOOP before it is
+ *   handed out; one that fails, or an operation that hits a socket error or a
+ *   BAD answer, gets it replaced (application errors and NO answers don't)
+ * - Connections idle longer than IDLE_TIMEOUT are logged out by a sweep
+ * - Changed credentials (password, host, ...) retire the account's connections
+ * - IDLE push keeps its own connections (imap-idle.service)
+ */
+
+import { createHash } from 'crypto';
+import { ImapFlow, type ImapFlowOptions } from 'imapflow';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PooledConnection {
+  id: number;
+  key: string;
+  client: ImapFlow;
+  /** Operations currently using the connection */
+  leases: number;
+  /** No new leases; logged out once the current ones are released */
+  retired: boolean;
+  lastUsed: number;
+  /** Last time the server answered (connect, NOOP or a finished operation) */
+  lastVerified: number;
+}
+
+interface AccountConnections {
+  fingerprint: string;
+  connections: PooledConnection[];
+  /** Connects in flight, counted against MAX_PER_ACCOUNT */
+  pending: Set<Promise<PooledConnection>>;
+}
+
+// ============================================================================
+// Connection Pool Class
+// ============================================================================
+
+class ImapConnectionPool {
+  private accounts: Map<string, AccountConnections> = new Map();
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private nextId = 1;
+
+  private readonly MAX_PER_ACCOUNT = 2;
+  private readonly MAX_CONNECTIONS = 100;
+  private readonly IDLE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+  private readonly VERIFY_AFTER = 60 * 1000; // NOOP connections unused for a minute
+  private readonly NOOP_TIMEOUT = 10 * 1000; // 10 seconds
+  private readonly SWEEP_INTERVAL = 30 * 1000; // 30 seconds
+
+  /**
+   * Start logging out idle connections
+   */
+  start(): void {
+    if (this.sweepInterval) return;
+    this.sweepInterval = setInterval(() => this.sweep(), this.SWEEP_INTERVAL);
+    logger.info(`[Pool] IMAP connection pool started (max ${this.MAX_CONNECTIONS} connections)`);
+  }
+
+  /**
+   * Log out every pooled connection
+   */
+  shutdown(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+    for (const account of this.accounts.values()) {
+      for (const conn of [...account.connections]) this.discard(conn);
+    }
+    this.accounts.clear();
+    logger.info('[Pool] IMAP connection pool stopped');
+  }
+
+  /** Open connections, busy or not */
+  private get connectionCount(): number {
+    let count = 0;
+    for (const account of this.accounts.values()) {
+      count += account.connections.length + account.pending.size;
+    }
+    return count;
+  }
+
+  /**
+   * Run `fn` on a pooled connection for `key`. The connection goes back to the
+   * pool afterwards, unless `fn` threw an error that leaves it in doubt.
+   */
+  async withConnection<T>(
+    key: string,
+    config: ImapFlowOptions,
+    fn: (client: ImapFlow) => Promise<T>
+  ): Promise<T> {
+    const conn = await this.acquire(key, config);
+    let failed = false;
+    try {
+      return await fn(conn.client);
+    } catch (error) {
+      failed = breaksConnection(error);
+      throw error;
+    } finally {
+      this.release(conn, failed);
+    }
+  }
+
+  /**
+   * Same as withConnection, but holds a lock on `mailbox` while `fn` runs.
+   * Operations on the same connection wait for each other's locks.
+   */
+  async withMailbox<T>(
+    key: string,
+    config: ImapFlowOptions,
+    mailbox: string,
+    fn: (client: ImapFlow) => Promise<T>
+  ): Promise<T> {
+    return this.withConnection(key, config, async (client) => {
+      const lock = await client.getMailboxLock(mailbox);
+      try {
+        return await fn(client);
+      } finally {
+        lock.release();
+      }
+    });
+  }
+
+  /**
+   * Log out all connections of a user, e.g. after their accounts changed
+   */
+  closeUser(userId: string): void {
+    for (const [key, account] of this.accounts) {
+      if (key.startsWith(`${userId}:`)) this.retireAll(account);
+    }
+  }
+
+  private retireAll(account: AccountConnections): void {
+    for (const conn of [...account.connections]) {
+      conn.retired = true;
+      if (conn.leases === 0) this.discard(conn);
+    }
+  }
+
+  private async acquire(key: string, config: ImapFlowOptions): Promise<PooledConnection> {
+    const fingerprint = configFingerprint(config);
+    let account = this.accounts.get(key);
+
+    if (account && account.fingerprint !== fingerprint) {
+      this.retireAll(account);
+      account.fingerprint = fingerprint;
+    }
+    if (!account) {
+      account = { fingerprint, connections: [], pending: new Set() };
+      this.accounts.set(key, account);
+    }
+
+    // A free connection, most recently used first
+    for (;;) {
+      const free = account.connections
+        .filter(c => c.leases === 0 && !c.retired)
+        .sort((a, b) => b.lastUsed - a.lastUsed)[0];
+      if (!free) break;
+
+      free.leases++;
+      if (await this.verify(free)) return free;
+      free.leases--;
+      this.discard(free);
+    }
+
+    const current = account.connections.filter(c => !c.retired);
+    if (current.length + account.pending.size < this.MAX_PER_ACCOUNT) {
+      const conn = await this.open(key, config, account);
+      conn.leases++;
+      return conn;
+    }
+
+    // At the limit: share the least busy connection
+    const shared = current.sort((a, b) => a.leases - b.leases)[0];
+    if (shared?.client.usable) {
+      shared.leases++;
+      shared.lastUsed = Date.now();
+      return shared;
+    }
+
+    // Only connects in flight; take whichever finishes first
+    if (account.pending.size > 0) {
+      const conn = await Promise.race(account.pending);
+      conn.leases++;
+      conn.lastUsed = Date.now();
+      return conn;
+    }
+
+    const conn = await this.open(key, config, account);
+    conn.leases++;
+    return conn;
+  }
+
+  private release(conn: PooledConnection, failed: boolean): void {
+    conn.leases = Math.max(0, conn.leases - 1);
+    conn.lastUsed = Date.now();
+    if (failed) {
+      conn.retired = true;
+    } else {
+      conn.lastVerified = conn.lastUsed;
+    }
+
+    if (!conn.client.usable || (conn.leases === 0 && conn.retired)) {
+      this.discard(conn);
+    }
+  }
+
+  /**
+   * Connect and add the connection to the account's list
+   */
+  private async open(
+    key: string,
+    config: ImapFlowOptions,
+    account: AccountConnections
+  ): Promise<PooledConnection> {
+    if (this.connectionCount >= this.MAX_CONNECTIONS) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    const connect = async (): Promise<PooledConnection> => {
+      // QRESYNC is enabled for every connection so delta syncs can use it
+      const client = new ImapFlow({ ...config, qresync: true, disableAutoIdle: true });
+      const now = Date.now();
+      const conn: PooledConnection = {
+        id: this.nextId++,
+        key,
+        client,
+        leases: 0,
+        retired: false,
+        lastUsed: now,
+        lastVerified: now,
+      };
+
+      client.on('error', (error: Error) => {
+        logger.warn(`[Pool] Connection ${conn.id} (${key}) error: ${error.message}`);
+      });
+      client.on('close', () => this.remove(conn));
+
+      try {
+        await client.connect();
+      } catch (error) {
+        client.close();
+        throw error;
+      }
+      account.connections.push(conn);
+      logger.info(`[Pool] Opened connection ${conn.id} for ${key}`);
+      return conn;
+    };
+
+    const pending = connect();
+    account.pending.add(pending);
+    try {
+      return await pending;
+    } finally {
+      account.pending.delete(pending);
+    }
+  }
+
+  /**
+   * NOOP a connection that hasn't talked to the server for a while
+   */
+  private async verify(conn: PooledConnection): Promise<boolean> {
+    if (!conn.client.usable) return false;
+    if (Date.now() - conn.lastVerified < this.VERIFY_AFTER) return true;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        conn.client.noop(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('NOOP timed out')), this.NOOP_TIMEOUT);
+        }),
+      ]);
+      conn.lastVerified = Date.now();
+      return conn.client.usable;
+    } catch (error) {
+      logger.warn(`[Pool] Connection ${conn.id} (${conn.key}) failed its health check:`, error);
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Log out connections nobody used for IDLE_TIMEOUT
+   */
+  private sweep(): void {
+    const cutoff = Date.now() - this.IDLE_TIMEOUT;
+    for (const [key, account] of this.accounts) {
+      for (const conn of [...account.connections]) {
+        if (conn.leases === 0 && conn.lastUsed < cutoff) {
+          logger.info(`[Pool] Closing idle connection ${conn.id} (${key})`);
+          this.discard(conn);
+        }
+      }
+      if (account.connections.length === 0 && account.pending.size === 0) {
+        this.accounts.delete(key);
+      }
+    }
+  }
+
+  private evictLeastRecentlyUsed(): void {
+    let oldest: PooledConnection | null = null;
+    for (const account of this.accounts.values()) {
+      for (const conn of account.connections) {
+        if (conn.leases === 0 && (!oldest || conn.lastUsed < oldest.lastUsed)) oldest = conn;
+      }
+    }
+    if (oldest) {
+      this.discard(oldest);
+    } else {
+      logger.warn(`[Pool] ${this.MAX_CONNECTIONS} connections in use, opening one more`);
+    }
+  }
+
+  /**
+   * Drop a connection from the pool and log it out
+   */
+  private discard(conn: PooledConnection): void {
+    this.remove(conn);
+    if (conn.client.usable) {
+      conn.client.logout().catch(() => conn.client.close());
+    } else {
+      conn.client.close();
+    }
+  }
+
+  private remove(conn: PooledConnection): void {
+    const account = this.accounts.get(conn.key);
+    if (account) {
+      account.connections = account.connections.filter(c => c !== conn);
+    }
+  }
+}
+
+/**
+ * Whether an error leaves the connection in doubt: socket failures, timeouts
+ * (ImapFlow sets a `code`) and BAD answers. NO answers and application errors,
+ * e.g. a message that isn't there, leave it usable.
+ */
+function breaksConnection(error: unknown): boolean {
+  if (error instanceof AppError) return false;
+  const { code, responseStatus } = (error ?? {}) as { code?: unknown; responseStatus?: unknown };
+  if (responseStatus === 'NO') return false;
+  return responseStatus === 'BAD' || typeof code === 'string';
+}
+
+/** Changes whenever the server or login changes */
+function configFingerprint(config: ImapFlowOptions): string {
+  const auth = config.auth as { user?: string; pass?: string } | undefined;
+  return createHash('sha256')
+    .update(JSON.stringify([config.host, config.port, config.secure, auth?.user, auth?.pass]))
+    .digest('hex');
+}
+
+// Export singleton instance
+export const imapPool = new ImapConnectionPool();
@@ -1,22 +1,47 @@
-import { ImapFlow, ImapFlowOptions } from 'imapflow';
-import { simpleParser, AddressObject } from 'mailparser';
-import crypto from 'crypto';
+import {
+  ImapFlow,
+  ImapFlowOptions,
+  type FetchMessageObject,
+  type MailboxObject,
+  type MessageAddressObject,
+} from 'imapflow';
+import { simpleParser, AddressObject, type ParsedMail } from 'mailparser';
 import Pop3Command from 'node-pop3';
 import pool from '../db/index.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 import { tryDecrypt } from '../utils/crypto.js';
-
-/**
- * Convert a POP3 UIDL string into a stable positive integer.
- * POP3 message numbers are transient (change on deletion), so we hash
- * the UIDL value to produce a deterministic numeric UID.
- */
-function pop3UidlToNumericUid(uidlStr: string): number {
-  const hash = crypto.createHash('md5').update(uidlStr).digest();
-  // Use first 4 bytes as unsigned 32-bit int (always positive)
-  return hash.readUInt32BE(0);
-}
+import { parseMessageIdList } from '../utils/threading.js';
+import { pop3UidlToNumericUid, selectPop3Deletions } from '../utils/pop3Retention.js';
+import {
+  attachmentsFromStructure,
+  decodeSnippet,
+  findTextPart,
+  makeSnippet,
+  SNIPPET_FETCH_BYTES,
+  type TextPart,
+} from '../utils/mimeStructure.js';
+import {
+  findVanishedUids,
+  flagsToMailState,
+  selectReconcileMode,
+  type MailState,
+  type ReconcileMode,
+  type StoredMailboxState,
+} from '../utils/mailboxSync.js';
+import { scheduleConversationUpdate } from './thread.service.js';
+import { scheduleContactHarvest } from './contact.service.js';
+import { getPop3Downloads, getPop3Retention, recordPop3Session } from './pop3-retention.service.js';
+import { imapPool } from './imap-pool.service.js';
+import { applyRulesToNewMail } from './mail-rules.service.js';
+import {
+  andImapSearch,
+  findMailbox,
+  parseSearchQuery,
+  positiveTextTerms,
+  toImapSearch,
+  toSqlCondition,
+} from '../utils/searchQuery.js';
 
 // ============================================================================
 // Types
@@ -28,6 +53,10 @@ export interface InboxMail {
   accountCode: string;
   mailbox: string;
   messageId: string | null;
+  replyTo: string[] | null;      // Reply-To addresses (replies go here instead of From)
+  inReplyTo: string | null;
+  references: string[] | null;   // Message-IDs from the References header, oldest first
+  conversationId: string | null; // JWZ thread (see thread.service)
   fromAddress: string;
   fromName: string | null;
   toAddresses: string[];
@@ -46,6 +75,12 @@ export interface InboxMail {
     size: number;
   }> | null;
   labels: string[] | null;
+  /** Message size in bytes; null for mail cached before sizes were stored */
+  size: number | null;
+  /** Start of the text, for the mail list */
+  snippet: string | null;
+  /** False until the body is fetched (two-phase IMAP sync); textBody/htmlBody are null until then */
+  bodyLoaded: boolean;
   /** @internal POP3 flag for sync logic */
   _pop3?: boolean;
 }
@@ -63,6 +98,24 @@ export interface FetchFromServerResult {
   mails: InboxMail[];
   totalOnServer: number;
   fetched: number;
+  /** Changes to already cached mail (IMAP syncs given a MailboxSyncState) */
+  reconciliation?: MailboxReconciliation;
+}
+
+/** What the previous sync knew about an IMAP mailbox */
+export interface MailboxSyncState extends StoredMailboxState {
+  /** UIDs currently in inbox_cache */
+  cachedUids: number[];
+}
+
+export interface MailboxReconciliation {
+  mode: ReconcileMode;
+  uidValidity: string;
+  highestModseq: string | null;
+  /** Current flags of cached mails that (may have) changed */
+  flagUpdates: Array<{ uid: number } & MailState>;
+  /** Cached UIDs expunged on the server */
+  vanished: number[];
 }
 
 // ============================================================================
@@ -96,11 +149,26 @@ function extractName(addr: AddressObject | AddressObject[] | undefined): string
   return null;
 }
 
+/** Reply-To / In-Reply-To / References of a parsed message (conversation computed later) */
+function parseReplyHeaders(
+  parsed: ParsedMail
+): Pick<InboxMail, 'replyTo' | 'inReplyTo' | 'references' | 'conversationId'> {
+  const replyTo = extractAddresses(parsed.replyTo);
+  const references = parseMessageIdList(parsed.references);
+  return {
+    replyTo: replyTo.length > 0 ? replyTo : null,
+    inReplyTo: parseMessageIdList(parsed.inReplyTo)[0] ?? null,
+    references: references.length > 0 ? references : null,
+    conversationId: null,
+  };
+}
+
 // ============================================================================
 // Helper: Get IMAP account credentials
 // ============================================================================
 
-interface ImapCredentials {
+export interface ImapCredentials {
+  userId: string;
   email: string;
   accountCode: string;
   host: string;
@@ -111,7 +179,7 @@ interface ImapCredentials {
   incomingType: string;
 }
 
-async function getImapCredentials(userId: string, accountCode: string): Promise<ImapCredentials> {
+export async function getImapCredentials(userId: string, accountCode: string): Promise<ImapCredentials> {
   const client = await pool.connect();
   try {
     const result = await client.query(
@@ -133,6 +201,7 @@ async function getImapCredentials(userId: string, accountCode: string): Promise<
     }
 
     return {
+      userId,
       email: row.email,
       accountCode: row.account_code,
       host: row.incoming_host,
@@ -147,6 +216,191 @@ async function getImapCredentials(userId: string, accountCode: string): Promise<
   }
 }
 
+function envelopeAddresses(list: MessageAddressObject[] | undefined): string[] {
+  return (list || []).map(a => a.address).filter((a): a is string => Boolean(a));
+}
+
+/** Cached mail from an ENVELOPE/BODYSTRUCTURE fetch; the body is left for getMailBody */
+function mailFromHeaders(msg: FetchMessageObject, accountCode: string, mailbox: string): InboxMail {
+  const envelope = msg.envelope || {};
+  const fromAddresses = envelopeAddresses(envelope.from);
+  const toAddresses = envelopeAddresses(envelope.to);
+  const ccAddresses = envelopeAddresses(envelope.cc);
+  const bccAddresses = envelopeAddresses(envelope.bcc);
+  // Servers copy From into the envelope's Reply-To when the header is absent
+  const replyTo = envelopeAddresses(envelope.replyTo);
+  const hasOwnReplyTo = replyTo.length > 0 && replyTo.join(',') !== fromAddresses.join(',');
+  const references = parseMessageIdList(msg.headers?.toString().replace(/^references:/i, ''));
+  const attachments = msg.bodyStructure ? attachmentsFromStructure(msg.bodyStructure) : [];
+  const internalDate = msg.internalDate ? new Date(msg.internalDate) : null;
+
+  return {
+    id: '', // Will be assigned by DB on insert
+    uid: msg.uid,
+    accountCode,
+    mailbox,
+    messageId: envelope.messageId || null,
+    replyTo: hasOwnReplyTo ? replyTo : null,
+    inReplyTo: parseMessageIdList(envelope.inReplyTo)[0] ?? null,
+    references: references.length > 0 ? references : null,
+    conversationId: null,
+    fromAddress: fromAddresses[0] || 'unknown@unknown.com',
+    fromName: envelope.from?.find(a => a.name)?.name || null,
+    toAddresses,
+    ccAddresses: ccAddresses.length > 0 ? ccAddresses : null,
+    bccAddresses: bccAddresses.length > 0 ? bccAddresses : null,
+    subject: envelope.subject || '(No Subject)',
+    textBody: null,
+    htmlBody: null,
+    snippet: null,
+    bodyLoaded: false,
+    date: (envelope.date || internalDate || new Date()).toISOString(),
+    ...flagsToMailState(msg.flags),
+    hasAttachments: attachments.length > 0,
+    attachmentsMetadata: attachments.length > 0 ? attachments : null,
+    size: msg.size ?? null,
+  };
+}
+
+/**
+ * Phase one of a sync: envelope, BODYSTRUCTURE, flags and References for
+ * `range`, then a snippet from the first bytes of each message's text part.
+ * Messages whose text sits in the same part number share one FETCH.
+ */
+async function fetchMailHeaders(
+  client: ImapFlow,
+  range: string | number[],
+  accountCode: string,
+  mailbox: string,
+  options: { uid?: boolean } = {}
+): Promise<InboxMail[]> {
+  const mails = new Map<number, InboxMail>();
+  const textParts = new Map<number, TextPart>();
+
+  for await (const msg of client.fetch(range, {
+    uid: true,
+    flags: true,
+    envelope: true,
+    bodyStructure: true,
+    internalDate: true,
+    size: true,
+    headers: ['references'],
+  }, { uid: options.uid })) {
+    mails.set(msg.uid, mailFromHeaders(msg, accountCode, mailbox));
+    const textPart = msg.bodyStructure ? findTextPart(msg.bodyStructure) : null;
+    if (textPart) textParts.set(msg.uid, textPart);
+  }
+
+  const uidsByPart = new Map<string, number[]>();
+  for (const [uid, textPart] of textParts) {
+    uidsByPart.set(textPart.part, [...(uidsByPart.get(textPart.part) || []), uid]);
+  }
+
+  for (const [part, uids] of uidsByPart) {
+    try {
+      for await (const msg of client.fetch(uids, {
+        uid: true,
+        bodyParts: [{ key: part, maxLength: SNIPPET_FETCH_BYTES }],
+      }, { uid: true })) {
+        const raw = msg.bodyParts?.values().next().value;
+        const mail = mails.get(msg.uid);
+        const textPart = textParts.get(msg.uid);
+        if (raw && mail && textPart) {
+          mail.snippet = decodeSnippet(raw, textPart);
+        }
+      }
+    } catch (error) {
+      // The list still works without snippets
+      logger.warn(`[IMAP] Failed to fetch snippets (part ${part}) in ${mailbox}:`, error);
+    }
+  }
+
+  return [...mails.values()];
+}
+
+// ============================================================================
+// Helper: IMAP connection
+// ============================================================================
+
+/**
+ * Build the ImapFlow connection options for an account.
+ * STARTTLS accounts connect in plain text and must upgrade before auth.
+ */
+export function buildImapConfig(creds: ImapCredentials): ImapFlowOptions {
+  const imapConfig: ImapFlowOptions = {
+    host: creds.host,
+    port: creds.port,
+    secure: creds.security === 'SSL',
+    auth: {
+      user: creds.username,
+      pass: creds.password,
+    },
+    logger: false,
+    tls: {
+      rejectUnauthorized: process.env.NODE_ENV === 'production',
+      minVersion: 'TLSv1.2',
+    },
+  };
+
+  if (creds.security === 'STARTTLS') {
+    imapConfig.secure = false;
+    (imapConfig as unknown as Record<string, unknown>).starttls = { required: true };
+  }
+
+  return imapConfig;
+}
+
+function wrapImapError(error: unknown, errorPrefix: string): AppError {
+  logger.error(`[IMAP] ${errorPrefix}:`, error);
+
+  if (error instanceof AppError) return error;
+
+  const errMsg = error instanceof Error ? error.message : String(error);
+  return new AppError(`${errorPrefix}: ${errMsg}`, 502, false, { details: errMsg });
+}
+
+/**
+ * Run `fn` on the account's pooled IMAP connection (see imap-pool.service).
+ * Errors that aren't already AppErrors are wrapped with `errorPrefix`.
+ */
+export async function withImapClient<T>(
+  creds: ImapCredentials,
+  errorPrefix: string,
+  fn: (client: ImapFlow) => Promise<T>
+): Promise<T> {
+  try {
+    return await imapPool.withConnection(
+      `${creds.userId}:${creds.accountCode}`,
+      buildImapConfig(creds),
+      fn
+    );
+  } catch (error: unknown) {
+    throw wrapImapError(error, errorPrefix);
+  }
+}
+
+/**
+ * Same as withImapClient, but holds a lock on `mailbox` while `fn` runs.
+ * Other operations on the same connection queue for the lock.
+ */
+export async function withImapMailbox<T>(
+  creds: ImapCredentials,
+  mailbox: string,
+  errorPrefix: string,
+  fn: (client: ImapFlow) => Promise<T>
+): Promise<T> {
+  try {
+    return await imapPool.withMailbox(
+      `${creds.userId}:${creds.accountCode}`,
+      buildImapConfig(creds),
+      mailbox,
+      fn
+    );
+  } catch (error: unknown) {
+    throw wrapImapError(error, errorPrefix);
+  }
+}
+
 // ============================================================================
 // Helper: Get all active email accounts for a user
 // ============================================================================
@@ -187,6 +441,7 @@ export async function fetchMailsFromServer(
     limit?: number;
     sinceUid?: number;     // Fetch mails with UID > sinceUid (for incremental sync)
     page?: number;         // For server-side pagination of older mails
+    syncState?: MailboxSyncState; // Also reconcile flags and expunges of cached mail (IMAP only)
   } = {}
 ): Promise<FetchFromServerResult> {
   const {
@@ -194,6 +449,7 @@ export async function fetchMailsFromServer(
     limit = 15,
     sinceUid,
     page = 1,
+    syncState,
   } = options;
 
   const creds = await getImapCredentials(userId, accountCode);
@@ -202,11 +458,11 @@ export async function fetchMailsFromServer(
     if (sinceUid) {
       logger.debug(`[POP3] sinceUid=${sinceUid} ignored for POP3 account ${accountCode} (POP3 does not support incremental sync)`);
     }
-    return fetchMailsViaPop3(creds, accountCode, mailbox, limit, page);
+    return fetchMailsViaPop3(userId, creds, accountCode, mailbox, limit, page);
   }
 
   // Default: IMAP
-  return fetchMailsViaImap(creds, accountCode, { mailbox, limit, sinceUid, page });
+  return fetchMailsViaImap(creds, accountCode, { mailbox, limit, sinceUid, page, syncState });
 }
 
 // ============================================================================
@@ -214,6 +470,7 @@ export async function fetchMailsFromServer(
 // ============================================================================
 
 async function fetchMailsViaPop3(
+  userId: string,
   creds: ImapCredentials,
   accountCode: string,
   _mailbox: string,
@@ -243,6 +500,7 @@ async function fetchMailsViaPop3(
   });
 
   const fetchedMails: InboxMail[] = [];
+  let deletesPending = false;
 
   try {
     await pop3.connect();
@@ -277,11 +535,47 @@ async function fetchMailsViaPop3(
       uidList = Object.entries(uidListRaw).map(([k, v]) => [k, String(v)] as [string, string]);
     }
 
+    // Apply the account's retention policy to mail downloaded in earlier sessions.
+    // DELE only takes effect on QUIT, so deletions are logged after it succeeds.
+    const retention = await getPop3Retention(userId, accountCode);
+    const deletions = selectPop3Deletions(
+      retention,
+      uidList.map(([msgNum, uidl]) => ({ msgNum: parseInt(msgNum, 10), uidl })),
+      await getPop3Downloads(userId, accountCode)
+    );
+    for (const deletion of deletions) {
+      deletesPending = true;
+      await pop3.DELE(deletion.msgNum);
+    }
+    if (deletions.length > 0) {
+      const deleted = new Set(deletions.map(d => String(d.msgNum)));
+      uidList = uidList.filter(([msgNum]) => !deleted.has(msgNum));
+      logger.info(`[POP3] Deleting ${deletions.length} messages from ${accountCode} (${retention.policy})`);
+    }
+
     const totalMessages = uidList.length;
     logger.info(`[POP3] Server has ${totalMessages} messages`);
 
-    if (totalMessages === 0) {
+    const finishSession = async (downloaded: InboxMail[]) => {
       await pop3.QUIT();
+      deletesPending = false;
+      try {
+        await recordPop3Session(userId, accountCode, {
+          policy: retention.policy,
+          deleted: deletions,
+          downloadedUids: downloaded.map(m => m.uid),
+          serverUids: uidList.map(([, uidl]) => pop3UidlToNumericUid(uidl)),
+        });
+      } catch (recordError) {
+        logger.error(
+          `[POP3] Failed to record session for ${accountCode} (deleted: ${deletions.map(d => d.uidl).join(', ') || 'none'}):`,
+          recordError
+        );
+      }
+    };
+
+    if (totalMessages === 0) {
+      await finishSession([]);
       return { mails: [], totalOnServer: 0, fetched: 0 };
     }
 
@@ -321,6 +615,7 @@ async function fetchMailsViaPop3(
           accountCode,
           mailbox: 'INBOX', // POP3 only has one mailbox
           messageId: parsed.messageId || `pop3:${uidStr}`,  // fallback to UIDL if no Message-ID
+          ...parseReplyHeaders(parsed),
           fromAddress: fromAddresses[0] || 'unknown@unknown.com',
           fromName: extractName(parsed.from),
           toAddresses,
@@ -329,19 +624,22 @@ async function fetchMailsViaPop3(
           subject: parsed.subject || '(No Subject)',
           textBody: parsed.text || null,
           htmlBody: parsed.html || null,
+          snippet: makeSnippet(parsed.text),
+          bodyLoaded: true,
           date: (parsed.date || new Date()).toISOString(),
           isRead: false, // POP3 has no read/unread flags
           isStarred: false,
           hasAttachments: attachments.length > 0,
           attachmentsMetadata: attachments.length > 0 ? attachments : null,
           labels: [],
+          size: Buffer.byteLength(rawMessage),
         });
       } catch (parseErr) {
         logger.warn(`[POP3] Failed to parse message ${msgNum}:`, parseErr);
       }
     }
 
-    await pop3.QUIT();
+    await finishSession(fetchedMails);
     logger.info(`[POP3] Fetched ${fetchedMails.length} mails`);
 
     // Sort by date descending
@@ -360,7 +658,11 @@ async function fetchMailsViaPop3(
   } catch (error: unknown) {
     logger.error(`[POP3] Error fetching mails:`, error);
 
-    try { await pop3.QUIT(); } catch { /* best-effort cleanup */ }
+    // Undo pending DELEs so nothing is removed without being logged
+    try {
+      if (deletesPending) await pop3.RSET();
+      await pop3.QUIT();
+    } catch { /* best-effort cleanup */ }
 
     if (error instanceof AppError) throw error;
 
@@ -386,161 +688,530 @@ async function fetchMailsViaImap(
     limit: number;
     sinceUid?: number;
     page: number;
+    syncState?: MailboxSyncState;
   }
 ): Promise<FetchFromServerResult> {
-  const { mailbox, limit, sinceUid, page } = options;
-  const secure = creds.security === 'SSL';
+  const { mailbox, limit, page, syncState } = options;
+  let { sinceUid } = options;
+
+  const { fetchedMails, totalOnServer, reconciliation } = await withImapMailbox(
+    creds, mailbox, 'Failed to fetch emails', async (client) => {
+      // A pooled connection may have had the mailbox selected for a while;
+      // SELECT again for the current EXISTS and HIGHESTMODSEQ
+      const mb = await client.mailboxOpen(mailbox);
+
+      // Pooled connections have QRESYNC enabled, so CHANGEDSINCE fetches
+      // report expunged UIDs as VANISHED
+      const vanishedUids: number[] = [];
+      const onExpunge = (event: { uid?: number; vanished?: boolean }) => {
+        if (event.vanished && event.uid) vanishedUids.push(event.uid);
+      };
+      client.on('expunge', onExpunge);
 
-  const imapConfig: ImapFlowOptions = {
-    host: creds.host,
-    port: creds.port,
-    secure,
-    auth: {
-      user: creds.username,
-      pass: creds.password,
-    },
-    logger: false,
-    tls: {
-      rejectUnauthorized: process.env.NODE_ENV === 'production',
-      minVersion: 'TLSv1.2',
-    },
+      try {
+        const totalMessages = mb.exists || 0;
+        logger.info(`[IMAP] Mailbox ${mailbox} of ${accountCode} has ${totalMessages} messages`);
+
+        let reconciliation: MailboxReconciliation | undefined;
+        if (syncState) {
+          reconciliation = await reconcileMailbox(client, mb, syncState, vanishedUids);
+          if (reconciliation.mode === 'resync') {
+            logger.warn(`[IMAP] UIDVALIDITY of ${accountCode}/${mailbox} changed, resyncing from scratch`);
+            sinceUid = undefined;
+          }
+        }
+
+        if (totalMessages === 0) {
+          return { fetchedMails: [] as InboxMail[], totalOnServer: 0, reconciliation };
+        }
+
+        // Determine range to fetch
+        let range: string;
+        if (sinceUid && sinceUid > 0) {
+          // Incremental sync: fetch all UIDs greater than sinceUid
+          range = `${sinceUid + 1}:*`;
+        } else {
+          // Full paginated fetch: latest mails first
+          // IMAP sequence numbers are 1-based, newest = highest
+          const endSeq = Math.max(1, totalMessages - ((page - 1) * limit));
+          const startSeq = Math.max(1, endSeq - limit + 1);
+          range = `${startSeq}:${endSeq}`;
+        }
+
+        logger.info(`[IMAP] Fetching range ${range} (limit ${limit})`);
+
+        // Phase one: headers and snippets; bodies are fetched when a mail is opened
+        const isUidRange = Boolean(sinceUid && sinceUid > 0);
+        const fetchedMails = await fetchMailHeaders(client, range, accountCode, mailbox, { uid: isUidRange });
+        return { fetchedMails, totalOnServer: mb.exists || 0, reconciliation };
+      } finally {
+        client.off('expunge', onExpunge);
+      }
+    }
+  );
+
+  logger.info(`[IMAP] Fetched ${fetchedMails.length} mails from ${mailbox}`);
+
+  // Sort by date descending (newest first)
+  fetchedMails.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return {
+    mails: fetchedMails,
+    totalOnServer,
+    fetched: fetchedMails.length,
+    reconciliation,
   };
+}
 
-  if (creds.security === 'STARTTLS') {
-    imapConfig.secure = false;
-    (imapConfig as unknown as Record<string, unknown>).starttls = { required: true };
+/**
+ * Find flag changes and expunges of cached mail in the selected mailbox.
+ * With CONDSTORE only messages above the stored HIGHESTMODSEQ are fetched
+ * (plus VANISHED under QRESYNC); otherwise the flags of every cached UID are
+ * compared. A changed UIDVALIDITY returns mode `resync` without fetching.
+ */
+async function reconcileMailbox(
+  client: ImapFlow,
+  mb: MailboxObject,
+  state: MailboxSyncState,
+  vanishedUids: number[]
+): Promise<MailboxReconciliation> {
+  const current = {
+    uidValidity: mb.uidValidity.toString(),
+    highestModseq: !mb.noModseq && mb.highestModseq ? mb.highestModseq.toString() : null,
+  };
+  const mode = selectReconcileMode(state, current);
+  const reconciliation: MailboxReconciliation = { mode, ...current, flagUpdates: [], vanished: [] };
+
+  if (mode === 'resync' || mode === 'unchanged' || state.cachedUids.length === 0) {
+    return reconciliation;
   }
 
-  const client = new ImapFlow(imapConfig);
-  const fetchedMails: InboxMail[] = [];
+  const range = state.cachedUids.join(',');
+  const seenUids: number[] = [];
+  const fetchOptions = mode === 'changedsince'
+    ? { uid: true, changedSince: BigInt(state.highestModseq!) }
+    : { uid: true };
+
+  for await (const msg of client.fetch(range, { uid: true, flags: true }, fetchOptions)) {
+    seenUids.push(msg.uid);
+    reconciliation.flagUpdates.push({ uid: msg.uid, ...flagsToMailState(msg.flags) });
+  }
+
+  if (mode === 'full-diff') {
+    reconciliation.vanished = findVanishedUids(state.cachedUids, seenUids);
+  } else if (client.enabled.has('QRESYNC')) {
+    const vanished = new Set(vanishedUids);
+    reconciliation.vanished = state.cachedUids.filter(uid => vanished.has(uid));
+  } else {
+    // CONDSTORE alone doesn't report expunges: check which cached UIDs still exist
+    const existing = await client.search({ uid: range }, { uid: true });
+    reconciliation.vanished = findVanishedUids(state.cachedUids, existing || []);
+  }
+
+  logger.info(
+    `[IMAP] Reconciled ${mb.path} (${mode}): ${reconciliation.flagUpdates.length} flag update(s), ` +
+    `${reconciliation.vanished.length} expunged`
+  );
+  return reconciliation;
+}
 
+// ============================================================================
+// IMAP: Fetch a body on demand (phase two)
+// ============================================================================
+
+export interface MailBody {
+  textBody: string | null;
+  htmlBody: string | null;
+  attachmentsMetadata: InboxMail['attachmentsMetadata'];
+}
+
+/**
+ * Full body of a message: from inbox_cache when it has been loaded before,
+ * otherwise downloaded from IMAP, parsed and stored in the cache row.
+ */
+export async function getMailBody(
+  userId: string,
+  accountCode: string,
+  uid: number,
+  mailbox: string = 'INBOX'
+): Promise<MailBody> {
+  const client = await pool.connect();
   try {
-    await client.connect();
-    logger.info(`[IMAP] Connected to ${creds.host} for account ${accountCode}`);
+    const cached = await client.query(
+      `SELECT text_body, html_body, attachments_metadata, body_loaded FROM inbox_cache
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4`,
+      [userId, accountCode, mailbox, uid]
+    );
+    const row = cached.rows[0];
+    if (row?.body_loaded) {
+      return {
+        textBody: row.text_body || null,
+        htmlBody: row.html_body || null,
+        attachmentsMetadata: row.attachments_metadata || null,
+      };
+    }
+  } finally {
+    client.release();
+  }
 
-    const lock = await client.getMailboxLock(mailbox);
-    try {
-      const mb = client.mailbox;
-      if (!mb || typeof mb === 'boolean') {
-        throw new AppError('Could not open mailbox', 500, false);
-      }
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    // POP3 mail is always cached with its body; anything else is gone from the cache
+    throw new AppError('Message not found', 404, true);
+  }
 
-      const totalMessages = mb.exists || 0;
-      logger.info(`[IMAP] Mailbox ${mailbox} has ${totalMessages} messages`);
+  const source = await withImapMailbox(creds, mailbox, 'Failed to fetch message body', async (imap) => {
+    const message = await imap.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+    if (!message || !message.source) {
+      throw new AppError('Message not found on server', 404, true);
+    }
+    return message.source;
+  });
 
-      if (totalMessages === 0) {
-        return { mails: [], totalOnServer: 0, fetched: 0 };
-      }
+  const parsed = await simpleParser(source);
+  const attachments = parsed.attachments?.map(att => ({
+    filename: att.filename || 'attachment',
+    contentType: att.contentType || 'application/octet-stream',
+    size: att.size || 0,
+  })) || [];
+  const body: MailBody = {
+    textBody: parsed.text || null,
+    htmlBody: parsed.html || null,
+    attachmentsMetadata: attachments.length > 0 ? attachments : null,
+  };
 
-      // Determine range to fetch
-      let range: string;
-      if (sinceUid && sinceUid > 0) {
-        // Incremental sync: fetch all UIDs greater than sinceUid
-        range = `${sinceUid + 1}:*`;
-      } else {
-        // Full paginated fetch: latest mails first
-        // IMAP sequence numbers are 1-based, newest = highest
-        const endSeq = Math.max(1, totalMessages - ((page - 1) * limit));
-        const startSeq = Math.max(1, endSeq - limit + 1);
-        range = `${startSeq}:${endSeq}`;
-      }
+  const update = await pool.connect();
+  try {
+    await update.query(
+      `UPDATE inbox_cache
+       SET text_body = $5, html_body = $6, attachments_metadata = $7,
+           snippet = COALESCE(snippet, $8), body_loaded = true, updated_at = NOW()
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4`,
+      [
+        userId, accountCode, mailbox, uid,
+        body.textBody, body.htmlBody,
+        body.attachmentsMetadata ? JSON.stringify(body.attachmentsMetadata) : null,
+        makeSnippet(body.textBody),
+      ]
+    );
+  } finally {
+    update.release();
+  }
 
-      logger.info(`[IMAP] Fetching range ${range} (limit ${limit})`);
+  logger.info(`[IMAP] Loaded body of ${accountCode}/${mailbox}/${uid} (${source.length} bytes)`);
+  return body;
+}
 
-      // Fetch messages with envelope + source for full parsing
-      for await (const msg of client.fetch(range, {
-        envelope: true,
-        source: true,
-        flags: true,
-        uid: true,
-      })) {
-        try {
-          if (!msg.source || msg.source.length === 0) {
-            logger.warn(`[IMAP] Message UID ${msg.uid} has no source data, skipping`);
-            continue;
-          }
+// ============================================================================
+// IMAP: Write local state back to the mail server
+// ============================================================================
+
+export interface MailFlagChanges {
+  isRead?: boolean;
+  isStarred?: boolean;
+  /** Labels to add and remove, stored on the server as IMAP keywords */
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+/**
+ * Set or clear \Seen / \Flagged and keyword labels on the server and
+ * mirror the change in inbox_cache.
+ * POP3 has no server-side flags, so only the cache is updated for those accounts.
+ * Returns the number of cached rows updated.
+ */
+export async function updateMailFlags(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  changes: MailFlagChanges,
+  mailbox: string = 'INBOX'
+): Promise<number> {
+  if (uids.length === 0) return 0;
+  const addLabels = changes.addLabels ?? [];
+  const removeLabels = changes.removeLabels ?? [];
+  if (changes.isRead === undefined && changes.isStarred === undefined
+    && addLabels.length === 0 && removeLabels.length === 0) {
+    throw new AppError('No flag changes provided', 400, true);
+  }
 
-          const parsed = await simpleParser(msg.source);
-
-          const fromAddresses = extractAddresses(parsed.from);
-          const toAddresses = extractAddresses(parsed.to);
-          const ccAddresses = extractAddresses(parsed.cc);
-          const bccAddresses = extractAddresses(parsed.bcc);
-
-          const attachments = parsed.attachments?.map(att => ({
-            filename: att.filename || 'attachment',
-            contentType: att.contentType || 'application/octet-stream',
-            size: att.size || 0,
-          })) || [];
-
-          const flags = msg.flags ? [...msg.flags] : [];
-
-          fetchedMails.push({
-            id: '', // Will be assigned by DB on insert
-            uid: msg.uid,
-            accountCode,
-            mailbox,
-            messageId: parsed.messageId || null,
-            fromAddress: fromAddresses[0] || 'unknown@unknown.com',
-            fromName: extractName(parsed.from),
-            toAddresses,
-            ccAddresses: ccAddresses.length > 0 ? ccAddresses : null,
-            bccAddresses: bccAddresses.length > 0 ? bccAddresses : null,
-            subject: parsed.subject || '(No Subject)',
-            textBody: parsed.text || null,
-            htmlBody: parsed.html || null,
-            date: (parsed.date || new Date()).toISOString(),
-            isRead: flags.includes('\\Seen'),
-            isStarred: flags.includes('\\Flagged'),
-            hasAttachments: attachments.length > 0,
-            attachmentsMetadata: attachments.length > 0 ? attachments : null,
-            labels: flags.filter(f => !f.startsWith('\\')),
-          });
-        } catch (parseErr) {
-          logger.warn(`[IMAP] Failed to parse message UID ${msg.uid}:`, parseErr);
+  const creds = await getImapCredentials(userId, accountCode);
+
+  if (creds.incomingType !== 'POP3') {
+    await withImapMailbox(creds, mailbox, 'Failed to update flags on server', async (client) => {
+      const range = uids.join(',');
+      const apply = async (flag: string, value: boolean | undefined) => {
+        if (value === undefined) return;
+        if (value) {
+          await client.messageFlagsAdd(range, [flag], { uid: true });
+        } else {
+          await client.messageFlagsRemove(range, [flag], { uid: true });
         }
+      };
+      await apply('\\Seen', changes.isRead);
+      await apply('\\Flagged', changes.isStarred);
+      // Keywords ignore case: remove first, so renaming "work" to "Work" keeps it
+      if (removeLabels.length > 0) {
+        await client.messageFlagsRemove(range, removeLabels, { uid: true });
+      }
+      if (addLabels.length > 0) {
+        await client.messageFlagsAdd(range, addLabels, { uid: true });
       }
-    } finally {
-      lock.release();
+    });
+    logger.info(`[IMAP] Updated flags for ${uids.length} message(s) in ${accountCode}/${mailbox}`);
+  }
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE inbox_cache
+       SET is_read = COALESCE($5, is_read),
+           is_starred = COALESCE($6, is_starred),
+           labels = CASE WHEN jsonb_array_length($7::jsonb) = 0 AND cardinality($8::text[]) = 0 THEN labels ELSE (
+             SELECT COALESCE(jsonb_agg(label ORDER BY lower(label)), '[]'::jsonb)
+             FROM (
+               SELECT DISTINCT ON (lower(label)) label
+               FROM (
+                 SELECT label, 0 AS kept FROM jsonb_array_elements_text($7::jsonb) AS label
+                 UNION ALL
+                 SELECT label, 1 FROM jsonb_array_elements_text(COALESCE(labels, '[]'::jsonb)) AS label
+                 WHERE lower(label) <> ALL(SELECT lower(removed) FROM unnest($8::text[]) AS removed)
+               ) AS candidates
+               ORDER BY lower(label), kept
+             ) AS merged
+           ) END,
+           updated_at = NOW()
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = ANY($4::int[])`,
+      [
+        userId, accountCode, mailbox, uids, changes.isRead ?? null, changes.isStarred ?? null,
+        JSON.stringify(addLabels), removeLabels,
+      ]
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete messages on the server (\Deleted + EXPUNGE) and drop them from inbox_cache.
+ * For POP3 accounts the messages are only removed from the cache.
+ */
+export async function deleteMails(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  mailbox: string = 'INBOX'
+): Promise<number> {
+  if (uids.length === 0) return 0;
+
+  const creds = await getImapCredentials(userId, accountCode);
+
+  if (creds.incomingType !== 'POP3') {
+    await withImapMailbox(creds, mailbox, 'Failed to delete mail on server', async (client) => {
+      // messageDelete sets \Deleted and expunges (UID EXPUNGE when UIDPLUS is available)
+      await client.messageDelete(uids.join(','), { uid: true });
+    });
+    logger.info(`[IMAP] Deleted ${uids.length} message(s) from ${accountCode}/${mailbox}`);
+  }
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `DELETE FROM inbox_cache
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = ANY($4::int[])`,
+      [userId, accountCode, mailbox, uids]
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+export interface MailTransferResult {
+  mailbox: string;
+  destination: string;
+  /** Source UID → UID in the destination (from COPYUID; empty if the server lacks UIDPLUS) */
+  uidMap: Record<number, number>;
+  /** inbox_cache rows moved or copied */
+  cached: number;
+}
+
+/**
+ * Move or copy messages between folders on the server.
+ * MOVE (RFC 6851) is used when advertised, otherwise COPY followed by \Deleted + EXPUNGE.
+ */
+async function transferMails(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  mailbox: string,
+  destination: string,
+  mode: 'move' | 'copy'
+): Promise<MailTransferResult> {
+  if (uids.length === 0) {
+    return { mailbox, destination, uidMap: {}, cached: 0 };
+  }
+  if (mailbox === destination) {
+    throw new AppError('Source and destination folders are the same', 400, true);
+  }
+
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('POP3 accounts have no folders to move or copy mail between', 400, true);
+  }
+
+  const verb = mode === 'move' ? 'move' : 'copy';
+  const response = await withImapMailbox(creds, mailbox, `Failed to ${verb} mail on server`, async (client) => {
+    const range = uids.join(',');
+    if (mode === 'copy') {
+      return client.messageCopy(range, destination, { uid: true });
+    }
+    if (client.capabilities.has('MOVE')) {
+      return client.messageMove(range, destination, { uid: true });
+    }
+    logger.info(`[IMAP] ${accountCode} has no MOVE capability, using COPY + EXPUNGE`);
+    const copied = await client.messageCopy(range, destination, { uid: true });
+    if (copied) {
+      await client.messageDelete(range, { uid: true });
     }
+    return copied;
+  });
 
-    await client.logout();
-    logger.info(`[IMAP] Fetched ${fetchedMails.length} mails from ${mailbox}`);
+  if (!response) {
+    throw new AppError(`Failed to ${verb} mail to ${destination}`, 502, false);
+  }
 
-    // Sort by date descending (newest first)
-    fetchedMails.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const uidMap: Record<number, number> = {};
+  for (const [from, to] of response.uidMap ?? new Map<number, number>()) {
+    uidMap[from] = to;
+  }
+  logger.info(`[IMAP] ${mode === 'move' ? 'Moved' : 'Copied'} ${uids.length} message(s) ${accountCode}/${mailbox} → ${destination}`);
 
-    return {
-      mails: fetchedMails,
-      totalOnServer: (client.mailbox && typeof client.mailbox !== 'boolean') ? client.mailbox.exists || 0 : fetchedMails.length,
-      fetched: fetchedMails.length,
-    };
-  } catch (error: unknown) {
-    logger.error(`[IMAP] Error fetching mails:`, error);
+  const cached = await applyTransferToCache(userId, accountCode, uids, mailbox, destination, uidMap, mode);
+  return { mailbox, destination, uidMap, cached };
+}
 
-    if (client && client.usable) {
-      try { await client.logout(); } catch { /* best-effort cleanup */ }
+/**
+ * Mirror a move/copy in inbox_cache. Rows with a known destination UID are
+ * re-keyed (move) or duplicated (copy); moved rows without one are dropped
+ * and will be picked up by the next sync of the destination folder.
+ */
+async function applyTransferToCache(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  mailbox: string,
+  destination: string,
+  uidMap: Record<number, number>,
+  mode: 'move' | 'copy'
+): Promise<number> {
+  const oldUids = Object.keys(uidMap).map(Number);
+  const newUids = oldUids.map(uid => uidMap[uid]);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let cached = 0;
+
+    if (oldUids.length > 0) {
+      if (mode === 'move') {
+        // A previous sync of the destination may already hold these UIDs
+        await client.query(
+          `DELETE FROM inbox_cache
+           WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = ANY($4::int[])`,
+          [userId, accountCode, destination, newUids]
+        );
+        const result = await client.query(
+          `UPDATE inbox_cache c
+           SET uid = m.new_uid, mailbox = $4, updated_at = NOW()
+           FROM unnest($5::int[], $6::int[]) AS m(old_uid, new_uid)
+           WHERE c.user_id = $1 AND c.account_code = $2 AND c.mailbox = $3 AND c.uid = m.old_uid`,
+          [userId, accountCode, mailbox, destination, oldUids, newUids]
+        );
+        cached = result.rowCount ?? 0;
+      } else {
+        const result = await client.query(
+          `INSERT INTO inbox_cache (
+            user_id, account_code, uid, message_id, mailbox,
+            from_address, from_name, to_addresses, cc_addresses, bcc_addresses,
+            subject, text_body, html_body, snippet, body_loaded, date,
+            is_read, is_starred, has_attachments, attachments_metadata, labels,
+            reply_to, in_reply_to, reference_ids, conversation_id, size,
+            updated_at
+          )
+          SELECT c.user_id, c.account_code, m.new_uid, c.message_id, $4,
+                 c.from_address, c.from_name, c.to_addresses, c.cc_addresses, c.bcc_addresses,
+                 c.subject, c.text_body, c.html_body, c.snippet, c.body_loaded, c.date,
+                 c.is_read, c.is_starred, c.has_attachments, c.attachments_metadata, c.labels,
+                 c.reply_to, c.in_reply_to, c.reference_ids, c.conversation_id, c.size,
+                 NOW()
+          FROM inbox_cache c
+          JOIN unnest($5::int[], $6::int[]) AS m(old_uid, new_uid) ON c.uid = m.old_uid
+          WHERE c.user_id = $1 AND c.account_code = $2 AND c.mailbox = $3
+          ON CONFLICT (user_id, account_code, mailbox, uid) DO NOTHING`,
+          [userId, accountCode, mailbox, destination, oldUids, newUids]
+        );
+        cached = result.rowCount ?? 0;
+      }
     }
 
-    if (error instanceof AppError) throw error;
+    if (mode === 'move') {
+      const unmapped = uids.filter(uid => uidMap[uid] === undefined);
+      if (unmapped.length > 0) {
+        await client.query(
+          `DELETE FROM inbox_cache
+           WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = ANY($4::int[])`,
+          [userId, accountCode, mailbox, unmapped]
+        );
+      }
+    }
 
-    const errMsg = error instanceof Error ? error.message : String(error);
-    throw new AppError(
-      `Failed to fetch emails: ${errMsg}`,
-      500,
-      false,
-      { details: errMsg }
-    );
+    await client.query('COMMIT');
+    return cached;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('[InboxService] Error updating cache after move/copy:', error);
+    throw error;
+  } finally {
+    client.release();
   }
 }
 
+/**
+ * Move messages to another folder (IMAP MOVE, or COPY + EXPUNGE fallback).
+ */
+export async function moveMails(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  mailbox: string,
+  destination: string
+): Promise<MailTransferResult> {
+  return transferMails(userId, accountCode, uids, mailbox, destination, 'move');
+}
+
+/**
+ * Copy messages to another folder, leaving the originals in place.
+ */
+export async function copyMails(
+  userId: string,
+  accountCode: string,
+  uids: number[],
+  mailbox: string,
+  destination: string
+): Promise<MailTransferResult> {
+  return transferMails(userId, accountCode, uids, mailbox, destination, 'copy');
+}
+
 // ============================================================================
 // DB: Save/sync mails to inbox_cache
 // ============================================================================
 
 /**
  * Upsert fetched mails into the inbox_cache table.
- * Only keeps the latest N mails per account (configurable via user settings).
+ * Only keeps the latest N mails per account (configurable via user settings),
+ * except for POP3 accounts whose retention policy deletes mail from the server.
  */
 export async function syncMailsToCache(
   userId: string,
@@ -550,77 +1221,123 @@ export async function syncMailsToCache(
 ): Promise<InboxMail[]> {
   if (mails.length === 0) return [];
 
+  const savedMails: InboxMail[] = [];
+  // UIDs of INBOX mails new to the cache, for the filter rules
+  const newInboxUids = new Set<number>();
+  let inserted = 0;
+
+  // Determine if this is a POP3 account (POP3 has no flags; preserve local read/starred)
+  const isPop3 = mails.length > 0 && mails[0].mailbox === 'INBOX'
+    && mails[0]._pop3 === true;
+
+  // POP3 mail the retention policy deletes from the server only exists here
+  // afterwards, so the cache of such an account isn't trimmed
+  const keepAll = isPop3 && (await getPop3Retention(userId, accountCode)).policy !== 'leave';
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
-    const savedMails: InboxMail[] = [];
-
-    // Determine if this is a POP3 account (POP3 has no flags; preserve local read/starred)
-    const isPop3 = mails.length > 0 && mails[0].mailbox === 'INBOX'
-      && mails[0]._pop3 === true;
-
     for (const mail of mails) {
-      // For IMAP: overwrite flags from server (they are authoritative).
-      // For POP3: preserve locally-set is_read / is_starred (POP3 always sends false).
+      // For IMAP: overwrite flags from server (they are authoritative); a body
+      // fetched earlier survives a headers-only resync.
+      // For POP3: preserve locally-set is_read / is_starred / labels (POP3 always sends none).
       const onConflictSet = isPop3
         ? `subject = EXCLUDED.subject,
            text_body = EXCLUDED.text_body,
            html_body = EXCLUDED.html_body,
-           labels = EXCLUDED.labels,
+           snippet = EXCLUDED.snippet,
+           body_loaded = true,
+           size = COALESCE(EXCLUDED.size, inbox_cache.size),
+           reply_to = EXCLUDED.reply_to,
+           in_reply_to = EXCLUDED.in_reply_to,
+           reference_ids = EXCLUDED.reference_ids,
            updated_at = NOW()`
         : `is_read = EXCLUDED.is_read,
            is_starred = EXCLUDED.is_starred,
            subject = EXCLUDED.subject,
-           text_body = EXCLUDED.text_body,
-           html_body = EXCLUDED.html_body,
+           text_body = CASE WHEN EXCLUDED.body_loaded THEN EXCLUDED.text_body ELSE inbox_cache.text_body END,
+           html_body = CASE WHEN EXCLUDED.body_loaded THEN EXCLUDED.html_body ELSE inbox_cache.html_body END,
+           snippet = COALESCE(EXCLUDED.snippet, inbox_cache.snippet),
+           body_loaded = inbox_cache.body_loaded OR EXCLUDED.body_loaded,
            labels = EXCLUDED.labels,
+           size = COALESCE(EXCLUDED.size, inbox_cache.size),
+           reply_to = EXCLUDED.reply_to,
+           in_reply_to = EXCLUDED.in_reply_to,
+           reference_ids = EXCLUDED.reference_ids,
            updated_at = NOW()`;
 
       const result = await client.query(
         `INSERT INTO inbox_cache (
           user_id, account_code, uid, message_id, mailbox,
           from_address, from_name, to_addresses, cc_addresses, bcc_addresses,
-          subject, text_body, html_body, date,
+          subject, text_body, html_body, snippet, body_loaded, date,
           is_read, is_starred, has_attachments, attachments_metadata, labels,
+          reply_to, in_reply_to, reference_ids, size,
           updated_at
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19, NOW())
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25, NOW())
         ON CONFLICT (user_id, account_code, mailbox, uid)
         DO UPDATE SET
           ${onConflictSet}
-        RETURNING id`,
+        RETURNING id, text_body, html_body, snippet, body_loaded, (xmax = 0) AS inserted`,
         [
           userId, accountCode, mail.uid, mail.messageId, mail.mailbox,
           mail.fromAddress, mail.fromName,
           JSON.stringify(mail.toAddresses),
           mail.ccAddresses ? JSON.stringify(mail.ccAddresses) : null,
           mail.bccAddresses ? JSON.stringify(mail.bccAddresses) : null,
-          mail.subject, mail.textBody, mail.htmlBody, mail.date,
+          mail.subject, mail.textBody, mail.htmlBody, mail.snippet, mail.bodyLoaded, mail.date,
           mail.isRead, mail.isStarred, mail.hasAttachments,
           mail.attachmentsMetadata ? JSON.stringify(mail.attachmentsMetadata) : null,
           mail.labels ? JSON.stringify(mail.labels) : null,
+          mail.replyTo ? JSON.stringify(mail.replyTo) : null,
+          mail.inReplyTo,
+          mail.references ? JSON.stringify(mail.references) : null,
+          mail.size,
         ]
       );
 
-      savedMails.push({ ...mail, id: result.rows[0].id });
+      // A body loaded earlier is kept by the upsert, so return what the row holds
+      const row = result.rows[0];
+      savedMails.push({
+        ...mail,
+        id: row.id,
+        textBody: row.text_body,
+        htmlBody: row.html_body,
+        snippet: row.snippet,
+        bodyLoaded: row.body_loaded,
+      });
+      if (row.inserted) inserted++;
+      if (row.inserted && mail.mailbox === 'INBOX') newInboxUids.add(mail.uid);
     }
 
     // Trim old mails: keep only the latest `cacheLimit` per account+mailbox
-    await client.query(
-      `DELETE FROM inbox_cache
-       WHERE user_id = $1 AND account_code = $2 AND id NOT IN (
-         SELECT id FROM inbox_cache
-         WHERE user_id = $1 AND account_code = $2
-         ORDER BY date DESC
-         LIMIT $3
-       )`,
-      [userId, accountCode, cacheLimit]
-    );
+    const mailboxes = keepAll ? [] : [...new Set(mails.map(m => m.mailbox || 'INBOX'))];
+    for (const mailbox of mailboxes) {
+      await client.query(
+        `DELETE FROM inbox_cache
+         WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND id NOT IN (
+           SELECT id FROM inbox_cache
+           WHERE user_id = $1 AND account_code = $2 AND mailbox = $3
+           ORDER BY date DESC
+           LIMIT $4
+         )`,
+        [userId, accountCode, mailbox, cacheLimit]
+      );
+    }
 
     await client.query('COMMIT');
     logger.info(`[InboxService] Synced ${savedMails.length} mails to cache, limit=${cacheLimit}`);
 
-    return savedMails;
+    // Upserts of cached mail only refresh flags and bodies, which threading ignores
+    if (inserted > 0) {
+      scheduleConversationUpdate(userId);
+    }
+    if (newInboxUids.size > 0) {
+      scheduleContactHarvest(userId, {
+        inboxIds: savedMails.filter(m => newInboxUids.has(m.uid)).map(m => Number(m.id)),
+      });
+    }
   } catch (error) {
     await client.query('ROLLBACK');
     logger.error('[InboxService] Error syncing mails to cache:', error);
@@ -628,6 +1345,17 @@ export async function syncMailsToCache(
   } finally {
     client.release();
   }
+
+  if (newInboxUids.size === 0) return savedMails;
+
+  // Filter rules skip mail they already ran on; return what they left in the INBOX
+  const ruled = await applyRulesToNewMail(
+    userId, accountCode, 'INBOX', savedMails.filter(m => newInboxUids.has(m.uid))
+  );
+  const ruledByUid = new Map(ruled.map(m => [m.uid, m]));
+  return savedMails
+    .filter(m => !newInboxUids.has(m.uid) || ruledByUid.has(m.uid))
+    .map(m => ruledByUid.get(m.uid) ?? m);
 }
 
 // ============================================================================
@@ -684,6 +1412,118 @@ export async function updateSyncTracking(
   }
 }
 
+/**
+ * UIDVALIDITY/HIGHESTMODSEQ from the last sync plus the UIDs cached since,
+ * i.e. what a sync has to reconcile with the server.
+ */
+export async function getMailboxSyncState(
+  userId: string,
+  accountCode: string,
+  mailbox: string = 'INBOX'
+): Promise<MailboxSyncState> {
+  const client = await pool.connect();
+  try {
+    const tracking = await client.query(
+      `SELECT uid_validity, highest_modseq FROM sync_tracking
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3`,
+      [userId, accountCode, mailbox]
+    );
+    const cached = await client.query(
+      `SELECT uid FROM inbox_cache
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = $3
+       ORDER BY uid`,
+      [userId, accountCode, mailbox]
+    );
+    const row = tracking.rows[0];
+    return {
+      uidValidity: row?.uid_validity ?? null,
+      highestModseq: row?.highest_modseq ?? null,
+      cachedUids: cached.rows.map(r => r.uid as number),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Apply what reconcileMailbox found to inbox_cache and remember the mailbox's
+ * UIDVALIDITY/HIGHESTMODSEQ. After a UIDVALIDITY change the cached mails and
+ * the tracked UID are dropped, so the sync refetches the mailbox from scratch.
+ * Returns the number of cached mails changed or removed.
+ */
+export async function applyMailboxReconciliation(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  reconciliation: MailboxReconciliation
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let changed = 0;
+    // Removed mails can change the conversations of the rest; flag changes can't
+    let removed = 0;
+
+    if (reconciliation.mode === 'resync') {
+      const result = await client.query(
+        `DELETE FROM inbox_cache WHERE user_id = $1 AND account_code = $2 AND mailbox = $3`,
+        [userId, accountCode, mailbox]
+      );
+      removed += result.rowCount ?? 0;
+    } else {
+      for (const update of reconciliation.flagUpdates) {
+        const result = await client.query(
+          `UPDATE inbox_cache
+           SET is_read = $5, is_starred = $6, labels = $7::jsonb, updated_at = NOW()
+           WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4
+             AND (is_read IS DISTINCT FROM $5 OR is_starred IS DISTINCT FROM $6
+                  OR labels IS DISTINCT FROM $7::jsonb)`,
+          [userId, accountCode, mailbox, update.uid, update.isRead, update.isStarred, JSON.stringify(update.labels)]
+        );
+        changed += result.rowCount ?? 0;
+      }
+
+      if (reconciliation.vanished.length > 0) {
+        const result = await client.query(
+          `DELETE FROM inbox_cache
+           WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = ANY($4::int[])`,
+          [userId, accountCode, mailbox, reconciliation.vanished]
+        );
+        removed += result.rowCount ?? 0;
+      }
+    }
+    changed += removed;
+
+    await client.query(
+      `INSERT INTO sync_tracking (user_id, account_code, mailbox, last_uid, uid_validity, highest_modseq, updated_at)
+       VALUES ($1, $2, $3, 0, $4, $5, NOW())
+       ON CONFLICT (user_id, account_code, mailbox)
+       DO UPDATE SET
+         last_uid = CASE WHEN $6 THEN 0 ELSE sync_tracking.last_uid END,
+         uid_validity = EXCLUDED.uid_validity,
+         highest_modseq = EXCLUDED.highest_modseq,
+         updated_at = NOW()`,
+      [
+        userId, accountCode, mailbox,
+        reconciliation.uidValidity, reconciliation.highestModseq,
+        reconciliation.mode === 'resync',
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    if (removed > 0) {
+      scheduleConversationUpdate(userId);
+    }
+    return changed;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // ============================================================================
 // DB: Get cached mails from inbox_cache
 // ============================================================================
@@ -777,7 +1617,8 @@ export async function getAllUserSettings(userId: string): Promise<Record<string,
 
 /**
  * Search mails on the IMAP server using IMAP SEARCH.
- * Searches from, to, subject, and body within the given date range.
+ * The query is parsed as a search query (utils/searchQuery: from:, is:unread,
+ * OR, ...) and searched within the given date range; `in:` picks the mailbox.
  * Results are NOT cached in the server DB — they are returned directly
  * for the client to store in local IndexedDB only.
  *
@@ -787,7 +1628,16 @@ export interface ServerSearchResult {
   mails: InboxMail[];
   searched: number;       // how many UIDs matched
   dateRange: { since: string | null; before: string | null };
-  protocol: string;       // 'IMAP' or 'POP3'
+  protocol: string;       // 'IMAP' or 'POP3', 'FTS' for searchCachedMails
+}
+
+/** Start of the SINCE window, `sinceMonths` back at midnight (0 = all time) */
+function searchSinceDate(sinceMonths: number): Date | undefined {
+  if (sinceMonths <= 0) return undefined;
+  const sinceDate = new Date();
+  sinceDate.setMonth(sinceDate.getMonth() - sinceMonths);
+  sinceDate.setHours(0, 0, 0, 0);
+  return sinceDate;
 }
 
 export async function searchMailsOnServer(
@@ -799,7 +1649,9 @@ export async function searchMailsOnServer(
     mailbox?: string;
   } = {}
 ): Promise<ServerSearchResult> {
-  const { sinceMonths = 6, mailbox = 'INBOX' } = options;
+  const { sinceMonths = 6 } = options;
+  const parsed = parseSearchQuery(query);
+  const mailbox = findMailbox(parsed) ?? options.mailbox ?? 'INBOX';
 
   const creds = await getImapCredentials(userId, accountCode);
 
@@ -814,167 +1666,126 @@ export async function searchMailsOnServer(
     };
   }
 
-  const secure = creds.security === 'SSL';
-  const imapConfig: ImapFlowOptions = {
-    host: creds.host,
-    port: creds.port,
-    secure,
-    auth: { user: creds.username, pass: creds.password },
-    logger: false,
-    tls: {
-      rejectUnauthorized: process.env.NODE_ENV === 'production',
-      minVersion: 'TLSv1.2',
-    },
+  // Build SINCE date for the date-range filter
+  const sinceDate = searchSinceDate(sinceMonths);
+  const dateRange = {
+    since: sinceDate?.toISOString() ?? null,
+    before: null,
   };
-  if (creds.security === 'STARTTLS') {
-    imapConfig.secure = false;
-    (imapConfig as unknown as Record<string, unknown>).starttls = { required: true };
-  }
-
-  const client = new ImapFlow(imapConfig);
-  const fetchedMails: InboxMail[] = [];
-
-  try {
-    await client.connect();
-    logger.info(`[Search] Connected to ${creds.host} for account ${accountCode}`);
 
-    const lock = await client.getMailboxLock(mailbox);
-    try {
-      // Build SINCE date for the date-range filter
-      let sinceDate: Date | undefined;
-      if (sinceMonths > 0) {
-        sinceDate = new Date();
-        sinceDate.setMonth(sinceDate.getMonth() - sinceMonths);
-        sinceDate.setHours(0, 0, 0, 0);
-      }
+  const fetchedMails = await withImapMailbox(creds, mailbox, 'Failed to search emails', async (client) => {
+    // Plain words become TEXT (headers + body), operators their SEARCH keys
+    const searchCriteria = sinceDate
+      ? andImapSearch([toImapSearch(parsed), { since: sinceDate }])
+      : toImapSearch(parsed);
 
-      // IMAP SEARCH: search for the query across OR(FROM, TO, SUBJECT, TEXT).
-      // ImapFlow's .search() accepts SearchObject with OR arrays.
-      // We use TEXT (which covers headers + body) combined with the date range.
-      const searchCriteria: { since?: Date; text?: string } = {};
+    logger.info(`[Search] Searching ${accountCode}/${mailbox} — query="${query}", since=${sinceDate?.toISOString() ?? 'all time'}`);
 
-      if (sinceDate) {
-        searchCriteria.since = sinceDate;
-      }
+    const matchedUidsRaw = await client.search(searchCriteria, { uid: true });
+    const matchedUids = Array.isArray(matchedUidsRaw) ? matchedUidsRaw : [];
 
-      // TEXT searches headers and body for the keyword
-      searchCriteria.text = query;
+    logger.info(`[Search] Found ${matchedUids.length} matching UIDs`);
 
-      logger.info(`[Search] Searching mailbox ${mailbox} — text="${query}", since=${sinceDate?.toISOString() ?? 'all time'}`);
+    if (matchedUids.length === 0) return [];
 
-      const matchedUidsRaw = await client.search(searchCriteria, { uid: true });
-      const matchedUids = Array.isArray(matchedUidsRaw) ? matchedUidsRaw : [];
+    // Cap fetch at 100 messages to avoid overloading
+    const uidsToFetch = matchedUids.slice(0, 100);
 
-      logger.info(`[Search] Found ${matchedUids.length} matching UIDs`);
+    // Headers and snippets only; the body is fetched when a result is opened
+    return fetchMailHeaders(client, uidsToFetch, accountCode, mailbox, { uid: true });
+  });
 
-      if (matchedUids.length === 0) {
-        return {
-          mails: [],
-          searched: 0,
-          dateRange: {
-            since: sinceDate?.toISOString() ?? null,
-            before: null,
-          },
-          protocol: 'IMAP',
-        };
-      }
+  logger.info(`[Search] Fetched ${fetchedMails.length} search results from ${mailbox}`);
 
-      // Cap fetch at 100 messages to avoid overloading
-      const uidsToFetch = matchedUids.slice(0, 100);
+  // Sort by date descending
+  fetchedMails.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-      // Fetch matched messages
-      for await (const msg of client.fetch(uidsToFetch, {
-        envelope: true,
-        source: true,
-        flags: true,
-        uid: true,
-      }, { uid: true })) {
-        try {
-          if (!msg.source || msg.source.length === 0) continue;
-
-          const parsed = await simpleParser(msg.source);
-
-          const fromAddresses = extractAddresses(parsed.from);
-          const toAddresses = extractAddresses(parsed.to);
-          const ccAddresses = extractAddresses(parsed.cc);
-          const bccAddresses = extractAddresses(parsed.bcc);
-
-          const attachments = parsed.attachments?.map(att => ({
-            filename: att.filename || 'attachment',
-            contentType: att.contentType || 'application/octet-stream',
-            size: att.size || 0,
-          })) || [];
-
-          const flags = msg.flags ? [...msg.flags] : [];
-
-          fetchedMails.push({
-            id: '',
-            uid: msg.uid,
-            accountCode,
-            mailbox,
-            messageId: parsed.messageId || null,
-            fromAddress: fromAddresses[0] || 'unknown@unknown.com',
-            fromName: extractName(parsed.from),
-            toAddresses,
-            ccAddresses: ccAddresses.length > 0 ? ccAddresses : null,
-            bccAddresses: bccAddresses.length > 0 ? bccAddresses : null,
-            subject: parsed.subject || '(No Subject)',
-            textBody: parsed.text || null,
-            htmlBody: parsed.html || null,
-            date: (parsed.date || new Date()).toISOString(),
-            isRead: flags.includes('\\Seen'),
-            isStarred: flags.includes('\\Flagged'),
-            hasAttachments: attachments.length > 0,
-            attachmentsMetadata: attachments.length > 0 ? attachments : null,
-            labels: flags.filter(f => !f.startsWith('\\')),
-          });
-        } catch (parseErr) {
-          logger.warn(`[Search] Failed to parse message UID ${msg.uid}:`, parseErr);
-        }
-      }
-    } finally {
-      lock.release();
-    }
+  return {
+    mails: fetchedMails,
+    searched: fetchedMails.length,
+    dateRange,
+    protocol: 'IMAP',
+  };
+}
 
-    await client.logout();
-    logger.info(`[Search] Fetched ${fetchedMails.length} search results from ${mailbox}`);
+/**
+ * Ranked full-text search over inbox_cache (search_vector, see the
+ * 20261019001000 migration), across all accounts and mailboxes unless narrowed.
+ * Works for POP3 accounts too, and isn't capped by IMAP SEARCH; it only
+ * covers mail that has been synced, with unopened mails matched by snippet.
+ * The query is parsed as a search query (utils/searchQuery); results are
+ * ranked by how well its free-text words match, then by date.
+ */
+export async function searchCachedMails(
+  userId: string,
+  query: string,
+  options: {
+    accountCode?: string;
+    mailbox?: string;
+    sinceMonths?: number;   // 0 (= all time) by default
+    limit?: number;
+    offset?: number;
+  } = {}
+): Promise<ServerSearchResult> {
+  const { accountCode, sinceMonths = 0, offset = 0 } = options;
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+  const sinceDate = searchSinceDate(sinceMonths);
+
+  const parsed = parseSearchQuery(query);
+  // An in: operator overrides the mailbox being viewed
+  const mailbox = findMailbox(parsed) ? undefined : options.mailbox;
+  // Rank by any of the free-text words; a query of only operators sorts by date
+  const rankQuery = positiveTextTerms(parsed).map(t => `"${t.replace(/"/g, '')}"`).join(' OR ');
+
+  const params: unknown[] = [userId, rankQuery];
+  const filter = toSqlCondition(parsed, { paramOffset: params.length, alias: 'c' });
+  params.push(...filter.params);
+  const conditions = ['c.user_id = $1', filter.sql];
+  if (accountCode) {
+    params.push(accountCode);
+    conditions.push(`c.account_code = $${params.length}`);
+  }
+  if (mailbox) {
+    params.push(mailbox);
+    conditions.push(`c.mailbox = $${params.length}`);
+  }
+  if (sinceDate) {
+    params.push(sinceDate);
+    conditions.push(`c.date >= $${params.length}`);
+  }
+  params.push(limit, offset);
 
-    // Sort by date descending
-    fetchedMails.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT c.*, COUNT(*) OVER () AS total_matches
+       FROM inbox_cache c, websearch_to_tsquery('simple', $2) AS q(query)
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ts_rank_cd(c.search_vector, q.query) DESC, c.date DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
 
-    const sinceDate = sinceMonths > 0 ? new Date() : null;
-    if (sinceDate) sinceDate.setMonth(sinceDate.getMonth() - sinceMonths);
+    logger.info(`[Search] Full-text search for user ${userId} — query="${query}", ${result.rows.length} results`);
 
     return {
-      mails: fetchedMails,
-      searched: fetchedMails.length,
+      mails: result.rows.map(mapRowToInboxMail),
+      searched: result.rows.length > 0 ? Number(result.rows[0].total_matches) : 0,
       dateRange: {
         since: sinceDate?.toISOString() ?? null,
         before: null,
       },
-      protocol: 'IMAP',
+      protocol: 'FTS',
     };
-  } catch (error: unknown) {
-    logger.error(`[Search] Error searching mails:`, error);
-
-    if (client && client.usable) {
-      try { await client.logout(); } catch { /* best-effort cleanup */ }
-    }
-
-    if (error instanceof AppError) throw error;
-
-    const errMsg = error instanceof Error ? error.message : String(error);
-    throw new AppError(
-      `Failed to search emails: ${errMsg}`,
-      500,
-      false,
-      { details: errMsg }
-    );
+  } finally {
+    client.release();
   }
 }
 
 /**
  * Full inbox sync: fetch from IMAP server, save to cache, return mails.
+ * Flag changes and expunges of already cached mail are reconciled on the way
+ * (`reconciled` counts the cached mails that changed).
  */
 export async function syncInbox(
   userId: string,
@@ -986,7 +1797,7 @@ export async function syncInbox(
     page?: number;
     cacheLimit?: number;
   } = {}
-): Promise<FetchFromServerResult & { cached: number }> {
+): Promise<FetchFromServerResult & { cached: number; reconciled: number }> {
   const mailbox = options.mailbox || 'INBOX';
   const cacheLimit = options.cacheLimit || parseInt(
     await getUserSetting(userId, 'inbox_cache_limit', '15'), 10
@@ -1006,8 +1817,14 @@ export async function syncInbox(
     limit: options.limit,
     sinceUid: sinceUid > 0 ? sinceUid : undefined,
     page: options.page,
+    syncState: await getMailboxSyncState(userId, accountCode, mailbox),
   });
 
+  // Flag changes and expunges first, so a UIDVALIDITY reset can't drop the new mails
+  const reconciled = result.reconciliation
+    ? await applyMailboxReconciliation(userId, accountCode, mailbox, result.reconciliation)
+    : 0;
+
   // Save to server-side cache
   const saved = await syncMailsToCache(userId, accountCode, result.mails, cacheLimit);
 
@@ -1020,8 +1837,10 @@ export async function syncInbox(
 
   return {
     ...result,
-    mails: saved.length > 0 ? saved : result.mails,
+    // Cached mails, less any a filter rule moved or deleted
+    mails: saved,
     cached: saved.length,
+    reconciled,
   };
 }
 
@@ -1046,13 +1865,17 @@ export async function getAccountList(userId: string): Promise<Array<{ accountCod
 // Helper: Map DB row to InboxMail
 // ============================================================================
 
-function mapRowToInboxMail(row: Record<string, unknown>): InboxMail {
+export function mapRowToInboxMail(row: Record<string, unknown>): InboxMail {
   return {
     id: row.id as string,
     uid: row.uid as number,
     accountCode: row.account_code as string,
     mailbox: row.mailbox as string,
     messageId: (row.message_id as string) || null,
+    replyTo: (row.reply_to as string[]) || null,
+    inReplyTo: (row.in_reply_to as string) || null,
+    references: (row.reference_ids as string[]) || null,
+    conversationId: (row.conversation_id as string) || null,
     fromAddress: row.from_address as string,
     fromName: (row.from_name as string) || null,
     toAddresses: (row.to_addresses as string[]) || [],
@@ -1067,5 +1890,8 @@ function mapRowToInboxMail(row: Record<string, unknown>): InboxMail {
     hasAttachments: (row.has_attachments as boolean) || false,
     attachmentsMetadata: (row.attachments_metadata as InboxMail['attachmentsMetadata']) || null,
     labels: (row.labels as string[]) || null,
+    snippet: (row.snippet as string) || null,
+    bodyLoaded: row.body_loaded !== false,
+    size: (row.size as number | null) ?? null,
   };
 }
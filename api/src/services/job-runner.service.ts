@@ -0,0 +1,162 @@
+/**
+ * Job Runner for MailVoyage API
+ *
+ * Durable background jobs stored in the `jobs` table.
+ * - Handlers are registered per job type at startup
+ * - Due jobs are claimed with FOR UPDATE SKIP LOCKED, so several API processes can share the table
+ * - Stale locks (crash mid-job) are reclaimed, so jobs survive restarts
+ * - A job row is deleted once its handler returns or throws; handlers record their own outcome
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Job<P = Record<string, unknown>> {
+  id: string;
+  userId: string;
+  type: string;
+  payload: P;
+  runAt: Date;
+  /** Includes the current run */
+  attempts: number;
+}
+
+export type JobHandler<P = Record<string, unknown>> = (job: Job<P>) => Promise<void>;
+
+// ============================================================================
+// Job Runner Class
+// ============================================================================
+
+class JobRunner {
+  private handlers: Map<string, JobHandler> = new Map();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private isStarted = false;
+
+  private readonly POLL_INTERVAL = 5000; // 5 seconds
+  private readonly BATCH_SIZE = 10;
+  private readonly LOCK_TIMEOUT = '10 minutes'; // A job still locked after this is assumed crashed
+
+  /**
+   * Register the handler for a job type
+   */
+  register<P>(type: string, handler: JobHandler<P>): void {
+    this.handlers.set(type, handler as unknown as JobHandler);
+  }
+
+  /**
+   * Queue a job. Pass `client` to enqueue inside the caller's transaction.
+   */
+  async enqueue(
+    userId: string,
+    type: string,
+    payload: Record<string, unknown>,
+    runAt: Date,
+    client?: PoolClient
+  ): Promise<string> {
+    const result = await (client ?? pool).query(
+      `INSERT INTO jobs (user_id, type, payload, run_at) VALUES ($1, $2, $3, $4) RETURNING id`,
+      [userId, type, JSON.stringify(payload), runAt]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.isStarted) {
+      logger.warn('[Jobs] Already started');
+      return;
+    }
+    this.isStarted = true;
+    this.pollInterval = setInterval(() => { void this.tick(); }, this.POLL_INTERVAL);
+    void this.tick();
+    logger.info(`[Jobs] Runner started (${this.handlers.size} job types)`);
+  }
+
+  /**
+   * Stop polling; a job already running finishes or is reclaimed after restart
+   */
+  shutdown(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.isStarted = false;
+    logger.info('[Jobs] Runner stopped');
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+    try {
+      let jobs: Job[];
+      do {
+        jobs = await this.claimDueJobs();
+        for (const job of jobs) {
+          await this.runJob(job);
+        }
+      } while (jobs.length === this.BATCH_SIZE && this.isStarted);
+    } catch (error) {
+      logger.error('[Jobs] Poll failed:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async claimDueJobs(): Promise<Job[]> {
+    const result = await pool.query(
+      `UPDATE jobs
+       SET locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM jobs
+         WHERE run_at <= NOW()
+           AND (locked_at IS NULL OR locked_at < NOW() - $1::interval)
+         ORDER BY run_at
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, user_id, type, payload, run_at, attempts`,
+      [this.LOCK_TIMEOUT, this.BATCH_SIZE]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      userId: String(row.user_id),
+      type: row.type,
+      payload: row.payload,
+      runAt: row.run_at,
+      attempts: row.attempts,
+    }));
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      logger.error(`[Jobs] No handler for job type "${job.type}", dropping job ${job.id}`);
+    } else {
+      try {
+        await handler(job);
+        logger.debug(`[Jobs] ${job.type} job ${job.id} done`);
+      } catch (error) {
+        logger.error(`[Jobs] ${job.type} job ${job.id} failed:`, error);
+      }
+    }
+
+    await pool.query('DELETE FROM jobs WHERE id = $1', [job.id]);
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const jobRunner = new JobRunner();
+
+export default jobRunner;
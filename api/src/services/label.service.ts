@@ -0,0 +1,183 @@
+/**
+ * Mail Label Service for MailVoyage API
+ *
+ * A user's labels and their colours. On the mail server a label is an IMAP
+ * keyword on the message (set through updateMailFlags); inbox_cache.labels
+ * mirrors the keywords.
+ * - Names ignore case, like IMAP keywords
+ * - Renaming or deleting a label rewrites the keyword on the cached mails
+ *   that carry it, account by account; mail that is no longer cached keeps
+ *   the old keyword
+ * - Keywords without a label row still show up on mail, uncoloured
+ */
+
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import { signalInboxUpdate } from '../utils/signaling.js';
+import { updateMailFlags } from './inbox.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MailLabel {
+  id: number;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MailLabelInput {
+  name: string;
+  color: string;
+}
+
+const mapRow = (row: Record<string, unknown>): MailLabel => ({
+  id: row.id as number,
+  name: row.name as string,
+  color: row.color as string,
+  createdAt: new Date(row.created_at as string).toISOString(),
+  updatedAt: new Date(row.updated_at as string).toISOString(),
+});
+
+// Postgres unique_violation
+const isDuplicate = (error: unknown): boolean => (error as { code?: string })?.code === '23505';
+
+// ============================================================================
+// Keyword rewrite
+// ============================================================================
+
+/**
+ * Replace (or with `to` null, remove) a keyword on every cached mail that has it.
+ * Failures are logged per account and mailbox and don't stop the others.
+ */
+async function relabelCachedMails(userId: string, from: string, to: string | null): Promise<number> {
+  const client = await pool.connect();
+  let groups: Array<{ account_code: string; mailbox: string; uids: number[] }>;
+  try {
+    const result = await client.query(
+      `SELECT account_code, mailbox, array_agg(uid) AS uids
+       FROM inbox_cache
+       WHERE user_id = $1 AND EXISTS (
+         SELECT 1 FROM jsonb_array_elements_text(labels) AS label WHERE lower(label) = lower($2)
+       )
+       GROUP BY account_code, mailbox`,
+      [userId, from]
+    );
+    groups = result.rows;
+  } finally {
+    client.release();
+  }
+
+  let updated = 0;
+  for (const group of groups) {
+    try {
+      updated += await updateMailFlags(userId, group.account_code, group.uids, {
+        addLabels: to ? [to] : [],
+        removeLabels: [from],
+      }, group.mailbox);
+    } catch (error) {
+      logger.warn(`[Labels] Failed to ${to ? 'rename' : 'remove'} "${from}" in ${group.account_code}/${group.mailbox}:`, error);
+    }
+  }
+
+  if (updated > 0) signalInboxUpdate(userId, new Date().toISOString());
+  return updated;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function listLabels(userId: string): Promise<MailLabel[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT id, name, color, created_at, updated_at FROM mail_labels WHERE user_id = $1 ORDER BY lower(name)',
+      [userId]
+    );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+export async function createLabel(userId: string, input: MailLabelInput): Promise<MailLabel> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO mail_labels (user_id, name, color)
+       VALUES ($1, $2, $3)
+       RETURNING id, name, color, created_at, updated_at`,
+      [userId, input.name, input.color]
+    );
+    return mapRow(result.rows[0]);
+  } catch (error) {
+    if (isDuplicate(error)) throw new AppError(`Label "${input.name}" already exists`, 409, true);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Change a label's name or colour; a new name is written to the cached mails.
+ * Returns null when the user has no such label.
+ */
+export async function updateLabel(userId: string, labelId: number, input: MailLabelInput): Promise<MailLabel | null> {
+  const client = await pool.connect();
+  let previousName: string;
+  let label: MailLabel;
+  try {
+    const existing = await client.query(
+      'SELECT name FROM mail_labels WHERE user_id = $1 AND id = $2',
+      [userId, labelId]
+    );
+    if (existing.rows.length === 0) return null;
+    previousName = existing.rows[0].name;
+
+    const result = await client.query(
+      `UPDATE mail_labels SET name = $3, color = $4, updated_at = NOW()
+       WHERE user_id = $1 AND id = $2
+       RETURNING id, name, color, created_at, updated_at`,
+      [userId, labelId, input.name, input.color]
+    );
+    label = mapRow(result.rows[0]);
+  } catch (error) {
+    if (isDuplicate(error)) throw new AppError(`Label "${input.name}" already exists`, 409, true);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (previousName !== label.name) {
+    const updated = await relabelCachedMails(userId, previousName, label.name);
+    logger.info(`[Labels] Renamed "${previousName}" to "${label.name}" on ${updated} cached mail(s)`);
+  }
+  return label;
+}
+
+/**
+ * Delete a label and remove it from the cached mails.
+ * Returns false when the user has no such label.
+ */
+export async function deleteLabel(userId: string, labelId: number): Promise<boolean> {
+  const client = await pool.connect();
+  let name: string;
+  try {
+    const result = await client.query(
+      'DELETE FROM mail_labels WHERE user_id = $1 AND id = $2 RETURNING name',
+      [userId, labelId]
+    );
+    if (result.rows.length === 0) return false;
+    name = result.rows[0].name;
+  } finally {
+    client.release();
+  }
+
+  const updated = await relabelCachedMails(userId, name, null);
+  logger.info(`[Labels] Deleted "${name}", removed from ${updated} cached mail(s)`);
+  return true;
+}
@@ -0,0 +1,512 @@
+/**
+ * Mail Filter Rules Service for MailVoyage API
+ *
+ * Stores each user's filter rules and carries them out: once on new INBOX
+ * mail during sync (syncMailsToCache), and on demand over cached mail, with a
+ * dry run that only reports what would happen. Matching lives in utils/mailRules.
+ * - Actions run per account in a fixed order: flags and labels, forwards,
+ *   then delete or move, so a forward still finds the message
+ * - A failing action is logged and skipped; the others still run
+ * - Mail sent from one of the user's own accounts is never forwarded, so a
+ *   forwarding rule can't loop
+ */
+
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import { signalInboxUpdate } from '../utils/signaling.js';
+import {
+  planRules,
+  ruleMailKey,
+  type MailRule,
+  type RuleAction,
+  type RuleCondition,
+  type RulePlan,
+} from '../utils/mailRules.js';
+import {
+  deleteMails,
+  getAccountList,
+  getMailBody,
+  mapRowToInboxMail,
+  moveMails,
+  updateMailFlags,
+  type InboxMail,
+} from './inbox.service.js';
+import { sendMailFromAccount } from './mail.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MailRuleInput = Omit<MailRule, 'id' | 'position'> & { position?: number };
+
+export interface StoredMailRule extends MailRule {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A cached mail a rule run matched */
+export interface RuleMatch {
+  accountCode: string;
+  mailbox: string;
+  uid: number;
+  subject: string;
+  fromAddress: string;
+  date: string;
+  plan: RulePlan;
+}
+
+/** What carrying out the plans changed, by UID */
+export interface RuleOutcome {
+  read: Set<number>;
+  starred: Set<number>;
+  labels: Map<number, string[]>;
+  /** Moved or deleted */
+  removed: Set<number>;
+  forwarded: Set<number>;
+  /** Mails with an action that failed */
+  failed: Set<number>;
+  errors: string[];
+}
+
+export interface RuleRunResult {
+  matches: RuleMatch[];
+  dryRun: boolean;
+  /** Mails changed (0 on a dry run) */
+  applied: number;
+  errors: string[];
+}
+
+// Cached mails looked at by an on-demand run
+const MAX_RUN_MAILS = 1000;
+
+const RULE_COLUMNS = `id, name, account_code, enabled, position, match_all, conditions, actions,
+  stop_processing, created_at, updated_at`;
+
+const mapRow = (row: Record<string, unknown>): StoredMailRule => ({
+  id: row.id as number,
+  name: row.name as string,
+  accountCode: (row.account_code as string | null) ?? null,
+  enabled: row.enabled as boolean,
+  position: row.position as number,
+  matchAll: row.match_all as boolean,
+  conditions: (row.conditions as RuleCondition[]) || [],
+  actions: (row.actions as RuleAction[]) || [],
+  stopProcessing: row.stop_processing as boolean,
+  createdAt: new Date(row.created_at as string).toISOString(),
+  updatedAt: new Date(row.updated_at as string).toISOString(),
+});
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * A user's rules in the order they run. With `enabledOnly`, the ones that apply.
+ */
+export async function listRules(userId: string, enabledOnly = false): Promise<StoredMailRule[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${RULE_COLUMNS} FROM mail_rules
+       WHERE user_id = $1 ${enabledOnly ? 'AND enabled = true' : ''}
+       ORDER BY position, id`,
+      [userId]
+    );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a rule; without a position it runs after the existing ones.
+ */
+export async function createRule(userId: string, input: MailRuleInput): Promise<StoredMailRule> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO mail_rules (
+         user_id, name, account_code, enabled, position, match_all, conditions, actions, stop_processing
+       ) VALUES (
+         $1, $2, $3, $4,
+         COALESCE($5, (SELECT COALESCE(MAX(position), -1) + 1 FROM mail_rules WHERE user_id = $1)),
+         $6, $7, $8, $9
+       )
+       RETURNING ${RULE_COLUMNS}`,
+      [
+        userId,
+        input.name,
+        input.accountCode,
+        input.enabled,
+        input.position ?? null,
+        input.matchAll,
+        JSON.stringify(input.conditions),
+        JSON.stringify(input.actions),
+        input.stopProcessing,
+      ]
+    );
+    return mapRow(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Replace a rule. Returns null when the user has no such rule.
+ */
+export async function updateRule(userId: string, ruleId: number, input: MailRuleInput): Promise<StoredMailRule | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE mail_rules
+       SET name = $3, account_code = $4, enabled = $5, position = COALESCE($6, position),
+           match_all = $7, conditions = $8, actions = $9, stop_processing = $10, updated_at = NOW()
+       WHERE user_id = $1 AND id = $2
+       RETURNING ${RULE_COLUMNS}`,
+      [
+        userId,
+        ruleId,
+        input.name,
+        input.accountCode,
+        input.enabled,
+        input.position ?? null,
+        input.matchAll,
+        JSON.stringify(input.conditions),
+        JSON.stringify(input.actions),
+        input.stopProcessing,
+      ]
+    );
+    return result.rows.length > 0 ? mapRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Returns false when the user has no such rule.
+ */
+export async function deleteRule(userId: string, ruleId: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query('DELETE FROM mail_rules WHERE user_id = $1 AND id = $2', [userId, ruleId]);
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Carrying out plans
+// ============================================================================
+
+function emptyOutcome(): RuleOutcome {
+  return { read: new Set(), starred: new Set(), labels: new Map(), removed: new Set(), forwarded: new Set(), failed: new Set(), errors: [] };
+}
+
+/** Group UIDs by a key, skipping entries without one */
+function groupUids<T>(entries: Array<{ mail: InboxMail; plan: RulePlan }>, keyOf: (e: { mail: InboxMail; plan: RulePlan }) => T | null): Map<T, number[]> {
+  const groups = new Map<T, number[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    if (key === null) continue;
+    groups.set(key, [...(groups.get(key) ?? []), entry.mail.uid]);
+  }
+  return groups;
+}
+
+const forwardSubject = (subject: string): string =>
+  /^fwd?:/i.test(subject.trim()) ? subject : `Fwd: ${subject}`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Forward a mail with its body inline; IMAP attachments go along.
+ */
+async function forwardMail(userId: string, mail: InboxMail, to: string[], incomingType: 'IMAP' | 'POP3'): Promise<void> {
+  const body = await getMailBody(userId, mail.accountCode, mail.uid, mail.mailbox);
+  const header = [
+    '---------- Forwarded message ----------',
+    `From: ${mail.fromName ? `${mail.fromName} <${mail.fromAddress}>` : mail.fromAddress}`,
+    `Date: ${new Date(mail.date).toUTCString()}`,
+    `Subject: ${mail.subject}`,
+    `To: ${mail.toAddresses.join(', ')}`,
+  ];
+  const text = `${header.join('\n')}\n\n${body.textBody ?? ''}`;
+  const html = `<p>${header.map(escapeHtml).join('<br>')}</p>`
+    + (body.htmlBody ?? `<pre>${escapeHtml(body.textBody ?? '')}</pre>`);
+
+  await sendMailFromAccount(userId, {
+    accountCode: mail.accountCode,
+    to,
+    subject: forwardSubject(mail.subject),
+    html,
+    text,
+    forward: incomingType === 'IMAP' && mail.hasAttachments
+      ? { accountCode: mail.accountCode, mailbox: mail.mailbox, uid: mail.uid, mode: 'attachments' }
+      : undefined,
+  });
+}
+
+/**
+ * Carry out the plans for mails of one account and mailbox.
+ */
+async function executePlans(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  entries: Array<{ mail: InboxMail; plan: RulePlan }>
+): Promise<RuleOutcome> {
+  const outcome = emptyOutcome();
+  if (entries.length === 0) return outcome;
+
+  const attempt = async (what: string, uids: number[], fn: () => Promise<void>) => {
+    try {
+      await fn();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Rules] Failed to ${what} in ${accountCode}/${mailbox}: ${message}`);
+      outcome.errors.push(`${what}: ${message}`);
+      uids.forEach(uid => outcome.failed.add(uid));
+    }
+  };
+
+  const toRead = entries.filter(e => e.plan.markRead && !e.mail.isRead).map(e => e.mail.uid);
+  if (toRead.length > 0) {
+    await attempt('mark mail as read', toRead, async () => {
+      await updateMailFlags(userId, accountCode, toRead, { isRead: true }, mailbox);
+      toRead.forEach(uid => outcome.read.add(uid));
+    });
+  }
+
+  const toStar = entries.filter(e => e.plan.star && !e.mail.isStarred).map(e => e.mail.uid);
+  if (toStar.length > 0) {
+    await attempt('star mail', toStar, async () => {
+      await updateMailFlags(userId, accountCode, toStar, { isStarred: true }, mailbox);
+      toStar.forEach(uid => outcome.starred.add(uid));
+    });
+  }
+
+  const labelGroups = groupUids(entries, e => {
+    const present = new Set((e.mail.labels ?? []).map(label => label.toLowerCase()));
+    const missing = e.plan.labels.filter(label => !present.has(label.toLowerCase()));
+    return missing.length > 0 ? JSON.stringify(missing) : null;
+  });
+  for (const [key, uids] of labelGroups) {
+    const labels = JSON.parse(key) as string[];
+    await attempt(`label mail ${labels.join(', ')}`, uids, async () => {
+      await updateMailFlags(userId, accountCode, uids, { addLabels: labels }, mailbox);
+      uids.forEach(uid => outcome.labels.set(uid, labels));
+    });
+  }
+
+  const toForward = entries.filter(e => e.plan.forwardTo.length > 0);
+  if (toForward.length > 0) {
+    const accounts = await getAccountList(userId);
+    const ownAddresses = new Set(accounts.map(a => a.email.toLowerCase()));
+    const incomingType = await getIncomingType(userId, accountCode);
+    for (const { mail, plan } of toForward) {
+      if (ownAddresses.has(mail.fromAddress.toLowerCase())) continue;
+      await attempt(`forward mail ${mail.uid} to ${plan.forwardTo.join(', ')}`, [mail.uid], async () => {
+        await forwardMail(userId, mail, plan.forwardTo, incomingType);
+        outcome.forwarded.add(mail.uid);
+      });
+    }
+  }
+
+  const toDelete = entries.filter(e => e.plan.delete).map(e => e.mail.uid);
+  if (toDelete.length > 0) {
+    await attempt('delete mail', toDelete, async () => {
+      await deleteMails(userId, accountCode, toDelete, mailbox);
+      toDelete.forEach(uid => outcome.removed.add(uid));
+    });
+  }
+
+  const moveGroups = groupUids(entries, e => (!e.plan.delete && e.plan.moveTo && e.plan.moveTo !== mailbox ? e.plan.moveTo : null));
+  for (const [destination, uids] of moveGroups) {
+    await attempt(`move mail to ${destination}`, uids, async () => {
+      await moveMails(userId, accountCode, uids, mailbox, destination);
+      uids.forEach(uid => outcome.removed.add(uid));
+    });
+  }
+
+  return outcome;
+}
+
+async function getIncomingType(userId: string, accountCode: string): Promise<'IMAP' | 'POP3'> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT incoming_type FROM email_accounts WHERE user_id = $1 AND account_code = $2',
+      [userId, accountCode]
+    );
+    if (result.rows.length === 0) {
+      throw new AppError('Email account not found', 404, true);
+    }
+    return result.rows[0].incoming_type === 'POP3' ? 'POP3' : 'IMAP';
+  } finally {
+    client.release();
+  }
+}
+
+/** Reflect an outcome in the mails a sync returns */
+function applyOutcome(mails: InboxMail[], outcome: RuleOutcome): InboxMail[] {
+  return mails
+    .filter(mail => !outcome.removed.has(mail.uid))
+    .map(mail => ({
+      ...mail,
+      isRead: mail.isRead || outcome.read.has(mail.uid),
+      isStarred: mail.isStarred || outcome.starred.has(mail.uid),
+      labels: outcome.labels.has(mail.uid)
+        ? [...new Set([...(mail.labels ?? []), ...outcome.labels.get(mail.uid)!])]
+        : mail.labels,
+    }));
+}
+
+// ============================================================================
+// Running rules
+// ============================================================================
+
+/**
+ * Record that rules ran on these mails, returning the ones they hadn't run on
+ * yet. Mail trimmed from the cache is inserted again when the next sync
+ * downloads it again (POP3 fetches the newest mails every time, IMAP after a
+ * resync), so a new inbox_cache row doesn't mean new mail.
+ */
+async function claimNewMail(userId: string, accountCode: string, mails: InboxMail[]): Promise<InboxMail[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO mail_rule_runs (user_id, account_code, mail_key)
+       SELECT $1, $2, unnest($3::text[])
+       ON CONFLICT DO NOTHING
+       RETURNING mail_key`,
+      [userId, accountCode, mails.map(ruleMailKey)]
+    );
+    const claimed = new Set(result.rows.map(r => r.mail_key as string));
+    return mails.filter(mail => claimed.has(ruleMailKey(mail)));
+  } finally {
+    client.release();
+  }
+}
+
+/** Let the next sync run the rules on these mails again */
+async function releaseClaims(userId: string, accountCode: string, mails: InboxMail[]): Promise<void> {
+  if (mails.length === 0) return;
+  const client = await pool.connect();
+  try {
+    await client.query(
+      'DELETE FROM mail_rule_runs WHERE user_id = $1 AND account_code = $2 AND mail_key = ANY($3::text[])',
+      [userId, accountCode, mails.map(ruleMailKey)]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run the user's enabled rules on mail that just arrived in one mailbox of
+ * an account, skipping mail they already ran on. Returns the mails as they
+ * are afterwards, without the ones a rule moved or deleted. Never throws:
+ * sync goes on without the rules. Mails are claimed before the run so
+ * concurrent syncs don't both act on them; the claim is given back when the
+ * run fails, or an action on the mail failed and it wasn't forwarded (a
+ * retry would forward it twice), so the next sync tries again.
+ */
+export async function applyRulesToNewMail(
+  userId: string,
+  accountCode: string,
+  mailbox: string,
+  mails: InboxMail[]
+): Promise<InboxMail[]> {
+  let unseen: InboxMail[] = [];
+  try {
+    unseen = await claimNewMail(userId, accountCode, mails);
+    if (unseen.length === 0) return mails;
+
+    const rules = await listRules(userId, true);
+    if (rules.length === 0) return mails;
+
+    const entries = unseen.flatMap(mail => {
+      const plan = planRules(rules, mail);
+      return plan ? [{ mail, plan }] : [];
+    });
+    if (entries.length === 0) return mails;
+
+    const outcome = await executePlans(userId, accountCode, mailbox, entries);
+    const retry = unseen.filter(mail => outcome.failed.has(mail.uid) && !outcome.forwarded.has(mail.uid));
+    await releaseClaims(userId, accountCode, retry);
+    logger.info(`[Rules] Applied rules to ${entries.length} new mail(s) in ${accountCode}/${mailbox}`
+      + (retry.length > 0 ? `, ${retry.length} to retry` : ''));
+    return applyOutcome(mails, outcome);
+  } catch (error) {
+    await releaseClaims(userId, accountCode, unseen).catch(() => undefined);
+    logger.error(`[Rules] Failed to apply rules in ${accountCode}/${mailbox}:`, error);
+    return mails;
+  }
+}
+
+/**
+ * Run rules over cached INBOX mail. `rules` defaults to the user's enabled
+ * rules; pass one (e.g. unsaved, from the editor) to try it out. A dry run
+ * only reports the matches.
+ */
+export async function runRules(
+  userId: string,
+  options: { rules?: MailRule[]; accountCode?: string; dryRun?: boolean } = {}
+): Promise<RuleRunResult> {
+  const rules = options.rules ?? await listRules(userId, true);
+  const dryRun = options.dryRun ?? false;
+  if (rules.length === 0) {
+    return { matches: [], dryRun, applied: 0, errors: [] };
+  }
+
+  const client = await pool.connect();
+  let mails: InboxMail[];
+  try {
+    const params: unknown[] = [userId, MAX_RUN_MAILS];
+    let accountFilter = '';
+    if (options.accountCode) {
+      params.push(options.accountCode);
+      accountFilter = 'AND account_code = $3';
+    }
+    const result = await client.query(
+      `SELECT * FROM inbox_cache
+       WHERE user_id = $1 AND mailbox = 'INBOX' ${accountFilter}
+       ORDER BY date DESC
+       LIMIT $2`,
+      params
+    );
+    mails = result.rows.map(mapRowToInboxMail);
+  } finally {
+    client.release();
+  }
+
+  const entries = mails.flatMap(mail => {
+    const plan = planRules(rules, mail);
+    return plan ? [{ mail, plan }] : [];
+  });
+  const matches: RuleMatch[] = entries.map(({ mail, plan }) => ({
+    accountCode: mail.accountCode,
+    mailbox: mail.mailbox,
+    uid: mail.uid,
+    subject: mail.subject,
+    fromAddress: mail.fromAddress,
+    date: mail.date,
+    plan,
+  }));
+  if (dryRun || entries.length === 0) {
+    return { matches, dryRun, applied: 0, errors: [] };
+  }
+
+  const errors: string[] = [];
+  for (const accountCode of new Set(entries.map(e => e.mail.accountCode))) {
+    const outcome = await executePlans(userId, accountCode, 'INBOX', entries.filter(e => e.mail.accountCode === accountCode));
+    errors.push(...outcome.errors.map(error => `${accountCode}: ${error}`));
+  }
+
+  signalInboxUpdate(userId, new Date().toISOString());
+  logger.info(`[Rules] Ran ${rules.length} rule(s) over cached mail of user ${userId}: ${entries.length} match(es)`);
+  return { matches, dryRun, applied: entries.length, errors };
+}
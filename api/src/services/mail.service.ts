@@ -1,13 +1,25 @@
 import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type { ImapFlow } from 'imapflow';
+import type { PoolClient } from 'pg';
 import crypto from 'crypto';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 import pool from '../db/index.js';
 import { tryDecrypt } from '../utils/crypto.js';
 import { signalNewSentMail } from '../utils/signaling.js';
+import { getRetryDelayMs, isTransientSmtpFailure, MAX_SEND_RETRIES, type SmtpFailure } from '../utils/smtpRetry.js';
+import { jobRunner } from './job-runner.service.js';
+import { getImapCredentials, withImapClient, type ImapCredentials } from './inbox.service.js';
+import { resolveReplyHeaders, scheduleConversationUpdate, type ReplyHeaders } from './thread.service.js';
+import { scheduleContactHarvest } from './contact.service.js';
+import { getForwardAttachments, type ForwardSource } from './attachment.service.js';
+
+/** Job type that sends a queued sent_mails row (scheduled, undo-send hold or outbox retry) */
+export const SEND_MAIL_JOB = 'send_mail';
 
 // Generate a unique thread ID for emails
-const generateThreadId = (): string => {
+export const generateThreadId = (): string => {
   return crypto.randomBytes(16).toString('hex');
 };
 
@@ -165,23 +177,232 @@ const generateThreadId = (): string => {
 //   }
 // };
 
-// Placeholder: List mail folders
-export const listFolders = async (userId: number) => {
-  logger.info(`Placeholder: Listing folders for user ${userId}`);
-  // Use ImapFlow client.list() similar to fetchEmails
-  return { message: `Placeholder: Folders for user ${userId}` };
+// ===== Mail folders (IMAP LIST / CREATE / RENAME / DELETE) =====
+
+export type SpecialUse = '\\Inbox' | '\\Sent' | '\\Drafts' | '\\Trash' | '\\Junk' | '\\Archive' | '\\All' | '\\Flagged';
+
+export interface MailFolder {
+  path: string;
+  name: string;
+  delimiter: string;
+  parentPath: string | null;
+  specialUse: SpecialUse | null;
+  flags: string[];
+  subscribed: boolean;
+  /** \Noselect folders only group children and can't hold messages */
+  selectable: boolean;
+  total: number;
+  unread: number;
+}
+
+// POP3 has a single implicit mailbox
+const POP3_INBOX: MailFolder = {
+  path: 'INBOX',
+  name: 'INBOX',
+  delimiter: '/',
+  parentPath: null,
+  specialUse: '\\Inbox',
+  flags: [],
+  subscribed: true,
+  selectable: true,
+  total: 0,
+  unread: 0,
 };
 
-// Placeholder: Create mail folder
-export const createFolder = async (userId: number, folderName: string) => {
-  logger.info(`Placeholder: Creating folder '${folderName}' for user ${userId}`);
-  // Use ImapFlow client.mailboxCreate()
-  return { message: `Placeholder: Folder '${folderName}' created` };
+const assertImapAccount = (creds: ImapCredentials) => {
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('POP3 accounts do not support folders', 400, true);
+  }
+};
+
+const isInboxPath = (path: string) => path.toUpperCase() === 'INBOX';
+
+// Servers without SPECIAL-USE usually still have conventionally named folders
+const SPECIAL_USE_FALLBACK_NAMES: Partial<Record<SpecialUse, RegExp>> = {
+  '\\Sent': /^sent( items| messages| mail)?$/i,
+  '\\Drafts': /^drafts?$/i,
+};
+
+/**
+ * Path of the folder flagged with `specialUse` (or its conventional name).
+ * Null when the account has no such folder.
+ */
+export async function findSpecialUseFolder(client: ImapFlow, specialUse: SpecialUse): Promise<string | null> {
+  const folders = await client.list();
+  const fallback = SPECIAL_USE_FALLBACK_NAMES[specialUse];
+  const folder = folders.find(f => f.specialUse === specialUse)
+    ?? (fallback ? folders.find(f => fallback.test(f.name)) : undefined);
+  return folder?.path ?? null;
+}
+
+/**
+ * Build the raw RFC 5322 message for mail options, keeping Bcc (for Sent/Drafts copies).
+ */
+export async function buildRawMessage(mailOptions: ConstructorParameters<typeof MailComposer>[0]): Promise<Buffer> {
+  const message = new MailComposer(mailOptions).compile();
+  message.keepBcc = true;
+  return message.build();
+}
+
+/**
+ * Move cached mails and sync state from one mailbox path (and its children) to another.
+ * Passing `newPath = null` drops them instead (folder deleted).
+ */
+const remapCachedMailbox = async (
+  userId: string,
+  accountCode: string,
+  path: string,
+  delimiter: string,
+  newPath: string | null
+) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const childPattern = `${path.replace(/[\\%_]/g, '\\$&')}${delimiter}%`;
+    for (const table of ['inbox_cache', 'sync_tracking']) {
+      if (newPath === null) {
+        await client.query(
+          `DELETE FROM ${table}
+           WHERE user_id = $1 AND account_code = $2 AND (mailbox = $3 OR mailbox LIKE $4)`,
+          [userId, accountCode, path, childPattern]
+        );
+      } else {
+        await client.query(
+          `UPDATE ${table}
+           SET mailbox = $5 || substr(mailbox, length($3) + 1), updated_at = NOW()
+           WHERE user_id = $1 AND account_code = $2 AND (mailbox = $3 OR mailbox LIKE $4)`,
+          [userId, accountCode, path, childPattern, newPath]
+        );
+      }
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * List all folders of an account with special-use flags and message counts.
+ */
+export const listFolders = async (userId: string, accountCode: string): Promise<MailFolder[]> => {
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    return [POP3_INBOX];
+  }
+
+  const folders = await withImapClient(creds, 'Failed to list folders', async (client) => {
+    const entries = await client.list({ statusQuery: { messages: true, unseen: true } });
+    return entries.map((entry): MailFolder => {
+      const flags = [...entry.flags];
+      return {
+        path: entry.path,
+        name: entry.name,
+        delimiter: entry.delimiter,
+        parentPath: entry.parentPath || null,
+        specialUse: (entry.specialUse as SpecialUse | undefined) ?? null,
+        flags,
+        subscribed: entry.subscribed,
+        selectable: !flags.some(f => /^\\(Noselect|NonExistent)$/i.test(f)),
+        total: entry.status?.messages ?? 0,
+        unread: entry.status?.unseen ?? 0,
+      };
+    });
+  });
+
+  logger.info(`[IMAP] Listed ${folders.length} folders for ${accountCode}`);
+  return folders;
+};
+
+/**
+ * Create a folder, optionally nested under `parentPath`.
+ */
+export const createFolder = async (
+  userId: string,
+  accountCode: string,
+  name: string,
+  parentPath?: string
+): Promise<{ path: string; created: boolean }> => {
+  const creds = await getImapCredentials(userId, accountCode);
+  assertImapAccount(creds);
+
+  const result = await withImapClient(creds, 'Failed to create folder', async (client) => {
+    // Passing an array lets ImapFlow join the segments with the server's delimiter
+    const response = await client.mailboxCreate(parentPath ? [parentPath, name] : name);
+    return { path: response.path, created: response.created };
+  });
+
+  logger.info(`[IMAP] Created folder '${result.path}' for ${accountCode}`);
+  return result;
+};
+
+/**
+ * Rename a folder in place (same parent). Cached mails follow the new path.
+ */
+export const renameFolder = async (
+  userId: string,
+  accountCode: string,
+  path: string,
+  newName: string
+): Promise<{ path: string; newPath: string }> => {
+  if (isInboxPath(path)) {
+    throw new AppError('INBOX cannot be renamed', 400, true);
+  }
+
+  const creds = await getImapCredentials(userId, accountCode);
+  assertImapAccount(creds);
+
+  const result = await withImapClient(creds, 'Failed to rename folder', async (client) => {
+    const [entry] = (await client.list()).filter(f => f.path === path);
+    if (!entry) {
+      throw new AppError(`Folder '${path}' not found`, 404, true);
+    }
+    const target = entry.parentPath ? [...entry.parent, newName] : newName;
+    const response = await client.mailboxRename(path, target);
+    return { path: response.path, newPath: response.newPath, delimiter: entry.delimiter };
+  });
+
+  await remapCachedMailbox(userId, accountCode, result.path, result.delimiter, result.newPath);
+
+  logger.info(`[IMAP] Renamed folder '${result.path}' to '${result.newPath}' for ${accountCode}`);
+  return { path: result.path, newPath: result.newPath };
+};
+
+/**
+ * Delete a folder on the server and drop its cached mails.
+ * Special-use folders (Sent, Trash, ...) are protected.
+ */
+export const deleteFolder = async (userId: string, accountCode: string, path: string): Promise<{ path: string }> => {
+  if (isInboxPath(path)) {
+    throw new AppError('INBOX cannot be deleted', 400, true);
+  }
+
+  const creds = await getImapCredentials(userId, accountCode);
+  assertImapAccount(creds);
+
+  const delimiter = await withImapClient(creds, 'Failed to delete folder', async (client) => {
+    const [entry] = (await client.list()).filter(f => f.path === path);
+    if (!entry) {
+      throw new AppError(`Folder '${path}' not found`, 404, true);
+    }
+    if (entry.specialUse) {
+      throw new AppError(`${entry.specialUse.slice(1)} folder cannot be deleted`, 400, true);
+    }
+    await client.mailboxDelete(path);
+    return entry.delimiter;
+  });
+
+  await remapCachedMailbox(userId, accountCode, path, delimiter, null);
+
+  logger.info(`[IMAP] Deleted folder '${path}' for ${accountCode}`);
+  return { path };
 };
 
 // ===== NEW: Send email using account credentials =====
 
-interface SendMailPayload {
+export interface SendMailPayload {
   accountCode: string;
   to: string[];
   cc?: string[];
@@ -195,13 +416,168 @@ interface SendMailPayload {
     contentType?: string;
     size?: number; // Size in bytes from frontend
   }>;
+  /** Message-ID of the message being replied to */
+  inReplyTo?: string;
+  /** References chain of the reply (completed server-side from the parent when omitted) */
+  references?: string[];
+  /** Received message whose attachments (or source) are forwarded */
+  forward?: ForwardSource;
+}
+
+/**
+ * Insert a sent_mails row — a delivered mail, or a `pending` one queued for later.
+ * Returns the row id.
+ */
+export async function insertSentMail(
+  client: PoolClient,
+  userId: string,
+  row: {
+    threadId: string;
+    fromEmail: string;
+    payload: SendMailPayload;
+    replyHeaders: ReplyHeaders;
+    status: 'sent' | 'pending' | 'failed';
+    messageId: string | null;
+    sentAt: Date;
+    scheduledAt?: Date | null;
+    errorMessage?: string | null;
+  }
+): Promise<string> {
+  const { payload, replyHeaders } = row;
+  const result = await client.query(
+    `INSERT INTO sent_mails (
+      user_id, thread_id, from_email, from_account_code, 
+      to_emails, cc_emails, bcc_emails, 
+      subject, html_body, text_body, 
+      attachments, message_id, status, sent_at,
+      in_reply_to, reference_ids, scheduled_at, error_message
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+    RETURNING id`,
+    [
+      userId,
+      row.threadId,
+      row.fromEmail,
+      payload.accountCode,
+      JSON.stringify(payload.to),
+      payload.cc ? JSON.stringify(payload.cc) : null,
+      payload.bcc ? JSON.stringify(payload.bcc) : null,
+      payload.subject,
+      payload.html,
+      payload.text || null,
+      // Save attachments with calculated size if not provided
+      payload.attachments ? JSON.stringify(payload.attachments.map(att => ({
+        filename: att.filename,
+        content: att.content,
+        contentType: att.contentType,
+        // Use provided size, or calculate from base64 content length
+        // base64 encodes 3 bytes into 4 characters, so decoded size ≈ base64Length * 3/4
+        size: att.size || Math.floor((att.content.length * 3) / 4),
+      }))) : null,
+      row.messageId,
+      row.status,
+      row.sentAt,
+      replyHeaders.inReplyTo,
+      replyHeaders.references.length > 0 ? JSON.stringify(replyHeaders.references) : null,
+      row.scheduledAt ?? null,
+      row.errorMessage ?? null,
+    ]
+  );
+  return result.rows[0].id;
+}
+
+/** A sent_mails row queued earlier (scheduled send) that this send completes */
+export interface QueuedSentMail {
+  id: string;
+  threadId: string;
+}
+
+/** Outbox entry written for a failed send */
+interface FailedSend {
+  id: string;
+  /** ISO time of the automatic retry, or null when none is queued */
+  nextRetryAt: string | null;
+}
+
+/**
+ * Keep a failed send in the outbox: mark the queued row (or insert one) as
+ * `failed`, and queue a retry with exponential backoff when the failure is transient.
+ */
+async function recordFailedSend(
+  client: PoolClient,
+  userId: string,
+  send: {
+    queued: QueuedSentMail | null;
+    threadId: string;
+    fromEmail: string;
+    payload: SendMailPayload;
+    replyHeaders: ReplyHeaders;
+    errorMessage: string;
+    failure: SmtpFailure;
+  }
+): Promise<FailedSend> {
+  await client.query('BEGIN');
+  try {
+    let id: string;
+    let retryCount: number;
+    if (send.queued) {
+      const result = await client.query(
+        `UPDATE sent_mails
+         SET status = 'failed', error_message = $3, retry_count = retry_count + 1,
+             next_retry_at = NULL, scheduled_at = NULL, updated_at = NOW()
+         WHERE user_id = $1 AND id = $2
+         RETURNING id, retry_count`,
+        [userId, send.queued.id, send.errorMessage]
+      );
+      if (result.rows.length === 0) throw new AppError('Queued mail no longer exists', 404, true);
+      id = result.rows[0].id;
+      retryCount = result.rows[0].retry_count;
+    } else {
+      id = await insertSentMail(client, userId, {
+        threadId: send.threadId,
+        fromEmail: send.fromEmail,
+        payload: send.payload,
+        replyHeaders: send.replyHeaders,
+        status: 'failed',
+        messageId: null,
+        sentAt: new Date(),
+        errorMessage: send.errorMessage,
+      });
+      await client.query(`UPDATE sent_mails SET retry_count = 1 WHERE id = $1`, [id]);
+      retryCount = 1;
+    }
+
+    // retry_count counts failed attempts, so retry N follows failure N
+    let nextRetryAt: Date | null = null;
+    if (isTransientSmtpFailure(send.failure) && retryCount <= MAX_SEND_RETRIES) {
+      nextRetryAt = new Date(Date.now() + getRetryDelayMs(retryCount));
+      await jobRunner.enqueue(userId, SEND_MAIL_JOB, { sentMailId: id }, nextRetryAt, client);
+      await client.query(`UPDATE sent_mails SET next_retry_at = $2 WHERE id = $1`, [id, nextRetryAt]);
+    }
+
+    await client.query('COMMIT');
+    logger.warn(
+      `Send ${id} failed (attempt ${retryCount})` +
+        (nextRetryAt ? `, retrying at ${nextRetryAt.toISOString()}` : ', kept in outbox')
+    );
+
+    signalNewSentMail(userId, new Date().toISOString());
+    return { id, nextRetryAt: nextRetryAt?.toISOString() ?? null };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
 }
 
 /**
  * Send email using user's email account credentials
- * Fetches account by accountCode from either email_accounts or smtp_accounts
+ * Fetches account by accountCode from either email_accounts or smtp_accounts.
+ * With `queued`, the existing pending row is marked sent instead of inserting a new one.
  */
-export const sendMailFromAccount = async (userId: string, payload: SendMailPayload): Promise<{ success: boolean; messageId?: string; threadId?: string; message: string }> => {
+export const sendMailFromAccount = async (
+  userId: string,
+  payload: SendMailPayload,
+  queued?: QueuedSentMail
+): Promise<{ success: boolean; messageId?: string; threadId?: string; message: string }> => {
   const client = await pool.connect();
   
   try {
@@ -210,7 +586,8 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
     
     // Step 1: Try to find the account in email_accounts first
     let accountResult = await client.query(
-      `SELECT id, email, outgoing_host, outgoing_port, outgoing_username, outgoing_password, outgoing_security
+      `SELECT id, email, outgoing_host, outgoing_port, outgoing_username, outgoing_password, outgoing_security,
+              incoming_type, save_to_sent
        FROM email_accounts 
        WHERE user_id = $1 AND account_code = $2 AND is_active = true`,
       [userId, payload.accountCode]
@@ -220,12 +597,15 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
     
     let smtpConfig: { host: string; port: number; username: string; password: string; security: string } | null = null;
     let fromEmail = '';
+    // SMTP-only accounts have no IMAP mailbox to file a copy in
+    let saveToSent = false;
     
     if (accountResult.rows.length > 0) {
       // Found in email_accounts
       logger.info(`Found account in email_accounts table`);
       const account = accountResult.rows[0];
       fromEmail = account.email;
+      saveToSent = account.incoming_type === 'IMAP' && account.save_to_sent !== false;
       
       // Decrypt password
       const decryptedPassword = tryDecrypt(account.outgoing_password);
@@ -276,6 +656,46 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
       };
     }
     
+    // Forwarded attachments are resolved up front so they are sent and saved like uploads
+    // (and a failed send keeps them in the outbox)
+    if (payload.forward) {
+      const forwarded = await getForwardAttachments(userId, payload.forward);
+      payload = { ...payload, attachments: [...(payload.attachments || []), ...forwarded], forward: undefined };
+    }
+
+    const replyHeaders = await resolveReplyHeaders(userId, payload.inReplyTo, payload.references);
+    const threadId = queued?.threadId ?? generateThreadId();
+
+    // SMTP failures are kept in the outbox (and retried when transient) before being reported
+    const failSend = async (message: string, smtpError: unknown): Promise<AppError> => {
+      const errExt = smtpError as Record<string, unknown> | undefined;
+      const failure = {
+        code: typeof errExt?.code === 'string' ? errExt.code : null,
+        responseCode: typeof errExt?.responseCode === 'number' ? errExt.responseCode : null,
+      };
+      const details = smtpError instanceof Error ? smtpError.message : String(smtpError);
+
+      let outbox: FailedSend | null = null;
+      try {
+        outbox = await recordFailedSend(client, userId, {
+          queued: queued ?? null, threadId, fromEmail, payload, replyHeaders,
+          errorMessage: `${message}: ${details}`, failure,
+        });
+      } catch (dbError: unknown) {
+        logger.error('Failed to save failed send to the outbox:', dbError);
+      }
+
+      // Operational, so the client receives the outbox id along with the SMTP reply
+      return new AppError(`${message}: ${details}`, 500, true, {
+        details,
+        response: errExt?.response,
+        responseCode: failure.responseCode ?? undefined,
+        code: failure.code ?? undefined,
+        outboxId: outbox?.id,
+        nextRetryAt: outbox?.nextRetryAt ?? undefined,
+      });
+    };
+
     // Step 3: Create nodemailer transporter with account credentials
     logger.info(`Creating SMTP transporter: host=${smtpConfig.host}, port=${smtpConfig.port}, security=${smtpConfig.security}`);
     
@@ -337,19 +757,14 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
       logger.info('SMTP connection verified successfully');
     } catch (verifyError: unknown) {
       logger.error('SMTP connection verification failed:', verifyError);
-      const verifyMsg = verifyError instanceof Error ? verifyError.message : String(verifyError);
-      throw new AppError(
-        `SMTP connection failed: ${verifyMsg}`,
-        500,
-        false,
-        { details: verifyMsg }
-      );
+      throw await failSend('SMTP connection failed', verifyError);
     }
     
     // Step 4: Prepare email options
     const mailOptions: {
       from: string; to: string; subject: string; html: string; text?: string;
-      cc?: string; bcc?: string;
+      cc?: string; bcc?: string; date?: Date; messageId?: string;
+      inReplyTo?: string; references?: string[];
       attachments?: Array<{ filename: string; content: Buffer; contentType?: string }>;
     } = {
       from: `${fromEmail} <${fromEmail}>`,
@@ -357,6 +772,7 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
       subject: payload.subject,
       html: payload.html,
       text: payload.text || undefined,
+      date: new Date(),
     };
     
     if (payload.cc && payload.cc.length > 0) {
@@ -366,6 +782,13 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
     if (payload.bcc && payload.bcc.length > 0) {
       mailOptions.bcc = payload.bcc.join(', ');
     }
+
+    if (replyHeaders.inReplyTo) {
+      mailOptions.inReplyTo = replyHeaders.inReplyTo;
+    }
+    if (replyHeaders.references.length > 0) {
+      mailOptions.references = replyHeaders.references;
+    }
     
     if (payload.attachments && payload.attachments.length > 0) {
       mailOptions.attachments = payload.attachments.map(att => ({
@@ -385,56 +808,35 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
       logger.info(`Email sent successfully. Message ID: ${info.messageId}`);
     } catch (sendError: unknown) {
       logger.error('Failed to send email:', sendError);
-      const sendMsg = sendError instanceof Error ? sendError.message : String(sendError);
-      const sendErrExt = sendError as Record<string, unknown> | undefined;
-      throw new AppError(
-        `Failed to send email: ${sendMsg}`,
-        500,
-        false,
-        { 
-          details: sendMsg,
-          response: sendErrExt?.response,
-          responseCode: sendErrExt?.responseCode,
-        }
-      );
+      throw await failSend('Failed to send email', sendError);
     }
     
     // Step 6: Save sent email to database
-    const threadId = generateThreadId();
     try {
-      await client.query(
-        `INSERT INTO sent_mails (
-          user_id, thread_id, from_email, from_account_code, 
-          to_emails, cc_emails, bcc_emails, 
-          subject, html_body, text_body, 
-          attachments, message_id, status, sent_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
-        [
-          userId,
+      let sentMailId: string;
+      if (queued) {
+        await client.query(
+          `UPDATE sent_mails
+           SET status = 'sent', message_id = $3, sent_at = NOW(), error_message = NULL,
+               next_retry_at = NULL, updated_at = NOW()
+           WHERE user_id = $1 AND id = $2`,
+          [userId, queued.id, info.messageId]
+        );
+        sentMailId = queued.id;
+      } else {
+        sentMailId = await insertSentMail(client, userId, {
           threadId,
           fromEmail,
-          payload.accountCode,
-          JSON.stringify(payload.to),
-          payload.cc ? JSON.stringify(payload.cc) : null,
-          payload.bcc ? JSON.stringify(payload.bcc) : null,
-          payload.subject,
-          payload.html,
-          payload.text || null,
-          // Save attachments with calculated size if not provided
-          payload.attachments ? JSON.stringify(payload.attachments.map(att => ({
-            filename: att.filename,
-            content: att.content,
-            contentType: att.contentType,
-            // Use provided size, or calculate from base64 content length
-            // base64 encodes 3 bytes into 4 characters, so decoded size ≈ base64Length * 3/4
-            size: att.size || Math.floor((att.content.length * 3) / 4),
-          }))) : null,
-          info.messageId,
-          'sent',
-          new Date()
-        ]
-      );
+          payload,
+          replyHeaders,
+          status: 'sent',
+          messageId: info.messageId,
+          sentAt: new Date(),
+        });
+      }
       logger.info(`Sent email saved to database with thread ID: ${threadId}`);
+      scheduleConversationUpdate(userId);
+      scheduleContactHarvest(userId, { sentMailId });
       
       // Signal the client that sent_mails table has been updated
       signalNewSentMail(userId, new Date().toISOString());
@@ -442,6 +844,12 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
       // Log error but don't fail the operation - email was sent successfully
       logger.error('Failed to save sent email to database:', dbError);
     }
+
+    // Step 7: File a copy in the IMAP Sent folder (background, best-effort)
+    if (saveToSent) {
+      appendToSentFolder(userId, payload.accountCode, { ...mailOptions, messageId: info.messageId })
+        .catch(error => logger.warn(`[IMAP] Failed to save sent mail to Sent folder for ${payload.accountCode}:`, error));
+    }
     
     return {
       success: true,
@@ -470,6 +878,30 @@ export const sendMailFromAccount = async (userId: string, payload: SendMailPaylo
   }
 };
 
+/**
+ * Build the RFC 5322 message with MailComposer (same Message-ID, Date and Bcc
+ * as the SMTP submission) and APPEND it to the account's \Sent folder as \Seen.
+ */
+async function appendToSentFolder(
+  userId: string,
+  accountCode: string,
+  mailOptions: ConstructorParameters<typeof MailComposer>[0]
+): Promise<void> {
+  const creds = await getImapCredentials(userId, accountCode);
+  const raw = await buildRawMessage(mailOptions);
+
+  await withImapClient(creds, 'Failed to save to Sent folder', async (client) => {
+    const sentPath = await findSpecialUseFolder(client, '\\Sent');
+    if (!sentPath) {
+      logger.warn(`[IMAP] No Sent folder found for account ${accountCode}, copy not saved`);
+      return;
+    }
+
+    await client.append(sentPath, raw, ['\\Seen'], mailOptions.date instanceof Date ? mailOptions.date : new Date());
+    logger.info(`[IMAP] Saved sent mail to ${sentPath} for account ${accountCode}`);
+  });
+}
+
 // ========== SENT MAILS RETRIEVAL ==========
 
 export interface SentMailListItem {
@@ -542,7 +974,8 @@ export const getSentMailsByUserId = async (
     const offset = (page - 1) * limit;
     
     // Build WHERE clause with optional since filter for delta sync
-    const conditions = ['user_id = $1'];
+    // Scheduled mails and failed ones (outbox) stay out of Sent until they go out
+    const conditions = ['user_id = $1', "status = 'sent'"];
     const params: unknown[] = [userId];
     
     if (since) {
@@ -0,0 +1,140 @@
+/**
+ * Outbox for MailVoyage API
+ *
+ * Sends that failed over SMTP stay in sent_mails as `failed` rows with the
+ * error message (see recordFailedSend in mail.service). Transient failures are
+ * retried automatically by the `send_mail` job; the user can also retry now,
+ * edit the mail as a draft, or discard it.
+ */
+
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { SEND_MAIL_JOB } from './mail.service.js';
+import { jobRunner } from './job-runner.service.js';
+import {
+  deleteSendJob,
+  lockQueuedMail,
+  restoreQueuedMailAsDraft,
+} from './scheduled-mail.service.js';
+import type { Draft } from './draft.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OutboxMail {
+  id: string;
+  accountCode: string;
+  fromEmail: string;
+  toEmails: string[];
+  subject: string;
+  textBody: string | null;
+  attachmentCount: number;
+  errorMessage: string | null;
+  /** Failed attempts so far */
+  retryCount: number;
+  /** Next automatic retry, or null when the mail waits for the user */
+  nextRetryAt: string | null;
+  failedAt: string;
+}
+
+const OUTBOX_COLUMNS = `id, from_account_code, from_email, to_emails, subject, text_body,
+  COALESCE(jsonb_array_length(attachments), 0) AS attachment_count,
+  error_message, retry_count, next_retry_at, updated_at`;
+
+const mapRow = (row: Record<string, unknown>): OutboxMail => ({
+  id: row.id as string,
+  accountCode: row.from_account_code as string,
+  fromEmail: row.from_email as string,
+  toEmails: (row.to_emails as string[]) || [],
+  subject: row.subject as string,
+  textBody: (row.text_body as string | null) ?? null,
+  attachmentCount: Number(row.attachment_count),
+  errorMessage: (row.error_message as string | null) ?? null,
+  retryCount: row.retry_count as number,
+  nextRetryAt: row.next_retry_at ? new Date(row.next_retry_at as Date).toISOString() : null,
+  failedAt: new Date(row.updated_at as Date).toISOString(),
+});
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Failed sends, most recent failure first.
+ */
+export async function listOutbox(userId: string): Promise<OutboxMail[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${OUTBOX_COLUMNS} FROM sent_mails
+       WHERE user_id = $1 AND status = 'failed'
+       ORDER BY updated_at DESC`,
+      [userId]
+    );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retry a failed send now: its send job (replacing any queued automatic
+ * retry) becomes due immediately, so the job runner's lock prevents a double send.
+ */
+export async function retryNow(userId: string, id: string): Promise<OutboxMail> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockQueuedMail(client, userId, id, 'failed');
+    await deleteSendJob(client, userId, id);
+
+    const now = new Date();
+    await jobRunner.enqueue(userId, SEND_MAIL_JOB, { sentMailId: id }, now, client);
+    const result = await client.query(
+      `UPDATE sent_mails SET next_retry_at = $3
+       WHERE user_id = $1 AND id = $2
+       RETURNING ${OUTBOX_COLUMNS}`,
+      [userId, id, now]
+    );
+    await client.query('COMMIT');
+
+    logger.info(`[Outbox] Mail ${id} queued for an immediate retry`);
+    return mapRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Edit and resend: move a failed mail back to drafts.
+ */
+export async function editAsDraft(userId: string, id: string): Promise<Draft> {
+  const draft = await restoreQueuedMailAsDraft(userId, id, 'failed');
+  logger.info(`[Outbox] Mail ${id} moved back to drafts as ${draft.id}`);
+  return draft;
+}
+
+/**
+ * Discard a failed mail.
+ */
+export async function discardFailedMail(userId: string, id: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockQueuedMail(client, userId, id, 'failed');
+    await deleteSendJob(client, userId, id);
+    await client.query(`DELETE FROM sent_mails WHERE user_id = $1 AND id = $2`, [userId, id]);
+    await client.query('COMMIT');
+
+    logger.info(`[Outbox] Mail ${id} discarded`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Poll Scheduler for MailVoyage API
+ *
+ * Background inbox syncs, so the server-side cache is fresh even when no tab is open.
+ * - Every active account is synced with syncInbox at its user's `poll_interval_minutes`
+ * - Accounts are claimed through sync_tracking.last_attempt_at, so several API
+ *   processes don't poll the same account
+ * - Overall concurrency and per-host limits keep mail servers from being hammered
+ * - Each result (mails fetched or the error) is recorded in sync_tracking
+ */
+
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { HostRateLimiter } from '../utils/hostRateLimiter.js';
+import { signalInboxUpdate } from '../utils/signaling.js';
+import { syncInbox } from './inbox.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DueAccount {
+  userId: string;
+  accountCode: string;
+  host: string;
+  intervalMinutes: number;
+}
+
+/** Polling interval when the user hasn't picked one (minutes) */
+export const DEFAULT_POLL_INTERVAL = 15;
+export const MIN_POLL_INTERVAL = 5;
+export const MAX_POLL_INTERVAL = 24 * 60;
+
+// ============================================================================
+// Poll Scheduler Class
+// ============================================================================
+
+class PollScheduler {
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private isStarted = false;
+  /** `userId:accountCode` of syncs in flight */
+  private running: Set<string> = new Set();
+  private hostLimiter = new HostRateLimiter({
+    maxConcurrent: 2,
+    maxPerWindow: 10,
+    windowMs: 60 * 1000,
+  });
+
+  private readonly TICK_INTERVAL = 60 * 1000; // 1 minute
+  private readonly MAX_CONCURRENT = 4;
+  private readonly BATCH_SIZE = 50;
+
+  /**
+   * Start checking for accounts due a poll
+   */
+  start(): void {
+    if (this.isStarted) {
+      logger.warn('[Poll] Already started');
+      return;
+    }
+    this.isStarted = true;
+    this.tickInterval = setInterval(() => { void this.tick(); }, this.TICK_INTERVAL);
+    void this.tick();
+    logger.info(`[Poll] Scheduler started (max ${this.MAX_CONCURRENT} concurrent syncs)`);
+  }
+
+  /**
+   * Stop scheduling; syncs already running finish on their own
+   */
+  shutdown(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.isStarted = false;
+    logger.info('[Poll] Scheduler stopped');
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isTicking || !this.isStarted) return;
+    this.isTicking = true;
+    try {
+      if (this.running.size >= this.MAX_CONCURRENT) return;
+
+      const due = await this.findDueAccounts();
+      for (const account of due) {
+        if (this.running.size >= this.MAX_CONCURRENT) break;
+
+        const key = `${account.userId}:${account.accountCode}`;
+        if (this.running.has(key)) continue;
+        // Host at its limit: the account stays due and is picked up on a later tick
+        if (!this.hostLimiter.tryAcquire(account.host)) continue;
+
+        if (!(await this.claim(account))) {
+          this.hostLimiter.release(account.host);
+          continue;
+        }
+
+        this.running.add(key);
+        void this.poll(account).finally(() => {
+          this.running.delete(key);
+          this.hostLimiter.release(account.host);
+          // Free slot: continue with the accounts still due
+          void this.tick();
+        });
+      }
+    } catch (error) {
+      logger.error('[Poll] Tick failed:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Active accounts whose last attempt is older than their user's interval, longest waiting first
+   */
+  private async findDueAccounts(): Promise<DueAccount[]> {
+    const result = await pool.query(
+      `SELECT ea.user_id, ea.account_code, ea.incoming_host,
+              COALESCE(us.setting_value::int, $1) AS interval_minutes
+       FROM email_accounts ea
+       LEFT JOIN user_settings us
+         ON us.user_id = ea.user_id AND us.setting_key = 'poll_interval_minutes'
+       LEFT JOIN sync_tracking st
+         ON st.user_id = ea.user_id AND st.account_code = ea.account_code AND st.mailbox = 'INBOX'
+       WHERE ea.is_active = true
+         AND COALESCE(us.setting_value::int, $1) > 0
+         AND (st.last_attempt_at IS NULL
+              OR st.last_attempt_at < NOW() - make_interval(mins => COALESCE(us.setting_value::int, $1)))
+       ORDER BY st.last_attempt_at ASC NULLS FIRST
+       LIMIT $2`,
+      [DEFAULT_POLL_INTERVAL, this.BATCH_SIZE]
+    );
+
+    return result.rows.map(row => ({
+      userId: String(row.user_id),
+      accountCode: row.account_code,
+      host: row.incoming_host || '',
+      intervalMinutes: row.interval_minutes,
+    }));
+  }
+
+  /**
+   * Mark the account as attempted; false when another process claimed it first
+   */
+  private async claim(account: DueAccount): Promise<boolean> {
+    const result = await pool.query(
+      `INSERT INTO sync_tracking (user_id, account_code, mailbox, last_uid, last_synced_at, last_attempt_at)
+       VALUES ($1, $2, 'INBOX', 0, NULL, NOW())
+       ON CONFLICT (user_id, account_code, mailbox) DO UPDATE
+         SET last_attempt_at = NOW(), updated_at = NOW()
+         WHERE sync_tracking.last_attempt_at IS NULL
+            OR sync_tracking.last_attempt_at < NOW() - make_interval(mins => $3::int)
+       RETURNING id`,
+      [account.userId, account.accountCode, account.intervalMinutes]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async poll(account: DueAccount): Promise<void> {
+    const { userId, accountCode } = account;
+    try {
+      const result = await syncInbox(userId, accountCode, { mailbox: 'INBOX' });
+      await this.recordResult(account, { fetched: result.fetched, error: null });
+
+      if (result.fetched > 0 || result.reconciled > 0) {
+        // Open tabs (if any) pull the changes from the cache
+        signalInboxUpdate(userId, new Date().toISOString());
+      }
+      logger.debug(`[Poll] ${accountCode} for user ${userId}: ${result.fetched} fetched, ${result.reconciled} reconciled`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Poll] ${accountCode} for user ${userId} failed: ${message}`);
+      try {
+        await this.recordResult(account, { fetched: null, error: message });
+      } catch (recordError) {
+        logger.error('[Poll] Failed to record poll result:', recordError);
+      }
+    }
+  }
+
+  private async recordResult(
+    account: DueAccount,
+    outcome: { fetched: number | null; error: string | null }
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE sync_tracking
+       SET last_fetched = $3, last_error = $4,
+           last_synced_at = CASE WHEN $4::text IS NULL THEN NOW() ELSE last_synced_at END,
+           updated_at = NOW()
+       WHERE user_id = $1 AND account_code = $2 AND mailbox = 'INBOX'`,
+      [account.userId, account.accountCode, outcome.fetched, outcome.error]
+    );
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const pollScheduler = new PollScheduler();
+
+export default pollScheduler;
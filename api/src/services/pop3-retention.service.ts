@@ -0,0 +1,102 @@
+/**
+ * POP3 Retention for MailVoyage API
+ *
+ * Storage for the per-account POP3 policy: which UIDL hashes have been
+ * downloaded (pop3_downloads) and an audit log of every message deleted from
+ * the server (pop3_deletions). The policy itself is applied by the POP3 fetch
+ * in inbox.service, see selectPop3Deletions.
+ */
+
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { POP3_POLICIES, type Pop3Deletion, type Pop3Policy, type Pop3Retention } from '../utils/pop3Retention.js';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function getPop3Retention(userId: string, accountCode: string): Promise<Pop3Retention> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT pop3_policy, pop3_retention_days FROM email_accounts
+       WHERE user_id = $1 AND account_code = $2`,
+      [userId, accountCode]
+    );
+    const row = result.rows[0];
+    const policy = POP3_POLICIES.includes(row?.pop3_policy) ? (row.pop3_policy as Pop3Policy) : 'leave';
+    return { policy, retentionDays: row?.pop3_retention_days ?? null };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Downloaded UIDL hashes of an account and when each was first downloaded.
+ */
+export async function getPop3Downloads(userId: string, accountCode: string): Promise<Map<number, Date>> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT uid, downloaded_at FROM pop3_downloads
+       WHERE user_id = $1 AND account_code = $2`,
+      [userId, accountCode]
+    );
+    return new Map(result.rows.map(r => [Number(r.uid), new Date(r.downloaded_at)]));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * After a session: log the deletions the server committed on QUIT, remember
+ * the messages just downloaded, and forget hashes that are no longer on the server.
+ */
+export async function recordPop3Session(
+  userId: string,
+  accountCode: string,
+  session: {
+    policy: Pop3Policy;
+    deleted: Pop3Deletion[];
+    downloadedUids: number[];
+    serverUids: number[];
+  }
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    for (const deletion of session.deleted) {
+      await client.query(
+        `INSERT INTO pop3_deletions (user_id, account_code, uid, uidl, policy, downloaded_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [userId, accountCode, deletion.uid, deletion.uidl, session.policy, deletion.downloadedAt]
+      );
+      logger.info(
+        `[POP3] Deleted message ${deletion.uidl} from ${accountCode} (${session.policy}, downloaded ${deletion.downloadedAt.toISOString()})`
+      );
+    }
+
+    if (session.downloadedUids.length > 0) {
+      await client.query(
+        `INSERT INTO pop3_downloads (user_id, account_code, uid)
+         SELECT $1, $2, unnest($3::bigint[])
+         ON CONFLICT (user_id, account_code, uid) DO NOTHING`,
+        [userId, accountCode, session.downloadedUids]
+      );
+    }
+
+    await client.query(
+      `DELETE FROM pop3_downloads
+       WHERE user_id = $1 AND account_code = $2 AND NOT (uid = ANY($3::bigint[]))`,
+      [userId, accountCode, session.serverUids]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
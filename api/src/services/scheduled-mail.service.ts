@@ -0,0 +1,463 @@
+/**
+ * Scheduled Send for MailVoyage API
+ *
+ * "Send later" mails are `pending` sent_mails rows with a `send_mail` job due
+ * at `scheduled_at`. Forwarded attachments and reply headers are resolved when
+ * scheduling, so the job only needs the row.
+ *
+ * Undo send uses the same queue: the mail is held for the user's delay
+ * (`scheduled_at` stays NULL, so it isn't listed as scheduled) and undoing
+ * turns it back into a draft. Outbox retries (failed rows) run through the
+ * same `send_mail` job.
+ */
+
+import { randomUUID } from 'crypto';
+
+import type { PoolClient } from 'pg';
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { signalNewSentMail } from '../utils/signaling.js';
+import { AppError } from '../utils/errors.js';
+import { jobRunner, type Job } from './job-runner.service.js';
+import {
+  generateThreadId,
+  insertSentMail,
+  sendMailFromAccount,
+  SEND_MAIL_JOB,
+  type SendMailPayload,
+} from './mail.service.js';
+import { resolveReplyHeaders } from './thread.service.js';
+import { getForwardAttachments } from './attachment.service.js';
+import { getUserSetting } from './inbox.service.js';
+import { saveDraft, type Draft } from './draft.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SendMailJobPayload {
+  sentMailId: string;
+}
+
+export interface ScheduledMail {
+  id: string;
+  threadId: string;
+  accountCode: string;
+  fromEmail: string;
+  toEmails: string[];
+  cc: string[] | null;
+  bcc: string[] | null;
+  subject: string;
+  textBody: string | null;
+  attachmentCount: number;
+  scheduledAt: string;
+  createdAt: string;
+}
+
+/** A send held for the undo window */
+export interface HeldMail {
+  id: string;
+  sendAt: string;
+  undoSeconds: number;
+}
+
+/** Allowed undo-send delays in seconds; 0 sends immediately */
+export const UNDO_SEND_MIN_DELAY = 5;
+export const UNDO_SEND_MAX_DELAY = 30;
+
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+// Clock skew allowance for "send in a moment" picks
+const PAST_TOLERANCE_MS = 60 * 1000;
+
+const SCHEDULED_COLUMNS = `id, thread_id, from_account_code, from_email, to_emails, cc_emails, bcc_emails,
+  subject, text_body, COALESCE(jsonb_array_length(attachments), 0) AS attachment_count, scheduled_at, created_at`;
+
+const mapRow = (row: Record<string, unknown>): ScheduledMail => ({
+  id: row.id as string,
+  threadId: row.thread_id as string,
+  accountCode: row.from_account_code as string,
+  fromEmail: row.from_email as string,
+  toEmails: (row.to_emails as string[]) || [],
+  cc: (row.cc_emails as string[] | null) || null,
+  bcc: (row.bcc_emails as string[] | null) || null,
+  subject: row.subject as string,
+  textBody: (row.text_body as string | null) ?? null,
+  attachmentCount: Number(row.attachment_count),
+  scheduledAt: new Date(row.scheduled_at as Date).toISOString(),
+  createdAt: new Date(row.created_at as Date).toISOString(),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function assertScheduleTime(scheduledAt: Date): void {
+  const time = scheduledAt.getTime();
+  if (Number.isNaN(time)) {
+    throw new AppError('Invalid scheduled time', 400, true);
+  }
+  if (time < Date.now() - PAST_TOLERANCE_MS) {
+    throw new AppError('Scheduled time must be in the future', 400, true);
+  }
+  if (time > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+    throw new AppError('Mail can be scheduled at most one year ahead', 400, true);
+  }
+}
+
+/** Sender address of an active IMAP/POP3 or SMTP-only account */
+async function getSenderEmail(client: PoolClient, userId: string, accountCode: string): Promise<string> {
+  const result = await client.query(
+    `SELECT email FROM email_accounts WHERE user_id = $1 AND account_code = $2 AND is_active = true
+     UNION ALL
+     SELECT email FROM smtp_accounts WHERE user_id = $1 AND account_code = $2 AND is_active = true
+     LIMIT 1`,
+    [userId, accountCode]
+  );
+  if (result.rows.length === 0) {
+    throw new AppError('Email account not found or inactive', 404, true);
+  }
+  return result.rows[0].email;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Lock a queued mail (`pending`, or `failed` in the outbox) and its send job,
+ * inside the caller's transaction. Throws 404 when it doesn't exist, 409 when
+ * the job already started sending. Failed mails may have no job (no retry queued).
+ */
+export async function lockQueuedMail(
+  client: PoolClient,
+  userId: string,
+  id: string,
+  status: 'pending' | 'failed' = 'pending'
+): Promise<void> {
+  const mail = await client.query(
+    `SELECT id FROM sent_mails WHERE user_id = $1 AND id = $2 AND status = $3 FOR UPDATE`,
+    [userId, id, status]
+  );
+  if (mail.rows.length === 0) {
+    throw new AppError(status === 'pending' ? 'Scheduled mail not found' : 'Outbox mail not found', 404, true);
+  }
+
+  const job = await client.query(
+    `SELECT locked_at FROM jobs
+     WHERE user_id = $1 AND type = $2 AND payload->>'sentMailId' = $3
+     FOR UPDATE`,
+    [userId, SEND_MAIL_JOB, id]
+  );
+  const missing = job.rows.length === 0 && status === 'pending';
+  if (missing || job.rows[0]?.locked_at) {
+    throw new AppError('Mail is already being sent', 409, true);
+  }
+}
+
+/** Drop a queued mail's send job (inside the caller's transaction) */
+export async function deleteSendJob(client: PoolClient, userId: string, id: string): Promise<void> {
+  await client.query(
+    `DELETE FROM jobs WHERE user_id = $1 AND type = $2 AND payload->>'sentMailId' = $3`,
+    [userId, SEND_MAIL_JOB, id]
+  );
+}
+
+/**
+ * Load a sent_mails row back into a send payload.
+ */
+function rowToPayload(row: Record<string, unknown>): SendMailPayload {
+  return {
+    accountCode: row.from_account_code as string,
+    to: row.to_emails as string[],
+    cc: (row.cc_emails as string[] | null) ?? undefined,
+    bcc: (row.bcc_emails as string[] | null) ?? undefined,
+    subject: row.subject as string,
+    html: row.html_body as string,
+    text: (row.text_body as string | null) ?? undefined,
+    attachments: (row.attachments as SendMailPayload['attachments'] | null) ?? undefined,
+    inReplyTo: (row.in_reply_to as string | null) ?? undefined,
+    references: (row.reference_ids as string[] | null) ?? undefined,
+  };
+}
+
+/** Columns rowToPayload reads */
+const PAYLOAD_COLUMNS = `id, thread_id, from_account_code, from_email, to_emails, cc_emails, bcc_emails, subject,
+  html_body, text_body, attachments, in_reply_to, reference_ids`;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Insert a pending sent_mails row and its send job, due at `sendAt`.
+ * `scheduledAt` is set for "send later" and NULL for undo-send holds.
+ */
+async function queueMail(
+  userId: string,
+  payload: SendMailPayload,
+  sendAt: Date,
+  scheduledAt: Date | null
+): Promise<string> {
+  // Resolve now: the forwarded message may be gone (or moved) by send time
+  if (payload.forward) {
+    const forwarded = await getForwardAttachments(userId, payload.forward);
+    payload = { ...payload, attachments: [...(payload.attachments || []), ...forwarded], forward: undefined };
+  }
+  const replyHeaders = await resolveReplyHeaders(userId, payload.inReplyTo, payload.references);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const fromEmail = await getSenderEmail(client, userId, payload.accountCode);
+    const id = await insertSentMail(client, userId, {
+      threadId: generateThreadId(),
+      fromEmail,
+      payload,
+      replyHeaders,
+      status: 'pending',
+      messageId: null,
+      sentAt: sendAt,
+      scheduledAt,
+    });
+    await jobRunner.enqueue(userId, SEND_MAIL_JOB, { sentMailId: id }, sendAt, client);
+    await client.query('COMMIT');
+    return id;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store a mail as pending and queue its send job.
+ */
+export async function scheduleMail(userId: string, payload: SendMailPayload, scheduledAt: Date): Promise<ScheduledMail> {
+  assertScheduleTime(scheduledAt);
+
+  const id = await queueMail(userId, payload, scheduledAt, scheduledAt);
+  const result = await pool.query(`SELECT ${SCHEDULED_COLUMNS} FROM sent_mails WHERE id = $1`, [id]);
+
+  logger.info(`[Scheduled] Mail ${id} scheduled for ${scheduledAt.toISOString()} (user ${userId})`);
+  return mapRow(result.rows[0]);
+}
+
+/**
+ * The user's undo-send delay in seconds (0 = off).
+ */
+export async function getUndoSendDelay(userId: string): Promise<number> {
+  const delay = parseInt(await getUserSetting(userId, 'undo_send_delay', '0'), 10) || 0;
+  if (delay <= 0) return 0;
+  return Math.max(UNDO_SEND_MIN_DELAY, Math.min(UNDO_SEND_MAX_DELAY, delay));
+}
+
+/**
+ * Hold a send for the undo window. The job sends it afterwards,
+ * whether or not the client is still around.
+ */
+export async function holdMail(userId: string, payload: SendMailPayload, delaySeconds: number): Promise<HeldMail> {
+  const sendAt = new Date(Date.now() + delaySeconds * 1000);
+  const id = await queueMail(userId, payload, sendAt, null);
+
+  logger.info(`[Scheduled] Mail ${id} held for ${delaySeconds}s (user ${userId})`);
+  return { id, sendAt: sendAt.toISOString(), undoSeconds: delaySeconds };
+}
+
+/**
+ * Pending scheduled mails, soonest first.
+ */
+export async function listScheduledMails(userId: string): Promise<ScheduledMail[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${SCHEDULED_COLUMNS} FROM sent_mails
+       WHERE user_id = $1 AND status = 'pending' AND scheduled_at IS NOT NULL
+       ORDER BY scheduled_at`,
+      [userId]
+    );
+    return result.rows.map(mapRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move a scheduled mail to a new send time.
+ */
+export async function rescheduleMail(userId: string, id: string, scheduledAt: Date): Promise<ScheduledMail> {
+  assertScheduleTime(scheduledAt);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockQueuedMail(client, userId, id);
+
+    await client.query(
+      `UPDATE jobs SET run_at = $4, updated_at = NOW()
+       WHERE user_id = $1 AND type = $2 AND payload->>'sentMailId' = $3`,
+      [userId, SEND_MAIL_JOB, id, scheduledAt]
+    );
+    const result = await client.query(
+      `UPDATE sent_mails SET scheduled_at = $3, sent_at = $3, updated_at = NOW()
+       WHERE user_id = $1 AND id = $2
+       RETURNING ${SCHEDULED_COLUMNS}`,
+      [userId, id, scheduledAt]
+    );
+    await client.query('COMMIT');
+
+    logger.info(`[Scheduled] Mail ${id} rescheduled to ${scheduledAt.toISOString()}`);
+    return mapRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Cancel a scheduled mail before it is sent.
+ */
+export async function cancelScheduledMail(userId: string, id: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockQueuedMail(client, userId, id);
+    await deleteSendJob(client, userId, id);
+    await client.query(`DELETE FROM sent_mails WHERE user_id = $1 AND id = $2`, [userId, id]);
+    await client.query('COMMIT');
+
+    logger.info(`[Scheduled] Mail ${id} cancelled`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Undo a held (or scheduled) send: drop it from the queue and save its
+ * content as a new draft, which is returned.
+ */
+export async function undoSend(userId: string, id: string): Promise<Draft> {
+  const draft = await restoreQueuedMailAsDraft(userId, id, 'pending');
+  logger.info(`[Scheduled] Send of mail ${id} undone, restored as draft ${draft.id}`);
+  return draft;
+}
+
+/**
+ * Save a queued mail's content as a new draft, then remove the mail and its
+ * job. The mail stays locked while the draft is saved and is only deleted once
+ * the draft exists, so a failed save leaves it queued.
+ */
+export async function restoreQueuedMailAsDraft(
+  userId: string,
+  id: string,
+  status: 'pending' | 'failed'
+): Promise<Draft> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockQueuedMail(client, userId, id, status);
+
+    const result = await client.query(
+      `SELECT from_account_code, from_email, to_emails, cc_emails, bcc_emails,
+              subject, html_body, text_body, attachments
+       FROM sent_mails WHERE user_id = $1 AND id = $2`,
+      [userId, id]
+    );
+    const row = result.rows[0];
+
+    const attachments = (row.attachments as SendMailPayload['attachments']) || [];
+    const text = (row.text_body as string | null) || '';
+    const draft = await saveDraft(userId, randomUUID(), {
+      accountCode: row.from_account_code as string,
+      fromEmail: row.from_email as string,
+      to: ((row.to_emails as string[]) || []).join(', '),
+      cc: ((row.cc_emails as string[] | null) || []).join(', '),
+      bcc: ((row.bcc_emails as string[] | null) || []).join(', '),
+      subject: row.subject as string,
+      htmlContent: row.html_body as string,
+      textContent: text,
+      attachments: attachments.map(att => {
+        const size = att.size || Math.floor((att.content.length * 3) / 4);
+        return {
+          id: randomUUID(),
+          name: att.filename,
+          size,
+          sizeFormatted: formatSize(size),
+          type: att.contentType || 'application/octet-stream',
+          content: att.content,
+        };
+      }),
+      charCount: text.length,
+    });
+
+    await deleteSendJob(client, userId, id);
+    await client.query('DELETE FROM sent_mails WHERE user_id = $1 AND id = $2', [userId, id]);
+    await client.query('COMMIT');
+    return draft;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Job handler
+// ============================================================================
+
+/**
+ * Send a queued mail: a pending one (scheduled / undo window) or an outbox
+ * retry. sendMailFromAccount marks the row sent and emits signalNewSentMail;
+ * SMTP failures put it (back) in the outbox, with the next retry if any.
+ * Failures before SMTP (account removed or deactivated, undecryptable
+ * password, ...) put it in the outbox without a retry, so it can't stay
+ * pending once its job is gone.
+ */
+async function runSendMailJob(job: Job<SendMailJobPayload>): Promise<void> {
+  const { sentMailId } = job.payload;
+
+  const result = await pool.query(
+    `SELECT ${PAYLOAD_COLUMNS}, retry_count FROM sent_mails
+     WHERE user_id = $1 AND id = $2 AND status IN ('pending', 'failed')`,
+    [job.userId, sentMailId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    logger.info(`[Scheduled] Mail ${sentMailId} no longer queued, skipping`);
+    return;
+  }
+
+  try {
+    await sendMailFromAccount(job.userId, rowToPayload(row), { id: row.id, threadId: row.thread_id });
+  } catch (error) {
+    // An SMTP failure already counted the attempt and moved the row to the outbox
+    const message = error instanceof Error ? error.message : String(error);
+    const failed = await pool.query(
+      `UPDATE sent_mails
+       SET status = 'failed', error_message = $4, retry_count = retry_count + 1,
+           next_retry_at = NULL, scheduled_at = NULL, updated_at = NOW()
+       WHERE user_id = $1 AND id = $2 AND status IN ('pending', 'failed') AND retry_count = $3`,
+      [job.userId, sentMailId, row.retry_count, message]
+    );
+    if ((failed.rowCount ?? 0) > 0) {
+      logger.warn(`[Scheduled] Mail ${sentMailId} could not be sent, kept in outbox: ${message}`);
+      signalNewSentMail(job.userId, new Date().toISOString());
+    }
+    throw error;
+  }
+}
+
+/**
+ * Register scheduled-send job handlers (call before jobRunner.start()).
+ */
+export function registerScheduledSendJobs(): void {
+  jobRunner.register(SEND_MAIL_JOB, runSendMailJob);
+}
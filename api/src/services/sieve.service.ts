@@ -0,0 +1,335 @@
+/**
+ * Sieve Script Service for MailVoyage API
+ *
+ * Manages server-side Sieve filters of IMAP accounts over ManageSieve
+ * (RFC 5804): list, read, upload, activate, delete and syntax-check scripts.
+ * - Logs in with the account's stored IMAP credentials (getImapCredentials)
+ *   on the IMAP host, port SIEVE_PORT; each call opens its own connection
+ * - The session is upgraded with STARTTLS whenever the server offers it;
+ *   accounts set up with TLS refuse a server that doesn't
+ * - Syntax check uses CHECKSCRIPT, or on older servers uploads the script
+ *   under a scratch name and deletes it again
+ * - Protocol parsing lives in utils/manageSieve
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import {
+  parseSieveCapabilities,
+  quoteSieveString,
+  readSieveResponse,
+  sieveLiteral,
+  type SieveCapabilities,
+  type SieveResponse,
+} from '../utils/manageSieve.js';
+import { getImapCredentials, type ImapCredentials } from './inbox.service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SieveScript {
+  name: string;
+  active: boolean;
+}
+
+export interface SieveScriptList {
+  scripts: SieveScript[];
+  /** Sieve extensions the server supports */
+  extensions: string[];
+  implementation: string | null;
+}
+
+export interface SieveCheckResult {
+  valid: boolean;
+  /** The server's error message when invalid */
+  error: string | null;
+}
+
+// Standard ManageSieve port (RFC 5804)
+const SIEVE_PORT = 4190;
+const RESPONSE_TIMEOUT = 30 * 1000;
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+class ManageSieveConnection {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private waiting: { resolve: (response: SieveResponse) => void; reject: (error: Error) => void } | null = null;
+  private closedError: Error | null = null;
+  capabilities: SieveCapabilities | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Connect, upgrade to TLS when offered and log in with SASL PLAIN.
+   */
+  static async open(creds: ImapCredentials): Promise<ManageSieveConnection> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = net.connect({ host: creds.host, port: SIEVE_PORT, timeout: RESPONSE_TIMEOUT });
+      s.once('connect', () => resolve(s));
+      s.once('error', reject);
+      s.once('timeout', () => {
+        s.destroy();
+        reject(new Error(`Connection to ${creds.host}:${SIEVE_PORT} timed out`));
+      });
+    });
+
+    const conn = new ManageSieveConnection(socket);
+    try {
+      conn.capabilities = parseSieveCapabilities((await conn.expectOk('Greeting')).lines);
+
+      if (conn.capabilities.startTls) {
+        await conn.expectOk('STARTTLS', 'STARTTLS');
+        await conn.upgrade(creds.host);
+        conn.capabilities = parseSieveCapabilities((await conn.expectOk('Capabilities after STARTTLS')).lines);
+      } else if (creds.security !== 'NONE') {
+        throw new AppError('The Sieve server does not offer STARTTLS', 502, true);
+      }
+
+      if (!conn.capabilities.saslMechanisms.includes('PLAIN')) {
+        throw new AppError('The Sieve server does not support PLAIN login', 502, true);
+      }
+      const auth = Buffer.from(`\0${creds.username}\0${creds.password}`, 'utf8').toString('base64');
+      const login = await conn.command(`AUTHENTICATE "PLAIN" ${quoteSieveString(auth)}`);
+      if (login.status !== 'OK') {
+        throw new AppError(`Sieve login failed: ${login.message || login.status}`, 502, true);
+      }
+      return conn;
+    } catch (error) {
+      conn.close();
+      throw error;
+    }
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(0);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.deliver();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('Sieve connection closed')));
+  }
+
+  private async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({
+        socket: this.socket,
+        servername: host,
+        rejectUnauthorized: process.env.NODE_ENV === 'production',
+        minVersion: 'TLSv1.2',
+      });
+      secure.once('secureConnect', () => resolve(secure));
+      secure.once('error', reject);
+    });
+    this.buffer = Buffer.alloc(0);
+    this.attach(this.socket);
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+    const response = readSieveResponse(this.buffer);
+    if (!response) return;
+    this.buffer = this.buffer.subarray(response.length);
+    const { resolve } = this.waiting;
+    this.waiting = null;
+    resolve(response);
+  }
+
+  private fail(error: Error): void {
+    this.closedError ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  private read(): Promise<SieveResponse> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error('Sieve server did not respond'));
+        this.close();
+      }, RESPONSE_TIMEOUT);
+      this.waiting = {
+        resolve: (response) => { clearTimeout(timer); resolve(response); },
+        reject: (error) => { clearTimeout(timer); reject(error); },
+      };
+      this.deliver();
+    });
+  }
+
+  /** Send a command line (its literal included) and read the response */
+  async command(line: string): Promise<SieveResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  /** Read a response (or send `line` first) and throw unless it is OK */
+  async expectOk(what: string, line?: string): Promise<SieveResponse> {
+    const response = line ? await this.command(line) : await this.read();
+    if (response.status !== 'OK') {
+      throw sieveError(what, response);
+    }
+    return response;
+  }
+
+  close(): void {
+    if (!this.closedError) {
+      this.socket.write('LOGOUT\r\n');
+      this.closedError = new Error('Sieve connection closed');
+    }
+    this.socket.end();
+  }
+}
+
+/** AppError for a NO/BYE answer, with a status from its response code */
+function sieveError(what: string, response: SieveResponse): AppError {
+  const code = response.code?.split(/\s/)[0].toUpperCase() ?? '';
+  const status = code === 'NONEXISTENT' ? 404
+    : code === 'ACTIVE' || code === 'ALREADYEXISTS' ? 409
+      : code === 'QUOTA' || code.startsWith('QUOTA/') ? 413
+        : response.status === 'BYE' ? 502 : 400;
+  const message = response.message || `${what} failed`;
+  return new AppError(`${what}: ${message}`, status, true, { sieve: message });
+}
+
+/**
+ * Run `fn` on a logged-in ManageSieve connection for the account.
+ */
+async function withSieve<T>(
+  userId: string,
+  accountCode: string,
+  fn: (conn: ManageSieveConnection) => Promise<T>
+): Promise<T> {
+  const creds = await getImapCredentials(userId, accountCode);
+  if (creds.incomingType === 'POP3') {
+    throw new AppError('Sieve filters need an IMAP account', 400, true);
+  }
+
+  let conn: ManageSieveConnection;
+  try {
+    conn = await ManageSieveConnection.open(creds);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[Sieve] Failed to connect for ${accountCode}:`, error);
+    throw new AppError(`Could not reach the Sieve server: ${message}`, 502, false, { details: message });
+  }
+
+  try {
+    return await fn(conn);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[Sieve] Command failed for ${accountCode}:`, error);
+    throw new AppError(`Sieve command failed: ${message}`, 502, false, { details: message });
+  } finally {
+    conn.close();
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function listScripts(userId: string, accountCode: string): Promise<SieveScriptList> {
+  return withSieve(userId, accountCode, async (conn) => {
+    const response = await conn.expectOk('List scripts', 'LISTSCRIPTS');
+    return {
+      scripts: response.lines.map(([name, flag]) => ({ name, active: flag?.toUpperCase() === 'ACTIVE' })),
+      extensions: conn.capabilities?.extensions ?? [],
+      implementation: conn.capabilities?.implementation ?? null,
+    };
+  });
+}
+
+export async function getScript(userId: string, accountCode: string, name: string): Promise<SieveScript & { content: string }> {
+  return withSieve(userId, accountCode, async (conn) => {
+    const list = await conn.expectOk('List scripts', 'LISTSCRIPTS');
+    const response = await conn.expectOk(`Read script "${name}"`, `GETSCRIPT ${quoteSieveString(name)}`);
+    return {
+      name,
+      active: list.lines.some(([n, flag]) => n === name && flag?.toUpperCase() === 'ACTIVE'),
+      content: response.lines[0]?.[0] ?? '',
+    };
+  });
+}
+
+/**
+ * Upload (create or replace) a script. The server rejects invalid scripts
+ * with a 400 carrying its error message.
+ */
+export async function putScript(
+  userId: string,
+  accountCode: string,
+  name: string,
+  content: string,
+  activate = false
+): Promise<void> {
+  await withSieve(userId, accountCode, async (conn) => {
+    await conn.expectOk(`Save script "${name}"`, `PUTSCRIPT ${quoteSieveString(name)} ${sieveLiteral(content)}`);
+    if (activate) {
+      await conn.expectOk(`Activate script "${name}"`, `SETACTIVE ${quoteSieveString(name)}`);
+    }
+  });
+  logger.info(`[Sieve] Saved script "${name}" for ${accountCode}${activate ? ' (active)' : ''}`);
+}
+
+/**
+ * Make `name` the active script; null turns Sieve filtering off.
+ */
+export async function setActiveScript(userId: string, accountCode: string, name: string | null): Promise<void> {
+  await withSieve(userId, accountCode, async (conn) => {
+    await conn.expectOk(
+      name ? `Activate script "${name}"` : 'Deactivate scripts',
+      `SETACTIVE ${quoteSieveString(name ?? '')}`
+    );
+  });
+}
+
+/**
+ * Delete a script. Servers refuse to delete the active one (409).
+ */
+export async function deleteScript(userId: string, accountCode: string, name: string): Promise<void> {
+  await withSieve(userId, accountCode, async (conn) => {
+    await conn.expectOk(`Delete script "${name}"`, `DELETESCRIPT ${quoteSieveString(name)}`);
+  });
+  logger.info(`[Sieve] Deleted script "${name}" for ${accountCode}`);
+}
+
+/**
+ * Check a script's syntax on the server without saving it.
+ */
+export async function checkScript(userId: string, accountCode: string, content: string): Promise<SieveCheckResult> {
+  return withSieve(userId, accountCode, async (conn) => {
+    if (conn.capabilities?.version) {
+      const response = await conn.command(`CHECKSCRIPT ${sieveLiteral(content)}`);
+      if (response.status === 'BYE') throw sieveError('Check script', response);
+      return { valid: response.status === 'OK', error: response.status === 'OK' ? null : response.message };
+    }
+
+    // Pre-RFC servers: PUTSCRIPT checks the script too
+    const scratch = `mailvoyage-check-${Date.now()}`;
+    const response = await conn.command(`PUTSCRIPT ${quoteSieveString(scratch)} ${sieveLiteral(content)}`);
+    if (response.status === 'BYE') throw sieveError('Check script', response);
+    if (response.status === 'OK') {
+      await conn.command(`DELETESCRIPT ${quoteSieveString(scratch)}`);
+      return { valid: true, error: null };
+    }
+    return { valid: false, error: response.message };
+  });
+}
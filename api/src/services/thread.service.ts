@@ -0,0 +1,353 @@
+import pool from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import {
+  computeConversationIds,
+  normalizeMessageId,
+  parseMessageIdList,
+  type ThreadableMessage,
+} from '../utils/threading.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A received or sent message as part of a conversation */
+export interface ConversationMessage {
+  type: 'received' | 'sent';
+  id: string;                    // inbox_cache.id or sent_mails.id
+  accountCode: string;
+  mailbox: string | null;        // received only
+  uid: number | null;            // received only
+  sentThreadId: string | null;   // sent only — key used by /api/sent-mails/thread/:threadId
+  messageId: string | null;
+  inReplyTo: string | null;
+  fromAddress: string;
+  fromName: string | null;
+  toAddresses: string[];
+  ccAddresses: string[] | null;
+  subject: string;
+  textBody: string | null;
+  htmlBody: string | null;
+  snippet: string | null;
+  /** False for received mail whose body hasn't been fetched yet (GET /api/inbox/:accountCode/:uid/body) */
+  bodyLoaded: boolean;
+  date: string;
+  isRead: boolean;
+  hasAttachments: boolean;
+  attachmentsMetadata: Array<{ filename: string; contentType: string; size: number }> | null;
+}
+
+export interface Conversation {
+  conversationId: string;
+  messages: ConversationMessage[];
+}
+
+/** Identifies the message a conversation is requested for */
+export type ConversationRef =
+  | { accountCode: string; mailbox: string; uid: number }
+  | { sentThreadId: string };
+
+export interface ReplyHeaders {
+  inReplyTo: string | null;
+  references: string[];
+}
+
+// ============================================================================
+// Threading
+// ============================================================================
+
+// The recompute running (or queued) per user; runs for one user never overlap,
+// so an older snapshot can't overwrite a newer one
+const conversationRuns = new Map<string, Promise<void>>();
+
+// Users with a scheduled recompute that hasn't started yet
+const scheduledUpdates = new Set<string>();
+
+/**
+ * Recompute conversation IDs (JWZ) for all of a user's cached received mail
+ * and sent mail, updating only rows whose conversation changed. Waits for a
+ * recompute already running for the user.
+ */
+export async function recomputeConversations(userId: string): Promise<void> {
+  const run = (conversationRuns.get(userId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => threadAllMail(userId));
+  conversationRuns.set(userId, run);
+  try {
+    await run;
+  } finally {
+    if (conversationRuns.get(userId) === run) conversationRuns.delete(userId);
+  }
+}
+
+async function threadAllMail(userId: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    const inbox = await client.query(
+      `SELECT id, message_id, in_reply_to, reference_ids, subject, conversation_id
+       FROM inbox_cache WHERE user_id = $1`,
+      [userId]
+    );
+    const sent = await client.query(
+      `SELECT id, message_id, in_reply_to, reference_ids, subject, conversation_id
+       FROM sent_mails WHERE user_id = $1`,
+      [userId]
+    );
+
+    const toThreadable = (prefix: string) => (row: Record<string, unknown>): ThreadableMessage => ({
+      key: `${prefix}:${row.id}`,
+      messageId: (row.message_id as string) || null,
+      inReplyTo: (row.in_reply_to as string) || null,
+      references: (row.reference_ids as string[]) || null,
+      subject: (row.subject as string) || '',
+    });
+
+    const conversationIds = computeConversationIds([
+      ...inbox.rows.map(toThreadable('inbox')),
+      ...sent.rows.map(toThreadable('sent')),
+    ]);
+
+    const changed = (prefix: string, rows: Array<Record<string, unknown>>) => {
+      const ids: string[] = [];
+      const values: string[] = [];
+      for (const row of rows) {
+        const conversationId = conversationIds.get(`${prefix}:${row.id}`);
+        if (conversationId && conversationId !== row.conversation_id) {
+          ids.push(String(row.id));
+          values.push(conversationId);
+        }
+      }
+      return { ids, values };
+    };
+
+    const inboxChanges = changed('inbox', inbox.rows);
+    const sentChanges = changed('sent', sent.rows);
+
+    await client.query('BEGIN');
+    if (inboxChanges.ids.length > 0) {
+      await client.query(
+        `UPDATE inbox_cache c SET conversation_id = u.conversation_id
+         FROM unnest($2::int[], $3::text[]) AS u(id, conversation_id)
+         WHERE c.user_id = $1 AND c.id = u.id`,
+        [userId, inboxChanges.ids, inboxChanges.values]
+      );
+    }
+    if (sentChanges.ids.length > 0) {
+      await client.query(
+        `UPDATE sent_mails s SET conversation_id = u.conversation_id
+         FROM unnest($2::uuid[], $3::text[]) AS u(id, conversation_id)
+         WHERE s.user_id = $1 AND s.id = u.id`,
+        [userId, sentChanges.ids, sentChanges.values]
+      );
+    }
+    await client.query('COMMIT');
+
+    const updated = inboxChanges.ids.length + sentChanges.ids.length;
+    if (updated > 0) {
+      logger.debug(`[Threads] Updated conversation of ${updated} messages for user ${userId}`);
+    }
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('[Threads] Error recomputing conversations:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Recompute conversations without failing the caller (sync and send paths),
+ * once new or removed mail is stored. Requests made while a recompute waits
+ * to start share it.
+ */
+export function scheduleConversationUpdate(userId: string): void {
+  if (scheduledUpdates.has(userId)) return;
+  scheduledUpdates.add(userId);
+
+  (conversationRuns.get(userId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => {
+      scheduledUpdates.delete(userId);
+      return recomputeConversations(userId);
+    })
+    .catch(() => {
+      // Already logged; the next sync or thread request retries
+    });
+}
+
+/**
+ * Build RFC 5322 In-Reply-To / References for an outgoing reply.
+ * The parent's own References are looked up in the cache (received or sent)
+ * so the chain stays complete even when the client only knows the parent ID.
+ */
+export async function resolveReplyHeaders(
+  userId: string,
+  inReplyTo: string | null | undefined,
+  references: string[] | null | undefined
+): Promise<ReplyHeaders> {
+  const parentId = normalizeMessageId(inReplyTo);
+  const given = parseMessageIdList(references);
+  if (!parentId) return { inReplyTo: null, references: given };
+
+  let parentReferences: string[] = [];
+  if (given.length === 0) {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT reference_ids FROM inbox_cache WHERE user_id = $1 AND message_id = $2 AND reference_ids IS NOT NULL
+         UNION ALL
+         SELECT reference_ids FROM sent_mails WHERE user_id = $1 AND message_id = $2 AND reference_ids IS NOT NULL
+         LIMIT 1`,
+        [userId, parentId]
+      );
+      parentReferences = (result.rows[0]?.reference_ids as string[]) || [];
+    } finally {
+      client.release();
+    }
+  }
+
+  // Parent's chain first, parent last, no duplicates
+  const chain = [...(given.length > 0 ? given : parentReferences).filter(id => id !== parentId), parentId];
+  return {
+    inReplyTo: parentId,
+    references: chain.filter((id, i) => chain.indexOf(id) === i),
+  };
+}
+
+// ============================================================================
+// Conversation lookup
+// ============================================================================
+
+async function findConversationId(userId: string, ref: ConversationRef): Promise<string | null | undefined> {
+  const client = await pool.connect();
+  try {
+    const result = 'sentThreadId' in ref
+      ? await client.query(
+        `SELECT conversation_id FROM sent_mails WHERE user_id = $1 AND thread_id = $2`,
+        [userId, ref.sentThreadId]
+      )
+      : await client.query(
+        `SELECT conversation_id FROM inbox_cache
+         WHERE user_id = $1 AND account_code = $2 AND mailbox = $3 AND uid = $4`,
+        [userId, ref.accountCode, ref.mailbox, ref.uid]
+      );
+    // undefined: message not found; null: not threaded yet
+    return result.rows.length > 0 ? result.rows[0].conversation_id : undefined;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the whole conversation a message belongs to — received and sent
+ * messages merged, oldest first.
+ */
+export async function getConversation(userId: string, ref: ConversationRef): Promise<Conversation> {
+  let conversationId = await findConversationId(userId, ref);
+  if (conversationId === undefined) {
+    throw new AppError('Message not found', 404, true);
+  }
+  if (conversationId === null) {
+    // Rows cached before threading was introduced
+    await recomputeConversations(userId);
+    conversationId = await findConversationId(userId, ref);
+  }
+  if (!conversationId) {
+    throw new AppError('Message not found', 404, true);
+  }
+
+  const client = await pool.connect();
+  try {
+    const inbox = await client.query(
+      `SELECT * FROM inbox_cache WHERE user_id = $1 AND conversation_id = $2`,
+      [userId, conversationId]
+    );
+    // Attachment content (base64) is left out — only metadata is needed here
+    const sent = await client.query(
+      `SELECT id, thread_id, from_email, from_account_code, to_emails, cc_emails,
+              subject, html_body, text_body, message_id, in_reply_to, sent_at,
+              (SELECT jsonb_agg(a - 'content') FROM jsonb_array_elements(attachments) a) AS attachments
+       FROM sent_mails
+       WHERE user_id = $1 AND conversation_id = $2 AND status = 'sent'`,
+      [userId, conversationId]
+    );
+
+    const messages: ConversationMessage[] = [
+      ...inbox.rows.map(mapInboxRow),
+      ...sent.rows.map(mapSentRow),
+    ];
+
+    // The same message can be cached in several folders (e.g. INBOX and Archive)
+    const seen = new Set<string>();
+    const unique = messages
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .filter(message => {
+        if (!message.messageId) return true;
+        if (seen.has(message.messageId)) return false;
+        seen.add(message.messageId);
+        return true;
+      });
+
+    return { conversationId, messages: unique };
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Helper: Map DB rows to ConversationMessage
+// ============================================================================
+
+function mapInboxRow(row: Record<string, unknown>): ConversationMessage {
+  return {
+    type: 'received',
+    id: String(row.id),
+    accountCode: row.account_code as string,
+    mailbox: row.mailbox as string,
+    uid: row.uid as number,
+    sentThreadId: null,
+    messageId: (row.message_id as string) || null,
+    inReplyTo: (row.in_reply_to as string) || null,
+    fromAddress: row.from_address as string,
+    fromName: (row.from_name as string) || null,
+    toAddresses: (row.to_addresses as string[]) || [],
+    ccAddresses: (row.cc_addresses as string[]) || null,
+    subject: (row.subject as string) || '(No Subject)',
+    textBody: (row.text_body as string) || null,
+    htmlBody: (row.html_body as string) || null,
+    snippet: (row.snippet as string) || null,
+    bodyLoaded: row.body_loaded !== false,
+    date: new Date(row.date as string).toISOString(),
+    isRead: (row.is_read as boolean) || false,
+    hasAttachments: (row.has_attachments as boolean) || false,
+    attachmentsMetadata: (row.attachments_metadata as ConversationMessage['attachmentsMetadata']) || null,
+  };
+}
+
+function mapSentRow(row: Record<string, unknown>): ConversationMessage {
+  const attachments = (row.attachments as Array<{ filename: string; contentType: string; size: number }>) || null;
+  return {
+    type: 'sent',
+    id: String(row.id),
+    accountCode: row.from_account_code as string,
+    mailbox: null,
+    uid: null,
+    sentThreadId: row.thread_id as string,
+    messageId: (row.message_id as string) || null,
+    inReplyTo: (row.in_reply_to as string) || null,
+    fromAddress: row.from_email as string,
+    fromName: null,
+    toAddresses: (row.to_emails as string[]) || [],
+    ccAddresses: (row.cc_emails as string[]) || null,
+    subject: (row.subject as string) || '(No Subject)',
+    textBody: (row.text_body as string) || null,
+    htmlBody: (row.html_body as string) || null,
+    snippet: null,
+    bodyLoaded: true,
+    date: new Date(row.sent_at as string).toISOString(),
+    isRead: true,
+    hasAttachments: Boolean(attachments && attachments.length > 0),
+    attachmentsMetadata: attachments,
+  };
+}
@@ -36,6 +36,9 @@ export interface SyncSignal {
   data?: Record<string, unknown>;  // Optional payload data
 }
 
+/** Called when a user's first tab connects (online) or last tab goes away (offline) */
+export type PresenceListener = (userId: string, online: boolean) => void;
+
 interface PendingSignal {
   userId: string;
   tables: Set<string>;
@@ -53,6 +56,7 @@ class WebSocketService {
   private clients: Map<string, Set<AuthenticatedClient>> = new Map();
   private pendingSignals: Map<string, PendingSignal> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private presenceListeners: PresenceListener[] = [];
   private isInitialized = false;
   
   // Debounce settings
@@ -173,6 +177,7 @@ class WebSocketService {
 
       // Get or create the set for this user
       let clientSet = this.clients.get(userId);
+      const isFirstTab = !clientSet;
       if (!clientSet) {
         clientSet = new Set();
         this.clients.set(userId, clientSet);
@@ -204,6 +209,10 @@ class WebSocketService {
         timestamp: new Date().toISOString()
       });
 
+      if (isFirstTab) {
+        this.emitPresence(userId, true);
+      }
+
     } catch (error: unknown) {
       logger.warn('[WebSocket] Auth failed:', error instanceof Error ? error.message : String(error));
       this.sendError(ws, 'Authentication failed');
@@ -251,6 +260,7 @@ class WebSocketService {
               clearTimeout(pending.timeout);
               this.pendingSignals.delete(userId);
             }
+            this.emitPresence(userId, false);
           }
 
           logger.info(`[WebSocket] User ${userId} tab disconnected (${clientSet.size} remaining). Total connections: ${this.totalConnections}`);
@@ -291,11 +301,32 @@ class WebSocketService {
         }
         if (clientSet.size === 0) {
           this.clients.delete(userId);
+          this.emitPresence(userId, false);
         }
       }
     }, this.HEARTBEAT_INTERVAL);
   }
 
+  /**
+   * Subscribe to users coming online (first tab) and going offline (last tab)
+   */
+  onPresenceChange(listener: PresenceListener): void {
+    this.presenceListeners.push(listener);
+  }
+
+  /**
+   * Internal: notify presence listeners; a failing listener doesn't affect the others
+   */
+  private emitPresence(userId: string, online: boolean): void {
+    for (const listener of this.presenceListeners) {
+      try {
+        listener(userId, online);
+      } catch (error) {
+        logger.error('[WebSocket] Presence listener failed:', error);
+      }
+    }
+  }
+
   /**
    * Send a signal to ALL tabs of a specific user (debounced)
    */
@@ -0,0 +1,128 @@
+/**
+ * Contact Harvesting for MailVoyage API
+ *
+ * Turns per-address statistics of newly seen mail (recipients of a sent mail,
+ * senders of INBOX mail cached for the first time) into address book
+ * changes; contact.service gathers the statistics and writes the plan.
+ * - Addresses are compared in lower case
+ * - Counters are cumulative: new mail adds to the contact owning the address,
+ *   so trimming the cache never lowers them
+ * - Only unknown addresses create contacts, and never the user's own ones or
+ *   automated senders (no-reply, bounces and the like)
+ * - Addresses of a deleted contact stay claimed, so they aren't harvested again
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How often and how recently the user exchanged mail with one address */
+export interface AddressStats {
+  email: string;
+  /** Most recent display name seen for the address */
+  name: string | null;
+  sentCount: number;
+  receivedCount: number;
+  lastContactedAt: Date | null;
+}
+
+/** The parts of a stored contact harvesting looks at */
+export interface HarvestContact {
+  id: number;
+  emails: string[];
+  deleted: boolean;
+}
+
+export interface ContactCounters {
+  sentCount: number;
+  receivedCount: number;
+  lastContactedAt: Date | null;
+}
+
+export interface ContactHarvestPlan {
+  created: Array<ContactCounters & { name: string | null; email: string }>;
+  /** What to add to the counters of existing contacts */
+  incremented: Array<ContactCounters & { id: number }>;
+}
+
+// Local parts of senders nobody writes back to
+const AUTOMATED_LOCAL_PART = /^(no-?reply|do-?not-?reply|mailer-daemon|postmaster|bounces?|notifications?)([+._-]|$)/i;
+
+// Placeholder the sync stores when a message has no From
+const UNKNOWN_ADDRESS = 'unknown@unknown.com';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Whether an address belongs to a machine rather than a person */
+export function isAutomatedAddress(email: string): boolean {
+  const address = normalizeAddress(email);
+  if (address === UNKNOWN_ADDRESS) return true;
+  const at = address.lastIndexOf('@');
+  if (at <= 0) return true;
+  return AUTOMATED_LOCAL_PART.test(address.slice(0, at));
+}
+
+const later = (a: Date | null, b: Date | null): Date | null => {
+  if (!a) return b;
+  if (!b) return a;
+  return a.getTime() >= b.getTime() ? a : b;
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Plan the contacts to create and the counters to add to. `stats` covers
+ * mail not counted before; `createOnly` statistics (e.g. all sent mail, for a
+ * harvest by hand) only count towards contacts this plan creates.
+ */
+export function planContactHarvest(
+  stats: AddressStats[],
+  contacts: HarvestContact[],
+  ownAddresses: string[],
+  createOnly: AddressStats[] = []
+): ContactHarvestPlan {
+  const owner = new Map<string, HarvestContact>();
+  for (const contact of contacts) {
+    for (const email of contact.emails) owner.set(normalizeAddress(email), contact);
+  }
+  const own = new Set(ownAddresses.map(normalizeAddress));
+
+  const increments = new Map<number, ContactCounters & { id: number }>();
+  const created = new Map<string, ContactHarvestPlan['created'][number]>();
+
+  const add = (total: ContactCounters, entry: AddressStats) => {
+    total.sentCount += entry.sentCount;
+    total.receivedCount += entry.receivedCount;
+    total.lastContactedAt = later(total.lastContactedAt, entry.lastContactedAt);
+  };
+
+  for (const [entries, counted] of [[stats, true], [createOnly, false]] as const) {
+    for (const entry of entries) {
+      const email = normalizeAddress(entry.email);
+      const contact = owner.get(email);
+      if (contact) {
+        if (contact.deleted || !counted) continue;
+        const increment = increments.get(contact.id)
+          ?? { id: contact.id, sentCount: 0, receivedCount: 0, lastContactedAt: null };
+        add(increment, entry);
+        increments.set(contact.id, increment);
+      } else if (!own.has(email) && !isAutomatedAddress(email)) {
+        const contactToBe = created.get(email)
+          ?? { name: null, email, sentCount: 0, receivedCount: 0, lastContactedAt: null };
+        contactToBe.name ??= entry.name?.trim() || null;
+        add(contactToBe, entry);
+        created.set(email, contactToBe);
+      }
+    }
+  }
+
+  return { created: [...created.values()], incremented: [...increments.values()] };
+}
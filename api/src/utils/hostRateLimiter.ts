@@ -0,0 +1,59 @@
+/**
+ * Per-host Rate Limiter for MailVoyage API
+ *
+ * Keeps background work from hammering one mail server: limits both the
+ * connections open to a host at once and how many are started per time window.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HostLimits {
+  /** Connections open to one host at the same time */
+  maxConcurrent: number;
+  /** Connections started to one host per window */
+  maxPerWindow: number;
+  windowMs: number;
+}
+
+// ============================================================================
+// Limiter
+// ============================================================================
+
+export class HostRateLimiter {
+  private active: Map<string, number> = new Map();
+  /** host → start times inside the current window */
+  private starts: Map<string, number[]> = new Map();
+
+  constructor(private readonly limits: HostLimits) {}
+
+  /**
+   * Take a slot for `host`; false when the host is at its limit (try again later).
+   * Every successful call must be paired with release().
+   */
+  tryAcquire(host: string, now: number = Date.now()): boolean {
+    const key = host.toLowerCase();
+    const recent = (this.starts.get(key) || []).filter(t => now - t < this.limits.windowMs);
+
+    if ((this.active.get(key) || 0) >= this.limits.maxConcurrent || recent.length >= this.limits.maxPerWindow) {
+      this.starts.set(key, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.starts.set(key, recent);
+    this.active.set(key, (this.active.get(key) || 0) + 1);
+    return true;
+  }
+
+  release(host: string): void {
+    const key = host.toLowerCase();
+    const count = (this.active.get(key) || 0) - 1;
+    if (count > 0) {
+      this.active.set(key, count);
+    } else {
+      this.active.delete(key);
+    }
+  }
+}
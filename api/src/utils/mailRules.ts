@@ -0,0 +1,175 @@
+/**
+ * Mail Filter Rules for MailVoyage API
+ *
+ * Matching and planning for user-defined filter rules; mail-rules.service
+ * loads the rules and carries out the plans on the server and in inbox_cache.
+ * - Text conditions (from, to, subject, body) ignore case; from matches the
+ *   address or the display name, to matches To and Cc
+ * - Bodies are fetched lazily, so `body` looks at the text body when it is
+ *   loaded and at the snippet otherwise
+ * - `size` compares the message size in bytes; mail without a known size
+ *   never matches it
+ * - Rules run in order; a matching rule with `stopProcessing` ends the run
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RuleTextField = 'from' | 'to' | 'subject' | 'body';
+export type RuleTextOperator = 'contains' | 'notContains' | 'equals' | 'startsWith' | 'endsWith';
+
+export type RuleCondition =
+  | { field: RuleTextField; operator: RuleTextOperator; value: string }
+  | { field: 'hasAttachment'; value: boolean }
+  /** `value` in bytes */
+  | { field: 'size'; operator: 'greaterThan' | 'lessThan'; value: number };
+
+export type RuleAction =
+  | { type: 'markRead' }
+  | { type: 'star' }
+  | { type: 'label'; label: string }
+  | { type: 'move'; folder: string }
+  | { type: 'forward'; to: string }
+  | { type: 'delete' };
+
+export interface MailRule {
+  id: number;
+  name: string;
+  /** null: every account */
+  accountCode: string | null;
+  enabled: boolean;
+  position: number;
+  /** true: all conditions must match, false: any */
+  matchAll: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  stopProcessing: boolean;
+}
+
+/** The parts of a cached mail rules look at */
+export interface RuleMail {
+  accountCode: string;
+  fromAddress: string;
+  fromName: string | null;
+  toAddresses: string[];
+  ccAddresses: string[] | null;
+  subject: string;
+  textBody: string | null;
+  htmlBody: string | null;
+  snippet: string | null;
+  hasAttachments: boolean;
+  size: number | null;
+}
+
+/** What the matching rules do to one mail, merged */
+export interface RulePlan {
+  ruleIds: number[];
+  markRead: boolean;
+  star: boolean;
+  labels: string[];
+  /** First matching rule's folder */
+  moveTo: string | null;
+  forwardTo: string[];
+  /** Wins over moveTo */
+  delete: boolean;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+const normalize = (value: string): string => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+function bodyText(mail: RuleMail): string {
+  if (mail.textBody) return mail.textBody;
+  if (mail.htmlBody) return mail.htmlBody.replace(/<[^>]*>/g, ' ');
+  return mail.snippet || '';
+}
+
+function fieldValues(mail: RuleMail, field: RuleTextField): string[] {
+  switch (field) {
+    case 'from': return [mail.fromAddress, mail.fromName || ''];
+    case 'to': return [...mail.toAddresses, ...(mail.ccAddresses || [])];
+    case 'subject': return [mail.subject];
+    case 'body': return [bodyText(mail)];
+  }
+}
+
+function matchesText(value: string, operator: RuleTextOperator, expected: string): boolean {
+  switch (operator) {
+    case 'contains':
+    case 'notContains': return value.includes(expected);
+    case 'equals': return value === expected;
+    case 'startsWith': return value.startsWith(expected);
+    case 'endsWith': return value.endsWith(expected);
+  }
+}
+
+export function matchesCondition(condition: RuleCondition, mail: RuleMail): boolean {
+  switch (condition.field) {
+    case 'hasAttachment':
+      return mail.hasAttachments === condition.value;
+    case 'size':
+      if (mail.size === null) return false;
+      return condition.operator === 'greaterThan' ? mail.size > condition.value : mail.size < condition.value;
+    default: {
+      const expected = normalize(condition.value);
+      const found = fieldValues(mail, condition.field)
+        .some(value => matchesText(normalize(value), condition.operator, expected));
+      // Multi-valued fields: "does not contain" means none of them does
+      return condition.operator === 'notContains' ? !found : found;
+    }
+  }
+}
+
+export function matchesRule(rule: MailRule, mail: RuleMail): boolean {
+  if (rule.accountCode && rule.accountCode !== mail.accountCode) return false;
+  if (rule.conditions.length === 0) return false;
+  return rule.matchAll
+    ? rule.conditions.every(condition => matchesCondition(condition, mail))
+    : rule.conditions.some(condition => matchesCondition(condition, mail));
+}
+
+/**
+ * Merge the actions of every rule matching `mail`, in order.
+ * Returns null when no rule matches.
+ */
+export function planRules(rules: MailRule[], mail: RuleMail): RulePlan | null {
+  let plan: RulePlan | null = null;
+
+  for (const rule of [...rules].sort((a, b) => a.position - b.position)) {
+    if (!matchesRule(rule, mail)) continue;
+
+    plan ??= { ruleIds: [], markRead: false, star: false, labels: [], moveTo: null, forwardTo: [], delete: false };
+    plan.ruleIds.push(rule.id);
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case 'markRead': plan.markRead = true; break;
+        case 'star': plan.star = true; break;
+        case 'label':
+          if (!plan.labels.includes(action.label)) plan.labels.push(action.label);
+          break;
+        case 'move': plan.moveTo ??= action.folder; break;
+        case 'forward': {
+          const to = action.to.trim().toLowerCase();
+          if (!plan.forwardTo.includes(to)) plan.forwardTo.push(to);
+          break;
+        }
+        case 'delete': plan.delete = true; break;
+      }
+    }
+
+    if (rule.stopProcessing) break;
+  }
+
+  return plan;
+}
+
+/**
+ * Identifies a mail across downloads, so rules run on it once: its Message-ID,
+ * or the mailbox and UID when it has none.
+ */
+export function ruleMailKey(mail: { messageId: string | null; mailbox: string; uid: number }): string {
+  return mail.messageId || `uid:${mail.mailbox}:${mail.uid}`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Mailbox Sync State for MailVoyage API
+ *
+ * New mail is found by UID (everything above sync_tracking.last_uid), but
+ * flag changes and expunges on already cached mail are not. This module
+ * decides how a sync catches up on those, based on the UIDVALIDITY and
+ * HIGHESTMODSEQ remembered from the previous sync (RFC 7162 CONDSTORE/QRESYNC).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the previous sync of a mailbox left in sync_tracking */
+export interface StoredMailboxState {
+  uidValidity: string | null;
+  highestModseq: string | null;
+}
+
+/** The mailbox as the server reports it on SELECT */
+export interface CurrentMailboxState {
+  uidValidity: string;
+  /** Null when the server has no CONDSTORE (or the mailbox has NOMODSEQ) */
+  highestModseq: string | null;
+}
+
+/**
+ * - `resync`: UIDVALIDITY changed, cached UIDs mean nothing any more
+ * - `unchanged`: HIGHESTMODSEQ didn't move, so no flag changes or expunges
+ * - `changedsince`: ask only for messages with a higher modseq (CHANGEDSINCE / VANISHED)
+ * - `full-diff`: fetch the flags of every cached UID and compare
+ */
+export type ReconcileMode = 'resync' | 'unchanged' | 'changedsince' | 'full-diff';
+
+export interface MailState {
+  isRead: boolean;
+  isStarred: boolean;
+  labels: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function selectReconcileMode(
+  stored: StoredMailboxState,
+  current: CurrentMailboxState
+): ReconcileMode {
+  if (stored.uidValidity && stored.uidValidity !== current.uidValidity) {
+    return 'resync';
+  }
+
+  // A modseq is only comparable within the same UIDVALIDITY
+  if (!stored.uidValidity || !stored.highestModseq || !current.highestModseq) {
+    return 'full-diff';
+  }
+
+  return BigInt(current.highestModseq) > BigInt(stored.highestModseq)
+    ? 'changedsince'
+    : 'unchanged';
+}
+
+// Keywords mail clients and servers set for spam filtering, not the user
+const JUNK_KEYWORDS = new Set(['junk', 'nonjunk', 'notjunk']);
+
+/**
+ * Whether an IMAP keyword is a user label. System flags (\Seen, \Flagged, ...)
+ * start with a backslash, and `$` keywords ($Forwarded, $MDNSent, $Junk, ...)
+ * are set by clients and servers for their own bookkeeping.
+ */
+export function isLabelKeyword(flag: string): boolean {
+  return !flag.startsWith('\\') && !flag.startsWith('$') && !JUNK_KEYWORDS.has(flag.toLowerCase());
+}
+
+/**
+ * Read, starred and label state from IMAP flags.
+ */
+export function flagsToMailState(flags: Iterable<string> | undefined): MailState {
+  const list = flags ? [...flags] : [];
+  return {
+    isRead: list.includes('\\Seen'),
+    isStarred: list.includes('\\Flagged'),
+    labels: list.filter(isLabelKeyword),
+  };
+}
+
+/**
+ * Cached UIDs that the server no longer has.
+ */
+export function findVanishedUids(cachedUids: number[], serverUids: Iterable<number>): number[] {
+  const present = new Set(serverUids);
+  return cachedUids.filter(uid => !present.has(uid));
+}
@@ -0,0 +1,185 @@
+/**
+ * ManageSieve Protocol for MailVoyage API
+ *
+ * Reading server responses and writing command arguments for ManageSieve
+ * (RFC 5804); sieve.service owns the connection.
+ * - A response is zero or more data lines followed by OK, NO or BYE with an
+ *   optional response code in parentheses and an optional human-readable text
+ * - Strings are quoted ("...") or literals ({n}CRLF followed by n octets);
+ *   literal lengths count bytes, so responses are parsed from a Buffer
+ * - Scripts are sent as non-synchronizing literals ({n+}), which every
+ *   ManageSieve server accepts
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SieveStatus = 'OK' | 'NO' | 'BYE';
+
+export interface SieveResponse {
+  status: SieveStatus;
+  /** Response code without parentheses, e.g. "NONEXISTENT" or "SASL \"...\"" */
+  code: string | null;
+  message: string | null;
+  /** Data lines before the status line, each as its strings and atoms */
+  lines: string[][];
+  /** Bytes of the buffer this response used */
+  length: number;
+}
+
+export interface SieveCapabilities {
+  implementation: string | null;
+  saslMechanisms: string[];
+  /** Sieve extensions the server supports, e.g. "fileinto", "vacation" */
+  extensions: string[];
+  startTls: boolean;
+  /** Set by RFC 5804 servers; they also support CHECKSCRIPT */
+  version: string | null;
+}
+
+// ============================================================================
+// Reading responses
+// ============================================================================
+
+const CR = 0x0d;
+const LF = 0x0a;
+const SPACE = 0x20;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+
+type Token = { kind: 'atom' | 'string' | 'code'; value: string };
+
+/**
+ * Read one complete response from the start of `buffer`.
+ * Returns null while more data is needed.
+ */
+export function readSieveResponse(buffer: Buffer): SieveResponse | null {
+  const lines: string[][] = [];
+  let pos = 0;
+
+  while (pos < buffer.length) {
+    const tokens: Token[] = [];
+
+    // One line: tokens up to a CRLF outside strings and literals
+    for (;;) {
+      while (buffer[pos] === SPACE) pos++;
+      if (pos >= buffer.length) return null;
+
+      const byte = buffer[pos];
+      if (byte === CR || byte === LF) {
+        if (byte === CR) {
+          if (pos + 1 >= buffer.length) return null;
+          pos++;
+        }
+        pos++;
+        break;
+      }
+
+      if (byte === QUOTE) {
+        const end = findQuoteEnd(buffer, pos + 1);
+        if (end < 0) return null;
+        tokens.push({ kind: 'string', value: unquote(buffer.toString('utf8', pos + 1, end)) });
+        pos = end + 1;
+      } else if (byte === 0x7b /* { */) {
+        const close = buffer.indexOf('}', pos);
+        if (close < 0) return null;
+        const size = parseInt(buffer.toString('ascii', pos + 1, close).replace('+', ''), 10);
+        // {n}CRLF then n octets
+        const start = close + 3;
+        if (start + size > buffer.length) return null;
+        tokens.push({ kind: 'string', value: buffer.toString('utf8', start, start + size) });
+        pos = start + size;
+      } else if (byte === 0x28 /* ( */) {
+        const end = findCodeEnd(buffer, pos + 1);
+        if (end < 0) return null;
+        tokens.push({ kind: 'code', value: buffer.toString('utf8', pos + 1, end) });
+        pos = end + 1;
+      } else {
+        let end = pos;
+        while (end < buffer.length && buffer[end] !== SPACE && buffer[end] !== CR && buffer[end] !== LF) end++;
+        if (end >= buffer.length) return null;
+        tokens.push({ kind: 'atom', value: buffer.toString('utf8', pos, end) });
+        pos = end;
+      }
+    }
+
+    const first = tokens[0];
+    const status = first?.kind === 'atom' ? first.value.toUpperCase() : '';
+    if (status === 'OK' || status === 'NO' || status === 'BYE') {
+      const rest = tokens.slice(1);
+      return {
+        status: status as SieveStatus,
+        code: rest.find(t => t.kind === 'code')?.value ?? null,
+        message: rest.find(t => t.kind === 'string')?.value ?? null,
+        lines,
+        length: pos,
+      };
+    }
+    if (tokens.length > 0) lines.push(tokens.map(t => t.value));
+  }
+
+  return null;
+}
+
+function findQuoteEnd(buffer: Buffer, from: number): number {
+  for (let i = from; i < buffer.length; i++) {
+    if (buffer[i] === BACKSLASH) i++;
+    else if (buffer[i] === QUOTE) return i;
+  }
+  return -1;
+}
+
+// Response codes can hold quoted strings, e.g. (SASL "dGVzdA==")
+function findCodeEnd(buffer: Buffer, from: number): number {
+  for (let i = from; i < buffer.length; i++) {
+    if (buffer[i] === QUOTE) {
+      i = findQuoteEnd(buffer, i + 1);
+      if (i < 0) return -1;
+    } else if (buffer[i] === 0x29 /* ) */) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const unquote = (value: string): string => value.replace(/\\(["\\])/g, '$1');
+
+/**
+ * The capability listing sent on connect and after STARTTLS.
+ */
+export function parseSieveCapabilities(lines: string[][]): SieveCapabilities {
+  const capabilities: SieveCapabilities = {
+    implementation: null,
+    saslMechanisms: [],
+    extensions: [],
+    startTls: false,
+    version: null,
+  };
+
+  for (const [name, value = ''] of lines) {
+    switch (name.toUpperCase()) {
+      case 'IMPLEMENTATION': capabilities.implementation = value; break;
+      case 'SASL': capabilities.saslMechanisms = value.toUpperCase().split(/\s+/).filter(Boolean); break;
+      case 'SIEVE': capabilities.extensions = value.split(/\s+/).filter(Boolean); break;
+      case 'STARTTLS': capabilities.startTls = true; break;
+      case 'VERSION': capabilities.version = value; break;
+    }
+  }
+
+  return capabilities;
+}
+
+// ============================================================================
+// Writing commands
+// ============================================================================
+
+/** A quoted string argument; script names can't hold CR or LF */
+export function quoteSieveString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/** A non-synchronizing literal, for script content */
+export function sieveLiteral(value: string): string {
+  return `{${Buffer.byteLength(value, 'utf8')}+}\r\n${value}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * MIME Structure helpers for MailVoyage API
+ *
+ * Work on IMAP BODYSTRUCTURE instead of the full message source: list the
+ * attachments, pick the text part a list snippet is read from, and decode
+ * the first bytes of that part into plain text.
+ */
+
+import type { MessageStructureObject } from 'imapflow';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AttachmentPart {
+  part: string;
+  filename: string | null;
+  contentType: string;
+  /** Encoded size on the server */
+  size: number;
+  encoding: string | null;
+}
+
+/** The body part a snippet is taken from */
+export interface TextPart {
+  part: string;
+  contentType: 'text/plain' | 'text/html';
+  encoding: string | null;
+  charset: string | null;
+}
+
+export interface AttachmentMetadata {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+/** Characters of preview text kept per message */
+export const SNIPPET_LENGTH = 200;
+
+/** Bytes of the text part fetched to build a snippet (leaves room for encoding and markup) */
+export const SNIPPET_FETCH_BYTES = 4096;
+
+// ============================================================================
+// BODYSTRUCTURE
+// ============================================================================
+
+function partFilename(node: MessageStructureObject): string | null {
+  return node.dispositionParameters?.filename || node.parameters?.name || null;
+}
+
+function isBodyText(node: MessageStructureObject): boolean {
+  const type = (node.type || '').toLowerCase();
+  return (type === 'text/plain' || type === 'text/html')
+    && (node.disposition || '').toLowerCase() !== 'attachment'
+    && !partFilename(node);
+}
+
+/**
+ * Collect attachment parts in the same depth-first order mailparser uses for
+ * `parsed.attachments`, so `attachmentsMetadata[index]` maps to the same part.
+ * Body text/html parts are skipped unless marked as attachments.
+ */
+export function collectAttachmentParts(node: MessageStructureObject, out: AttachmentPart[] = []): AttachmentPart[] {
+  const type = (node.type || '').toLowerCase();
+  const isAttachedMessage = type === 'message/rfc822' && (node.disposition || '').toLowerCase() === 'attachment';
+
+  if (node.childNodes?.length && !isAttachedMessage) {
+    for (const child of node.childNodes) collectAttachmentParts(child, out);
+    return out;
+  }
+
+  if (!isBodyText(node) && node.part) {
+    out.push({
+      part: node.part,
+      filename: partFilename(node),
+      contentType: type || 'application/octet-stream',
+      size: node.size || 0,
+      encoding: node.encoding?.toLowerCase() || null,
+    });
+  }
+  return out;
+}
+
+/**
+ * Attachment metadata as stored in inbox_cache. Sizes are estimated from the
+ * encoded size, since base64 parts take a third more room on the server.
+ */
+export function attachmentsFromStructure(node: MessageStructureObject): AttachmentMetadata[] {
+  return collectAttachmentParts(node).map(part => ({
+    filename: part.filename || 'attachment',
+    contentType: part.contentType,
+    size: part.encoding === 'base64' ? Math.floor(part.size * 3 / 4) : part.size,
+  }));
+}
+
+/**
+ * The part to preview: the first text/plain body part, else the first text/html one.
+ * Attached messages aren't descended into.
+ */
+export function findTextPart(node: MessageStructureObject): TextPart | null {
+  const candidates: MessageStructureObject[] = [];
+  const walk = (current: MessageStructureObject) => {
+    if (current.childNodes?.length) {
+      if ((current.type || '').toLowerCase() === 'message/rfc822') return;
+      current.childNodes.forEach(walk);
+    } else if (isBodyText(current)) {
+      candidates.push(current);
+    }
+  };
+  walk(node);
+
+  const pick = candidates.find(c => c.type.toLowerCase() === 'text/plain')
+    ?? candidates.find(c => c.type.toLowerCase() === 'text/html');
+  if (!pick) return null;
+
+  return {
+    // A single-part message has no part number; its body is part 1
+    part: pick.part || '1',
+    contentType: pick.type.toLowerCase() as TextPart['contentType'],
+    encoding: pick.encoding?.toLowerCase() || null,
+    charset: pick.parameters?.charset || null,
+  };
+}
+
+// ============================================================================
+// Snippets
+// ============================================================================
+
+/** Collapse whitespace and cut to SNIPPET_LENGTH characters */
+export function makeSnippet(text: string | null | undefined): string | null {
+  const snippet = (text || '').replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH);
+  return snippet || null;
+}
+
+function decodeTransfer(raw: Buffer, encoding: string | null): Buffer {
+  if (encoding === 'base64') {
+    const clean = raw.toString('ascii').replace(/[^A-Za-z0-9+/=]/g, '');
+    // A cut-off fetch can end mid-quantum
+    return Buffer.from(clean.slice(0, clean.length - (clean.length % 4)), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    const text = raw.toString('latin1')
+      .replace(/=\r?\n/g, '')
+      .replace(/=[0-9A-Fa-f]?$/, '');
+    return Buffer.from(
+      text.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1'
+    );
+  }
+  return raw;
+}
+
+function decodeCharset(bytes: Buffer, charset: string | null): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?(<\/\1>|$)/gi, ' ')
+    .replace(/<[^>]*(>|$)/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/g, "'");
+}
+
+/**
+ * Preview text from the first bytes of a text part, as fetched with BODY.PEEK[part]<0.n>.
+ */
+export function decodeSnippet(raw: Buffer, part: TextPart): string | null {
+  const text = decodeCharset(decodeTransfer(raw, part.encoding), part.charset);
+  return makeSnippet(part.contentType === 'text/html' ? stripHtml(text) : text);
+}
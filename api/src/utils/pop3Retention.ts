@@ -0,0 +1,80 @@
+/**
+ * POP3 Retention for MailVoyage API
+ *
+ * POP3 has no flags or folders, so the only server-side choice is whether to
+ * keep a message after it has been downloaded. Downloads are remembered by a
+ * hash of the message's UIDL; this module decides which of them a session
+ * should DELE under the account's policy.
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const POP3_POLICIES = ['leave', 'delete_after_download', 'delete_after_days'] as const;
+
+export type Pop3Policy = (typeof POP3_POLICIES)[number];
+
+export interface Pop3Retention {
+  policy: Pop3Policy;
+  /** Days to keep downloaded mail on the server (delete_after_days only) */
+  retentionDays: number | null;
+}
+
+/** A message in the server's UIDL listing */
+export interface Pop3ListedMessage {
+  msgNum: number;
+  uidl: string;
+}
+
+export interface Pop3Deletion extends Pop3ListedMessage {
+  uid: number;
+  downloadedAt: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert a POP3 UIDL string into a stable positive integer.
+ * POP3 message numbers are transient (change on deletion), so we hash
+ * the UIDL value to produce a deterministic numeric UID.
+ */
+export function pop3UidlToNumericUid(uidlStr: string): number {
+  const hash = crypto.createHash('md5').update(uidlStr).digest();
+  // Use first 4 bytes as unsigned 32-bit int (always positive)
+  return hash.readUInt32BE(0);
+}
+
+/**
+ * Messages to delete from the server: ones downloaded in an earlier session
+ * that the policy no longer keeps. Their inbox_cache row is then the only
+ * copy, which is why syncMailsToCache doesn't trim the cache of an account
+ * whose policy deletes.
+ */
+export function selectPop3Deletions(
+  retention: Pop3Retention,
+  messages: Pop3ListedMessage[],
+  downloads: Map<number, Date>,
+  now: Date = new Date()
+): Pop3Deletion[] {
+  if (retention.policy === 'leave') return [];
+  if (retention.policy === 'delete_after_days' && !retention.retentionDays) return [];
+
+  const cutoff = retention.policy === 'delete_after_days'
+    ? now.getTime() - retention.retentionDays! * 24 * 60 * 60 * 1000
+    : Infinity;
+
+  const deletions: Pop3Deletion[] = [];
+  for (const message of messages) {
+    const uid = pop3UidlToNumericUid(message.uidl);
+    const downloadedAt = downloads.get(uid);
+    if (downloadedAt && downloadedAt.getTime() <= cutoff) {
+      deletions.push({ ...message, uid, downloadedAt });
+    }
+  }
+  return deletions;
+}
@@ -0,0 +1,359 @@
+/**
+ * Search Query Language for MailVoyage API
+ *
+ * Parses Gmail-style search strings into an AST and compiles it for the
+ * places mail is searched on the server: IMAP SEARCH (ImapFlow's SearchObject)
+ * and SQL over inbox_cache. The web app has the same parser in
+ * src/lib/searchQuery.ts, compiled to a filter over IndexedDB records.
+ *
+ * Supported syntax:
+ * - Words and "quoted phrases" (subject, sender, recipients and body)
+ * - from:, to:, subject: (values may be quoted: from:"Jane Doe")
+ * - has:attachment, is:unread, is:read, is:starred
+ * - before:YYYY-MM-DD, after:YYYY-MM-DD (also YYYY/MM/DD; after is inclusive)
+ *   Days start at midnight in the server's time zone: the database session's
+ *   for SQL, the mail server's own for IMAP SEARCH (dates only, no time zone)
+ * - in:mailbox (names are case-sensitive, except INBOX)
+ * - -negation, OR (binds tighter than the implicit AND, like Gmail) and (groups)
+ * Unknown operators and invalid values are searched as plain text.
+ */
+
+import type { SearchObject } from 'imapflow';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SearchField = 'from' | 'to' | 'subject' | 'text';
+
+export type SearchNode =
+  | { type: 'term'; field: SearchField; value: string }
+  | { type: 'hasAttachment' }
+  | { type: 'is'; flag: 'unread' | 'read' | 'starred' }
+  /** `date` is YYYY-MM-DD */
+  | { type: 'date'; op: 'before' | 'after'; date: string }
+  | { type: 'in'; mailbox: string }
+  | { type: 'not'; node: SearchNode }
+  | { type: 'and'; nodes: SearchNode[] }
+  | { type: 'or'; nodes: SearchNode[] };
+
+interface Token {
+  kind: 'word' | 'not' | 'or' | 'lparen' | 'rparen';
+  operator?: string;
+  value?: string;
+}
+
+export interface SqlCondition {
+  sql: string;
+  params: unknown[];
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  const end = close === -1 ? input.length : close + 1;
+  return { value: input.slice(start + 1, close === -1 ? input.length : close), end };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+    } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else if (ch === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ kind: 'word', value: quoted.value });
+      i = quoted.end;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const chunk = input.slice(i, end);
+      i = end;
+
+      const operator = /^([a-z]+):(.*)$/i.exec(chunk);
+      if (operator && operator[2] === '' && input[i] === '"') {
+        // op:"quoted value"
+        const quoted = readQuoted(input, i);
+        tokens.push({ kind: 'word', operator: operator[1].toLowerCase(), value: quoted.value });
+        i = quoted.end;
+      } else if (operator && operator[2] !== '') {
+        tokens.push({ kind: 'word', operator: operator[1].toLowerCase(), value: operator[2] });
+      } else if (chunk === 'OR' || chunk === '|') {
+        tokens.push({ kind: 'or' });
+      } else if (chunk !== 'AND') {
+        tokens.push({ kind: 'word', value: chunk });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/** YYYY-MM-DD for a valid YYYY-MM-DD or YYYY/MM/DD date */
+function parseDate(value: string): string | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function wordToNode(token: Token): SearchNode | null {
+  const value = (token.value ?? '').trim();
+  const raw: SearchNode = { type: 'term', field: 'text', value: token.operator ? `${token.operator}:${value}` : value };
+  if (!token.operator) return value ? raw : null;
+
+  switch (token.operator) {
+    case 'from':
+    case 'to':
+    case 'subject':
+      return value ? { type: 'term', field: token.operator, value } : null;
+    case 'has':
+      return /^attachments?$/i.test(value) ? { type: 'hasAttachment' } : raw;
+    case 'is': {
+      const flag = value.toLowerCase();
+      return flag === 'unread' || flag === 'read' || flag === 'starred' ? { type: 'is', flag } : raw;
+    }
+    case 'before':
+    case 'after': {
+      const date = parseDate(value);
+      return date ? { type: 'date', op: token.operator, date } : raw;
+    }
+    case 'in':
+      if (!value) return null;
+      // INBOX is case-insensitive in IMAP
+      return { type: 'in', mailbox: value.toUpperCase() === 'INBOX' ? 'INBOX' : value };
+    default:
+      return raw;
+  }
+}
+
+function combine(type: 'and' | 'or', nodes: SearchNode[]): SearchNode {
+  return nodes.length === 1 ? nodes[0] : { type, nodes };
+}
+
+/**
+ * Parse a search string. An empty query gives an empty AND, which matches everything.
+ */
+export function parseSearchQuery(input: string): SearchNode {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  function parseUnary(): SearchNode | null {
+    const token = tokens[pos];
+    if (!token) return null;
+    pos++;
+
+    if (token.kind === 'not') {
+      const node = parseUnary();
+      return node ? { type: 'not', node } : null;
+    }
+    if (token.kind === 'lparen') {
+      const node = parseAnd();
+      if (tokens[pos]?.kind === 'rparen') pos++;
+      return node.type === 'and' && node.nodes.length === 0 ? null : node;
+    }
+    if (token.kind === 'word') return wordToNode(token);
+    // Stray OR or ")"
+    return null;
+  }
+
+  function parseOr(): SearchNode | null {
+    const nodes: SearchNode[] = [];
+    const first = parseUnary();
+    if (first) nodes.push(first);
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      const next = tokens[pos] && tokens[pos].kind !== 'rparen' ? parseUnary() : null;
+      if (next) nodes.push(next);
+    }
+    return nodes.length > 0 ? combine('or', nodes) : null;
+  }
+
+  function parseAnd(): SearchNode {
+    const nodes: SearchNode[] = [];
+    while (pos < tokens.length && tokens[pos].kind !== 'rparen') {
+      const node = parseOr();
+      if (node) nodes.push(node);
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  const nodes: SearchNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseAnd();
+    nodes.push(...(node.type === 'and' ? node.nodes : [node]));
+    // An unbalanced ")" ends parseAnd early; skip it and keep going
+    if (tokens[pos]?.kind === 'rparen') pos++;
+  }
+  return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+}
+
+/**
+ * The mailbox named by an `in:` that applies to the whole query (at the top
+ * level, not negated or inside OR), or null.
+ */
+export function findMailbox(node: SearchNode): string | null {
+  if (node.type === 'in') return node.mailbox;
+  if (node.type === 'and') {
+    for (const child of node.nodes) {
+      if (child.type === 'in') return child.mailbox;
+    }
+  }
+  return null;
+}
+
+/** Free-text words and phrases that aren't negated, for ranking */
+export function positiveTextTerms(node: SearchNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return node.field === 'text' ? [node.value] : [];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(positiveTextTerms);
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// IMAP SEARCH
+// ============================================================================
+
+/**
+ * AND of search objects. Keys of one object are ANDed by IMAP, so parts are
+ * merged where their keys don't collide; colliding parts are joined as
+ * NOT (NOT a OR NOT b), since SEARCH has no AND operator.
+ */
+export function andImapSearch(parts: SearchObject[]): SearchObject {
+  const merged: SearchObject = {};
+  const rest: SearchObject[] = [];
+  for (const part of parts) {
+    if (Object.keys(part).some(key => key in merged)) {
+      rest.push(part);
+    } else {
+      Object.assign(merged, part);
+    }
+  }
+  if (rest.length === 0) return merged;
+  return { not: { or: [{ not: merged }, { not: andImapSearch(rest) }] } };
+}
+
+function imapDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function compileImap(node: SearchNode): SearchObject | null {
+  switch (node.type) {
+    case 'term':
+      if (node.field === 'to') return { or: [{ to: node.value }, { cc: node.value }] };
+      return { [node.field]: node.value };
+    case 'hasAttachment':
+      // No SEARCH key for attachments; mail with attachments is multipart/mixed
+      return { header: { 'content-type': 'multipart/mixed' } };
+    case 'is':
+      return node.flag === 'starred' ? { flagged: true } : { seen: node.flag === 'read' };
+    case 'date':
+      return node.op === 'before' ? { before: imapDate(node.date) } : { since: imapDate(node.date) };
+    case 'in':
+      // The mailbox is selected by the caller (findMailbox)
+      return null;
+    case 'not': {
+      const inner = compileImap(node.node);
+      return inner ? { not: inner } : null;
+    }
+    case 'and': {
+      const parts = node.nodes.map(compileImap).filter((p): p is SearchObject => p !== null);
+      return parts.length > 0 ? andImapSearch(parts) : null;
+    }
+    case 'or': {
+      const parts = node.nodes.map(compileImap);
+      // An operand without criteria matches everything, and so does the OR
+      if (parts.some(p => p === null)) return null;
+      return { or: parts as SearchObject[] };
+    }
+  }
+}
+
+/**
+ * ImapFlow search criteria for the query. `in:` is left to the caller.
+ */
+export function toImapSearch(node: SearchNode): SearchObject {
+  return compileImap(node) ?? { all: true };
+}
+
+// ============================================================================
+// SQL (inbox_cache)
+// ============================================================================
+
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * WHERE condition over inbox_cache columns. Placeholders start after
+ * `paramOffset` existing parameters; `alias` prefixes column names.
+ * Free text uses the search_vector index, the other fields substring matches.
+ */
+export function toSqlCondition(
+  node: SearchNode,
+  options: { paramOffset?: number; alias?: string } = {}
+): SqlCondition {
+  const params: unknown[] = [];
+  const col = (name: string) => (options.alias ? `${options.alias}.${name}` : name);
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${(options.paramOffset ?? 0) + params.length}`;
+  };
+
+  const compile = (current: SearchNode): string => {
+    switch (current.type) {
+      case 'term': {
+        if (current.field === 'text') {
+          return `${col('search_vector')} @@ phraseto_tsquery('simple', ${param(current.value)})`;
+        }
+        const p = param(likePattern(current.value));
+        if (current.field === 'from') return `(${col('from_address')} ILIKE ${p} OR ${col('from_name')} ILIKE ${p})`;
+        if (current.field === 'to') return `(${col('to_addresses')}::text ILIKE ${p} OR ${col('cc_addresses')}::text ILIKE ${p})`;
+        return `${col('subject')} ILIKE ${p}`;
+      }
+      case 'hasAttachment':
+        return col('has_attachments');
+      case 'is':
+        if (current.flag === 'starred') return col('is_starred');
+        return current.flag === 'read' ? col('is_read') : `NOT ${col('is_read')}`;
+      case 'date':
+        return `${col('date')} ${current.op === 'before' ? '<' : '>='} ${param(current.date)}::date`;
+      case 'in':
+        // Mailbox names are case-sensitive; the parser already folded INBOX
+        return `${col('mailbox')} = ${param(current.mailbox)}`;
+      case 'not':
+        // from_name, cc_addresses and friends may be NULL, and NOT NULL is NULL
+        return `(${compile(current.node)}) IS NOT TRUE`;
+      case 'and':
+        return current.nodes.length === 0 ? 'TRUE' : `(${current.nodes.map(compile).join(' AND ')})`;
+      case 'or':
+        return current.nodes.length === 0 ? 'FALSE' : `(${current.nodes.map(compile).join(' OR ')})`;
+    }
+  };
+
+  return { sql: compile(node), params };
+}
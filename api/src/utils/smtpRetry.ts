@@ -0,0 +1,58 @@
+/**
+ * SMTP Retry Policy for MailVoyage API
+ *
+ * Decides which failed sends the outbox retries automatically and when.
+ * Transient failures are SMTP 4xx replies (greylisting, mailbox busy,
+ * rate limits) and network errors; 5xx replies and auth errors need the
+ * user to act and are never retried automatically.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SmtpFailure {
+  /** Nodemailer error code (e.g. ETIMEDOUT, ECONNECTION, EAUTH) */
+  code?: string | null;
+  /** SMTP reply code (e.g. 421, 450, 550) */
+  responseCode?: number | null;
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/** Automatic retries after the first failed attempt */
+export const MAX_SEND_RETRIES = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+const TRANSIENT_ERROR_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNECTION',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ESOCKET',
+  'EDNS',
+  'EAI_AGAIN',
+]);
+
+/**
+ * True when a failed send may succeed if tried again later.
+ */
+export function isTransientSmtpFailure(failure: SmtpFailure): boolean {
+  const { responseCode, code } = failure;
+  if (typeof responseCode === 'number' && responseCode >= 400 && responseCode < 600) {
+    return responseCode < 500;
+  }
+  return code ? TRANSIENT_ERROR_CODES.has(code) : false;
+}
+
+/**
+ * Delay before retry number `retry` (1-based): 1, 2, 4, 8… minutes, capped at an hour.
+ */
+export function getRetryDelayMs(retry: number): number {
+  const exponent = Math.max(0, retry - 1);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,230 @@
+/**
+ * Conversation Threading for MailVoyage API
+ *
+ * Implementation of Jamie Zawinski's threading algorithm
+ * (https://www.jwz.org/doc/threading.html) over received and sent mail.
+ * Messages are linked through Message-ID / In-Reply-To / References, and
+ * root messages without headers are grouped by their base subject.
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ThreadableMessage {
+  /** Caller's identifier for the message (e.g. "inbox:<id>" or "sent:<id>") */
+  key: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[] | null;
+  subject: string;
+}
+
+interface Container {
+  id: string;
+  message: ThreadableMessage | null;
+  parent: Container | null;
+  children: Container[];
+}
+
+// ============================================================================
+// Helpers: headers and subjects
+// ============================================================================
+
+/** Canonical `<local@domain>` form of a Message-ID, or null if empty */
+export function normalizeMessageId(id: string | null | undefined): string | null {
+  const inner = (id || '').trim().replace(/^<+|>+$/g, '').trim();
+  return inner ? `<${inner}>` : null;
+}
+
+/**
+ * Parse a References / In-Reply-To value (mailparser returns a string or an
+ * array) into normalized Message-IDs, oldest first.
+ */
+export function parseMessageIdList(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  const ids = (Array.isArray(value) ? value : [value]).flatMap(raw =>
+    raw.match(/<[^<>\s]+>/g) ?? raw.split(/[\s,]+/)
+  );
+  return ids
+    .map(normalizeMessageId)
+    .filter((id): id is string => id !== null);
+}
+
+// Re:, Fwd:, Fw:, AW:, SV:, Re[2]: and mailing-list tags like [list]
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fwd?|aw|sv|antw)(?:\s*\[\d+\])?\s*:|\[[^\]]*\])\s*/i;
+
+/** Subject without reply/forward prefixes, lower-cased for comparison */
+export function normalizeSubject(subject: string | null | undefined): string {
+  let result = (subject || '').trim();
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(SUBJECT_PREFIX, '');
+  } while (result !== previous);
+  return result.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function isReplySubject(subject: string | null | undefined): boolean {
+  return normalizeSubject(subject) !== (subject || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function hashConversationId(rootId: string): string {
+  return crypto.createHash('sha256').update(rootId).digest('hex').slice(0, 32);
+}
+
+// ============================================================================
+// Helpers: container tree
+// ============================================================================
+
+/** Whether making `child` a child of `parent` would create a loop */
+function wouldLoop(parent: Container, child: Container): boolean {
+  for (let node: Container | null = parent; node; node = node.parent) {
+    if (node === child) return true;
+  }
+  return false;
+}
+
+function detach(container: Container): void {
+  if (!container.parent) return;
+  const siblings = container.parent.children;
+  siblings.splice(siblings.indexOf(container), 1);
+  container.parent = null;
+}
+
+function setParent(child: Container, parent: Container): void {
+  detach(child);
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+/**
+ * Drop empty containers (referenced messages we don't have). Their children
+ * move up a level; at the root only a single child is promoted so siblings
+ * stay grouped under the missing parent.
+ */
+function prune(containers: Container[], parent: Container | null): Container[] {
+  const result: Container[] = [];
+  for (const container of containers) {
+    container.children = prune(container.children, container);
+    if (!container.message && container.children.length === 0) continue;
+    if (!container.message && (parent !== null || container.children.length === 1)) {
+      result.push(...container.children);
+      continue;
+    }
+    result.push(container);
+  }
+  for (const container of result) container.parent = parent;
+  return result;
+}
+
+function subjectOf(container: Container): string {
+  return container.message?.subject ?? container.children.find(c => c.message)?.message?.subject ?? '';
+}
+
+function collectMessages(container: Container, out: ThreadableMessage[] = []): ThreadableMessage[] {
+  if (container.message) out.push(container.message);
+  for (const child of container.children) collectMessages(child, out);
+  return out;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Thread messages and return the conversation ID for each message key.
+ *
+ * Conversation IDs are derived from the thread's root Message-ID, so they stay
+ * stable as replies arrive. Unlike the original algorithm, two unrelated
+ * non-reply messages that merely share a subject are not merged.
+ */
+export function computeConversationIds(messages: ThreadableMessage[]): Map<string, string> {
+  const table = new Map<string, Container>();
+
+  const getContainer = (id: string): Container => {
+    let container = table.get(id);
+    if (!container) {
+      container = { id, message: null, parent: null, children: [] };
+      table.set(id, container);
+    }
+    return container;
+  };
+
+  // 1. Build the container graph from Message-ID / References / In-Reply-To
+  for (const message of messages) {
+    const messageId = normalizeMessageId(message.messageId);
+    // Messages without an ID (or a duplicate one) get a container of their own
+    const id = messageId && !table.get(messageId)?.message ? messageId : `key:${message.key}`;
+    const container = getContainer(id);
+    container.message = message;
+
+    const references = (message.references || [])
+      .map(normalizeMessageId)
+      .filter((ref): ref is string => ref !== null);
+    const inReplyTo = normalizeMessageId(message.inReplyTo);
+    if (inReplyTo && references[references.length - 1] !== inReplyTo) {
+      references.push(inReplyTo);
+    }
+
+    let previous: Container | null = null;
+    for (const ref of references) {
+      const refContainer = getContainer(ref);
+      if (previous && !refContainer.parent && !wouldLoop(previous, refContainer)) {
+        setParent(refContainer, previous);
+      }
+      previous = refContainer;
+    }
+
+    // The message's own headers are authoritative for its parent
+    if (previous && !wouldLoop(previous, container)) {
+      setParent(container, previous);
+    } else if (!previous) {
+      detach(container);
+    }
+  }
+
+  // 2–3. Root set, with empty containers pruned
+  let roots = prune([...table.values()].filter(c => !c.parent), null);
+
+  // 4. Group roots by base subject (replies whose headers were stripped)
+  const subjectTable = new Map<string, Container>();
+  for (const root of roots) {
+    const subject = normalizeSubject(subjectOf(root));
+    if (!subject) continue;
+    const existing = subjectTable.get(subject);
+    const prefer = !existing
+      || (!root.message && existing.message !== null)
+      || (existing.message !== null && root.message !== null
+        && isReplySubject(existing.message.subject) && !isReplySubject(root.message.subject));
+    if (prefer) subjectTable.set(subject, root);
+  }
+
+  const merged = new Set<Container>();
+  for (const root of roots) {
+    const subject = normalizeSubject(subjectOf(root));
+    const target = subject ? subjectTable.get(subject) : undefined;
+    if (!target || target === root) continue;
+
+    if (!target.message && !root.message) {
+      for (const child of [...root.children]) setParent(child, target);
+      merged.add(root);
+    } else if (!target.message || (root.message && isReplySubject(root.message.subject))) {
+      setParent(root, target);
+      merged.add(root);
+    }
+  }
+  roots = roots.filter(root => !merged.has(root));
+
+  // 5. One conversation ID per remaining root
+  const result = new Map<string, string>();
+  for (const root of roots) {
+    const conversationId = hashConversationId(root.id);
+    for (const message of collectMessages(root)) {
+      result.set(message.key, conversationId);
+    }
+  }
+  return result;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { POP3_POLICIES } from './pop3Retention.js';
+import { isLabelKeyword } from './mailboxSync.js';
 
 // --- Auth Schemas ---
 export const registerSchema = z.object({
@@ -73,6 +75,167 @@ export const sendMailSchema = z.object({
     contentType: z.string().optional(),
     size: z.number().optional(), // Size in bytes
   })).optional(),
+  // RFC 5322 threading headers for replies (Message-IDs, with or without <>)
+  inReplyTo: z.string().max(998).optional(),
+  references: z.array(z.string().max(998)).max(100).optional(),
+  // Forward a received IMAP message: its attachments, or the whole message as message/rfc822
+  forward: z.object({
+    accountCode: z.string().min(3, 'Account code is required'),
+    mailbox: z.string().min(1).default('INBOX'),
+    uid: z.number().int().positive(),
+    mode: z.enum(['attachments', 'message']).default('attachments'),
+    attachmentIndexes: z.array(z.number().int().min(0)).optional(),
+  }).optional(),
+});
+
+// --- Scheduled Send Schemas ---
+const scheduledAtSchema = z.iso.datetime({ offset: true, message: 'Scheduled time must be an ISO date-time' });
+
+export const scheduleMailSchema = sendMailSchema.extend({
+  scheduledAt: scheduledAtSchema,
+});
+
+export const rescheduleMailSchema = z.object({
+  scheduledAt: scheduledAtSchema,
+});
+
+// --- Draft Schemas ---
+// Mirrors the client's DraftRecord; recipients are the raw comma-separated Compose fields
+export const draftSchema = z.object({
+  accountCode: z.string().min(3).nullable().optional(),
+  fromEmail: z.string().email('Invalid email address').nullable().optional(),
+  to: z.string().default(''),
+  cc: z.string().default(''),
+  bcc: z.string().default(''),
+  subject: z.string().max(998).default(''),
+  htmlContent: z.string().default(''),
+  textContent: z.string().default(''),
+  attachments: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    size: z.number().nonnegative(),
+    sizeFormatted: z.string(),
+    type: z.string(),
+    content: z.string(), // base64 encoded
+  })).default([]),
+  charCount: z.number().int().nonnegative().default(0),
+  createdAt: z.string().optional(),
+});
+
+// --- Mail Folder Schemas ---
+// IMAP LIST wildcards can't appear in mailbox names
+const folderNameSchema = z.string()
+  .trim()
+  .min(1, 'Folder name is required')
+  .max(200, 'Folder name is too long')
+  .refine((name) => !/[*%]/.test(name), 'Folder name cannot contain * or %');
+
+export const createFolderSchema = z.object({
+  accountCode: z.string().min(3, 'Account code is required'),
+  name: folderNameSchema,
+  parentPath: z.string().min(1).optional(),
+});
+
+export const renameFolderSchema = z.object({
+  accountCode: z.string().min(3, 'Account code is required'),
+  path: z.string().min(1, 'Folder path is required'),
+  newName: folderNameSchema,
+});
+
+// --- Label Schemas ---
+// Labels are stored as IMAP keywords, which are atoms: printable ASCII
+// without atom-specials. `$` keywords and the junk keywords belong to mail
+// clients and servers (see isLabelKeyword in utils/mailboxSync.ts).
+export const labelNameSchema = z.string()
+  .trim()
+  .min(1, 'Label is required')
+  .max(100, 'Label is too long')
+  .refine((label) => /^[\x21-\x7e]+$/.test(label), 'Label can only contain printable ASCII characters without spaces')
+  .refine((label) => !/[(){%*"\\\]]/.test(label), 'Label cannot contain ( ) { % * " \\ ]')
+  .refine((label) => isLabelKeyword(label), 'Label cannot start with $ or be a junk keyword');
+
+export const LABEL_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'violet', 'pink'] as const;
+
+export const mailLabelSchema = z.object({
+  name: labelNameSchema,
+  color: z.enum(LABEL_COLORS).default('gray'),
+});
+
+// --- Mail Rule Schemas ---
+const ruleConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.enum(['from', 'to', 'subject', 'body']),
+    operator: z.enum(['contains', 'notContains', 'equals', 'startsWith', 'endsWith']),
+    value: z.string().trim().min(1, 'Condition value is required').max(500),
+  }),
+  z.object({ field: z.literal('hasAttachment'), value: z.boolean() }),
+  z.object({
+    field: z.literal('size'),
+    operator: z.enum(['greaterThan', 'lessThan']),
+    value: z.number().int().nonnegative(), // bytes
+  }),
+]);
+
+const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('markRead') }),
+  z.object({ type: z.literal('star') }),
+  z.object({ type: z.literal('label'), label: labelNameSchema }),
+  z.object({ type: z.literal('move'), folder: z.string().min(1, 'Folder is required') }),
+  z.object({ type: z.literal('forward'), to: z.string().email('Invalid email address') }),
+  z.object({ type: z.literal('delete') }),
+]);
+
+export const mailRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Rule name is required').max(255),
+  accountCode: z.string().min(3).nullable().default(null),
+  enabled: z.boolean().default(true),
+  position: z.number().int().min(0).optional(),
+  matchAll: z.boolean().default(true),
+  conditions: z.array(ruleConditionSchema).min(1, 'At least one condition is required').max(20),
+  actions: z.array(ruleActionSchema).min(1, 'At least one action is required').max(20),
+  stopProcessing: z.boolean().default(false),
+});
+
+// Run the saved rules, or preview one from the editor (ruleId: a saved one)
+export const runMailRulesSchema = z.object({
+  rule: mailRuleSchema.optional(),
+  ruleId: z.number().int().positive().optional(),
+  accountCode: z.string().min(3).optional(),
+});
+
+// --- Sieve Schemas ---
+// ManageSieve script names: no control characters (RFC 5804 section 1.6)
+export const sieveScriptNameSchema = z.string()
+  .min(1, 'Script name is required')
+  .max(128, 'Script name is too long')
+  .refine((name) => ![...name].some((c) => c.charCodeAt(0) < 0x20 || c.charCodeAt(0) === 0x7f),
+    'Script name cannot contain control characters');
+
+const sieveContentSchema = z.string().max(256 * 1024, 'Script is too large');
+
+export const putSieveScriptSchema = z.object({
+  accountCode: z.string().min(3, 'Account code is required'),
+  content: sieveContentSchema,
+  activate: z.boolean().default(false),
+});
+
+export const setActiveSieveScriptSchema = z.object({
+  accountCode: z.string().min(3, 'Account code is required'),
+  name: sieveScriptNameSchema.nullable(),
+});
+
+export const checkSieveScriptSchema = z.object({
+  accountCode: z.string().min(3, 'Account code is required'),
+  content: sieveContentSchema,
+});
+
+// --- Contact Schemas ---
+export const contactSchema = z.object({
+  name: z.string().trim().max(255, 'Name is too long').default(''),
+  emails: z.array(z.string().trim().email('Invalid email address'))
+    .min(1, 'At least one email address is required')
+    .max(20, 'At most 20 email addresses'),
+  notes: z.string().max(5000, 'Notes are too long').default(''),
 });
 
 // --- Email Account Schemas ---
@@ -114,7 +277,13 @@ export const emailAccountUpdateSchema = z.object({
   outgoingUsername: z.string().optional(),
   outgoingPassword: z.string().optional(),
   outgoingSecurity: z.enum(['SSL', 'STARTTLS', 'NONE']).optional(),
+  saveToSent: z.boolean().optional(),
+  pop3Policy: z.enum(POP3_POLICIES).optional(),
+  pop3RetentionDays: z.number().int().min(1, 'Keep mail for at least 1 day').max(3650).nullable().optional(),
   isPrimary: z.boolean().optional(),
+}).refine((data) => data.pop3Policy !== 'delete_after_days' || !!data.pop3RetentionDays, {
+  message: 'Number of days is required to delete mail after N days',
+  path: ['pop3RetentionDays'],
 });
 
 // --- SMTP Only Account Schemas ---
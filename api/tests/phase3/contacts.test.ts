@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { isAutomatedAddress, planContactHarvest, type AddressStats } from '../../src/utils/contacts';
+
+const stats = (email: string, overrides: Partial<AddressStats> = {}): AddressStats => ({
+  email,
+  name: null,
+  sentCount: 0,
+  receivedCount: 1,
+  lastContactedAt: new Date('2026-10-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('isAutomatedAddress', () => {
+  it('recognises machine senders by their local part', () => {
+    expect(isAutomatedAddress('noreply@shop.example')).toBe(true);
+    expect(isAutomatedAddress('No-Reply+orders@shop.example')).toBe(true);
+    expect(isAutomatedAddress('MAILER-DAEMON@mx.example')).toBe(true);
+    expect(isAutomatedAddress('unknown@unknown.com')).toBe(true);
+    expect(isAutomatedAddress('noreen@example.com')).toBe(false);
+    expect(isAutomatedAddress('alice@example.com')).toBe(false);
+  });
+});
+
+describe('planContactHarvest', () => {
+  it('creates contacts only for new people', () => {
+    const plan = planContactHarvest(
+      [
+        stats('Bob@Example.com', { name: 'Bob', sentCount: 2 }),
+        stats('me@example.com'),
+        stats('noreply@example.com'),
+        stats('gone@example.com'),
+      ],
+      [{ id: 7, emails: ['gone@example.com'], deleted: true }],
+      ['ME@example.com']
+    );
+
+    expect(plan.created).toEqual([
+      expect.objectContaining({ email: 'bob@example.com', name: 'Bob', sentCount: 2, receivedCount: 1 }),
+    ]);
+    expect(plan.incremented).toEqual([]);
+  });
+
+  it('adds newly seen mail to the contact owning each address', () => {
+    const newer = new Date('2026-10-10T08:00:00Z');
+    const contacts = [
+      { id: 1, emails: ['ann@work.example', 'ann@home.example'], deleted: false },
+      { id: 2, emails: ['carl@example.com'], deleted: false },
+      { id: 3, emails: ['quiet@example.com'], deleted: false },
+    ];
+    const plan = planContactHarvest(
+      [
+        stats('ann@work.example', { sentCount: 3, receivedCount: 0 }),
+        stats('ANN@home.example', { receivedCount: 2, lastContactedAt: newer }),
+        stats('carl@example.com'),
+      ],
+      contacts,
+      []
+    );
+
+    expect(plan.created).toEqual([]);
+    expect(plan.incremented).toEqual([
+      { id: 1, sentCount: 3, receivedCount: 2, lastContactedAt: newer },
+      { id: 2, sentCount: 0, receivedCount: 1, lastContactedAt: new Date('2026-10-01T10:00:00Z') },
+    ]);
+  });
+
+  it('counts earlier mail only towards the contacts it creates', () => {
+    const plan = planContactHarvest(
+      [stats('dora@example.com')],
+      [{ id: 1, emails: ['ann@example.com'], deleted: false }],
+      [],
+      [stats('dora@example.com', { sentCount: 2, receivedCount: 0 }), stats('ann@example.com', { sentCount: 5 })]
+    );
+
+    expect(plan.created).toEqual([
+      expect.objectContaining({ email: 'dora@example.com', sentCount: 2, receivedCount: 1 }),
+    ]);
+    expect(plan.incremented).toEqual([]);
+  });
+});
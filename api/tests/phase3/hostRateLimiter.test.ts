@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { HostRateLimiter } from '../../src/utils/hostRateLimiter';
+
+describe('host rate limiter', () => {
+  it('limits concurrent connections per host', () => {
+    const limiter = new HostRateLimiter({ maxConcurrent: 2, maxPerWindow: 10, windowMs: 60_000 });
+
+    expect(limiter.tryAcquire('imap.example.com', 0)).toBe(true);
+    expect(limiter.tryAcquire('IMAP.example.com', 1)).toBe(true);
+    expect(limiter.tryAcquire('imap.example.com', 2)).toBe(false);
+    expect(limiter.tryAcquire('imap.other.org', 3)).toBe(true);
+
+    limiter.release('imap.example.com');
+    expect(limiter.tryAcquire('imap.example.com', 4)).toBe(true);
+  });
+
+  it('limits connections started per window', () => {
+    const limiter = new HostRateLimiter({ maxConcurrent: 5, maxPerWindow: 2, windowMs: 60_000 });
+
+    for (const now of [0, 1000]) {
+      expect(limiter.tryAcquire('pop.example.com', now)).toBe(true);
+      limiter.release('pop.example.com');
+    }
+    expect(limiter.tryAcquire('pop.example.com', 2000)).toBe(false);
+    expect(limiter.tryAcquire('pop.example.com', 60_001)).toBe(true);
+  });
+});
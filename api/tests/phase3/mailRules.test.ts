@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { matchesCondition, planRules, type MailRule, type RuleMail } from '../../src/utils/mailRules';
+
+const mail: RuleMail = {
+  accountCode: 'work',
+  fromAddress: 'billing@shop.example',
+  fromName: 'Shop Billing',
+  toAddresses: ['me@example.com'],
+  ccAddresses: ['team@example.com'],
+  subject: 'Your   Invoice #42',
+  textBody: null,
+  htmlBody: '<p>Payment <b>received</b></p>',
+  snippet: null,
+  hasAttachments: true,
+  size: 250_000,
+};
+
+const rule = (overrides: Partial<MailRule>): MailRule => ({
+  id: 1,
+  name: 'rule',
+  accountCode: null,
+  enabled: true,
+  position: 0,
+  matchAll: true,
+  conditions: [{ field: 'subject', operator: 'contains', value: 'invoice' }],
+  actions: [{ type: 'markRead' }],
+  stopProcessing: false,
+  ...overrides,
+});
+
+describe('mail rules', () => {
+  it('matches text, attachment and size conditions', () => {
+    expect(matchesCondition({ field: 'subject', operator: 'startsWith', value: 'your invoice' }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'from', operator: 'contains', value: 'shop billing' }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'to', operator: 'equals', value: 'team@example.com' }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'to', operator: 'notContains', value: 'example.com' }, mail)).toBe(false);
+    expect(matchesCondition({ field: 'body', operator: 'contains', value: 'payment received' }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'hasAttachment', value: true }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'size', operator: 'greaterThan', value: 100_000 }, mail)).toBe(true);
+    expect(matchesCondition({ field: 'size', operator: 'lessThan', value: 100_000 }, { ...mail, size: null })).toBe(false);
+  });
+
+  it('merges matching rules in order and stops where asked', () => {
+    const plan = planRules([
+      rule({ id: 3, position: 2, actions: [{ type: 'delete' }] }),
+      rule({ id: 2, position: 1, actions: [{ type: 'move', folder: 'Bills' }, { type: 'forward', to: 'Me@Home.example' }], stopProcessing: true }),
+      rule({ id: 1, position: 0, actions: [{ type: 'label', label: 'finance' }, { type: 'move', folder: 'Archive' }] }),
+      rule({ id: 4, position: 0, accountCode: 'home', actions: [{ type: 'star' }] }),
+    ], mail);
+
+    expect(plan).toEqual({
+      ruleIds: [1, 2],
+      markRead: false,
+      star: false,
+      labels: ['finance'],
+      moveTo: 'Archive',
+      forwardTo: ['me@home.example'],
+      delete: false,
+    });
+    expect(planRules([rule({ matchAll: false, conditions: [] })], mail)).toBeNull();
+  });
+});
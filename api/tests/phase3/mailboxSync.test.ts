@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findVanishedUids, flagsToMailState, selectReconcileMode } from '../../src/utils/mailboxSync';
+
+describe('mailbox sync state', () => {
+  it('resyncs when UIDVALIDITY changed', () => {
+    expect(selectReconcileMode(
+      { uidValidity: '100', highestModseq: '500' },
+      { uidValidity: '101', highestModseq: '900' }
+    )).toBe('resync');
+  });
+
+  it('uses CHANGEDSINCE only with a stored and a current modseq', () => {
+    expect(selectReconcileMode(
+      { uidValidity: '100', highestModseq: '500' },
+      { uidValidity: '100', highestModseq: '501' }
+    )).toBe('changedsince');
+    expect(selectReconcileMode(
+      { uidValidity: '100', highestModseq: '500' },
+      { uidValidity: '100', highestModseq: '500' }
+    )).toBe('unchanged');
+    expect(selectReconcileMode(
+      { uidValidity: '100', highestModseq: '500' },
+      { uidValidity: '100', highestModseq: null }
+    )).toBe('full-diff');
+    expect(selectReconcileMode(
+      { uidValidity: null, highestModseq: null },
+      { uidValidity: '100', highestModseq: '500' }
+    )).toBe('full-diff');
+  });
+
+  it('compares modseqs beyond the safe integer range', () => {
+    expect(selectReconcileMode(
+      { uidValidity: '1', highestModseq: '9007199254740993' },
+      { uidValidity: '1', highestModseq: '9007199254740994' }
+    )).toBe('changedsince');
+  });
+
+  it('maps flags to read, starred and labels', () => {
+    expect(flagsToMailState(new Set(['\\Seen', '\\Flagged', 'Work', '\\Answered']))).toEqual({
+      isRead: true,
+      isStarred: true,
+      labels: ['Work'],
+    });
+    expect(flagsToMailState(undefined)).toEqual({ isRead: false, isStarred: false, labels: [] });
+  });
+
+  it('leaves client and server bookkeeping keywords out of the labels', () => {
+    expect(flagsToMailState(['$Forwarded', '$MDNSent', '$Junk', 'NonJunk', 'Junk', 'NotJunk', 'Travel']).labels)
+      .toEqual(['Travel']);
+  });
+
+  it('finds cached UIDs missing on the server', () => {
+    expect(findVanishedUids([3, 5, 8, 13], [5, 13, 21])).toEqual([3, 8]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseSieveCapabilities,
+  quoteSieveString,
+  readSieveResponse,
+  sieveLiteral,
+} from '../../src/utils/manageSieve';
+
+describe('ManageSieve protocol', () => {
+  it('reads capabilities, script lists and literals', () => {
+    const greeting = Buffer.from(
+      '"IMPLEMENTATION" "Dovecot Pigeonhole"\r\n"SIEVE" "fileinto vacation"\r\n"SASL" "plain login"\r\n"STARTTLS"\r\n"VERSION" "1.0"\r\nOK "Ready."\r\n'
+    );
+    const response = readSieveResponse(greeting)!;
+    expect(response.status).toBe('OK');
+    expect(response.length).toBe(greeting.length);
+    expect(parseSieveCapabilities(response.lines)).toEqual({
+      implementation: 'Dovecot Pigeonhole',
+      saslMechanisms: ['PLAIN', 'LOGIN'],
+      extensions: ['fileinto', 'vacation'],
+      startTls: true,
+      version: '1.0',
+    });
+
+    const list = readSieveResponse(Buffer.from('"main" ACTIVE\r\n"say \\"hi\\""\r\nOK\r\n'))!;
+    expect(list.lines).toEqual([['main', 'ACTIVE'], ['say "hi"']]);
+
+    // Literal lengths are bytes, not characters
+    const script = 'keep; # café\r\n';
+    const get = readSieveResponse(Buffer.from(`{${Buffer.byteLength(script)}}\r\n${script}\r\nOK "Done"\r\nNEXT`))!;
+    expect(get.lines).toEqual([[script]]);
+    expect(get.message).toBe('Done');
+  });
+
+  it('waits for complete responses and reads response codes', () => {
+    expect(readSieveResponse(Buffer.from('"main" ACTIVE\r\n'))).toBeNull();
+    expect(readSieveResponse(Buffer.from('{20}\r\nrequire "fileinto";'))).toBeNull();
+
+    const no = readSieveResponse(Buffer.from('NO (NONEXISTENT) "There is no script by that name"\r\n'))!;
+    expect(no).toMatchObject({ status: 'NO', code: 'NONEXISTENT', message: 'There is no script by that name' });
+  });
+
+  it('quotes arguments and sizes literals in bytes', () => {
+    expect(quoteSieveString('a "b" \\c')).toBe('"a \\"b\\" \\\\c"');
+    expect(sieveLiteral('café')).toBe('{5+}\r\ncafé');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { MessageStructureObject } from 'imapflow';
+import {
+  attachmentsFromStructure,
+  decodeSnippet,
+  findTextPart,
+  makeSnippet,
+  SNIPPET_LENGTH,
+} from '../../src/utils/mimeStructure';
+
+const mixed: MessageStructureObject = {
+  type: 'multipart/mixed',
+  childNodes: [
+    {
+      part: '1',
+      type: 'multipart/alternative',
+      childNodes: [
+        { part: '1.1', type: 'text/plain', encoding: 'quoted-printable', parameters: { charset: 'utf-8' }, size: 120 },
+        { part: '1.2', type: 'text/html', encoding: 'base64', parameters: { charset: 'utf-8' }, size: 300 },
+      ],
+    },
+    {
+      part: '2',
+      type: 'application/pdf',
+      encoding: 'base64',
+      disposition: 'attachment',
+      dispositionParameters: { filename: 'invoice.pdf' },
+      size: 4000,
+    },
+  ],
+};
+
+describe('mime structure', () => {
+  it('prefers the plain text part for snippets', () => {
+    expect(findTextPart(mixed)).toEqual({
+      part: '1.1',
+      contentType: 'text/plain',
+      encoding: 'quoted-printable',
+      charset: 'utf-8',
+    });
+  });
+
+  it('uses part 1 for single-part messages', () => {
+    expect(findTextPart({ type: 'text/html', encoding: '7bit' })?.part).toBe('1');
+    expect(findTextPart({ type: 'image/png', part: '1' })).toBeNull();
+  });
+
+  it('lists attachments with their decoded size', () => {
+    expect(attachmentsFromStructure(mixed)).toEqual([
+      { filename: 'invoice.pdf', contentType: 'application/pdf', size: 3000 },
+    ]);
+  });
+
+  it('decodes quoted-printable text cut off mid-escape', () => {
+    const raw = Buffer.from('Caf=C3=A9 menu for=\r\n tomorrow =C3');
+    expect(decodeSnippet(raw, { part: '1', contentType: 'text/plain', encoding: 'quoted-printable', charset: 'utf-8' }))
+      .toMatch(/^Café menu for tomorrow/);
+  });
+
+  it('decodes truncated base64 html into plain text', () => {
+    const encoded = Buffer.from('<html><style>p{}</style><p>Hello&nbsp;<b>world</b></p></html>').toString('base64');
+    const raw = Buffer.from(`${encoded.slice(0, 40)}\r\n${encoded.slice(40)}xy`);
+    expect(decodeSnippet(raw, { part: '1.2', contentType: 'text/html', encoding: 'base64', charset: null }))
+      .toBe('Hello world');
+  });
+
+  it('decodes legacy charsets', () => {
+    const raw = Buffer.from([0x47, 0x72, 0xfc, 0xdf, 0x65]); // "Grüße" in latin1
+    expect(decodeSnippet(raw, { part: '1', contentType: 'text/plain', encoding: '8bit', charset: 'iso-8859-1' }))
+      .toBe('Grüße');
+  });
+
+  it('collapses whitespace and caps the length', () => {
+    expect(makeSnippet('  a\n\n b  ')).toBe('a b');
+    expect(makeSnippet('x'.repeat(500))).toHaveLength(SNIPPET_LENGTH);
+    expect(makeSnippet('   ')).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { pop3UidlToNumericUid, selectPop3Deletions } from '../../src/utils/pop3Retention';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T12:00:00Z');
+const messages = [
+  { msgNum: 1, uidl: 'old' },
+  { msgNum: 2, uidl: 'recent' },
+  { msgNum: 3, uidl: 'new' },
+];
+const downloads = new Map([
+  [pop3UidlToNumericUid('old'), new Date(now.getTime() - 10 * DAY)],
+  [pop3UidlToNumericUid('recent'), new Date(now.getTime() - DAY)],
+]);
+
+describe('pop3 retention', () => {
+  it('keeps everything when leaving mail on the server', () => {
+    expect(selectPop3Deletions({ policy: 'leave', retentionDays: null }, messages, downloads, now)).toEqual([]);
+  });
+
+  it('deletes only messages downloaded in an earlier session', () => {
+    const deletions = selectPop3Deletions({ policy: 'delete_after_download', retentionDays: null }, messages, downloads, now);
+    expect(deletions.map(d => d.msgNum)).toEqual([1, 2]);
+  });
+
+  it('deletes downloaded messages older than the retention period', () => {
+    const deletions = selectPop3Deletions({ policy: 'delete_after_days', retentionDays: 7 }, messages, downloads, now);
+    expect(deletions).toHaveLength(1);
+    expect(deletions[0]).toMatchObject({ msgNum: 1, uidl: 'old', uid: pop3UidlToNumericUid('old') });
+  });
+});
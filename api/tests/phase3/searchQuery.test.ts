@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import {
+  andImapSearch,
+  findMailbox,
+  parseSearchQuery,
+  positiveTextTerms,
+  toImapSearch,
+  toSqlCondition,
+} from '../../src/utils/searchQuery';
+
+type SqlValue = string | boolean | null;
+
+/**
+ * Evaluates the subset of SQL the compiler emits for field terms, flags,
+ * AND/OR/NOT and IS NOT TRUE against one row, with SQL's NULL logic.
+ */
+function evaluateSql(sql: string, params: unknown[], row: Record<string, SqlValue>): SqlValue {
+  const tokens = sql.match(/\$\d+|::\w+|[()]|[\w.]+/g) ?? [];
+  let pos = 0;
+  const next = () => tokens[pos++];
+  const peek = () => tokens[pos];
+
+  const ilike = (value: SqlValue, pattern: string): SqlValue => {
+    if (value === null) return null;
+    const regex = pattern.replace(/\\(.)|([%_])|([^\\%_]+)/g, (_, escaped, wildcard, text) => {
+      if (wildcard) return wildcard === '%' ? '.*' : '.';
+      return (escaped ?? text).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+    return new RegExp(`^${regex}$`, 'is').test(String(value));
+  };
+
+  const operand = (): SqlValue => {
+    const token = next();
+    if (token === '(') {
+      const value = or();
+      next();
+      return value;
+    }
+    if (token.startsWith('$')) return params[Number(token.slice(1)) - 1] as SqlValue;
+    if (peek()?.startsWith('::')) next();
+    return row[token];
+  };
+  const postfix = (): SqlValue => {
+    let value = operand();
+    if (peek() === 'ILIKE') {
+      next();
+      value = ilike(value, operand() as string);
+    }
+    if (peek() === 'IS') {
+      pos += 3;
+      value = value !== true;
+    }
+    return value;
+  };
+  const not = (): SqlValue => {
+    if (peek() !== 'NOT') return postfix();
+    next();
+    const value = not();
+    return value === null ? null : !value;
+  };
+  const and = (): SqlValue => {
+    let value = not();
+    while (peek() === 'AND') {
+      next();
+      const right = not();
+      value = value === false || right === false ? false : value === null || right === null ? null : true;
+    }
+    return value;
+  };
+  const or = (): SqlValue => {
+    let value = and();
+    while (peek() === 'OR') {
+      next();
+      const right = and();
+      value = value === true || right === true ? true : value === null || right === null ? null : false;
+    }
+    return value;
+  };
+
+  return or();
+}
+
+describe('search query parser', () => {
+  it('parses operators, phrases and plain words', () => {
+    expect(parseSearchQuery('from:alice subject:"weekly report" budget')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'term', field: 'from', value: 'alice' },
+        { type: 'term', field: 'subject', value: 'weekly report' },
+        { type: 'term', field: 'text', value: 'budget' },
+      ],
+    });
+  });
+
+  it('parses flags, dates and mailboxes', () => {
+    expect(parseSearchQuery('has:attachment is:unread after:2024/01/05 before:2024-02-01 in:inbox')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'hasAttachment' },
+        { type: 'is', flag: 'unread' },
+        { type: 'date', op: 'after', date: '2024-01-05' },
+        { type: 'date', op: 'before', date: '2024-02-01' },
+        { type: 'in', mailbox: 'INBOX' },
+      ],
+    });
+  });
+
+  it('binds OR tighter than AND, like Gmail', () => {
+    expect(parseSearchQuery('invoice from:alice OR from:bob')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'term', field: 'text', value: 'invoice' },
+        {
+          type: 'or',
+          nodes: [
+            { type: 'term', field: 'from', value: 'alice' },
+            { type: 'term', field: 'from', value: 'bob' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('negates words, phrases and groups', () => {
+    expect(parseSearchQuery('-"out of office" -(is:read OR is:starred)')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'not', node: { type: 'term', field: 'text', value: 'out of office' } },
+        {
+          type: 'not',
+          node: { type: 'or', nodes: [{ type: 'is', flag: 'read' }, { type: 'is', flag: 'starred' }] },
+        },
+      ],
+    });
+  });
+
+  it('searches unknown operators and invalid values as text', () => {
+    expect(parseSearchQuery('label:work')).toEqual({ type: 'term', field: 'text', value: 'label:work' });
+    expect(parseSearchQuery('before:2024-02-30')).toEqual({ type: 'term', field: 'text', value: 'before:2024-02-30' });
+    expect(parseSearchQuery('has:drive')).toEqual({ type: 'term', field: 'text', value: 'has:drive' });
+  });
+
+  it('survives unbalanced input', () => {
+    expect(parseSearchQuery('')).toEqual({ type: 'and', nodes: [] });
+    expect(parseSearchQuery('OR ) ("unclosed')).toEqual({ type: 'term', field: 'text', value: 'unclosed' });
+    expect(parseSearchQuery('a OR')).toEqual({ type: 'term', field: 'text', value: 'a' });
+  });
+
+  it('finds a mailbox that applies to the whole query', () => {
+    expect(findMailbox(parseSearchQuery('in:Archive report'))).toBe('Archive');
+    expect(findMailbox(parseSearchQuery('-in:Archive report'))).toBeNull();
+    expect(positiveTextTerms(parseSearchQuery('report -draft "q3 plan"'))).toEqual(['report', 'q3 plan']);
+  });
+});
+
+describe('IMAP SEARCH compiler', () => {
+  it('merges criteria with different keys', () => {
+    expect(toImapSearch(parseSearchQuery('from:alice is:unread'))).toEqual({ from: 'alice', seen: false });
+  });
+
+  it('joins colliding keys with NOT/OR', () => {
+    expect(andImapSearch([{ from: 'alice' }, { from: 'example.com' }])).toEqual({
+      not: { or: [{ not: { from: 'alice' } }, { not: { from: 'example.com' } }] },
+    });
+  });
+
+  it('compiles OR, negation and dates', () => {
+    const search = toImapSearch(parseSearchQuery('-subject:spam after:2024-01-05 (to:bob OR is:starred)'));
+    expect(search).toEqual({
+      not: { subject: 'spam' },
+      since: new Date(2024, 0, 5),
+      or: [{ or: [{ to: 'bob' }, { cc: 'bob' }] }, { flagged: true }],
+    });
+  });
+
+  it('leaves in: to the caller and matches everything without criteria', () => {
+    expect(toImapSearch(parseSearchQuery('in:Archive'))).toEqual({ all: true });
+    expect(toImapSearch(parseSearchQuery(''))).toEqual({ all: true });
+  });
+});
+
+describe('SQL compiler', () => {
+  it('numbers parameters after the given offset', () => {
+    const condition = toSqlCondition(parseSearchQuery('from:alice_b "q3 plan" -is:read'), { paramOffset: 1, alias: 'c' });
+    expect(condition.sql).toBe(
+      "((c.from_address ILIKE $2 OR c.from_name ILIKE $2) AND c.search_vector @@ phraseto_tsquery('simple', $3) AND (c.is_read) IS NOT TRUE)"
+    );
+    expect(condition.params).toEqual(['%alice\\_b%', 'q3 plan']);
+  });
+
+  it('compiles dates, mailboxes and OR', () => {
+    const condition = toSqlCondition(parseSearchQuery('before:2024-02-01 (in:Archive OR has:attachment)'));
+    expect(condition.sql).toBe('(date < $1::date AND (mailbox = $2 OR has_attachments))');
+    expect(condition.params).toEqual(['2024-02-01', 'Archive']);
+    expect(toSqlCondition(parseSearchQuery('')).sql).toBe('TRUE');
+  });
+
+  it('matches rows with NULL columns in negated terms', () => {
+    const rows: Array<Record<string, SqlValue>> = [
+      { from_address: 'carol@example.com', from_name: null, to_addresses: '["me@example.com"]', cc_addresses: null, is_read: false },
+      { from_address: 'bob@example.com', from_name: null, to_addresses: '["bob@example.com"]', cc_addresses: null, is_read: true },
+    ];
+    const matches = (query: string) => {
+      const condition = toSqlCondition(parseSearchQuery(query));
+      return rows.filter(row => evaluateSql(condition.sql, condition.params, row) === true).map(row => row.from_address);
+    };
+
+    expect(matches('-from:bob')).toEqual(['carol@example.com']);
+    expect(matches('-to:bob')).toEqual(['carol@example.com']);
+    expect(matches('-(from:bob OR is:read)')).toEqual(['carol@example.com']);
+    expect(matches('-(-from:bob)')).toEqual(['bob@example.com']);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getRetryDelayMs, isTransientSmtpFailure } from '../../src/utils/smtpRetry';
+
+describe('smtp retry policy', () => {
+  it('retries 4xx replies but not 5xx', () => {
+    expect(isTransientSmtpFailure({ responseCode: 421 })).toBe(true);
+    expect(isTransientSmtpFailure({ responseCode: 451, code: 'EENVELOPE' })).toBe(true);
+    expect(isTransientSmtpFailure({ responseCode: 550, code: 'EENVELOPE' })).toBe(false);
+  });
+
+  it('retries network errors and timeouts but not auth failures', () => {
+    expect(isTransientSmtpFailure({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(isTransientSmtpFailure({ code: 'ECONNECTION' })).toBe(true);
+    expect(isTransientSmtpFailure({ code: 'EAUTH', responseCode: 535 })).toBe(false);
+    expect(isTransientSmtpFailure({})).toBe(false);
+  });
+
+  it('backs off exponentially up to an hour', () => {
+    expect(getRetryDelayMs(1)).toBe(60_000);
+    expect(getRetryDelayMs(3)).toBe(240_000);
+    expect(getRetryDelayMs(10)).toBe(3_600_000);
+  });
+});
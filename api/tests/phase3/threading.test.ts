@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeConversationIds,
+  normalizeSubject,
+  parseMessageIdList,
+  type ThreadableMessage,
+} from '../../src/utils/threading';
+
+const msg = (key: string, overrides: Partial<ThreadableMessage> = {}): ThreadableMessage => ({
+  key,
+  messageId: `<${key}@example.com>`,
+  inReplyTo: null,
+  references: null,
+  subject: 'Project plan',
+  ...overrides,
+});
+
+describe('conversation threading', () => {
+  it('parseMessageIdList extracts bracketed ids in order', () => {
+    expect(parseMessageIdList('<a@x>  <b@x>\r\n <c@x>')).toEqual(['<a@x>', '<b@x>', '<c@x>']);
+    expect(parseMessageIdList(['<a@x>', 'b@x'])).toEqual(['<a@x>', '<b@x>']);
+    expect(parseMessageIdList(undefined)).toEqual([]);
+  });
+
+  it('normalizeSubject strips reply and forward prefixes', () => {
+    expect(normalizeSubject('Re: Fwd: [team] RE[2]: Project   plan')).toBe('project plan');
+  });
+
+  it('links replies through References and In-Reply-To', () => {
+    const ids = computeConversationIds([
+      msg('a'),
+      msg('b', { inReplyTo: '<a@example.com>', subject: 'Re: Project plan' }),
+      msg('c', { references: ['<a@example.com>', '<b@example.com>'], subject: 'Re: Project plan' }),
+      msg('d', { subject: 'Something else' }),
+    ]);
+
+    expect(ids.get('b')).toBe(ids.get('a'));
+    expect(ids.get('c')).toBe(ids.get('a'));
+    expect(ids.get('d')).not.toBe(ids.get('a'));
+  });
+
+  it('groups siblings whose common parent is missing', () => {
+    const ids = computeConversationIds([
+      msg('b', { inReplyTo: '<missing@example.com>', subject: 'Re: Lunch' }),
+      msg('c', { inReplyTo: '<missing@example.com>', subject: 'Re: Lunch' }),
+    ]);
+
+    expect(ids.get('b')).toBe(ids.get('c'));
+  });
+
+  it('groups header-less replies by subject but not unrelated messages', () => {
+    const ids = computeConversationIds([
+      msg('a', { subject: 'Invoice' }),
+      msg('b', { subject: 'Re: Invoice' }),
+      msg('c', { subject: 'Invoice' }),
+    ]);
+
+    expect(ids.get('b')).toBe(ids.get('a'));
+    expect(ids.get('c')).not.toBe(ids.get('a'));
+  });
+
+  it('keeps conversation ids stable as replies arrive', () => {
+    const before = computeConversationIds([msg('a')]);
+    const after = computeConversationIds([
+      msg('a'),
+      msg('b', { inReplyTo: '<a@example.com>', subject: 'Re: Project plan' }),
+    ]);
+
+    expect(after.get('a')).toBe(before.get('a'));
+  });
+
+  it('survives reference loops and duplicate message ids', () => {
+    const ids = computeConversationIds([
+      msg('a', { references: ['<b@example.com>'] }),
+      msg('b', { references: ['<a@example.com>'] }),
+      msg('dup', { messageId: '<a@example.com>' }),
+    ]);
+
+    expect(ids.size).toBe(3);
+  });
+});
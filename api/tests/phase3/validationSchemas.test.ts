@@ -1,9 +1,15 @@
 import { describe, expect, it } from 'vitest';
 import {
+  createFolderSchema,
+  draftSchema,
   emailAccountSchema,
+  emailAccountUpdateSchema,
   forgotPasswordSchema,
+  mailLabelSchema,
   registerSchema,
+  renameFolderSchema,
   resetPasswordSchema,
+  scheduleMailSchema,
   smtpAccountSchema,
   updateUserSchema,
 } from '../../src/utils/validationSchemas';
@@ -70,6 +76,12 @@ describe('api validation schemas', () => {
     expect(parsed.success).toBe(true);
   });
 
+  it('emailAccountUpdateSchema requires days for the delete-after-days POP3 policy', () => {
+    expect(emailAccountUpdateSchema.safeParse({ pop3Policy: 'delete_after_days', pop3RetentionDays: null }).success).toBe(false);
+    expect(emailAccountUpdateSchema.safeParse({ pop3Policy: 'delete_after_days', pop3RetentionDays: 14 }).success).toBe(true);
+    expect(emailAccountUpdateSchema.safeParse({ pop3Policy: 'delete_after_download', pop3RetentionDays: null }).success).toBe(true);
+  });
+
   it('smtpAccountSchema requires valid security value', () => {
     const parsed = smtpAccountSchema.safeParse({
       email: 'user@example.com',
@@ -92,4 +104,58 @@ describe('api validation schemas', () => {
 
     expect(parsed.success).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('createFolderSchema rejects IMAP wildcard characters in folder names', () => {
+    const parsed = createFolderSchema.safeParse({
+      accountCode: 'ACC01',
+      name: 'Projects*',
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('renameFolderSchema trims the new name', () => {
+    const parsed = renameFolderSchema.safeParse({
+      accountCode: 'ACC01',
+      path: 'Projects/2024',
+      newName: '  Archive 2024  ',
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.newName).toBe('Archive 2024');
+  });
+
+  it('draftSchema fills defaults for a partially written draft', () => {
+    const parsed = draftSchema.safeParse({
+      accountCode: 'ACC01',
+      subject: 'Quarterly report',
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data).toMatchObject({ to: '', htmlContent: '', attachments: [], charCount: 0 });
+  });
+
+  it('scheduleMailSchema requires an ISO scheduled time', () => {
+    const mail = {
+      accountCode: 'ACC01',
+      to: ['bob@example.com'],
+      subject: 'Reminder',
+      html: '<p>Hi</p>',
+    };
+
+    expect(scheduleMailSchema.safeParse({ ...mail, scheduledAt: 'tomorrow' }).success).toBe(false);
+    expect(scheduleMailSchema.safeParse({ ...mail, scheduledAt: '2026-10-20T08:00:00+02:00' }).success).toBe(true);
+  });
+
+  it('mailLabelSchema only accepts names that are valid IMAP keywords', () => {
+    expect(mailLabelSchema.parse({ name: ' finance ' })).toEqual({ name: 'finance', color: 'gray' });
+    expect(mailLabelSchema.safeParse({ name: 'to do' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: '\\Seen' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: 'Reisekostenabrechnung-März' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: 'tab\there' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: '$Important' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: 'NonJunk' }).success).toBe(false);
+    expect(mailLabelSchema.safeParse({ name: 'Q3-budget_2026' }).success).toBe(true);
+    expect(mailLabelSchema.safeParse({ name: 'work', color: '#ff0000' }).success).toBe(false);
+  });
+});
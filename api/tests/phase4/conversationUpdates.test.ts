@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { loads } = vi.hoisted(() => ({
+  /** One entry per recompute that loaded the user's mail, with a way to let it finish */
+  loads: [] as Array<() => void>,
+}));
+
+vi.mock('../../src/db/index.js', () => {
+  const query = vi.fn(async (sql: string) => {
+    if (sql.includes('FROM inbox_cache')) {
+      await new Promise<void>(resolve => loads.push(resolve));
+    }
+    return { rows: [] };
+  });
+  const client = { query, release: vi.fn() };
+  return { default: { connect: vi.fn(async () => client), query } };
+});
+
+import { recomputeConversations, scheduleConversationUpdate } from '../../src/services/thread.service';
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('conversation updates', () => {
+  it('runs one recompute at a time per user and folds requests made meanwhile into one', async () => {
+    const direct = recomputeConversations('1');
+    await settle();
+    expect(loads).toHaveLength(1);
+
+    scheduleConversationUpdate('1');
+    scheduleConversationUpdate('1');
+    scheduleConversationUpdate('1');
+    await settle();
+    expect(loads).toHaveLength(1);
+
+    loads[0]();
+    await direct;
+    await settle();
+    expect(loads).toHaveLength(2);
+
+    loads[1]();
+    await settle();
+    expect(loads).toHaveLength(2);
+  });
+});
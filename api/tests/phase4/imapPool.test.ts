@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { clients, connecting } = vi.hoisted(() => ({
+  clients: [] as unknown[],
+  // Resolves when the fake server accepts connections
+  connecting: { gate: Promise.resolve() },
+}));
+
+vi.mock('imapflow', async () => {
+  const { EventEmitter } = await import('events');
+  class ImapFlow extends EventEmitter {
+    usable = true;
+    connect = vi.fn(() => connecting.gate);
+    noop = vi.fn(async () => {});
+    logout = vi.fn(async () => { this.usable = false; });
+    close = vi.fn(() => { this.usable = false; });
+
+    constructor() {
+      super();
+      clients.push(this);
+    }
+  }
+  return { ImapFlow };
+});
+
+import { AppError } from '../../src/utils/errors';
+import { imapPool } from '../../src/services/imap-pool.service';
+
+interface FakeClient {
+  usable: boolean;
+  logout: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+}
+
+const config = { host: 'imap.example.com', port: 993, secure: true, auth: { user: 'me', pass: 'secret' } };
+const opened = () => clients as FakeClient[];
+
+/** A hook into an operation that keeps its connection leased until finish() */
+function hold() {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  let started!: () => void;
+  const running = new Promise<void>(resolve => { started = resolve; });
+  const fn = async (client: unknown) => {
+    started();
+    await done;
+    return client;
+  };
+  return { fn, running, finish };
+}
+
+describe('imap connection pool', () => {
+  afterEach(() => {
+    imapPool.shutdown();
+    clients.length = 0;
+    connecting.gate = Promise.resolve();
+    vi.useRealTimers();
+  });
+
+  it('reuses a released connection', async () => {
+    const first = await imapPool.withConnection('1:acc', config, async client => client);
+    const second = await imapPool.withConnection('1:acc', config, async client => client);
+
+    expect(second).toBe(first);
+    expect(opened()).toHaveLength(1);
+  });
+
+  it('shares a busy connection once the account is at its limit', async () => {
+    const a = hold();
+    const b = hold();
+    const first = imapPool.withConnection('1:acc', config, a.fn);
+    const second = imapPool.withConnection('1:acc', config, b.fn);
+    await Promise.all([a.running, b.running]);
+    expect(opened()).toHaveLength(2);
+
+    const third = await imapPool.withConnection('1:acc', config, async client => client);
+
+    expect(opened()).toHaveLength(2);
+    expect(opened()).toContain(third);
+    a.finish();
+    b.finish();
+    await Promise.all([first, second]);
+  });
+
+  it('waits for a connect in flight instead of opening past the limit', async () => {
+    let connected!: () => void;
+    connecting.gate = new Promise<void>(resolve => { connected = resolve; });
+
+    const calls = [1, 2, 3].map(() => imapPool.withConnection('1:acc', config, async client => client));
+    await new Promise(resolve => setImmediate(resolve));
+    expect(opened()).toHaveLength(2);
+
+    connected();
+    const results = await Promise.all(calls);
+
+    expect(opened()).toHaveLength(2);
+    expect(new Set(results).size).toBeLessThanOrEqual(2);
+  });
+
+  it('retires a connection after a protocol error', async () => {
+    const bad = Object.assign(new Error('Command failed'), { responseStatus: 'BAD' });
+    await expect(
+      imapPool.withConnection('1:acc', config, async () => { throw bad; })
+    ).rejects.toThrow('Command failed');
+
+    expect(opened()).toHaveLength(1);
+    expect(opened()[0].logout).toHaveBeenCalled();
+
+    const next = await imapPool.withConnection('1:acc', config, async client => client);
+    expect(opened()).toHaveLength(2);
+    expect(next).toBe(opened()[1]);
+  });
+
+  it('keeps a connection after an application error', async () => {
+    const first = await imapPool.withConnection('1:acc', config, async client => client);
+    await expect(
+      imapPool.withConnection('1:acc', config, async () => { throw new AppError('Message not found on server', 404, true); })
+    ).rejects.toThrow('Message not found on server');
+
+    const next = await imapPool.withConnection('1:acc', config, async client => client);
+    expect(next).toBe(first);
+    expect(opened()[0].logout).not.toHaveBeenCalled();
+  });
+
+  it('logs out connections left idle by the sweep', async () => {
+    vi.useFakeTimers();
+    imapPool.start();
+
+    await imapPool.withConnection('1:acc', config, async client => client);
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    expect(opened()[0].logout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(opened()[0].logout).toHaveBeenCalled();
+
+    const next = await imapPool.withConnection('1:acc', config, async client => client);
+    expect(next).toBe(opened()[1]);
+  });
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { cache, ruleRuns, planRules, updateMailFlags } = vi.hoisted(() => ({
+  /** inbox_cache dates by UID */
+  cache: new Map<number, string>(),
+  /** mail_rule_runs keys */
+  ruleRuns: new Set<string>(),
+  planRules: vi.fn((): unknown => null),
+  updateMailFlags: vi.fn(),
+}));
+
+vi.mock('../../src/db/index.js', () => {
+  const query = vi.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('INSERT INTO inbox_cache')) {
+      const uid = params[2] as number;
+      const inserted = !cache.has(uid);
+      cache.set(uid, params[15] as string);
+      return { rows: [{ id: String(uid), text_body: null, html_body: null, snippet: null, body_loaded: false, inserted }] };
+    }
+    if (sql.includes('DELETE FROM inbox_cache')) {
+      // The cache trim: keep the newest `cacheLimit`
+      const newest = [...cache].sort((a, b) => b[1].localeCompare(a[1])).slice(0, params[3] as number);
+      const kept = new Set(newest.map(([uid]) => uid));
+      for (const uid of [...cache.keys()]) if (!kept.has(uid)) cache.delete(uid);
+      return { rows: [] };
+    }
+    if (sql.includes('INSERT INTO mail_rule_runs')) {
+      const claimed = (params[2] as string[]).filter(key => !ruleRuns.has(key));
+      claimed.forEach(key => ruleRuns.add(key));
+      return { rows: claimed.map(key => ({ mail_key: key })) };
+    }
+    if (sql.includes('DELETE FROM mail_rule_runs')) {
+      (params[2] as string[]).forEach(key => ruleRuns.delete(key));
+      return { rows: [] };
+    }
+    if (sql.includes('FROM mail_rules')) {
+      return {
+        rows: [{
+          id: 1, name: 'Forward invoices', account_code: null, enabled: true, position: 0, match_all: true,
+          conditions: [{ field: 'subject', operator: 'contains', value: 'invoice' }],
+          actions: [{ type: 'forward', to: 'books@example.com' }],
+          stop_processing: false, created_at: '2026-10-01T00:00:00Z', updated_at: '2026-10-01T00:00:00Z',
+        }],
+      };
+    }
+    return { rows: [] };
+  });
+  const client = { query, release: vi.fn() };
+  return { default: { connect: vi.fn(async () => client), query } };
+});
+
+vi.mock('../../src/utils/mailRules.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/mailRules.js')>()),
+  planRules,
+}));
+
+vi.mock('../../src/services/inbox.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/inbox.service.js')>()),
+  updateMailFlags,
+}));
+
+vi.mock('../../src/services/thread.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/thread.service.js')>()),
+  scheduleConversationUpdate: vi.fn(),
+}));
+
+vi.mock('../../src/services/contact.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/contact.service.js')>()),
+  scheduleContactHarvest: vi.fn(),
+}));
+
+// Loaded first, so it binds the mocked inbox.service rather than the original
+import { applyRulesToNewMail } from '../../src/services/mail-rules.service';
+import { syncMailsToCache, type InboxMail } from '../../src/services/inbox.service';
+
+/** The newest `count` mails on the server, newest first */
+const serverWindow = (newestUid: number, count: number): InboxMail[] =>
+  Array.from({ length: count }, (_, i) => {
+    const uid = newestUid - i;
+    return {
+      uid,
+      accountCode: 'acc',
+      mailbox: 'INBOX',
+      messageId: `<${uid}@example.com>`,
+      fromAddress: 'shop@example.com',
+      subject: `Invoice ${uid}`,
+      toAddresses: [],
+      date: new Date(Date.UTC(2026, 9, 1) + uid * 60_000).toISOString(),
+    } as unknown as InboxMail;
+  });
+
+describe('filter rules during sync', () => {
+  beforeEach(() => {
+    cache.clear();
+    ruleRuns.clear();
+    planRules.mockClear();
+    updateMailFlags.mockReset();
+  });
+
+  it('runs once per mail when the cache limit is below the fetch window', async () => {
+    await syncMailsToCache('1', 'acc', serverWindow(15, 15), 5);
+    expect(planRules).toHaveBeenCalledTimes(15);
+    expect(cache.size).toBe(5);
+
+    // The next poll downloads the same 15; the 10 trimmed ones are inserted again
+    planRules.mockClear();
+    await syncMailsToCache('1', 'acc', serverWindow(15, 15), 5);
+    expect(planRules).not.toHaveBeenCalled();
+
+    planRules.mockClear();
+    await syncMailsToCache('1', 'acc', serverWindow(16, 15), 5);
+    expect(planRules).toHaveBeenCalledTimes(1);
+    expect(planRules).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ uid: 16 }));
+  });
+
+  it('runs again on mail whose actions failed', async () => {
+    const markRead = { ruleIds: [1], markRead: true, star: false, labels: [], moveTo: null, forwardTo: [], delete: false };
+    planRules.mockReturnValueOnce(markRead).mockReturnValueOnce(markRead);
+    const mails = serverWindow(3, 1);
+
+    updateMailFlags.mockRejectedValueOnce(new Error('Connection closed'));
+    const failed = await applyRulesToNewMail('1', 'acc', 'INBOX', mails);
+    expect(failed[0].isRead).toBeFalsy();
+    expect(ruleRuns.size).toBe(0);
+
+    updateMailFlags.mockResolvedValueOnce(1);
+    const retried = await applyRulesToNewMail('1', 'acc', 'INBOX', mails);
+    expect(retried[0].isRead).toBe(true);
+    expect(ruleRuns.size).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { queries, saveDraft, sendMailFromAccount, handlers } = vi.hoisted(() => ({
+  queries: [] as string[],
+  saveDraft: vi.fn(),
+  sendMailFromAccount: vi.fn(),
+  handlers: new Map<string, (job: unknown) => Promise<void>>(),
+}));
+
+vi.mock('../../src/db/index.js', () => {
+  const client = {
+    query: vi.fn(async (sql: string) => {
+      queries.push(sql.trim().split(/\s+/).slice(0, 3).join(' '));
+      if (sql.includes('FROM sent_mails')) {
+        return {
+          rows: [{
+            id: 'mail-1',
+            from_account_code: 'acc',
+            from_email: 'me@example.com',
+            to_emails: ['bob@example.com'],
+            cc_emails: null,
+            bcc_emails: null,
+            subject: 'Hello',
+            html_body: '<p>Hi</p>',
+            text_body: 'Hi',
+            attachments: [],
+            retry_count: 0,
+          }],
+        };
+      }
+      if (sql.includes('FROM jobs')) return { rows: [{ locked_at: null }] };
+      if (sql.includes('UPDATE sent_mails')) return { rows: [], rowCount: 1 };
+      return { rows: [] };
+    }),
+    release: vi.fn(),
+  };
+  return { default: { connect: vi.fn(async () => client), query: client.query } };
+});
+
+vi.mock('../../src/services/draft.service.js', () => ({ saveDraft }));
+
+vi.mock('../../src/services/mail.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/mail.service.js')>()),
+  sendMailFromAccount,
+}));
+
+vi.mock('../../src/services/job-runner.service.js', () => ({
+  jobRunner: {
+    register: vi.fn((type: string, handler: (job: unknown) => Promise<void>) => handlers.set(type, handler)),
+    enqueue: vi.fn(),
+  },
+}));
+
+import { AppError } from '../../src/utils/errors';
+import { registerScheduledSendJobs, undoSend } from '../../src/services/scheduled-mail.service';
+
+describe('undoSend', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    saveDraft.mockReset();
+  });
+
+  it('removes the held mail only after its draft is saved', async () => {
+    saveDraft.mockImplementation(async (_userId: string, id: string) => {
+      expect(queries.some(q => q.startsWith('DELETE'))).toBe(false);
+      return { id };
+    });
+
+    const draft = await undoSend('1', 'mail-1');
+
+    expect(saveDraft).toHaveBeenCalledWith('1', draft.id, expect.objectContaining({
+      to: 'bob@example.com',
+      subject: 'Hello',
+      textContent: 'Hi',
+    }));
+    expect(queries.filter(q => q.startsWith('DELETE'))).toEqual(['DELETE FROM jobs', 'DELETE FROM sent_mails']);
+    expect(queries.at(-1)).toBe('COMMIT');
+  });
+
+  it('keeps the mail queued when the draft cannot be saved', async () => {
+    saveDraft.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(undoSend('1', 'mail-1')).rejects.toThrow('database unavailable');
+
+    expect(queries.some(q => q.startsWith('DELETE'))).toBe(false);
+    expect(queries).not.toContain('COMMIT');
+    expect(queries.at(-1)).toBe('ROLLBACK');
+  });
+});
+
+describe('send_mail job', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    sendMailFromAccount.mockReset();
+    registerScheduledSendJobs();
+  });
+
+  const runJob = () => handlers.get('send_mail')!({ id: 1, userId: '1', type: 'send_mail', payload: { sentMailId: 'mail-1' } });
+
+  it('moves the mail to the outbox when its account is gone', async () => {
+    sendMailFromAccount.mockRejectedValue(new AppError('Email account not found or inactive', 404, true));
+
+    await expect(runJob()).rejects.toThrow('Email account not found or inactive');
+
+    expect(queries).toContain('UPDATE sent_mails SET');
+  });
+
+  it('leaves a sent mail alone', async () => {
+    sendMailFromAccount.mockResolvedValue({});
+
+    await runJob();
+
+    expect(queries).not.toContain('UPDATE sent_mails SET');
+  });
+});
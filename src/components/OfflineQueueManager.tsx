@@ -72,6 +72,10 @@ export function OfflineQueueManager({ className = '', compact = false }: Offline
     if (url.includes('/drafts')) return item.method === 'POST' ? 'Save Draft' : 'Update Draft';
     if (url.includes('/sent-mails')) return 'Save Sent Mail';
     if (url.includes('/email-accounts')) return 'Update Email Account';
+    if (url.includes('/inbox/') && url.endsWith('/flags')) return 'Update Email Flags';
+    if (url.includes('/inbox/') && (url.endsWith('/delete') || item.method === 'DELETE')) return 'Delete Email';
+    if (url.includes('/inbox/') && url.endsWith('/move')) return 'Move Email';
+    if (url.includes('/inbox/') && url.endsWith('/copy')) return 'Copy Email';
     
     return `${item.method} request`;
   };
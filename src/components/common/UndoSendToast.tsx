@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+
+interface UndoSendToastProps {
+  onUndo: () => Promise<void>;
+  closeToast?: () => void;
+}
+
+/**
+ * Toast body shown while a send is held server-side; the toast's
+ * autoClose matches the undo window.
+ */
+const UndoSendToast: React.FC<UndoSendToastProps> = ({ onUndo, closeToast }) => {
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      closeToast?.();
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span>Sending email…</span>
+      <button
+        onClick={handleUndo}
+        disabled={isUndoing}
+        className="flex items-center gap-1 px-2.5 py-1 text-sm font-semibold rounded-md bg-white/20 hover:bg-white/30 transition-colors disabled:opacity-60"
+      >
+        <Undo2 className="w-4 h-4" />
+        <span>{isUndoing ? 'Undoing…' : 'Undo'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default UndoSendToast;
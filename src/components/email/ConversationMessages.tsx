@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Paperclip, Send } from 'lucide-react';
+import { sanitizeEmailHtml } from '@/lib/emailStyles';
+import type { ConversationMessage } from '@/lib/conversations';
+import { fetchMailBody } from '@/lib/mailBody';
+
+interface ConversationMessagesProps {
+  /** Messages to show, oldest first */
+  messages: ConversationMessage[];
+}
+
+const formatMessageDate = (value: string): string =>
+  new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const snippetOf = (message: ConversationMessage): string => {
+  const text = message.textBody
+    || (message.htmlBody ? new DOMParser().parseFromString(message.htmlBody, 'text/html').body.textContent : '')
+    || message.snippet
+    || '';
+  return text.replace(/\s+/g, ' ').trim().slice(0, 140);
+};
+
+const ConversationMessageCard: React.FC<{ message: ConversationMessage }> = ({ message: initial }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState(initial);
+  const [bodyError, setBodyError] = useState(false);
+  const isSent = message.type === 'sent';
+
+  // Received mail synced without its body: fetch it the first time the card opens
+  const loadBody = async (uid: number) => {
+    setBodyError(false);
+    try {
+      const body = await fetchMailBody(message.accountCode, uid, message.mailbox || 'INBOX');
+      setMessage(prev => ({
+        ...prev,
+        textBody: body.textBody,
+        htmlBody: body.htmlBody,
+        attachmentsMetadata: body.attachmentsMetadata ?? prev.attachmentsMetadata,
+        bodyLoaded: true,
+      }));
+    } catch (error) {
+      console.warn('Failed to load message body:', error);
+      setBodyError(true);
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen && !message.bodyLoaded && message.uid !== null) {
+      void loadBody(message.uid);
+    }
+    setIsOpen(v => !v);
+  };
+  const sender = isSent ? 'You' : message.fromName || message.fromAddress;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <button
+        onClick={toggle}
+        className="w-full flex items-start gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className={`h-8 w-8 shrink-0 rounded-full flex items-center justify-center text-sm font-medium ${
+          isSent
+            ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+            : 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+        }`}>
+          {isSent ? <Send size={14} /> : sender.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <span className={`truncate text-sm ${message.isRead ? 'text-gray-700 dark:text-gray-300' : 'font-semibold text-gray-900 dark:text-gray-100'}`}>
+              {sender}
+              {isSent && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                  to {message.toAddresses.join(', ')}
+                </span>
+              )}
+            </span>
+            <span className="flex items-center gap-2 shrink-0 text-xs text-gray-500 dark:text-gray-400">
+              {message.hasAttachments && <Paperclip size={12} />}
+              {formatMessageDate(message.date)}
+              <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </span>
+          </div>
+          {!isOpen && (
+            <p className="mt-1 truncate text-sm text-gray-500 dark:text-gray-400">{snippetOf(message)}</p>
+          )}
+        </div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="px-4 pb-4 border-t border-gray-100 dark:border-gray-700 pt-4">
+              {!message.bodyLoaded ? (
+                <p className="text-sm italic text-gray-500 dark:text-gray-400">
+                  {bodyError ? 'Could not load this message.' : 'Loading message…'}
+                </p>
+              ) : message.htmlBody ? (
+                <div
+                  className="ck-content email-content max-w-none prose dark:prose-invert prose-sm"
+                  dangerouslySetInnerHTML={{ __html: sanitizeEmailHtml(message.htmlBody) }}
+                />
+              ) : (
+                <div className="whitespace-pre-wrap font-sans text-sm text-gray-900 dark:text-gray-100">
+                  {message.textBody || '(No content)'}
+                </div>
+              )}
+              {message.attachmentsMetadata && message.attachmentsMetadata.length > 0 && (
+                <p className="mt-3 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                  <Paperclip size={12} />
+                  {message.attachmentsMetadata.map(a => a.filename).join(', ')}
+                </p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+/**
+ * Collapsed cards for the other messages of a conversation; click to expand.
+ */
+const ConversationMessages: React.FC<ConversationMessagesProps> = ({ messages }) => {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {messages.map(message => (
+        <ConversationMessageCard key={`${message.type}:${message.id}`} message={message} />
+      ))}
+    </div>
+  );
+};
+
+export default ConversationMessages;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Check, Minus, Tag } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { toast } from '@/lib/toast';
+import { createLabel, getColorClasses, hasLabel, type MailLabel } from '@/lib/labels';
+
+interface LabelMenuProps {
+  labels: MailLabel[];
+  /** Labels of each mail the menu applies to */
+  mailLabels: Array<string[] | undefined>;
+  onChange: (add: string[], remove: string[]) => void;
+  /** Which edge of the button the menu lines up with */
+  align?: 'left' | 'right';
+}
+
+/**
+ * "Label" button with a checklist of labels. A label every mail has is
+ * checked and clicking removes it; otherwise clicking adds it to all of them.
+ */
+const LabelMenu: React.FC<LabelMenuProps> = ({ labels, mailLabels, onChange, align = 'right' }) => {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, []);
+
+  const countWith = (name: string) => mailLabels.filter(l => hasLabel(l, name)).length;
+
+  const toggle = (name: string) => {
+    if (countWith(name) === mailLabels.length) {
+      onChange([], [name]);
+    } else {
+      onChange([name], []);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      if (!labels.some(l => l.name.toLowerCase() === name.toLowerCase())) {
+        await createLabel(name, 'gray');
+      }
+      onChange([name], []);
+      setNewName('');
+    } catch (err: unknown) {
+      const errors = (err as { errors?: Record<string, string> })?.errors;
+      toast.error(errors?.name || (err instanceof Error ? err.message : 'Failed to create label'));
+    }
+  };
+
+  return (
+    <div className="relative" ref={ref}>
+      <Button
+        variant="outline"
+        size="small"
+        onClick={() => setOpen(v => !v)}
+        className="flex items-center gap-1"
+      >
+        <Tag className="w-4 h-4" />
+        <span>Label</span>
+      </Button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} z-20 mt-1 w-56 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg`}
+          >
+            <div className="max-h-64 overflow-y-auto py-1">
+              {labels.length === 0 && (
+                <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">No labels yet</p>
+              )}
+              {labels.map(label => {
+                const count = countWith(label.name);
+                return (
+                  <button
+                    key={label.id}
+                    onClick={() => toggle(label.name)}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center gap-2"
+                  >
+                    <span className="w-4 h-4 shrink-0 flex items-center justify-center">
+                      {count === mailLabels.length && count > 0
+                        ? <Check className="w-4 h-4" />
+                        : count > 0 ? <Minus className="w-4 h-4" /> : null}
+                    </span>
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getColorClasses(label.color).dot}`} />
+                    <span className="truncate">{label.name}</span>
+                  </button>
+                );
+              })}
+            </div>
+            <form onSubmit={handleCreate} className="border-t border-gray-200 dark:border-gray-600 p-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="New label…"
+                className="w-full px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default LabelMenu;
@@ -0,0 +1,168 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { contactLabel, rankContacts, type Contact } from '@/lib/contacts';
+
+interface RecipientInputProps {
+  /** Comma-separated addresses, as stored in drafts */
+  value: string;
+  onChange: (value: string) => void;
+  contacts: Contact[];
+  placeholder?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+/**
+ * Entered addresses as chips; the text after the last comma is still being
+ * typed and stays part of the value, so it is sent even if never completed.
+ */
+const splitValue = (value: string) => {
+  const parts = value.split(',');
+  const text = (parts.pop() ?? '').trimStart();
+  return { chips: parts.map(p => p.trim()).filter(Boolean), text };
+};
+
+const joinValue = (chips: string[], text: string) =>
+  chips.length > 0 ? `${chips.join(', ')}, ${text}` : text;
+
+/**
+ * Recipient field with address chips and contact suggestions ranked by how
+ * often and how recently the user mailed each contact.
+ */
+const RecipientInput: React.FC<RecipientInputProps> = ({ value, onChange, contacts, placeholder }) => {
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { chips, text } = splitValue(value);
+
+  const suggestions = open ? rankContacts(contacts, text, chips) : [];
+
+  const byEmail = useMemo(() => {
+    const map = new Map<string, Contact>();
+    for (const contact of contacts) {
+      for (const email of contact.emails) map.set(email.toLowerCase(), contact);
+    }
+    return map;
+  }, [contacts]);
+
+  const commit = (email: string) => {
+    const address = email.trim();
+    if (!address) return;
+    onChange(joinValue([...chips, address], ''));
+    setHighlight(0);
+  };
+
+  const removeChip = (index: number) => {
+    onChange(joinValue(chips.filter((_, i) => i !== index), text));
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight(h => (h + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || (e.key === 'Tab' && text.trim())) {
+      const suggestion = suggestions[Math.min(highlight, suggestions.length - 1)];
+      if (suggestion || text.trim()) {
+        e.preventDefault();
+        commit(suggestion ? suggestion.email : text);
+      }
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (e.key === 'Backspace' && !text && chips.length > 0) {
+      e.preventDefault();
+      onChange(joinValue(chips.slice(0, -1), chips[chips.length - 1]));
+    }
+  };
+
+  const handleBlur = () => {
+    setOpen(false);
+    // A complete address turns into a chip when leaving the field
+    if (EMAIL_PATTERN.test(text.trim())) commit(text);
+  };
+
+  return (
+    <div className="relative">
+      <div
+        onClick={() => inputRef.current?.focus()}
+        className="w-full flex flex-wrap items-center gap-1 px-3 py-1.5 min-h-[42px] border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent dark:bg-gray-700 cursor-text"
+      >
+        {chips.map((email, index) => {
+          const contact = byEmail.get(email.toLowerCase());
+          const valid = EMAIL_PATTERN.test(email);
+          return (
+            <span
+              key={`${email}-${index}`}
+              title={email}
+              className={`inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-sm ${valid
+                ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                : 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'}`}
+            >
+              {contact ? contactLabel(contact, email) : email}
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); removeChip(index); }}
+                className="opacity-60 hover:opacity-100"
+                title={`Remove ${email}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          );
+        })}
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={(e) => {
+            const typed = e.target.value;
+            // Typing or pasting a comma completes the addresses before it
+            if (typed.includes(',')) {
+              const { chips: added, text: rest } = splitValue(typed);
+              onChange(joinValue([...chips, ...added], rest));
+            } else {
+              onChange(joinValue(chips, typed));
+            }
+            setOpen(true);
+            setHighlight(0);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
+          placeholder={chips.length === 0 ? placeholder : undefined}
+          autoComplete="off"
+          className="flex-1 min-w-[8rem] py-0.5 bg-transparent outline-none text-gray-900 dark:text-white"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg py-1 max-h-64 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <li key={`${suggestion.contact.id}-${suggestion.email}`}>
+              <button
+                type="button"
+                // Keep focus in the input so blur doesn't close the list first
+                onMouseDown={(e) => { e.preventDefault(); commit(suggestion.email); }}
+                onMouseEnter={() => setHighlight(index)}
+                className={`w-full text-left px-3 py-2 text-sm transition-colors ${index === highlight
+                  ? 'bg-blue-50 dark:bg-gray-600'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-600'}`}
+              >
+                <span className="block font-medium text-gray-900 dark:text-white truncate">
+                  {contactLabel(suggestion.contact, suggestion.email)}
+                </span>
+                {suggestion.contact.name && (
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{suggestion.email}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecipientInput;
@@ -7,12 +7,14 @@ import {
   Sun,
   Moon,
   Monitor,
-  ChevronLeft
+  ChevronLeft,
+  FolderTree as FolderTreeIcon
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useEmail } from '@/contexts/EmailContext'; 
-import { getNavigationItems, tooltipVariants } from '@/lib/navigation';
+import { getAccountUnread, getNavigationItems, tooltipVariants } from '@/lib/navigation';
+import FolderTree from './FolderTree';
 import logoSvg from '@/assets/logo.svg';
 
 interface FlowbarItem {
@@ -21,6 +23,7 @@ interface FlowbarItem {
   icon: React.ComponentType<{ className?: string }>;
   path: string;
   badge?: number;
+  badgeTitle?: string;
 }
 
 interface FlowbarProps {
@@ -38,6 +41,7 @@ const Flowbar: React.FC<FlowbarProps> = ({
   const [internalIsExpanded, setInternalIsExpanded] = useState(true);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   const [logoLoaded, setLogoLoaded] = useState(false);
+  const [showFolders, setShowFolders] = useState(false);
 
   const isExpanded = externalIsExpanded !== undefined ? externalIsExpanded : internalIsExpanded;
   const toggleExpansion = externalOnToggleExpansion || (() => setInternalIsExpanded(!internalIsExpanded));
@@ -46,9 +50,9 @@ const Flowbar: React.FC<FlowbarProps> = ({
   const navigate = useNavigate();
   const { logout } = useAuth();
   const { theme, setTheme } = useTheme();
-  const { unreadCount, showUnreadBadge } = useEmail();
+  const { unreadCount, unreadByAccount, showUnreadBadge } = useEmail();
   
-  const flowbarItems: FlowbarItem[] = getNavigationItems(unreadCount);
+  const flowbarItems: FlowbarItem[] = getNavigationItems(unreadCount, getAccountUnread(unreadByAccount));
 
   const handleLogout = async () => {
     try {
@@ -294,6 +298,9 @@ const Flowbar: React.FC<FlowbarProps> = ({
                             <div className="bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 text-sm px-3 py-2 rounded-lg whitespace-nowrap shadow-lg">
                               <div>
                                 {item.id === 'inbox' ? 'Inbox' : item.label}
+                                {item.badgeTitle && showUnreadBadge && (
+                                  <div className="text-xs text-gray-300 dark:text-gray-600 mt-1">{item.badgeTitle}</div>
+                                )}
                                 {item.id === 'search' && (
                                   <div className="text-xs text-gray-300 dark:text-gray-600 mt-1">alt+s</div>
                                 )}
@@ -307,6 +314,60 @@ const Flowbar: React.FC<FlowbarProps> = ({
                   );
                 })}
 
+                {/* Folders Button (IMAP folder tree popover) */}
+                <motion.div
+                  className="relative"
+                  onMouseEnter={() => setHoveredItem('folders')}
+                  onMouseLeave={() => setHoveredItem(null)}
+                >
+                  <motion.button
+                    onClick={() => setShowFolders(v => !v)}
+                    className={`
+                      relative flex items-center justify-center w-12 h-12
+                      rounded-xl transition-all duration-200 group overflow-hidden
+                      ${showFolders || location.pathname.startsWith('/folder/')
+                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 shadow-md'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800/50 hover:text-gray-900 dark:hover:text-gray-100'
+                      }
+                    `}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <div className="absolute inset-0 bg-linear-to-br from-white/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200" />
+                    <FolderTreeIcon className="w-5 h-5 relative z-10" />
+                  </motion.button>
+
+                  <AnimatePresence>
+                    {showFolders && (
+                      <motion.div
+                        key="folders-popover"
+                        className="absolute bottom-full mb-3 left-1/2 transform -translate-x-1/2 w-72 max-h-96 overflow-y-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl py-2"
+                        variants={tooltipVariants}
+                        initial="hidden"
+                        animate="visible"
+                        exit="hidden"
+                      >
+                        <FolderTree onNavigate={() => setShowFolders(false)} />
+                      </motion.div>
+                    )}
+                    {hoveredItem === 'folders' && !showFolders && (
+                      <motion.div
+                        key="folders-tooltip"
+                        className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2"
+                        variants={tooltipVariants}
+                        initial="hidden"
+                        animate="visible"
+                        exit="hidden"
+                      >
+                        <div className="bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 text-sm px-3 py-2 rounded-lg whitespace-nowrap shadow-lg">
+                          Folders
+                        </div>
+                        <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900 dark:border-t-gray-100" />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+
                 {/* Separator */}
                 <motion.div
                   className="w-px h-8 bg-gray-300 dark:bg-gray-600"
@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronRight, Mail, RefreshCw } from 'lucide-react';
+import {
+  buildFolderTree,
+  fetchFolders,
+  folderRoute,
+  getCachedFolders,
+  getFolderDisplayName,
+  getFolderIcon,
+  MAIL_DRAG_TYPE,
+  type FolderNode,
+  type MailDragPayload,
+  type MailFolder,
+} from '@/lib/folders';
+import { getInboxMailById, type InboxMailRecord } from '@/lib/db';
+import { moveMails } from '@/lib/mailActions';
+import { toast } from '@/lib/toast';
+
+interface FolderAccount {
+  id: string;
+  email: string;
+  accountCode: string;
+  incomingType?: 'IMAP' | 'POP3';
+}
+
+interface FolderTreeProps {
+  /** Called after a folder link is clicked (e.g. to close a popover) */
+  onNavigate?: () => void;
+}
+
+// POP3 has no folders — only IMAP accounts get a tree
+const loadImapAccounts = (): FolderAccount[] => {
+  try {
+    const parsed: FolderAccount[] = JSON.parse(localStorage.getItem('emailAccounts') || '[]');
+    return parsed.filter(acc => acc.incomingType !== 'POP3');
+  } catch {
+    return [];
+  }
+};
+
+const safeDecode = (path: string): string => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+/**
+ * Move mails dropped from the inbox list into a folder, then tell the list to reload.
+ */
+const handleMailDrop = async (payload: MailDragPayload, accountCode: string, folder: FolderNode) => {
+  if (payload.accountCode !== accountCode) {
+    toast.error('Mail can only be moved between folders of the same account');
+    return;
+  }
+  const records = (await Promise.all(payload.ids.map(id => getInboxMailById(id))))
+    .filter((m): m is InboxMailRecord => Boolean(m));
+  if (records.length === 0) return;
+
+  const name = getFolderDisplayName(folder.path, folder.delimiter);
+  try {
+    const result = await moveMails(records, folder.path);
+    toast.success(`Moved ${records.length} email${records.length !== 1 ? 's' : ''} to ${name}${result === 'queued' ? ' (server update queued)' : ''}`);
+  } catch (error) {
+    console.error('[FolderTree] Move failed:', error);
+    toast.error(`Could not move mail to ${name}`);
+  } finally {
+    window.dispatchEvent(new CustomEvent('inbox:mails-moved', {
+      detail: { accountCode, ids: payload.ids, destination: folder.path },
+    }));
+  }
+};
+
+const FolderItem: React.FC<{
+  node: FolderNode;
+  accountCode: string;
+  depth: number;
+  activePath: string;
+  onNavigate?: () => void;
+}> = ({ node, accountCode, depth, activePath, onNavigate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const to = folderRoute(accountCode, node.path);
+  const isActive = activePath === safeDecode(to);
+  const hasChildren = node.children.length > 0;
+
+  const label = (
+    <>
+      {React.createElement(getFolderIcon(node), { className: 'w-4 h-4 shrink-0' })}
+      <span className="truncate flex-1">{getFolderDisplayName(node.path, node.delimiter)}</span>
+      {node.unread > 0 && (
+        <span className="text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded-full">
+          {node.unread}
+        </span>
+      )}
+    </>
+  );
+
+  return (
+    <div>
+      <div
+        className={`flex items-center rounded-md ${isDropTarget ? 'ring-2 ring-blue-400 dark:ring-blue-500' : ''}`}
+        style={{ paddingLeft: depth * 12 }}
+        onDragOver={node.selectable ? e => {
+          if (!e.dataTransfer.types.includes(MAIL_DRAG_TYPE)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setIsDropTarget(true);
+        } : undefined}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={node.selectable ? e => {
+          setIsDropTarget(false);
+          const raw = e.dataTransfer.getData(MAIL_DRAG_TYPE);
+          if (!raw) return;
+          e.preventDefault();
+          try {
+            handleMailDrop(JSON.parse(raw) as MailDragPayload, accountCode, node);
+          } catch { /* ignore foreign drag data */ }
+        } : undefined}
+      >
+        {hasChildren ? (
+          <button
+            onClick={() => setIsOpen(v => !v)}
+            className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label={isOpen ? 'Collapse folder' : 'Expand folder'}
+          >
+            <ChevronRight className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+          </button>
+        ) : (
+          <span className="w-5 shrink-0" />
+        )}
+        {node.selectable ? (
+          <Link
+            to={to}
+            onClick={onNavigate}
+            className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-md text-sm transition-colors duration-200 ${
+              isActive
+                ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            {label}
+          </Link>
+        ) : (
+          <span className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-sm text-gray-400 dark:text-gray-500">
+            {label}
+          </span>
+        )}
+      </div>
+      {hasChildren && isOpen && (
+        <div>
+          {node.children.map(child => (
+            <FolderItem
+              key={child.path}
+              node={child}
+              accountCode={accountCode}
+              depth={depth + 1}
+              activePath={activePath}
+              onNavigate={onNavigate}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FolderTree: React.FC<FolderTreeProps> = ({ onNavigate }) => {
+  const location = useLocation();
+  const [accounts] = useState<FolderAccount[]>(loadImapAccounts);
+  const [folders, setFolders] = useState<Record<string, MailFolder[]>>(() =>
+    Object.fromEntries(accounts.map(acc => [acc.accountCode, getCachedFolders(acc.accountCode)]))
+  );
+  const [expanded, setExpanded] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(accounts.map((acc, i) => [acc.accountCode, i === 0]))
+  );
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (accounts.length === 0) return;
+    setIsRefreshing(true);
+    try {
+      const entries = await Promise.all(
+        accounts.map(async acc => [acc.accountCode, await fetchFolders(acc.accountCode)] as const)
+      );
+      setFolders(Object.fromEntries(entries));
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [accounts]);
+
+  // Load on mount; refresh unread counts whenever a sync completes
+  useEffect(() => {
+    refresh();
+    window.addEventListener('inbox:sync-complete', refresh);
+    return () => window.removeEventListener('inbox:sync-complete', refresh);
+  }, [refresh]);
+
+  if (accounts.length === 0) return null;
+
+  // Browsers may or may not percent-encode the pathname; compare decoded forms
+  const activePath = safeDecode(location.pathname);
+
+  return (
+    <div className="px-2 pt-2">
+      <div className="flex items-center justify-between px-3 py-1">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          Folders
+        </span>
+        <button
+          onClick={refresh}
+          disabled={isRefreshing}
+          className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-50"
+          aria-label="Refresh folders"
+        >
+          <RefreshCw className={`w-3 h-3 ${isRefreshing ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {accounts.map(acc => {
+        const tree = buildFolderTree(folders[acc.accountCode] || []);
+        const isOpen = expanded[acc.accountCode];
+        return (
+          <div key={acc.id} className="mb-1">
+            <button
+              onClick={() => setExpanded(prev => ({ ...prev, [acc.accountCode]: !prev[acc.accountCode] }))}
+              className="w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <ChevronRight className={`w-3 h-3 shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+              <Mail className="w-4 h-4 shrink-0 text-gray-400" />
+              <span className="truncate">{acc.email}</span>
+            </button>
+            <AnimatePresence initial={false}>
+              {isOpen && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  transition={{ duration: 0.2 }}
+                  className="overflow-hidden pl-2"
+                >
+                  {tree.length === 0 ? (
+                    <p className="px-3 py-1.5 text-xs text-gray-400 dark:text-gray-500">
+                      {isRefreshing ? 'Loading folders…' : 'No folders'}
+                    </p>
+                  ) : (
+                    tree.map(node => (
+                      <FolderItem
+                        key={node.path}
+                        node={node}
+                        accountCode={acc.accountCode}
+                        depth={0}
+                        activePath={activePath}
+                        onNavigate={onNavigate}
+                      />
+                    ))
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FolderTree;
@@ -15,6 +15,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useEmail } from '@/contexts/EmailContext';
 import { 
+  getAccountUnread,
   getNavigationItems, 
   themeOptions, 
   STORAGE_KEYS, 
@@ -22,6 +23,7 @@ import {
   isMobileTabletWidth, 
   isSsrSafe 
 } from '@/lib/navigation';
+import FolderTree from './FolderTree';
 import logoSvg from '@/assets/logo.svg';
 
 interface SidebarItem {
@@ -30,6 +32,7 @@ interface SidebarItem {
   icon: React.ComponentType<{ className?: string }>;
   path: string;
   badge?: number;
+  badgeTitle?: string;
 }
 
 interface SidebarProps {
@@ -130,9 +133,9 @@ const SidebarComponent: React.FC<SidebarProps> = ({
   const navigate = useNavigate();
   const { logout } = useAuth();
   const { theme, setTheme } = useTheme();
-  const { unreadCount, showUnreadBadge } = useEmail();
+  const { unreadCount, unreadByAccount, showUnreadBadge } = useEmail();
   
-  const sidebarItems: SidebarItem[] = getNavigationItems(unreadCount);
+  const sidebarItems: SidebarItem[] = getNavigationItems(unreadCount, getAccountUnread(unreadByAccount));
 
   // Save collapsed state to localStorage (only for internal state)
   useEffect(() => {
@@ -345,6 +348,7 @@ const SidebarComponent: React.FC<SidebarProps> = ({
                 <Link
                   ref={(el) => { navItemRefs.current[item.id] = el; }}
                   to={item.path}
+                  title={!isCollapsed && showUnreadBadge ? item.badgeTitle : undefined}
                   onMouseEnter={isCollapsed ? () => setHoveredTooltip(item.id) : undefined}
                   onMouseLeave={isCollapsed ? () => setHoveredTooltip(null) : undefined}
                   className={`
@@ -382,6 +386,11 @@ const SidebarComponent: React.FC<SidebarProps> = ({
               </div>
             );
           })}
+
+          {/* IMAP folder tree (expanded sidebar only) */}
+          {!isCollapsed && (
+            <FolderTree onNavigate={isMobileTabletWidth() ? toggleSidebar : undefined} />
+          )}
         </nav>
 
         {/* Theme Section */}
@@ -554,6 +563,9 @@ const SidebarComponent: React.FC<SidebarProps> = ({
                 >
                   <div>
                     {item.label}
+                    {item.badgeTitle && showUnreadBadge && (
+                      <div className="text-xs text-gray-300 dark:text-gray-600 mt-1">{item.badgeTitle}</div>
+                    )}
                     {item.id === 'search' && (
                       <div className="text-xs text-gray-300 dark:text-gray-600 mt-1">alt+s</div>
                     )}
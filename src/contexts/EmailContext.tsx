@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
 import { toast } from '@/lib/toast';
 import { AuthContext } from './AuthContext';
 import {
@@ -7,10 +7,11 @@ import {
   updateMailReadStatus,
   updateMailStarredStatus,
   deleteInboxMails,
-  archiveInboxMail,
   cleanupNumericKeyedMails,
+  getInboxMailById,
   type InboxMailRecord,
 } from '@/lib/db';
+import { pushMailFlags, pushMailDeletion, archiveMail, type MailActionResult } from '@/lib/mailActions';
 
 // Email interface used by all UI components
 export interface Email {
@@ -46,11 +47,15 @@ export interface NavigationItem {
   icon: React.ComponentType<{ className?: string }>;
   path: string;
   badge?: number;
+  /** Hover text for the badge, e.g. the unread count per account */
+  badgeTitle?: string;
 }
 
 interface EmailContextType {
   emails: Email[];
   unreadCount: number;
+  /** Unread INBOX mails per account code; unreadCount is their sum */
+  unreadByAccount: Record<string, number>;
   markAsRead: (emailId: string) => void;
   markAsUnread: (emailId: string) => void;
   toggleEmailRead: (emailId: string) => void;
@@ -99,7 +104,7 @@ export function inboxRecordToEmail(record: InboxMailRecord): Email {
     ? record.textBody.substring(0, 150)
     : record.htmlBody
       ? stripHtml(record.htmlBody).substring(0, 150)
-      : '(No content)';
+      : record.snippet || '(No content)';
 
   const date = new Date(record.date);
 
@@ -218,19 +223,33 @@ export const EmailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     return () => window.removeEventListener('storage', handleStorageChange);
   }, []);
 
+  /** Push an already-applied local change to the mail server (queued when offline). */
+  const pushToServer = useCallback(async (action: () => Promise<MailActionResult>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('[EmailContext] Failed to push change to mail server:', err);
+      toast.error('Could not update the mail server. The change was only saved locally.');
+    }
+  }, []);
+
   const markAsRead = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
     await updateMailReadStatus(emailId, true);
     setEmails(prev => prev.map(e => e.id === emailId ? { ...e, isRead: true } : e));
     setUnreadCount(prev => Math.max(0, prev - 1));
-  }, [isAuthenticated]);
+    const record = await getInboxMailById(emailId);
+    if (record) await pushToServer(() => pushMailFlags([record], { isRead: true }));
+  }, [isAuthenticated, pushToServer]);
 
   const markAsUnread = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
     await updateMailReadStatus(emailId, false);
     setEmails(prev => prev.map(e => e.id === emailId ? { ...e, isRead: false } : e));
     setUnreadCount(prev => prev + 1);
-  }, [isAuthenticated]);
+    const record = await getInboxMailById(emailId);
+    if (record) await pushToServer(() => pushMailFlags([record], { isRead: false }));
+  }, [isAuthenticated, pushToServer]);
 
   const toggleEmailRead = useCallback(async (emailId: string) => {
     const email = emails.find(e => e.id === emailId);
@@ -245,30 +264,39 @@ export const EmailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const deleteEmail = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
     const email = emails.find(e => e.id === emailId);
+    const record = await getInboxMailById(emailId);
     await deleteInboxMails([emailId]);
     setEmails(prev => prev.filter(e => e.id !== emailId));
     if (email && !email.isRead) setUnreadCount(prev => Math.max(0, prev - 1));
     toast.success('Email deleted');
-  }, [isAuthenticated, emails]);
+    if (record) await pushToServer(() => pushMailDeletion([record]));
+  }, [isAuthenticated, emails, pushToServer]);
 
   const archiveEmail = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
-    await archiveInboxMail(emailId);
+    const record = await getInboxMailById(emailId);
+    if (!record) return;
     setEmails(prev => prev.filter(e => e.id !== emailId));
     toast.success('Email archived');
-  }, [isAuthenticated]);
+    // Moves to the server's \Archive folder when there is one
+    await pushToServer(() => archiveMail(record));
+  }, [isAuthenticated, pushToServer]);
 
   const starEmail = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
     await updateMailStarredStatus(emailId, true);
     setEmails(prev => prev.map(e => e.id === emailId ? { ...e, isStarred: true, isImportant: true } : e));
-  }, [isAuthenticated]);
+    const record = await getInboxMailById(emailId);
+    if (record) await pushToServer(() => pushMailFlags([record], { isStarred: true }));
+  }, [isAuthenticated, pushToServer]);
 
   const unstarEmail = useCallback(async (emailId: string) => {
     if (!isAuthenticated) return;
     await updateMailStarredStatus(emailId, false);
     setEmails(prev => prev.map(e => e.id === emailId ? { ...e, isStarred: false, isImportant: false } : e));
-  }, [isAuthenticated]);
+    const record = await getInboxMailById(emailId);
+    if (record) await pushToServer(() => pushMailFlags([record], { isStarred: false }));
+  }, [isAuthenticated, pushToServer]);
 
   const toggleEmailStarred = useCallback(async (emailId: string) => {
     const email = emails.find(e => e.id === emailId);
@@ -290,6 +318,16 @@ export const EmailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     });
   }, []);
 
+  const unreadByAccount = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const email of emails) {
+      if (!email.isRead && email.accountId) {
+        counts[email.accountId] = (counts[email.accountId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [emails]);
+
   const refreshEmails = useCallback(async () => {
     if (!isAuthenticated) return;
     setIsLoading(true);
@@ -299,6 +337,7 @@ export const EmailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const contextValue: EmailContextType = {
     emails,
     unreadCount,
+    unreadByAccount,
     markAsRead,
     markAsUnread,
     toggleEmailRead,
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { CONTACTS_UPDATED_EVENT, fetchContacts, getCachedContacts, type Contact } from '@/lib/contacts';
+
+/**
+ * The user's contacts: the cached list right away, refreshed from the server
+ * on mount and whenever the list changes (CONTACTS_UPDATED_EVENT).
+ */
+export function useContacts(): Contact[] {
+  const [contacts, setContacts] = useState<Contact[]>(getCachedContacts);
+
+  useEffect(() => {
+    const handleUpdate = () => setContacts(getCachedContacts());
+    window.addEventListener(CONTACTS_UPDATED_EVENT, handleUpdate);
+    void fetchContacts();
+    return () => window.removeEventListener(CONTACTS_UPDATED_EVENT, handleUpdate);
+  }, []);
+
+  return contacts;
+}
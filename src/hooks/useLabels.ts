@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { LABELS_UPDATED_EVENT, fetchLabels, getCachedLabels, type MailLabel } from '@/lib/labels';
+
+/**
+ * The user's labels: the cached list right away, refreshed from the server
+ * on mount and whenever the list changes (LABELS_UPDATED_EVENT).
+ */
+export function useLabels(): MailLabel[] {
+  const [labels, setLabels] = useState<MailLabel[]>(getCachedLabels);
+
+  useEffect(() => {
+    const handleUpdate = () => setLabels(getCachedLabels());
+    window.addEventListener(LABELS_UPDATED_EVENT, handleUpdate);
+    void fetchLabels();
+    return () => window.removeEventListener(LABELS_UPDATED_EVENT, handleUpdate);
+  }, []);
+
+  return labels;
+}
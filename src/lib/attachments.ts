@@ -0,0 +1,84 @@
+/**
+ * Inbox Attachments for MailVoyage
+ *
+ * Received mail only stores attachment metadata locally; the content is
+ * streamed on demand from GET /api/inbox/:accountCode/:uid/attachments/:index
+ * (the server caches the IMAP part, this module caches the Blob per session).
+ */
+
+import type { InboxMailRecord } from './db';
+
+/** Identity of a received mail on the server */
+export type AttachmentMailRef = Pick<InboxMailRecord, 'accountId' | 'uid' | 'mailbox'>;
+
+// Blobs fetched during this session, keyed by URL
+const blobCache = new Map<string, Promise<Blob>>();
+
+/**
+ * URL of an attachment's content. With `download` the server sends
+ * Content-Disposition: attachment so the browser saves it.
+ */
+export function inboxAttachmentUrl(
+  mail: AttachmentMailRef,
+  index: number,
+  options: { download?: boolean } = {}
+): string {
+  const params = new URLSearchParams({ mailbox: mail.mailbox || 'INBOX' });
+  if (options.download) params.set('download', '1');
+  return `/api/inbox/${encodeURIComponent(mail.accountId)}/${mail.uid}/attachments/${index}?${params}`;
+}
+
+/** Whether attachment content for this mail can be fetched from the server */
+export function canFetchInboxAttachments(mail: AttachmentMailRef): boolean {
+  if (!mail.accountId || mail.uid <= 0 || mail.mailbox === 'ARCHIVE') return false;
+  try {
+    const accounts: Array<{ accountCode: string; incomingType?: string }> =
+      JSON.parse(localStorage.getItem('emailAccounts') || '[]');
+    return accounts.find(a => a.accountCode === mail.accountId)?.incomingType !== 'POP3';
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Fetch an attachment's content as a Blob.
+ * Throws an Error with `.status` for HTTP errors (same shape as apiFetch).
+ */
+export function fetchInboxAttachment(mail: AttachmentMailRef, index: number): Promise<Blob> {
+  const url = inboxAttachmentUrl(mail, index);
+  const cached = blobCache.get(url);
+  if (cached) return cached;
+
+  const request = (async () => {
+    const response = await fetch(url, {
+      credentials: 'include',
+      headers: { 'X-MailVoyage-Client': 'mailvoyage-web' },
+    });
+    if (!response.ok) {
+      let message = `HTTP error! status: ${response.status}`;
+      try {
+        const body = await response.json();
+        if (body?.message) message = body.message;
+      } catch { /* non-JSON error body */ }
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response.blob();
+  })();
+
+  blobCache.set(url, request);
+  request.catch(() => blobCache.delete(url));
+  return request;
+}
+
+/** Base64 (without the data: prefix) for AttachmentViewer */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result || '');
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
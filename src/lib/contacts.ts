@@ -0,0 +1,186 @@
+/**
+ * Contacts for MailVoyage
+ *
+ * Client side of the address book API (/api/contacts) and the ranking behind
+ * recipient autocomplete in Compose.
+ * - The server harvests contacts from sent mail and received senders and
+ *   keeps their counters; the list is cached in localStorage so autocomplete
+ *   works offline, and pages listen for CONTACTS_UPDATED_EVENT
+ * - Suggestions that start with what was typed come first, then the people
+ *   the user mails most often and most recently
+ */
+
+import { apiFetch } from './apiFetch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Contact {
+  id: number;
+  name: string | null;
+  emails: string[];
+  notes: string | null;
+  /** Sent mails that went to the contact (To or Cc) */
+  sentCount: number;
+  /** Cached received mails from the contact */
+  receivedCount: number;
+  lastContactedAt: string | null;
+}
+
+export interface ContactInput {
+  name: string;
+  emails: string[];
+  notes: string;
+}
+
+/** One address of a contact offered while typing a recipient */
+export interface ContactSuggestion {
+  contact: Contact;
+  email: string;
+}
+
+export const CONTACTS_UPDATED_EVENT = 'contacts:updated';
+
+const CONTACT_CACHE_KEY = 'contacts';
+
+// Sending to someone says more about them than receiving from them
+const SENT_WEIGHT = 3;
+
+// Days after which a contact's weight has halved
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * How strongly a contact should be suggested: how often the user exchanged
+ * mail with them, weighed down the longer ago the last mail was.
+ */
+export function contactScore(contact: Contact, now: Date = new Date()): number {
+  const frequency = contact.sentCount * SENT_WEIGHT + contact.receivedCount;
+  if (frequency === 0 || !contact.lastContactedAt) return 0;
+  const ageDays = Math.max(now.getTime() - new Date(contact.lastContactedAt).getTime(), 0) / DAY_MS;
+  return frequency / (1 + ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+// 2: a word of the name or the address starts with the query, 1: contains it, 0: no match
+const matchQuality = (text: string, query: string): number => {
+  const value = text.toLowerCase();
+  if (value.startsWith(query) || value.split(/[\s.@_+-]+/).some(word => word.startsWith(query))) return 2;
+  return value.includes(query) ? 1 : 0;
+};
+
+/**
+ * Suggestions for a partly typed recipient, best first. Addresses already in
+ * the field are left out.
+ */
+export function rankContacts(
+  contacts: Contact[],
+  query: string,
+  exclude: string[] = [],
+  limit = 8,
+  now: Date = new Date()
+): ContactSuggestion[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const excluded = new Set(exclude.map(e => e.trim().toLowerCase()));
+
+  const ranked: Array<ContactSuggestion & { quality: number; score: number }> = [];
+  for (const contact of contacts) {
+    const nameQuality = contact.name ? matchQuality(contact.name, q) : 0;
+    const score = contactScore(contact, now);
+    for (const email of contact.emails) {
+      if (excluded.has(email.toLowerCase())) continue;
+      const quality = Math.max(nameQuality, matchQuality(email, q));
+      if (quality > 0) ranked.push({ contact, email, quality, score });
+    }
+  }
+
+  ranked.sort((a, b) =>
+    b.quality - a.quality
+    || b.score - a.score
+    || (a.contact.name || a.email).localeCompare(b.contact.name || b.email));
+  return ranked.slice(0, limit).map(({ contact, email }) => ({ contact, email }));
+}
+
+/** Addresses in a comma-separated recipient field */
+export function parseRecipients(value: string): string[] {
+  return value.split(',').map(e => e.trim()).filter(Boolean);
+}
+
+/** A contact's display name, falling back to the address */
+export function contactLabel(contact: Contact, email = contact.emails[0]): string {
+  return contact.name || email || '';
+}
+
+// ============================================================================
+// Local cache
+// ============================================================================
+
+export function getCachedContacts(): Contact[] {
+  try {
+    const raw = localStorage.getItem(CONTACT_CACHE_KEY);
+    return raw ? (JSON.parse(raw) as Contact[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setCachedContacts(contacts: Contact[]): void {
+  localStorage.setItem(CONTACT_CACHE_KEY, JSON.stringify(contacts));
+  window.dispatchEvent(new CustomEvent(CONTACTS_UPDATED_EVENT));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch the address book and refresh the local cache.
+ * Falls back to the cached list when the request fails.
+ */
+export async function fetchContacts(): Promise<Contact[]> {
+  try {
+    const response = await apiFetch('/api/contacts');
+    const contacts: Contact[] = response?.data?.contacts || [];
+    setCachedContacts(contacts);
+    return contacts;
+  } catch (error) {
+    console.warn('[Contacts] Failed to load contacts:', error);
+    return getCachedContacts();
+  }
+}
+
+export async function createContact(input: ContactInput): Promise<Contact> {
+  const response = await apiFetch('/api/contacts', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  await fetchContacts();
+  return response.data;
+}
+
+export async function updateContact(id: number, input: ContactInput): Promise<Contact> {
+  const response = await apiFetch(`/api/contacts/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+  await fetchContacts();
+  return response.data;
+}
+
+export async function deleteContact(id: number): Promise<void> {
+  await apiFetch(`/api/contacts/${id}`, { method: 'DELETE' });
+  await fetchContacts();
+}
+
+/** Add contacts from sent and received mail now; returns how many were new */
+export async function harvestContacts(): Promise<number> {
+  const response = await apiFetch('/api/contacts/harvest', { method: 'POST' });
+  await fetchContacts();
+  return response?.data?.created ?? 0;
+}
@@ -0,0 +1,91 @@
+/**
+ * Conversations for MailVoyage
+ *
+ * Client side of GET /api/inbox/thread. The server threads received and sent
+ * mail with the JWZ algorithm (In-Reply-To / References, then subject) and
+ * returns every message of a conversation, oldest first.
+ */
+
+import { apiFetch } from './apiFetch';
+import type { InboxMailRecord } from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors the server's ConversationMessage (api/src/services/thread.service.ts) */
+export interface ConversationMessage {
+  type: 'received' | 'sent';
+  id: string;
+  accountCode: string;
+  mailbox: string | null;
+  uid: number | null;
+  sentThreadId: string | null;
+  messageId: string | null;
+  inReplyTo: string | null;
+  fromAddress: string;
+  fromName: string | null;
+  toAddresses: string[];
+  ccAddresses: string[] | null;
+  subject: string;
+  textBody: string | null;
+  htmlBody: string | null;
+  snippet: string | null;
+  /** False for received mail whose body hasn't been fetched yet (see lib/mailBody) */
+  bodyLoaded: boolean;
+  date: string;
+  isRead: boolean;
+  hasAttachments: boolean;
+  attachmentsMetadata: Array<{ filename: string; contentType: string; size: number }> | null;
+}
+
+export interface Conversation {
+  conversationId: string;
+  messages: ConversationMessage[];
+}
+
+/** The message the conversation is opened from */
+export type ConversationAnchor =
+  | { type: 'received'; mail: Pick<InboxMailRecord, 'accountId' | 'mailbox' | 'uid'> }
+  | { type: 'sent'; threadId: string };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Whether a conversation message is the one the page is showing */
+export function isAnchorMessage(message: ConversationMessage, anchor: ConversationAnchor): boolean {
+  if (anchor.type === 'sent') return message.sentThreadId === anchor.threadId;
+  return message.type === 'received'
+    && message.accountCode === anchor.mail.accountId
+    && message.mailbox === (anchor.mail.mailbox || 'INBOX')
+    && message.uid === anchor.mail.uid;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch the conversation a message belongs to.
+ * Returns null when offline, for local-only mails, or when the server has no thread.
+ */
+export async function fetchConversation(anchor: ConversationAnchor): Promise<Conversation | null> {
+  const params = new URLSearchParams();
+  if (anchor.type === 'sent') {
+    params.set('sentThreadId', anchor.threadId);
+  } else {
+    if (anchor.mail.uid <= 0 || anchor.mail.mailbox === 'ARCHIVE') return null;
+    params.set('accountCode', anchor.mail.accountId);
+    params.set('uid', String(anchor.mail.uid));
+    params.set('mailbox', anchor.mail.mailbox || 'INBOX');
+  }
+
+  try {
+    const response = await apiFetch(`/api/inbox/thread?${params}`);
+    return (response?.data as Conversation) || null;
+  } catch (error) {
+    console.warn('[Conversations] Failed to load conversation:', error);
+    return null;
+  }
+}
@@ -107,6 +107,8 @@ interface ApiInboxMail {
   mailbox?: string;
   message_id?: string;
   messageId?: string;
+  reply_to?: string[] | null;
+  replyTo?: string[] | null;
   from_address?: string;
   fromAddress?: string;
   from_name?: string;
@@ -120,6 +122,9 @@ interface ApiInboxMail {
   htmlBody?: string | null;
   text_body?: string | null;
   textBody?: string | null;
+  snippet?: string | null;
+  body_loaded?: boolean;
+  bodyLoaded?: boolean;
   date?: string;
   is_read?: boolean;
   isRead?: boolean;
@@ -323,6 +328,7 @@ export async function fetchInboxMails(
         messageId: m.message_id || m.messageId,
         fromAddress: m.from_address || m.fromAddress || '',
         fromName: m.from_name || m.fromName || '',
+        replyTo: m.reply_to || m.replyTo || undefined,
         toAddresses: (Array.isArray(m.to_addresses || m.toAddresses)
           ? (m.to_addresses || m.toAddresses)
           : [m.to_addresses || m.toAddresses || '']) as string[],
@@ -333,6 +339,8 @@ export async function fetchInboxMails(
         subject: m.subject || '(No Subject)',
         htmlBody: m.html_body || m.htmlBody || null,
         textBody: m.text_body || m.textBody || null,
+        snippet: m.snippet ?? null,
+        bodyLoaded: m.body_loaded ?? m.bodyLoaded,
         date: m.date || new Date().toISOString(),
         isRead: m.is_read ?? m.isRead ?? false,
         isStarred: m.is_starred ?? m.isStarred ?? false,
@@ -6,6 +6,8 @@
  */
 
 import Dexie, { type Table } from 'dexie';
+import { findMailbox, parseSearchQuery, toMailFilter } from './searchQuery';
+import { applyLabelChange } from './labels';
 
 // ============================================================================
 // Types
@@ -42,12 +44,17 @@ export interface InboxMailRecord {
   messageId?: string;
   fromAddress: string;
   fromName?: string;
+  replyTo?: string[];
   toAddresses: string[];
   ccAddresses?: string[];
   bccAddresses?: string[];
   subject: string;
   htmlBody?: string | null;
   textBody?: string | null;
+  /** Start of the text, for the mail list */
+  snippet?: string | null;
+  /** False while only the headers are synced (see lib/mailBody); missing means loaded */
+  bodyLoaded?: boolean;
   date: string;
   isRead: boolean;
   isStarred: boolean;
@@ -65,6 +72,8 @@ export interface InboxMailRecord {
 export interface DraftRecord {
   id: string;
   fromAccountId: string | null;
+  /** Account code of the sender; the server mirrors drafts of IMAP accounts to their Drafts folder */
+  fromAccountCode?: string | null;
   fromEmail: string | null;
   to: string;
   cc: string;
@@ -83,6 +92,8 @@ export interface DraftRecord {
   charCount: number;
   createdAt: string;
   updatedAt: string;
+  /** `updatedAt` of the version the server has; differs while local edits are unpushed */
+  syncedAt?: string | null;
 }
 
 export interface SyncCheckpoint {
@@ -131,7 +142,7 @@ class MailVoyageDB extends Dexie {
       // Inbox mails - indexed for efficient queries
       inboxMails: 'id, uid, accountId, mailbox, [accountId+mailbox], date, isRead, isStarred, updatedAt',
       
-      // Drafts - local only
+      // Drafts - saved locally first, pushed to /api/drafts (see draftSync.ts)
       drafts: 'id, updatedAt',
       
       // Sync checkpoints - track last sync per table
@@ -303,7 +314,7 @@ export async function getSentMailsPaginated(
 
 /** Fields encrypted at rest in IndexedDB */
 const ENCRYPTED_MAIL_FIELDS: (keyof InboxMailRecord)[] = [
-  'fromAddress', 'fromName', 'subject', 'textBody', 'htmlBody',
+  'fromAddress', 'fromName', 'subject', 'textBody', 'htmlBody', 'snippet',
 ];
 
 /**
@@ -370,19 +381,19 @@ export async function getInboxMails(
 }
 
 /**
- * Get inbox mails for a specific account with pagination (decrypted)
+ * Get inbox mails for a specific account with pagination (decrypted).
+ * A null account merges the mailbox of every account, newest first.
  */
 export async function getInboxMailsPaginated(
-  accountId: string,
+  accountId: string | null,
   page: number = 1,
   limit: number = 20,
   mailbox: string = 'INBOX'
 ): Promise<{ mails: InboxMailRecord[]; total: number; page: number; totalPages: number }> {
-  const allMails = await db.inboxMails
-    .where('[accountId+mailbox]')
-    .equals([accountId, mailbox])
-    .reverse()
-    .sortBy('date');
+  const query = accountId === null
+    ? db.inboxMails.where('mailbox').equals(mailbox)
+    : db.inboxMails.where('[accountId+mailbox]').equals([accountId, mailbox]);
+  const allMails = await query.reverse().sortBy('date');
   
   const total = allMails.length;
   const totalPages = Math.ceil(total / limit);
@@ -395,7 +406,8 @@ export async function getInboxMailsPaginated(
 }
 
 /**
- * Get all inbox mails (decrypted), excluding archived
+ * Get all INBOX mails (decrypted) across accounts.
+ * Other folders (and locally archived mails) are only shown in their folder view.
  */
 export async function getAllInboxMails(): Promise<InboxMailRecord[]> {
   await ensureOpen();
@@ -411,8 +423,8 @@ export async function getAllInboxMails(): Promise<InboxMailRecord[]> {
       .map(m => m.id);
     await db.inboxMails.bulkDelete(staleKeys);
   }
-  // Filter out archived mails from the main inbox view
-  return valid.filter(m => m.mailbox !== 'ARCHIVE');
+  // Only INBOX mails belong in the main inbox view
+  return valid.filter(m => m.mailbox === 'INBOX');
 }
 
 /**
@@ -451,6 +463,16 @@ export async function updateMailStarredStatus(id: string, isStarred: boolean): P
   });
 }
 
+/**
+ * Add and remove labels on inbox mails (labels are not encrypted)
+ */
+export async function updateMailLabels(ids: string[], add: string[], remove: string[]): Promise<void> {
+  await db.inboxMails.where('id').anyOf(ids).modify(mail => {
+    mail.labels = applyLabelChange(mail.labels, add, remove);
+    mail.updatedAt = new Date().toISOString();
+  });
+}
+
 /**
  * Delete inbox mails by IDs
  */
@@ -464,12 +486,13 @@ export async function deleteInboxMails(ids: string[]): Promise<void> {
  */
 export async function getExistingMailIds(
   accountId: string,
-  uids: number[]
+  uids: number[],
+  mailbox: string = 'INBOX'
 ): Promise<Map<number, string>> {
   await ensureOpen();
   const existing = await db.inboxMails
-    .where('accountId')
-    .equals(accountId)
+    .where('[accountId+mailbox]')
+    .equals([accountId, mailbox])
     .toArray();
   const map = new Map<number, string>();
   for (const m of existing) {
@@ -481,18 +504,18 @@ export async function getExistingMailIds(
 }
 
 /**
- * Get unread count (reads flags only, no decryption needed)
+ * Get unread count for a mailbox (reads flags only, no decryption needed)
  */
-export async function getUnreadCount(accountId?: string): Promise<number> {
+export async function getUnreadCount(accountId?: string, mailbox: string = 'INBOX'): Promise<number> {
   await ensureOpen();
   if (accountId) {
     return db.inboxMails
-      .where('accountId')
-      .equals(accountId)
+      .where('[accountId+mailbox]')
+      .equals([accountId, mailbox])
       .and(mail => !mail.isRead)
       .count();
   }
-  return db.inboxMails.filter(mail => !mail.isRead).count();
+  return db.inboxMails.where('mailbox').equals(mailbox).and(mail => !mail.isRead).count();
 }
 
 /**
@@ -510,13 +533,21 @@ export async function getInboxCount(accountId?: string): Promise<number> {
  */
 export async function searchInboxMails(
   query: string,
-  accountId?: string
+  accountId?: string,
+  mailbox?: string
 ): Promise<InboxMailRecord[]> {
-  const lowerQuery = query.toLowerCase();
+  // Search operators (from:, is:unread, OR, ...), see searchQuery.ts
+  const parsed = parseSearchQuery(query);
+  // An in: operator replaces the mailbox being viewed
+  const scopeMailbox = findMailbox(parsed) ? undefined : mailbox;
   let mails: InboxMailRecord[];
 
-  if (accountId) {
+  if (accountId && scopeMailbox) {
+    mails = await db.inboxMails.where('[accountId+mailbox]').equals([accountId, scopeMailbox]).toArray();
+  } else if (accountId) {
     mails = await db.inboxMails.where('accountId').equals(accountId).toArray();
+  } else if (scopeMailbox) {
+    mails = await db.inboxMails.where('mailbox').equals(scopeMailbox).toArray();
   } else {
     mails = await db.inboxMails.toArray();
   }
@@ -525,15 +556,9 @@ export async function searchInboxMails(
   const decrypted = await Promise.all(mails.map(decryptInboxMail));
   const valid = decrypted.filter((m): m is InboxMailRecord => m !== null);
 
-  return valid.filter(mail => {
-    return (
-      mail.subject.toLowerCase().includes(lowerQuery) ||
-      mail.fromAddress.toLowerCase().includes(lowerQuery) ||
-      (mail.fromName && mail.fromName.toLowerCase().includes(lowerQuery)) ||
-      mail.toAddresses.some(addr => addr.toLowerCase().includes(lowerQuery)) ||
-      (mail.textBody && mail.textBody.toLowerCase().includes(lowerQuery))
-    );
-  }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  return valid
+    .filter(toMailFilter(parsed))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 }
 
 /**
@@ -553,13 +578,38 @@ export async function getHighestUid(accountId: string, mailbox: string = 'INBOX'
 }
 
 /**
- * Clear inbox mails for a specific account
+ * Drop mails the server cache no longer has (expunged or moved away on the
+ * mail server). Only mails inside the server's window — dated at or after its
+ * oldest mail — are compared, since older ones are simply not listed.
+ */
+export async function removeInboxMailsMissingOnServer(
+  accountId: string,
+  serverMails: Array<{ uid: number; date: string }>,
+  mailbox: string = 'INBOX'
+): Promise<number> {
+  if (serverMails.length === 0) return 0;
+
+  const serverUids = new Set(serverMails.map(m => m.uid));
+  const oldest = Math.min(...serverMails.map(m => new Date(m.date).getTime()));
+  const mails = await db.inboxMails
+    .where('[accountId+mailbox]')
+    .equals([accountId, mailbox])
+    .toArray();
+
+  const toDelete = mails
+    .filter(m => !serverUids.has(m.uid) && new Date(m.date).getTime() >= oldest)
+    .map(m => m.id);
+  await db.inboxMails.bulkDelete(toDelete);
+  return toDelete.length;
+}
+
+/**
+ * Clear inbox mails for a specific account (optionally only one mailbox)
  */
-export async function clearAccountInbox(accountId: string): Promise<void> {
-  const ids = await db.inboxMails
-    .where('accountId')
-    .equals(accountId)
-    .primaryKeys();
+export async function clearAccountInbox(accountId: string, mailbox?: string): Promise<void> {
+  const ids = mailbox
+    ? await db.inboxMails.where('[accountId+mailbox]').equals([accountId, mailbox]).primaryKeys()
+    : await db.inboxMails.where('accountId').equals(accountId).primaryKeys();
   await db.inboxMails.bulkDelete(ids as string[]);
 }
 
@@ -581,17 +631,38 @@ export async function archiveInboxMail(id: string): Promise<void> {
 }
 
 /**
- * Trim inbox mails to keep only the latest N per account (for cache limit enforcement).
+ * Move mails to another mailbox locally.
+ * `newUids` maps record id → UID in the destination (from the server's COPYUID).
  */
-export async function trimInboxToLimit(accountId: string, limit: number): Promise<number> {
+export async function moveInboxMails(
+  ids: string[],
+  mailbox: string,
+  newUids: Record<string, number> = {}
+): Promise<void> {
+  const now = new Date().toISOString();
+  await db.transaction('rw', db.inboxMails, async () => {
+    for (const id of ids) {
+      await db.inboxMails.update(id, {
+        mailbox,
+        ...(newUids[id] !== undefined ? { uid: newUids[id] } : {}),
+        updatedAt: now,
+      });
+    }
+  });
+}
+
+/**
+ * Trim mails to keep only the latest N per account + mailbox (for cache limit enforcement).
+ */
+export async function trimInboxToLimit(accountId: string, limit: number, mailbox: string = 'INBOX'): Promise<number> {
   // Guard: Dexie .equals() requires a valid key (string/number/Date/Array)
   if (!accountId || typeof accountId !== 'string') {
     console.warn('[DB] trimInboxToLimit called with invalid accountId:', accountId);
     return 0;
   }
   const mails = await db.inboxMails
-    .where('accountId')
-    .equals(accountId)
+    .where('[accountId+mailbox]')
+    .equals([accountId, mailbox])
     .reverse()
     .sortBy('date');
 
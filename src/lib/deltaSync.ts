@@ -14,6 +14,7 @@ import {
   updateSyncCheckpoint,
   upsertSentMails,
   upsertInboxMails,
+  removeInboxMailsMissingOnServer,
   trimInboxToLimit,
   getAllSentMails,
   getAllInboxMails,
@@ -24,6 +25,7 @@ import {
   type InboxMailRecord
 } from './db';
 import { wsClient, type SyncSignal, type ConnectionStatus } from './websocket';
+import { syncDrafts } from './draftSync';
 
 // ============================================================================
 // Types
@@ -47,7 +49,7 @@ export interface SyncState {
 }
 
 type SyncStateListener = (state: SyncState) => void;
-type SyncTable = 'sent_mails' | 'inbox_mails' | 'email_accounts' | 'smtp_accounts';
+type SyncTable = 'sent_mails' | 'inbox_mails' | 'email_accounts' | 'smtp_accounts' | 'drafts';
 type TokenRefreshCallback = () => Promise<string | null>;
 
 /** Shape of a raw sent mail from the API */
@@ -79,6 +81,8 @@ interface ApiInboxMail {
   mailbox?: string;
   message_id?: string;
   messageId?: string;
+  reply_to?: string[] | null;
+  replyTo?: string[] | null;
   from_address?: string;
   fromAddress?: string;
   from_name?: string;
@@ -92,6 +96,9 @@ interface ApiInboxMail {
   htmlBody?: string | null;
   text_body?: string | null;
   textBody?: string | null;
+  snippet?: string | null;
+  body_loaded?: boolean;
+  bodyLoaded?: boolean;
   date?: string;
   is_read?: boolean;
   isRead?: boolean;
@@ -327,7 +334,7 @@ class DeltaSyncManager {
     
     this.lastManualSyncTime = now;
     console.info('[DeltaSync] Manual sync triggered');
-    return executeDeltaSync(['sent_mails', 'inbox_mails']);
+    return executeDeltaSync(['sent_mails', 'inbox_mails', 'drafts']);
   }
 
   /**
@@ -361,7 +368,7 @@ class DeltaSyncManager {
     console.info('[DeltaSync] Full sync triggered');
     // Clear checkpoints to force full sync
     await db.syncCheckpoints.clear();
-    return executeDeltaSync(['sent_mails', 'inbox_mails']);
+    return executeDeltaSync(['sent_mails', 'inbox_mails', 'drafts']);
   }
 
   /**
@@ -627,6 +634,14 @@ async function executeDeltaSync(
           break;
         }
 
+        case 'drafts': {
+          // Own checkpoint: a signal's `since` is the change itself, not a lower bound
+          const draftsResult = await syncDrafts();
+          result.updated += draftsResult.updated;
+          result.deleted += draftsResult.deleted;
+          break;
+        }
+
         case 'email_accounts':
         case 'smtp_accounts':
           // These are stored in localStorage, handled by existing dataSync
@@ -741,6 +756,7 @@ async function syncInboxMails(_since?: string): Promise<{ updated: number; delet
 
     const accounts: Array<{ accountCode: string }> = JSON.parse(emailAccountsStr);
     let totalUpdated = 0;
+    let totalDeleted = 0;
 
     for (const acc of accounts) {
       try {
@@ -760,12 +776,15 @@ async function syncInboxMails(_since?: string): Promise<{ updated: number; delet
             messageId: m.message_id || m.messageId,
             fromAddress: m.from_address || m.fromAddress || '',
             fromName: m.from_name || m.fromName || '',
+            replyTo: m.reply_to || m.replyTo || undefined,
             toAddresses: (Array.isArray(m.to_addresses || m.toAddresses) ? (m.to_addresses || m.toAddresses) : []) as string[],
             ccAddresses: (Array.isArray(m.cc_addresses || m.ccAddresses) ? (m.cc_addresses || m.ccAddresses) : []) as string[],
             bccAddresses: [],
             subject: m.subject || '(No Subject)',
             htmlBody: m.html_body || m.htmlBody || null,
             textBody: m.text_body || m.textBody || null,
+            snippet: m.snippet ?? null,
+            bodyLoaded: m.body_loaded ?? m.bodyLoaded,
             date: m.date || new Date().toISOString(),
             isRead: m.is_read ?? m.isRead ?? false,
             isStarred: m.is_starred ?? m.isStarred ?? false,
@@ -780,6 +799,9 @@ async function syncInboxMails(_since?: string): Promise<{ updated: number; delet
           await upsertInboxMails(mails);
           totalUpdated += mails.length;
 
+          // Mails expunged on the server have left its cache
+          totalDeleted += await removeInboxMailsMissingOnServer(acc.accountCode, mails);
+
           // Enforce local cache limit
           const cacheLimit = parseInt(localStorage.getItem('inbox_cache_limit') || '15', 10);
           await trimInboxToLimit(acc.accountCode, cacheLimit);
@@ -793,7 +815,7 @@ async function syncInboxMails(_since?: string): Promise<{ updated: number; delet
       await updateSyncCheckpoint('inbox_mails', new Date().toISOString());
     }
 
-    return { updated: totalUpdated, deleted: 0 };
+    return { updated: totalUpdated, deleted: totalDeleted };
   } catch (error) {
     console.error('[DeltaSync] Failed to sync inbox mails:', error);
     throw error;
@@ -0,0 +1,238 @@
+/**
+ * Draft Sync for MailVoyage
+ *
+ * Drafts are written to IndexedDB first and pushed to /api/drafts, which keeps
+ * them per user and mirrors them to the account's IMAP Drafts folder.
+ * - `syncedAt` marks the version the server has; unpushed edits are retried on the next sync
+ * - Deletes made offline wait in the pendingSync queue
+ * - Pulls use the `drafts` checkpoint and apply server tombstones
+ */
+
+import { apiFetch } from './apiFetch';
+import {
+  db,
+  addToPendingSync,
+  getLastSyncTimestamp,
+  getPendingSync,
+  removePendingSync,
+  updateSyncCheckpoint,
+  type DraftRecord,
+} from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors the server's Draft (api/src/services/draft.service.ts) */
+export interface ApiDraft {
+  id: string;
+  accountCode: string | null;
+  fromEmail: string | null;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+  attachments: DraftRecord['attachments'];
+  charCount: number;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+/** Window event fired when drafts changed through sync */
+export const DRAFTS_UPDATED_EVENT = 'drafts:updated';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const isUnsynced = (draft: DraftRecord): boolean => draft.syncedAt !== draft.updatedAt;
+
+const errorStatus = (error: unknown): number | undefined => (error as { status?: number })?.status;
+
+/** Account code for legacy drafts that only stored the account id */
+function resolveAccountCode(draft: DraftRecord): string | null {
+  if (draft.fromAccountCode !== undefined) return draft.fromAccountCode;
+  if (!draft.fromAccountId) return null;
+  try {
+    const accounts: Array<{ id: string | number; accountCode: string }> =
+      JSON.parse(localStorage.getItem('emailAccounts') || '[]');
+    return accounts.find(acc => String(acc.id) === draft.fromAccountId)?.accountCode ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Local account id for a server draft, so Compose can preselect the sender */
+function resolveAccountId(accountCode: string | null): string | null {
+  if (!accountCode) return null;
+  for (const key of ['emailAccounts', 'smtpAccounts']) {
+    try {
+      const accounts: Array<{ id: string | number; accountCode: string }> = JSON.parse(localStorage.getItem(key) || '[]');
+      const match = accounts.find(acc => acc.accountCode === accountCode);
+      if (match) return String(match.id);
+    } catch {
+      // Ignore malformed cache entries
+    }
+  }
+  return null;
+}
+
+const toDraftRecord = (serverDraft: ApiDraft): DraftRecord => ({
+  id: serverDraft.id,
+  fromAccountId: resolveAccountId(serverDraft.accountCode),
+  fromAccountCode: serverDraft.accountCode,
+  fromEmail: serverDraft.fromEmail,
+  to: serverDraft.to,
+  cc: serverDraft.cc,
+  bcc: serverDraft.bcc,
+  subject: serverDraft.subject,
+  htmlContent: serverDraft.htmlContent,
+  textContent: serverDraft.textContent,
+  attachments: serverDraft.attachments,
+  charCount: serverDraft.charCount,
+  createdAt: serverDraft.createdAt,
+  updatedAt: serverDraft.updatedAt,
+  syncedAt: serverDraft.updatedAt,
+});
+
+const notifyDraftsUpdated = (): void => {
+  window.dispatchEvent(new CustomEvent(DRAFTS_UPDATED_EVENT));
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Push a saved draft to the server.
+ * Returns false when it couldn't be pushed (offline); the next sync retries it.
+ */
+export async function pushDraft(draft: DraftRecord): Promise<boolean> {
+  try {
+    await apiFetch(`/api/drafts/${encodeURIComponent(draft.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        accountCode: resolveAccountCode(draft),
+        fromEmail: draft.fromEmail,
+        to: draft.to,
+        cc: draft.cc,
+        bcc: draft.bcc,
+        subject: draft.subject,
+        htmlContent: draft.htmlContent,
+        textContent: draft.textContent,
+        attachments: draft.attachments,
+        charCount: draft.charCount,
+        createdAt: draft.createdAt,
+      }),
+    });
+
+    // Don't mark newer local edits as synced
+    await db.drafts.where('id').equals(draft.id).modify(record => {
+      if (record.updatedAt === draft.updatedAt) record.syncedAt = draft.updatedAt;
+    });
+    return true;
+  } catch (error) {
+    if (errorStatus(error) === 410) {
+      // Deleted on another device
+      await db.drafts.delete(draft.id);
+      notifyDraftsUpdated();
+      return true;
+    }
+    console.warn(`[DraftSync] Failed to push draft ${draft.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Store a draft the server created (e.g. an undone send) without waiting for sync.
+ */
+export async function storeServerDraft(serverDraft: ApiDraft): Promise<DraftRecord> {
+  const record = toDraftRecord(serverDraft);
+  await db.drafts.put(record);
+  notifyDraftsUpdated();
+  return record;
+}
+
+/**
+ * Delete drafts locally and on the server (queued while offline).
+ */
+export async function removeDrafts(ids: string[]): Promise<void> {
+  await db.drafts.bulkDelete(ids);
+
+  for (const id of ids) {
+    try {
+      await apiFetch(`/api/drafts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    } catch (error) {
+      if (errorStatus(error) !== 404) {
+        console.warn(`[DraftSync] Draft ${id} delete queued:`, error);
+        await addToPendingSync('delete', 'drafts', id);
+      }
+    }
+  }
+}
+
+/**
+ * Two-way draft sync: flush queued deletes and unpushed edits, then pull
+ * server changes since the `drafts` checkpoint.
+ */
+export async function syncDrafts(): Promise<{ updated: number; deleted: number }> {
+  // 1. Deletes made while offline
+  const pending = (await getPendingSync()).filter(op => op.table === 'drafts' && op.type === 'delete');
+  for (const op of pending) {
+    try {
+      await apiFetch(`/api/drafts/${encodeURIComponent(op.recordId)}`, { method: 'DELETE' });
+      await removePendingSync(op.id);
+    } catch (error) {
+      if (errorStatus(error) === 404) {
+        await removePendingSync(op.id);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // 2. Local edits the server hasn't seen
+  const unsynced = await db.drafts.filter(isUnsynced).toArray();
+  for (const draft of unsynced) {
+    await pushDraft(draft);
+  }
+
+  // 3. Server changes
+  const checkpoint = await getLastSyncTimestamp('drafts');
+  const url = checkpoint ? `/api/drafts?since=${encodeURIComponent(checkpoint)}` : '/api/drafts';
+  const response = await apiFetch(url);
+  const serverDrafts = ((response?.data as { drafts?: ApiDraft[] } | undefined)?.drafts || []);
+
+  let updated = 0;
+  let deleted = 0;
+  for (const serverDraft of serverDrafts) {
+    if (serverDraft.deletedAt) {
+      if (await db.drafts.get(serverDraft.id)) {
+        await db.drafts.delete(serverDraft.id);
+        deleted++;
+      }
+      continue;
+    }
+
+    // Local edits win until they're pushed
+    const local = await db.drafts.get(serverDraft.id);
+    if (local && isUnsynced(local)) continue;
+
+    await db.drafts.put(toDraftRecord(serverDraft));
+    updated++;
+  }
+
+  if (serverDrafts.length > 0) {
+    const latest = serverDrafts.reduce(
+      (max, d) => (d.updatedAt > max ? d.updatedAt : max),
+      checkpoint || ''
+    );
+    await updateSyncCheckpoint('drafts', latest);
+  }
+
+  if (updated > 0 || deleted > 0) notifyDraftsUpdated();
+  return { updated, deleted };
+}
@@ -0,0 +1,178 @@
+/**
+ * Mail Folders for MailVoyage
+ *
+ * Client side of the IMAP folder API (/api/mail/folders).
+ * - Folder lists are cached per account in localStorage so the tree renders offline
+ * - Folders are browsed through the /folder/:accountCode/:mailbox route,
+ *   which reuses the InboxPage list with a different mailbox
+ */
+
+import {
+  Archive,
+  FileText,
+  Folder,
+  Inbox,
+  Send,
+  ShieldAlert,
+  Star,
+  Trash2,
+  type LucideIcon,
+} from 'lucide-react';
+import { apiFetch } from './apiFetch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SpecialUse =
+  | '\\Inbox'
+  | '\\Sent'
+  | '\\Drafts'
+  | '\\Trash'
+  | '\\Junk'
+  | '\\Archive'
+  | '\\All'
+  | '\\Flagged';
+
+/** Mirrors the server's MailFolder (api/src/services/mail.service.ts) */
+export interface MailFolder {
+  path: string;
+  name: string;
+  delimiter: string;
+  parentPath: string | null;
+  specialUse: SpecialUse | null;
+  flags: string[];
+  subscribed: boolean;
+  selectable: boolean;
+  total: number;
+  unread: number;
+}
+
+export interface FolderNode extends MailFolder {
+  children: FolderNode[];
+}
+
+/** Mails being dragged from the inbox list onto a folder */
+export interface MailDragPayload {
+  accountCode: string;
+  ids: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FOLDER_CACHE_PREFIX = 'mail_folders:';
+
+/** DataTransfer type used when dragging mails from the list onto a folder */
+export const MAIL_DRAG_TYPE = 'application/x-mailvoyage-mails';
+
+// Special-use folders first, in the order most clients show them
+const SPECIAL_USE_ORDER: SpecialUse[] = [
+  '\\Inbox', '\\Drafts', '\\Sent', '\\Archive', '\\Flagged', '\\All', '\\Junk', '\\Trash',
+];
+
+const SPECIAL_USE_ICONS: Record<SpecialUse, LucideIcon> = {
+  '\\Inbox': Inbox,
+  '\\Sent': Send,
+  '\\Drafts': FileText,
+  '\\Trash': Trash2,
+  '\\Junk': ShieldAlert,
+  '\\Archive': Archive,
+  '\\All': Archive,
+  '\\Flagged': Star,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isInboxPath(path: string): boolean {
+  return path.toUpperCase() === 'INBOX';
+}
+
+/** Route for browsing a folder; INBOX of any account lives at /folder/<code>/INBOX */
+export function folderRoute(accountCode: string, path: string): string {
+  return `/folder/${encodeURIComponent(accountCode)}/${encodeURIComponent(path)}`;
+}
+
+export function getFolderIcon(folder: Pick<MailFolder, 'path' | 'specialUse'>): LucideIcon {
+  if (isInboxPath(folder.path)) return Inbox;
+  return folder.specialUse ? SPECIAL_USE_ICONS[folder.specialUse] : Folder;
+}
+
+/** Human-readable name for a mailbox path (last path segment) */
+export function getFolderDisplayName(path: string, delimiter: string = '/'): string {
+  if (isInboxPath(path)) return 'Inbox';
+  const parts = delimiter ? path.split(delimiter) : [path];
+  return parts[parts.length - 1] || path;
+}
+
+function sortRank(folder: MailFolder): number {
+  if (isInboxPath(folder.path)) return 0;
+  const index = folder.specialUse ? SPECIAL_USE_ORDER.indexOf(folder.specialUse) : -1;
+  return index >= 0 ? index + 1 : SPECIAL_USE_ORDER.length + 1;
+}
+
+/**
+ * Build a nested tree from the flat folder list returned by the server.
+ * Folders whose parent is missing from the list are attached at the root.
+ */
+export function buildFolderTree(folders: MailFolder[]): FolderNode[] {
+  const nodes = new Map<string, FolderNode>();
+  for (const folder of folders) {
+    nodes.set(folder.path, { ...folder, children: [] });
+  }
+
+  const roots: FolderNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentPath ? nodes.get(node.parentPath) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sortNodes = (list: FolderNode[]) => {
+    list.sort((a, b) => sortRank(a) - sortRank(b) || a.name.localeCompare(b.name));
+    list.forEach(n => sortNodes(n.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+// ============================================================================
+// Local cache
+// ============================================================================
+
+export function getCachedFolders(accountCode: string): MailFolder[] {
+  try {
+    const raw = localStorage.getItem(FOLDER_CACHE_PREFIX + accountCode);
+    return raw ? (JSON.parse(raw) as MailFolder[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setCachedFolders(accountCode: string, folders: MailFolder[]): void {
+  localStorage.setItem(FOLDER_CACHE_PREFIX + accountCode, JSON.stringify(folders));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch the folder list for an IMAP account and refresh the local cache.
+ * Falls back to the cached list when the request fails.
+ */
+export async function fetchFolders(accountCode: string): Promise<MailFolder[]> {
+  try {
+    const response = await apiFetch(`/api/mail/folders?accountCode=${encodeURIComponent(accountCode)}`);
+    const folders: MailFolder[] = response?.data?.folders || [];
+    setCachedFolders(accountCode, folders);
+    return folders;
+  } catch (error) {
+    console.warn(`[Folders] Failed to load folders for ${accountCode}:`, error);
+    return getCachedFolders(accountCode);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Mail Labels for MailVoyage
+ *
+ * Client side of the label API (/api/labels). A label is an IMAP keyword on
+ * the message; the label list only adds a colour per name.
+ * - The list is cached in localStorage so chips render offline; pages listen
+ *   for LABELS_UPDATED_EVENT to pick up changes
+ * - Keywords on mail without a label entry show as gray chips
+ * - Putting labels on mail goes through pushMailFlags (mailActions)
+ */
+
+import { apiFetch } from './apiFetch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors LABEL_COLORS in api/src/utils/validationSchemas.ts */
+export const LABEL_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'violet', 'pink'] as const;
+
+export type LabelColor = typeof LABEL_COLORS[number];
+
+export interface MailLabel {
+  id: number;
+  name: string;
+  color: LabelColor;
+}
+
+export interface LabelColorClasses {
+  /** Colour swatch in pickers and menus */
+  dot: string;
+  /** Chip on mail rows and in the mail view */
+  chip: string;
+}
+
+const COLOR_CLASSES: Record<LabelColor, LabelColorClasses> = {
+  gray: { dot: 'bg-gray-400', chip: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  red: { dot: 'bg-red-500', chip: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' },
+  orange: { dot: 'bg-orange-500', chip: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300' },
+  amber: { dot: 'bg-amber-500', chip: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' },
+  green: { dot: 'bg-green-500', chip: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300' },
+  teal: { dot: 'bg-teal-500', chip: 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300' },
+  blue: { dot: 'bg-blue-500', chip: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' },
+  violet: { dot: 'bg-violet-500', chip: 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300' },
+  pink: { dot: 'bg-pink-500', chip: 'bg-pink-100 text-pink-700 dark:bg-pink-900/40 dark:text-pink-300' },
+};
+
+export const LABELS_UPDATED_EVENT = 'labels:updated';
+
+const LABEL_CACHE_KEY = 'mail_labels';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function getColorClasses(color: LabelColor): LabelColorClasses {
+  return COLOR_CLASSES[color] ?? COLOR_CLASSES.gray;
+}
+
+/**
+ * Colour classes for a keyword on a mail. IMAP keywords ignore case.
+ */
+export function getLabelColor(name: string, labels: MailLabel[]): LabelColorClasses {
+  const label = labels.find(l => l.name.toLowerCase() === name.toLowerCase());
+  return getColorClasses(label?.color ?? 'gray');
+}
+
+/**
+ * A mail's labels after adding and removing some, without duplicates.
+ */
+export function applyLabelChange(current: string[] | undefined, add: string[], remove: string[]): string[] {
+  const removed = new Set(remove.map(l => l.toLowerCase()));
+  const result: string[] = [];
+  for (const label of [...(current ?? []), ...add]) {
+    const key = label.toLowerCase();
+    if (!removed.has(key) && !result.some(l => l.toLowerCase() === key)) result.push(label);
+  }
+  return result;
+}
+
+// Keywords mail clients and servers set for spam filtering, not the user
+const JUNK_KEYWORDS = new Set(['junk', 'nonjunk', 'notjunk']);
+
+/**
+ * A mail's user labels, without the bookkeeping keywords other clients and
+ * servers set ($Forwarded, $MDNSent, Junk, ...). Mirrors isLabelKeyword in
+ * api/src/utils/mailboxSync.ts, for mail cached before the API filtered them.
+ */
+export function userLabels(labels: string[] | null | undefined): string[] {
+  return (labels ?? []).filter(l => !l.startsWith('$') && !l.startsWith('\\') && !JUNK_KEYWORDS.has(l.toLowerCase()));
+}
+
+/** Whether the mail carries the label */
+export function hasLabel(labels: string[] | undefined, name: string): boolean {
+  return (labels ?? []).some(l => l.toLowerCase() === name.toLowerCase());
+}
+
+// ============================================================================
+// Local cache
+// ============================================================================
+
+export function getCachedLabels(): MailLabel[] {
+  try {
+    const raw = localStorage.getItem(LABEL_CACHE_KEY);
+    return raw ? (JSON.parse(raw) as MailLabel[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setCachedLabels(labels: MailLabel[]): void {
+  localStorage.setItem(LABEL_CACHE_KEY, JSON.stringify(labels));
+  window.dispatchEvent(new CustomEvent(LABELS_UPDATED_EVENT));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch the label list and refresh the local cache.
+ * Falls back to the cached list when the request fails.
+ */
+export async function fetchLabels(): Promise<MailLabel[]> {
+  try {
+    const response = await apiFetch('/api/labels');
+    const labels: MailLabel[] = response?.data?.labels || [];
+    setCachedLabels(labels);
+    return labels;
+  } catch (error) {
+    console.warn('[Labels] Failed to load labels:', error);
+    return getCachedLabels();
+  }
+}
+
+export async function createLabel(name: string, color: LabelColor): Promise<MailLabel> {
+  const response = await apiFetch('/api/labels', {
+    method: 'POST',
+    body: JSON.stringify({ name, color }),
+  });
+  await fetchLabels();
+  return response.data;
+}
+
+/** Rename or recolour; the server rewrites a renamed label on cached mail */
+export async function updateLabel(id: number, name: string, color: LabelColor): Promise<MailLabel> {
+  const response = await apiFetch(`/api/labels/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ name, color }),
+  });
+  await fetchLabels();
+  return response.data;
+}
+
+export async function deleteLabel(id: number): Promise<void> {
+  await apiFetch(`/api/labels/${id}`, { method: 'DELETE' });
+  await fetchLabels();
+}
@@ -0,0 +1,242 @@
+/**
+ * Mail Actions for MailVoyage
+ *
+ * Pushes local inbox changes (read, starred, labels, deleted, moved) back to the mail server.
+ * - Dexie is updated first by the caller; these helpers only talk to the API.
+ *   Moves are the exception: the destination UID is only known once the
+ *   server answers, so moveMails updates Dexie itself
+ * - When offline (or the request never reaches the server) the call is queued
+ *   in the offline queue and replayed when the connection returns
+ */
+
+import { apiFetch } from './apiFetch';
+import { addToOfflineQueue } from './serviceWorker';
+import { archiveInboxMail, deleteInboxMails, moveInboxMails, type InboxMailRecord } from './db';
+import { getCachedFolders } from './folders';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimal identity of a mail on the server */
+export type MailRef = Pick<InboxMailRecord, 'accountId' | 'uid' | 'mailbox'>;
+
+export interface MailFlagChanges {
+  isRead?: boolean;
+  isStarred?: boolean;
+  /** Stored on the server as IMAP keywords */
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+/**
+ * - synced: the server accepted the change
+ * - queued: offline, the change will be replayed later
+ * - local:  nothing to push (mail only exists locally)
+ */
+export type MailActionResult = 'synced' | 'queued' | 'local';
+
+// Mailboxes that only exist in IndexedDB and have no server counterpart
+const LOCAL_ONLY_MAILBOXES = new Set(['ARCHIVE']);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isServerMail(mail: MailRef): boolean {
+  return Boolean(mail.accountId) && mail.uid > 0 && !LOCAL_ONLY_MAILBOXES.has(mail.mailbox);
+}
+
+interface MailGroup<T extends MailRef> {
+  accountId: string;
+  mailbox: string;
+  uids: number[];
+  mails: T[];
+}
+
+/** Group mails by account + mailbox so each group can share one request */
+function groupByMailbox<T extends MailRef>(mails: T[]): Array<MailGroup<T>> {
+  const groups = new Map<string, MailGroup<T>>();
+  for (const mail of mails.filter(isServerMail)) {
+    const key = `${mail.accountId}\u0000${mail.mailbox}`;
+    const group = groups.get(key) ?? { accountId: mail.accountId, mailbox: mail.mailbox, uids: [], mails: [] };
+    group.uids.push(mail.uid);
+    group.mails.push(mail);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+type SendOutcome =
+  | { status: 'synced'; response: { data?: unknown } | undefined }
+  | { status: 'queued' };
+
+/**
+ * Send a request, or queue it when the network is unavailable.
+ * HTTP errors from the server are re-thrown — replaying them would fail again.
+ */
+async function sendOrQueue(
+  url: string,
+  method: string,
+  body: unknown,
+  description: string
+): Promise<SendOutcome> {
+  const payload = body === undefined ? '' : JSON.stringify(body);
+
+  const queue = () => {
+    addToOfflineQueue({
+      url,
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-MailVoyage-Client': 'mailvoyage-web',
+      },
+      body: payload,
+      description,
+    });
+    return { status: 'queued' } as const;
+  };
+
+  if (!navigator.onLine) return queue();
+
+  try {
+    const response = await apiFetch(url, { method, body: payload || undefined });
+    return { status: 'synced', response };
+  } catch (error) {
+    // Errors without a status never reached the server (network failure)
+    if (error instanceof Error && !('status' in error)) return queue();
+    throw error;
+  }
+}
+
+function combine(results: MailActionResult[]): MailActionResult {
+  if (results.includes('queued')) return 'queued';
+  if (results.includes('synced')) return 'synced';
+  return 'local';
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Write read/starred state and labels for one or more mails back to the server
+ * (one request per account + mailbox).
+ */
+export async function pushMailFlags(mails: MailRef[], changes: MailFlagChanges): Promise<MailActionResult> {
+  const results: MailActionResult[] = [];
+  const label = changes.isStarred !== undefined
+    ? (changes.isStarred ? 'Star Email' : 'Unstar Email')
+    : changes.isRead !== undefined
+      ? (changes.isRead ? 'Mark as Read' : 'Mark as Unread')
+      : 'Update Labels';
+
+  for (const group of groupByMailbox(mails)) {
+    const outcome = await sendOrQueue(
+      `/api/inbox/${encodeURIComponent(group.accountId)}/flags`,
+      'PATCH',
+      { ...changes, uids: group.uids, mailbox: group.mailbox },
+      group.uids.length === 1 ? label : `${label} (${group.uids.length} Emails)`
+    );
+    results.push(outcome.status);
+  }
+
+  return combine(results);
+}
+
+/**
+ * Delete one or more mails on the server (one request per account + mailbox).
+ */
+export async function pushMailDeletion(mails: MailRef[]): Promise<MailActionResult> {
+  const results: MailActionResult[] = [];
+
+  for (const group of groupByMailbox(mails)) {
+    const outcome = await sendOrQueue(
+      `/api/inbox/${encodeURIComponent(group.accountId)}/delete`,
+      'POST',
+      { uids: group.uids, mailbox: group.mailbox },
+      group.uids.length === 1 ? 'Delete Email' : `Delete ${group.uids.length} Emails`
+    );
+    results.push(outcome.status);
+  }
+
+  return combine(results);
+}
+
+/**
+ * Move mails to another folder on the server and in Dexie.
+ * With a COPYUID answer the local records are re-keyed to their new UID;
+ * without one they are dropped and come back with the next folder sync.
+ */
+export async function moveMails(mails: InboxMailRecord[], destination: string): Promise<MailActionResult> {
+  const pending = mails.filter(m => m.mailbox !== destination);
+  const results: MailActionResult[] = [];
+  const newUids: Record<string, number> = {};
+  const dropIds: string[] = [];
+
+  for (const group of groupByMailbox(pending)) {
+    const label = group.uids.length === 1 ? 'Move Email' : `Move ${group.uids.length} Emails`;
+    const outcome = await sendOrQueue(
+      `/api/inbox/${encodeURIComponent(group.accountId)}/move`,
+      'POST',
+      { uids: group.uids, mailbox: group.mailbox, destination },
+      `${label} to ${destination}`
+    );
+    results.push(outcome.status);
+
+    if (outcome.status === 'synced') {
+      const uidMap = ((outcome.response?.data as { uidMap?: Record<string, number> } | undefined)?.uidMap) ?? {};
+      for (const mail of group.mails) {
+        const newUid = uidMap[String(mail.uid)];
+        if (newUid !== undefined) newUids[mail.id] = newUid;
+        else dropIds.push(mail.id);
+      }
+    }
+  }
+
+  const moveIds = pending.map(m => m.id).filter(id => !dropIds.includes(id));
+  await moveInboxMails(moveIds, destination, newUids);
+  if (dropIds.length > 0) await deleteInboxMails(dropIds);
+
+  return combine(results);
+}
+
+/**
+ * Copy mails to another folder on the server.
+ * The copies show up locally with the next sync of the destination folder.
+ */
+export async function pushMailCopy(mails: MailRef[], destination: string): Promise<MailActionResult> {
+  const results: MailActionResult[] = [];
+
+  for (const group of groupByMailbox(mails.filter(m => m.mailbox !== destination))) {
+    const label = group.uids.length === 1 ? 'Copy Email' : `Copy ${group.uids.length} Emails`;
+    const outcome = await sendOrQueue(
+      `/api/inbox/${encodeURIComponent(group.accountId)}/copy`,
+      'POST',
+      { uids: group.uids, mailbox: group.mailbox, destination },
+      `${label} to ${destination}`
+    );
+    results.push(outcome.status);
+  }
+
+  return combine(results);
+}
+
+/**
+ * Archive a mail: move it to the account's \Archive folder when the server
+ * has one, otherwise fall back to the local-only ARCHIVE mailbox.
+ */
+export async function archiveMail(mail: InboxMailRecord): Promise<MailActionResult> {
+  const archiveFolder = getCachedFolders(mail.accountId).find(f => f.specialUse === '\\Archive');
+  if (archiveFolder && isServerMail(mail)) {
+    try {
+      return await moveMails([mail], archiveFolder.path);
+    } catch (error) {
+      // Keep the mail out of the inbox even if the server refused the move
+      await archiveInboxMail(mail.id);
+      throw error;
+    }
+  }
+  await archiveInboxMail(mail.id);
+  return 'local';
+}
@@ -0,0 +1,53 @@
+/**
+ * Mail Bodies for MailVoyage
+ *
+ * IMAP sync is two-phase: mails arrive with their headers, attachment list and
+ * a short snippet (`bodyLoaded: false`), and the body is fetched from
+ * GET /api/inbox/:accountCode/:uid/body the first time a mail is opened.
+ * Both the server cache and IndexedDB keep the body once loaded.
+ */
+
+import { apiFetch } from './apiFetch';
+import { upsertInboxMails, type InboxMailRecord } from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors the server's MailBody (api/src/services/inbox.service.ts) */
+export interface MailBody {
+  textBody: string | null;
+  htmlBody: string | null;
+  attachmentsMetadata: InboxMailRecord['attachmentsMetadata'];
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+export async function fetchMailBody(accountCode: string, uid: number, mailbox: string = 'INBOX'): Promise<MailBody> {
+  const response = await apiFetch(
+    `/api/inbox/${encodeURIComponent(accountCode)}/${uid}/body?mailbox=${encodeURIComponent(mailbox)}`
+  );
+  return response.data as MailBody;
+}
+
+/**
+ * Fill in the body of a mail synced without one and store it locally.
+ * Mails that already have their body are returned unchanged.
+ */
+export async function loadInboxMailBody(record: InboxMailRecord): Promise<InboxMailRecord> {
+  if (record.bodyLoaded !== false) return record;
+
+  const body = await fetchMailBody(record.accountId, record.uid, record.mailbox);
+  const updated: InboxMailRecord = {
+    ...record,
+    textBody: body.textBody,
+    htmlBody: body.htmlBody,
+    attachmentsMetadata: body.attachmentsMetadata ?? record.attachmentsMetadata,
+    bodyLoaded: true,
+    updatedAt: new Date().toISOString(),
+  };
+  await upsertInboxMails([updated]);
+  return updated;
+}
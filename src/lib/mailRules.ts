@@ -0,0 +1,153 @@
+/**
+ * Mail Filter Rules for MailVoyage
+ *
+ * Client side of the rules API (/api/rules). Rules run on the server as new
+ * mail arrives; the settings editor previews them with a dry run over the
+ * cached inbox and can apply them to existing mail.
+ */
+
+import { apiFetch } from './apiFetch';
+
+// ============================================================================
+// Types (mirror api/src/utils/mailRules.ts)
+// ============================================================================
+
+export type RuleTextField = 'from' | 'to' | 'subject' | 'body';
+export type RuleTextOperator = 'contains' | 'notContains' | 'equals' | 'startsWith' | 'endsWith';
+
+export type RuleCondition =
+  | { field: RuleTextField; operator: RuleTextOperator; value: string }
+  | { field: 'hasAttachment'; value: boolean }
+  /** `value` in bytes */
+  | { field: 'size'; operator: 'greaterThan' | 'lessThan'; value: number };
+
+export type RuleAction =
+  | { type: 'markRead' }
+  | { type: 'star' }
+  | { type: 'label'; label: string }
+  | { type: 'move'; folder: string }
+  | { type: 'forward'; to: string }
+  | { type: 'delete' };
+
+/** A rule as the editor holds it; saved rules also have an id */
+export interface MailRuleDraft {
+  name: string;
+  /** null: every account */
+  accountCode: string | null;
+  enabled: boolean;
+  matchAll: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  stopProcessing: boolean;
+}
+
+export interface MailRule extends MailRuleDraft {
+  id: number;
+  position: number;
+}
+
+export interface RulePlan {
+  ruleIds: number[];
+  markRead: boolean;
+  star: boolean;
+  labels: string[];
+  moveTo: string | null;
+  forwardTo: string[];
+  delete: boolean;
+}
+
+export interface RuleMatch {
+  accountCode: string;
+  mailbox: string;
+  uid: number;
+  subject: string;
+  fromAddress: string;
+  date: string;
+  plan: RulePlan;
+}
+
+export interface RuleRunResult {
+  matches: RuleMatch[];
+  dryRun: boolean;
+  applied: number;
+  errors: string[];
+}
+
+export const TEXT_FIELDS: Array<{ value: RuleTextField; label: string }> = [
+  { value: 'from', label: 'From' },
+  { value: 'to', label: 'To / Cc' },
+  { value: 'subject', label: 'Subject' },
+  { value: 'body', label: 'Body' },
+];
+
+export const TEXT_OPERATORS: Array<{ value: RuleTextOperator; label: string }> = [
+  { value: 'contains', label: 'contains' },
+  { value: 'notContains', label: 'does not contain' },
+  { value: 'equals', label: 'is' },
+  { value: 'startsWith', label: 'starts with' },
+  { value: 'endsWith', label: 'ends with' },
+];
+
+export function emptyRule(): MailRuleDraft {
+  return {
+    name: '',
+    accountCode: null,
+    enabled: true,
+    matchAll: true,
+    conditions: [{ field: 'from', operator: 'contains', value: '' }],
+    actions: [{ type: 'markRead' }],
+    stopProcessing: false,
+  };
+}
+
+/**
+ * What a plan does, in words, e.g. "Mark read, label finance, move to Bills".
+ */
+export function describePlan(plan: RulePlan): string {
+  const parts: string[] = [];
+  if (plan.markRead) parts.push('mark read');
+  if (plan.star) parts.push('star');
+  if (plan.labels.length > 0) parts.push(`label ${plan.labels.join(', ')}`);
+  if (plan.forwardTo.length > 0) parts.push(`forward to ${plan.forwardTo.join(', ')}`);
+  if (plan.delete) parts.push('delete');
+  else if (plan.moveTo) parts.push(`move to ${plan.moveTo}`);
+
+  const text = parts.join(', ');
+  return text ? text[0].toUpperCase() + text.slice(1) : 'No action';
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function fetchRules(): Promise<MailRule[]> {
+  const response = await apiFetch('/api/rules');
+  return response?.data?.rules || [];
+}
+
+/** Create the rule, or replace it when `id` is given */
+export async function saveRule(rule: MailRuleDraft, id?: number): Promise<MailRule> {
+  const response = await apiFetch(id ? `/api/rules/${id}` : '/api/rules', {
+    method: id ? 'PUT' : 'POST',
+    body: JSON.stringify(rule),
+  });
+  return response.data;
+}
+
+export async function deleteRule(id: number): Promise<void> {
+  await apiFetch(`/api/rules/${id}`, { method: 'DELETE' });
+}
+
+/**
+ * Dry run (`dryRun`) or apply rules to the cached inbox: `rule` tries an
+ * unsaved rule, `ruleId` one saved rule, neither all enabled rules.
+ */
+export async function runRules(
+  options: { rule?: MailRuleDraft; ruleId?: number; dryRun: boolean }
+): Promise<RuleRunResult> {
+  const response = await apiFetch(options.dryRun ? '/api/rules/preview' : '/api/rules/run', {
+    method: 'POST',
+    body: JSON.stringify({ rule: options.rule, ruleId: options.ruleId }),
+  });
+  return response.data;
+}
@@ -1,8 +1,11 @@
 import { 
+  BookUser,
+  CalendarClock,
   Edit, 
   FileText,
   Inbox, 
   LayoutDashboard, 
+  MailWarning,
   Search,
   Send,
   Settings,
@@ -12,14 +15,53 @@ import {
 } from 'lucide-react';
 import { NavigationItem } from '@/contexts/EmailContext';
 
-// Shared navigation items for both Sidebar and Flowbar
-export const getNavigationItems = (unreadCount: number): NavigationItem[] => [
+export interface AccountUnread {
+  label: string;
+  count: number;
+}
+
+// "12 unread: work@example.com 9, me@example.com 3"
+const describeUnread = (unreadCount: number, accountUnread: AccountUnread[]): string | undefined => {
+  if (unreadCount <= 0) return undefined;
+  const perAccount = accountUnread.filter(a => a.count > 0);
+  if (perAccount.length < 2) return `${unreadCount} unread`;
+  return `${unreadCount} unread: ${perAccount.map(a => `${a.label} ${a.count}`).join(', ')}`;
+};
+
+// Unread counts per account, labelled with the account addresses in their configured order
+export const getAccountUnread = (unreadByAccount: Record<string, number>): AccountUnread[] => {
+  let accounts: Array<{ email: string; accountCode: string }> = [];
+  try {
+    accounts = isSsrSafe() ? JSON.parse(localStorage.getItem('emailAccounts') || '[]') : [];
+  } catch {
+    // Fall back to the account codes below
+  }
+  const listed = accounts.map(a => ({ label: a.email, count: unreadByAccount[a.accountCode] ?? 0 }));
+  const unlisted = Object.entries(unreadByAccount)
+    .filter(([code]) => !accounts.some(a => a.accountCode === code))
+    .map(([code, count]) => ({ label: code, count }));
+  return [...listed, ...unlisted];
+};
+
+// Shared navigation items for both Sidebar and Flowbar.
+// The inbox badge counts unread mail of all accounts together.
+export const getNavigationItems = (unreadCount: number, accountUnread: AccountUnread[] = []): NavigationItem[] => [
   { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard, path: '/dashboard' },
   { id: 'compose', label: 'Compose', icon: Edit, path: '/compose' },
   { id: 'search', label: 'Search', icon: Search, path: '/search' },
-  { id: 'inbox', label: 'Inbox', icon: Inbox, path: '/inbox', badge: unreadCount > 0 ? unreadCount : undefined },
+  {
+    id: 'inbox',
+    label: 'Inbox',
+    icon: Inbox,
+    path: '/inbox',
+    badge: unreadCount > 0 ? unreadCount : undefined,
+    badgeTitle: describeUnread(unreadCount, accountUnread),
+  },
   { id: 'sent', label: 'Sent', icon: Send, path: '/sent' },
   { id: 'drafts', label: 'Drafts', icon: FileText, path: '/drafts' },
+  { id: 'scheduled', label: 'Scheduled', icon: CalendarClock, path: '/scheduled' },
+  { id: 'outbox', label: 'Outbox', icon: MailWarning, path: '/outbox' },
+  { id: 'contacts', label: 'Contacts', icon: BookUser, path: '/contacts' },
   { id: 'settings', label: 'Settings', icon: Settings, path: '/settings' },
 ];
 
@@ -0,0 +1,59 @@
+/**
+ * Outbox for MailVoyage
+ *
+ * Client for /api/mail/outbox. Sends that failed over SMTP are kept on the
+ * server with their error; transient failures are retried automatically with
+ * backoff, everything else waits for "retry now", "edit" or "discard".
+ */
+
+import { apiFetch } from './apiFetch';
+import type { DraftRecord } from './db';
+import { storeServerDraft, type ApiDraft } from './draftSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors the server's OutboxMail (api/src/services/outbox.service.ts) */
+export interface OutboxMail {
+  id: string;
+  accountCode: string;
+  fromEmail: string;
+  toEmails: string[];
+  subject: string;
+  textBody: string | null;
+  attachmentCount: number;
+  errorMessage: string | null;
+  retryCount: number;
+  nextRetryAt: string | null;
+  failedAt: string;
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+export async function getOutbox(): Promise<OutboxMail[]> {
+  const response = await apiFetch('/api/mail/outbox');
+  return ((response?.data as { mails?: OutboxMail[] } | undefined)?.mails) || [];
+}
+
+/**
+ * Queue an immediate retry; the server sends it within a few seconds.
+ */
+export async function retryOutboxMail(id: string): Promise<OutboxMail> {
+  const response = await apiFetch(`/api/mail/outbox/${encodeURIComponent(id)}/retry`, { method: 'POST' });
+  return response.data as OutboxMail;
+}
+
+/**
+ * Move a failed mail back to drafts (stored locally and returned for Compose).
+ */
+export async function editOutboxMail(id: string): Promise<DraftRecord> {
+  const response = await apiFetch(`/api/mail/outbox/${encodeURIComponent(id)}/edit`, { method: 'POST' });
+  return storeServerDraft((response.data as { draft: ApiDraft }).draft);
+}
+
+export async function discardOutboxMail(id: string): Promise<void> {
+  await apiFetch(`/api/mail/outbox/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,98 @@
+/**
+ * Reply / Reply-All / Forward helpers for MailVoyage
+ *
+ * - Replies go to Reply-To when the sender set one, otherwise to From
+ * - Reply-All adds the original To/Cc, minus every address the user owns
+ * - Replying to one's own sent mail goes back to its original recipients
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReplyMode = 'reply' | 'replyAll';
+
+/** The parts of the original message that decide who a reply goes to */
+export interface ReplySource {
+  fromAddress: string;
+  replyTo?: string[] | null;
+  toAddresses: string[];
+  ccAddresses?: string[] | null;
+}
+
+export interface ReplyRecipients {
+  to: string[];
+  cc: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const normalizeAddress = (address: string): string => address.trim().toLowerCase();
+
+/** Every address of the user's IMAP/POP3 and SMTP-only accounts (lower-cased) */
+export function getOwnAddresses(): Set<string> {
+  const own = new Set<string>();
+  for (const key of ['emailAccounts', 'smtpAccounts']) {
+    try {
+      const accounts: Array<{ email?: string }> = JSON.parse(localStorage.getItem(key) || '[]');
+      accounts.forEach(acc => acc.email && own.add(normalizeAddress(acc.email)));
+    } catch {
+      // Ignore malformed cache entries
+    }
+  }
+  return own;
+}
+
+/** Drop empty, duplicate (case-insensitive) and excluded addresses, keeping order */
+function uniqueAddresses(addresses: string[], exclude: Set<string>): string[] {
+  const seen = new Set(exclude);
+  const result: string[] = [];
+  for (const address of addresses) {
+    const key = normalizeAddress(address);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(address.trim());
+  }
+  return result;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Work out To/Cc for a reply. `ownAddresses` must be lower-cased
+ * (see getOwnAddresses).
+ */
+export function buildReplyRecipients(
+  source: ReplySource,
+  mode: ReplyMode,
+  ownAddresses: Set<string>
+): ReplyRecipients {
+  const fromSelf = ownAddresses.has(normalizeAddress(source.fromAddress));
+  const replyTo = source.replyTo && source.replyTo.length > 0 ? source.replyTo : [source.fromAddress];
+
+  // Replying to our own message continues the conversation with its recipients
+  const primary = fromSelf ? source.toAddresses : replyTo;
+
+  if (mode === 'reply') {
+    const to = uniqueAddresses(fromSelf ? primary.slice(0, 1) : primary, ownAddresses);
+    return { to, cc: [] };
+  }
+
+  const to = uniqueAddresses(fromSelf ? primary : [...primary, ...source.toAddresses], ownAddresses);
+  const cc = uniqueAddresses(source.ccAddresses || [], new Set([...ownAddresses, ...to.map(normalizeAddress)]));
+  return { to, cc };
+}
+
+/** "Re: subject", without stacking prefixes */
+export function replySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`;
+}
+
+/** "Fwd: subject", without stacking prefixes */
+export function forwardSubject(subject: string): string {
+  return /^fwd?:/i.test(subject.trim()) ? subject : `Fwd: ${subject}`;
+}
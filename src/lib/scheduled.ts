@@ -0,0 +1,134 @@
+/**
+ * Scheduled Send for MailVoyage
+ *
+ * Client for /api/mail/schedule and /api/mail/scheduled. Scheduled mails live
+ * on the server only (a `pending` sent_mails row plus a job), so they go out
+ * even when no tab is open. Sends held for the undo window use the same queue.
+ */
+
+import { apiFetch } from './apiFetch';
+import type { DraftRecord } from './db';
+import { storeServerDraft, type ApiDraft } from './draftSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Mirrors the server's ScheduledMail (api/src/services/scheduled-mail.service.ts) */
+export interface ScheduledMail {
+  id: string;
+  threadId: string;
+  accountCode: string;
+  fromEmail: string;
+  toEmails: string[];
+  cc: string[] | null;
+  bcc: string[] | null;
+  subject: string;
+  textBody: string | null;
+  attachmentCount: number;
+  scheduledAt: string;
+  createdAt: string;
+}
+
+/** Response data of /api/mail/send while undo send is on */
+export interface HeldMail {
+  id: string;
+  sendAt: string;
+  undoSeconds: number;
+}
+
+export interface SchedulePreset {
+  label: string;
+  date: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const at = (base: Date, dayOffset: number, hours: number): Date => {
+  const date = new Date(base);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hours, 0, 0, 0);
+  return date;
+};
+
+/**
+ * Quick picks for "Send later": in an hour, this evening (when still ahead),
+ * tomorrow morning and next Monday morning — all in local time.
+ */
+export function getSchedulePresets(now: Date = new Date()): SchedulePreset[] {
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+  inAnHour.setSeconds(0, 0);
+
+  const presets: SchedulePreset[] = [{ label: 'In 1 hour', date: inAnHour }];
+
+  const evening = at(now, 0, 18);
+  if (evening.getTime() - now.getTime() > 60 * 60 * 1000) {
+    presets.push({ label: 'This evening', date: evening });
+  }
+
+  presets.push({ label: 'Tomorrow morning', date: at(now, 1, 8) });
+
+  // Days until next Monday (a week ahead when today is Monday)
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+  presets.push({ label: 'Monday morning', date: at(now, daysToMonday, 8) });
+
+  return presets;
+}
+
+/** Local `YYYY-MM-DDTHH:mm` for datetime-local inputs */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export const formatScheduledTime = (iso: string): string =>
+  new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// ============================================================================
+// API
+// ============================================================================
+
+/**
+ * Queue a mail; takes the same payload as /api/mail/send.
+ */
+export async function scheduleMail(payload: Record<string, unknown>, scheduledAt: Date): Promise<ScheduledMail> {
+  const response = await apiFetch('/api/mail/schedule', {
+    method: 'POST',
+    body: JSON.stringify({ ...payload, scheduledAt: scheduledAt.toISOString() }),
+  });
+  return response.data as ScheduledMail;
+}
+
+export async function getScheduledMails(): Promise<ScheduledMail[]> {
+  const response = await apiFetch('/api/mail/scheduled');
+  return ((response?.data as { mails?: ScheduledMail[] } | undefined)?.mails) || [];
+}
+
+export async function rescheduleMail(id: string, scheduledAt: Date): Promise<ScheduledMail> {
+  const response = await apiFetch(`/api/mail/scheduled/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ scheduledAt: scheduledAt.toISOString() }),
+  });
+  return response.data as ScheduledMail;
+}
+
+export async function cancelScheduledMail(id: string): Promise<void> {
+  await apiFetch(`/api/mail/scheduled/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * Undo a held send; the server turns it back into a draft, which is stored
+ * locally and returned for Compose.
+ */
+export async function undoSend(id: string): Promise<DraftRecord> {
+  const response = await apiFetch(`/api/mail/send/${encodeURIComponent(id)}/undo`, { method: 'POST' });
+  return storeServerDraft((response.data as { draft: ApiDraft }).draft);
+}
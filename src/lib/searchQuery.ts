@@ -0,0 +1,292 @@
+/**
+ * Search Query Language for MailVoyage
+ *
+ * Gmail-style search strings, parsed into an AST and compiled to a filter
+ * over IndexedDB mail records. Mirrors api/src/utils/searchQuery.ts, which
+ * compiles the same AST to IMAP SEARCH and SQL for the server searches.
+ *
+ * Supported syntax:
+ * - Words and "quoted phrases" (subject, sender, recipients and body)
+ * - from:, to:, subject: (values may be quoted: from:"Jane Doe")
+ * - has:attachment, is:unread, is:read, is:starred
+ * - before:YYYY-MM-DD, after:YYYY-MM-DD (also YYYY/MM/DD; after is inclusive)
+ *   Days start at local midnight here; server searches use the server's time
+ *   zone, so mail near midnight may land on the other side of a date there
+ * - in:mailbox (names are case-sensitive, except INBOX)
+ * - -negation, OR (binds tighter than the implicit AND, like Gmail) and (groups)
+ * Unknown operators and invalid values are searched as plain text.
+ */
+
+import type { InboxMailRecord } from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SearchField = 'from' | 'to' | 'subject' | 'text';
+
+export type SearchNode =
+  | { type: 'term'; field: SearchField; value: string }
+  | { type: 'hasAttachment' }
+  | { type: 'is'; flag: 'unread' | 'read' | 'starred' }
+  /** `date` is YYYY-MM-DD */
+  | { type: 'date'; op: 'before' | 'after'; date: string }
+  | { type: 'in'; mailbox: string }
+  | { type: 'not'; node: SearchNode }
+  | { type: 'and'; nodes: SearchNode[] }
+  | { type: 'or'; nodes: SearchNode[] };
+
+interface Token {
+  kind: 'word' | 'not' | 'or' | 'lparen' | 'rparen';
+  operator?: string;
+  value?: string;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  const end = close === -1 ? input.length : close + 1;
+  return { value: input.slice(start + 1, close === -1 ? input.length : close), end };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+    } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else if (ch === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ kind: 'word', value: quoted.value });
+      i = quoted.end;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const chunk = input.slice(i, end);
+      i = end;
+
+      const operator = /^([a-z]+):(.*)$/i.exec(chunk);
+      if (operator && operator[2] === '' && input[i] === '"') {
+        // op:"quoted value"
+        const quoted = readQuoted(input, i);
+        tokens.push({ kind: 'word', operator: operator[1].toLowerCase(), value: quoted.value });
+        i = quoted.end;
+      } else if (operator && operator[2] !== '') {
+        tokens.push({ kind: 'word', operator: operator[1].toLowerCase(), value: operator[2] });
+      } else if (chunk === 'OR' || chunk === '|') {
+        tokens.push({ kind: 'or' });
+      } else if (chunk !== 'AND') {
+        tokens.push({ kind: 'word', value: chunk });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/** YYYY-MM-DD for a valid YYYY-MM-DD or YYYY/MM/DD date */
+function parseDate(value: string): string | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function wordToNode(token: Token): SearchNode | null {
+  const value = (token.value ?? '').trim();
+  const raw: SearchNode = { type: 'term', field: 'text', value: token.operator ? `${token.operator}:${value}` : value };
+  if (!token.operator) return value ? raw : null;
+
+  switch (token.operator) {
+    case 'from':
+    case 'to':
+    case 'subject':
+      return value ? { type: 'term', field: token.operator, value } : null;
+    case 'has':
+      return /^attachments?$/i.test(value) ? { type: 'hasAttachment' } : raw;
+    case 'is': {
+      const flag = value.toLowerCase();
+      return flag === 'unread' || flag === 'read' || flag === 'starred' ? { type: 'is', flag } : raw;
+    }
+    case 'before':
+    case 'after': {
+      const date = parseDate(value);
+      return date ? { type: 'date', op: token.operator, date } : raw;
+    }
+    case 'in':
+      if (!value) return null;
+      // INBOX is case-insensitive in IMAP
+      return { type: 'in', mailbox: value.toUpperCase() === 'INBOX' ? 'INBOX' : value };
+    default:
+      return raw;
+  }
+}
+
+function combine(type: 'and' | 'or', nodes: SearchNode[]): SearchNode {
+  return nodes.length === 1 ? nodes[0] : { type, nodes };
+}
+
+/**
+ * Parse a search string. An empty query gives an empty AND, which matches everything.
+ */
+export function parseSearchQuery(input: string): SearchNode {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  function parseUnary(): SearchNode | null {
+    const token = tokens[pos];
+    if (!token) return null;
+    pos++;
+
+    if (token.kind === 'not') {
+      const node = parseUnary();
+      return node ? { type: 'not', node } : null;
+    }
+    if (token.kind === 'lparen') {
+      const node = parseAnd();
+      if (tokens[pos]?.kind === 'rparen') pos++;
+      return node.type === 'and' && node.nodes.length === 0 ? null : node;
+    }
+    if (token.kind === 'word') return wordToNode(token);
+    // Stray OR or ")"
+    return null;
+  }
+
+  function parseOr(): SearchNode | null {
+    const nodes: SearchNode[] = [];
+    const first = parseUnary();
+    if (first) nodes.push(first);
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      const next = tokens[pos] && tokens[pos].kind !== 'rparen' ? parseUnary() : null;
+      if (next) nodes.push(next);
+    }
+    return nodes.length > 0 ? combine('or', nodes) : null;
+  }
+
+  function parseAnd(): SearchNode {
+    const nodes: SearchNode[] = [];
+    while (pos < tokens.length && tokens[pos].kind !== 'rparen') {
+      const node = parseOr();
+      if (node) nodes.push(node);
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  const nodes: SearchNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseAnd();
+    nodes.push(...(node.type === 'and' ? node.nodes : [node]));
+    // An unbalanced ")" ends parseAnd early; skip it and keep going
+    if (tokens[pos]?.kind === 'rparen') pos++;
+  }
+  return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+}
+
+/**
+ * The mailbox named by an `in:` that applies to the whole query (at the top
+ * level, not negated or inside OR), or null.
+ */
+export function findMailbox(node: SearchNode): string | null {
+  if (node.type === 'in') return node.mailbox;
+  if (node.type === 'and') {
+    for (const child of node.nodes) {
+      if (child.type === 'in') return child.mailbox;
+    }
+  }
+  return null;
+}
+
+/** Free-text words and phrases that aren't negated, for ranking */
+export function positiveTextTerms(node: SearchNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return node.field === 'text' ? [node.value] : [];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(positiveTextTerms);
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// Mail filter (IndexedDB records)
+// ============================================================================
+
+/** The record fields a query looks at */
+export type SearchableMail = Pick<
+  InboxMailRecord,
+  | 'subject' | 'fromAddress' | 'fromName' | 'toAddresses' | 'ccAddresses'
+  | 'textBody' | 'snippet' | 'date' | 'isRead' | 'isStarred' | 'hasAttachments' | 'mailbox'
+>;
+
+function includes(haystack: string | null | undefined, needle: string): boolean {
+  return !!haystack && haystack.toLowerCase().includes(needle);
+}
+
+/** Local midnight of a YYYY-MM-DD date */
+function localDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+function matches(mail: SearchableMail, node: SearchNode): boolean {
+  switch (node.type) {
+    case 'term': {
+      // Phrases match with any run of whitespace between their words
+      const needle = node.value.toLowerCase().replace(/\s+/g, ' ');
+      const from = () => includes(mail.fromAddress, needle) || includes(mail.fromName, needle);
+      const to = () => mail.toAddresses.some(a => includes(a, needle))
+        || (mail.ccAddresses ?? []).some(a => includes(a, needle));
+      const subject = () => includes(mail.subject, needle);
+      if (node.field === 'from') return from();
+      if (node.field === 'to') return to();
+      if (node.field === 'subject') return subject();
+      const body = (mail.textBody ?? mail.snippet ?? '').replace(/\s+/g, ' ');
+      return subject() || from() || to() || includes(body, needle);
+    }
+    case 'hasAttachment':
+      return mail.hasAttachments;
+    case 'is':
+      if (node.flag === 'starred') return mail.isStarred;
+      return node.flag === 'read' ? mail.isRead : !mail.isRead;
+    case 'date': {
+      const time = new Date(mail.date).getTime();
+      return node.op === 'before' ? time < localDate(node.date) : time >= localDate(node.date);
+    }
+    case 'in':
+      // Mailbox names are case-sensitive; the parser already folded INBOX
+      return mail.mailbox === node.mailbox;
+    case 'not':
+      return !matches(mail, node.node);
+    case 'and':
+      return node.nodes.every(child => matches(mail, child));
+    case 'or':
+      return node.nodes.some(child => matches(mail, child));
+  }
+}
+
+/**
+ * A predicate for mail records; mails whose body isn't loaded yet are matched by snippet.
+ */
+export function toMailFilter(node: SearchNode): (mail: SearchableMail) => boolean {
+  return (mail) => matches(mail, node);
+}
@@ -0,0 +1,132 @@
+/**
+ * Sieve Scripts for MailVoyage
+ *
+ * Client side of the Sieve API (/api/sieve), which manages server-side
+ * filters of IMAP accounts over ManageSieve, and the vacation responder
+ * shortcut that writes the Sieve for the user (RFC 5230).
+ * - A server runs one script at a time: the active one
+ * - A vacation with dates only answers between them (date extension, RFC 5260)
+ */
+
+import { apiFetch } from './apiFetch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SieveScript {
+  name: string;
+  active: boolean;
+}
+
+export interface SieveScriptList {
+  scripts: SieveScript[];
+  /** Sieve extensions the server supports */
+  extensions: string[];
+  implementation: string | null;
+}
+
+export interface SieveCheckResult {
+  valid: boolean;
+  error: string | null;
+}
+
+export interface VacationSettings {
+  subject: string;
+  message: string;
+  /** Answer each sender at most once per this many days */
+  days: number;
+  /** YYYY-MM-DD, inclusive; empty for no limit */
+  startDate: string;
+  endDate: string;
+  /** The user's own addresses, so mail sent to them gets an answer */
+  addresses: string[];
+}
+
+export const VACATION_SCRIPT_NAME = 'vacation';
+
+// ============================================================================
+// Vacation shortcut
+// ============================================================================
+
+/** A Sieve quoted string */
+export function sieveString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Sieve for an out-of-office reply.
+ */
+export function buildVacationScript(settings: VacationSettings): string {
+  const days = Math.min(Math.max(Math.round(settings.days) || 1, 1), 30);
+  const dated = Boolean(settings.startDate || settings.endDate);
+
+  const args = [`:days ${days}`];
+  if (settings.subject.trim()) args.push(`:subject ${sieveString(settings.subject.trim())}`);
+  if (settings.addresses.length > 0) {
+    args.push(`:addresses [${settings.addresses.map(sieveString).join(', ')}]`);
+  }
+  const vacation = `vacation ${args.join(' ')}\n  ${sieveString(settings.message.replace(/\r\n/g, '\n'))};`;
+
+  const lines = [
+    '# Vacation responder, generated by MailVoyage',
+    `require [${['vacation', ...(dated ? ['date', 'relational'] : [])].map(sieveString).join(', ')}];`,
+    '',
+  ];
+  if (!dated) {
+    lines.push(vacation);
+  } else {
+    const tests = [
+      settings.startDate && `currentdate :value "ge" "date" ${sieveString(settings.startDate)}`,
+      settings.endDate && `currentdate :value "le" "date" ${sieveString(settings.endDate)}`,
+    ].filter(Boolean);
+    lines.push(`if allof (${tests.join(',\n          ')}) {`);
+    lines.push(`  ${vacation.replace(/\n/g, '\n  ')}`);
+    lines.push('}');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const accountQuery = (accountCode: string) => `accountCode=${encodeURIComponent(accountCode)}`;
+
+export async function fetchSieveScripts(accountCode: string): Promise<SieveScriptList> {
+  const response = await apiFetch(`/api/sieve/scripts?${accountQuery(accountCode)}`);
+  return response.data;
+}
+
+export async function fetchSieveScript(accountCode: string, name: string): Promise<SieveScript & { content: string }> {
+  const response = await apiFetch(`/api/sieve/scripts/${encodeURIComponent(name)}?${accountQuery(accountCode)}`);
+  return response.data;
+}
+
+export async function saveSieveScript(accountCode: string, name: string, content: string, activate: boolean): Promise<void> {
+  await apiFetch(`/api/sieve/scripts/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ accountCode, content, activate }),
+  });
+}
+
+export async function deleteSieveScript(accountCode: string, name: string): Promise<void> {
+  await apiFetch(`/api/sieve/scripts/${encodeURIComponent(name)}?${accountQuery(accountCode)}`, { method: 'DELETE' });
+}
+
+/** Activate `name`; null turns server-side filtering off */
+export async function setActiveSieveScript(accountCode: string, name: string | null): Promise<void> {
+  await apiFetch('/api/sieve/active', {
+    method: 'PUT',
+    body: JSON.stringify({ accountCode, name }),
+  });
+}
+
+export async function checkSieveScript(accountCode: string, content: string): Promise<SieveCheckResult> {
+  const response = await apiFetch('/api/sieve/check', {
+    method: 'POST',
+    body: JSON.stringify({ accountCode, content }),
+  });
+  return response.data;
+}
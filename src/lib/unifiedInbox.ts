@@ -0,0 +1,66 @@
+/**
+ * Unified inbox helpers: the "All accounts" view merges every account's
+ * INBOX, tells the accounts apart by colour and syncs them side by side.
+ */
+
+/** Account code selected in InboxPage for the merged view of all accounts */
+export const ALL_ACCOUNTS = '__all__';
+
+export interface AccountColor {
+  /** Small dot next to the account in menus */
+  dot: string;
+  /** Pill with the account's address on each mail row */
+  badge: string;
+}
+
+const ACCOUNT_COLORS: AccountColor[] = [
+  { dot: 'bg-blue-500', badge: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' },
+  { dot: 'bg-emerald-500', badge: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300' },
+  { dot: 'bg-amber-500', badge: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' },
+  { dot: 'bg-rose-500', badge: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300' },
+  { dot: 'bg-violet-500', badge: 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300' },
+  { dot: 'bg-cyan-500', badge: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/40 dark:text-cyan-300' },
+  { dot: 'bg-orange-500', badge: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300' },
+  { dot: 'bg-fuchsia-500', badge: 'bg-fuchsia-100 text-fuchsia-700 dark:bg-fuchsia-900/40 dark:text-fuchsia-300' },
+];
+
+/**
+ * Colour of an account: by its position in the account list, so the first
+ * accounts never share a colour, falling back to a hash for unknown codes
+ * (e.g. search results of an account that was removed since).
+ */
+export function getAccountColor(accountCode: string, accountCodes: string[]): AccountColor {
+  const index = accountCodes.indexOf(accountCode);
+  if (index >= 0) return ACCOUNT_COLORS[index % ACCOUNT_COLORS.length];
+
+  let hash = 0;
+  for (let i = 0; i < accountCode.length; i++) {
+    hash = (hash * 31 + accountCode.charCodeAt(i)) | 0;
+  }
+  return ACCOUNT_COLORS[Math.abs(hash) % ACCOUNT_COLORS.length];
+}
+
+export interface AccountSyncResult<T> {
+  accountCode: string;
+  ok: boolean;
+  value?: T;
+  error?: string;
+}
+
+/**
+ * Run `syncOne` for every account at once. A failing account is reported in
+ * its result instead of rejecting, so the others still finish.
+ */
+export async function syncAllAccounts<A extends { accountCode: string }, T>(
+  accounts: A[],
+  syncOne: (account: A) => Promise<T>
+): Promise<AccountSyncResult<T>[]> {
+  const settled = await Promise.allSettled(accounts.map(account => syncOne(account)));
+  return settled.map((result, i) => result.status === 'fulfilled'
+    ? { accountCode: accounts[i].accountCode, ok: true, value: result.value }
+    : {
+        accountCode: accounts[i].accountCode,
+        ok: false,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+}
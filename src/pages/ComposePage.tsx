@@ -1,7 +1,11 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion, easeOut } from 'framer-motion';
-import { Send, Paperclip, X, Save, Eye, ChevronDown, FileEdit, Check } from 'lucide-react';
+import { Send, Paperclip, X, Save, Eye, ChevronDown, FileEdit, Check, Clock } from 'lucide-react';
 import Button from '@/components/ui/Button';
+import UndoSendToast from '@/components/common/UndoSendToast';
+import RecipientInput from '@/components/email/RecipientInput';
+import { useContacts } from '@/hooks/useContacts';
+import { parseRecipients } from '@/lib/contacts';
 import { toast } from '@/lib/toast';
 import DOMPurify from 'dompurify';
 import { apiFetch } from '@/lib/apiFetch';
@@ -9,10 +13,25 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { injectEmailStyles, formatFileSize } from '@/lib/emailStyles';
 import {
   saveDraft,
-  deleteDraft,
   type EmailDraft,
   type DraftAttachment,
 } from '@/lib/db';
+import { pushDraft, removeDrafts } from '@/lib/draftSync';
+import {
+  formatScheduledTime,
+  getSchedulePresets,
+  scheduleMail,
+  toDateTimeLocalValue,
+  undoSend,
+  type HeldMail,
+} from '@/lib/scheduled';
+import {
+  buildReplyRecipients,
+  forwardSubject,
+  getOwnAddresses,
+  replySubject,
+  type ReplySource,
+} from '@/lib/replies';
 
 // CKEditor 5
 import 'ckeditor5/ckeditor5.css';
@@ -42,6 +61,14 @@ interface Attachment {
   content: string; // Base64 encoded file content
 }
 
+/** Received IMAP message being forwarded; the server attaches its parts (or the whole message) */
+interface ForwardSource {
+  accountCode: string;
+  mailbox: string;
+  uid: number;
+  attachments: Array<{ filename: string; contentType: string; size: number }>;
+}
+
 interface EmailAccount {
   id: string;
   email: string;
@@ -59,6 +86,7 @@ const ComposePage: React.FC = () => {
   const [to, setTo] = useState('');
   const [cc, setCc] = useState('');
   const [bcc, setBcc] = useState('');
+  const contacts = useContacts();
   const [subject, setSubject] = useState('');
   const [content, setContent] = useState(''); // HTML produced by CKEditor
   const [charCount, setCharCount] = useState(0);
@@ -69,16 +97,25 @@ const ComposePage: React.FC = () => {
   const [isSending, setIsSending] = useState(false);
   const [isSavingDraft, setIsSavingDraft] = useState(false);
   const [draftSaved, setDraftSaved] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleValue, setScheduleValue] = useState('');
   
   // Draft state
   const [currentDraftId, setCurrentDraftId] = useState<string | null>(null);
   const [isDraftLoaded, setIsDraftLoaded] = useState(false);
 
+  // Reply / forward state
+  const [inReplyTo, setInReplyTo] = useState<string | null>(null);
+  const [forwardSource, setForwardSource] = useState<ForwardSource | null>(null);
+  const [forwardIndexes, setForwardIndexes] = useState<number[]>([]);
+  const [forwardAsMessage, setForwardAsMessage] = useState(false);
+
   // Track compose mode for header title
   const composeMode = useMemo(() => {
     const state = location.state as { type?: string } | null;
     if (currentDraftId) return 'draft';
     if (state?.type === 'reply') return 'reply';
+    if (state?.type === 'replyAll') return 'replyAll';
     if (state?.type === 'forward') return 'forward';
     return 'compose';
   }, [location.state, currentDraftId]);
@@ -86,6 +123,7 @@ const ComposePage: React.FC = () => {
   const editorHostRef = useRef<HTMLDivElement | null>(null);
   const editorRef = useRef<ClassicEditor | null>(null);
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const afterSendTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedContentRef = useRef<string>('');
 
   // Inject shared email styles
@@ -197,8 +235,10 @@ const ComposePage: React.FC = () => {
       draftId?: string;
       fromDraft?: boolean;
       draftData?: EmailDraft;
-      type?: 'reply' | 'forward';
+      type?: 'reply' | 'replyAll' | 'forward';
       originalEmail?: Record<string, unknown>;
+      /** New mail to these addresses (e.g. from the Contacts page) */
+      to?: string;
     } | null;
 
     if (!state) return;
@@ -229,8 +269,10 @@ const ComposePage: React.FC = () => {
         setAttachments(convertedAttachments);
       }
 
-      if (draft.fromAccountId && availableAccounts.length > 0) {
-        const account = availableAccounts.find(acc => acc.id === draft.fromAccountId);
+      if ((draft.fromAccountCode || draft.fromAccountId) && availableAccounts.length > 0) {
+        const account = availableAccounts.find(acc =>
+          draft.fromAccountCode ? acc.accountCode === draft.fromAccountCode : acc.id === draft.fromAccountId
+        );
         if (account) setFromAccount(account);
       }
 
@@ -240,37 +282,69 @@ const ComposePage: React.FC = () => {
       return; // Draft takes priority — skip reply/forward
     }
 
-    // ── 2. Reply / Forward ───────────────────────────────────────────────
+    // ── 2. Reply / Reply-All / Forward ───────────────────────────────────
     if (state.type && state.originalEmail) {
       const orig = state.originalEmail;
       const origSubject = (orig.subject || '') as string;
 
-      if (state.type === 'reply') {
-        // Pre-fill To with the original sender
-        const replyTo = (orig.senderEmail || orig.sender || orig.fromEmail || '') as string;
-        setTo(replyTo);
+      if (state.type === 'reply' || state.type === 'replyAll') {
+        // Recipients: Reply-To (or sender), plus To/Cc for Reply-All, never our own addresses
+        const source = orig.replySource as ReplySource | undefined;
+        if (source) {
+          const recipients = buildReplyRecipients(source, state.type, getOwnAddresses());
+          setTo(recipients.to.join(', '));
+          if (recipients.cc.length > 0) {
+            setCc(recipients.cc.join(', '));
+            setShowCc(true);
+          }
+        } else {
+          setTo((orig.senderEmail || orig.sender || orig.fromEmail || '') as string);
+        }
 
-        // Subject: add "Re:" prefix if not already present
-        const reSubject = /^re:/i.test(origSubject)
-          ? origSubject
-          : `Re: ${origSubject}`;
-        setSubject(reSubject);
+        setSubject(replySubject(origSubject));
+        // Server completes References from the parent's cached headers
+        setInReplyTo((orig.messageId as string | null) || null);
       } else if (state.type === 'forward') {
         // Forward: leave To empty, user fills in
         setTo('');
+        setSubject(forwardSubject(origSubject));
+
+        // Sent mail: attachment content is already local
+        const localAttachments = (orig.attachments || []) as Array<{
+          filename: string; contentType: string; size: number; content?: string;
+        }>;
+        if (localAttachments.length > 0) {
+          setAttachments(localAttachments.map((att, i) => ({
+            id: `fwd-${i}-${att.filename}`,
+            name: att.filename,
+            size: att.size,
+            sizeFormatted: formatFileSize(att.size, att.content),
+            type: att.contentType,
+            content: att.content || '',
+          })));
+        }
 
-        const fwdSubject = /^fwd?:/i.test(origSubject)
-          ? origSubject
-          : `Fwd: ${origSubject}`;
-        setSubject(fwdSubject);
+        // Received mail: the server fetches the original parts from IMAP
+        const source = orig.forwardSource as ForwardSource | null | undefined;
+        if (source) {
+          setForwardSource(source);
+          setForwardIndexes(source.attachments.map((_, i) => i));
+        }
       }
 
       // Build quoted original message block
-      const quotedHtml = buildQuotedBlock(state.type, orig);
+      const quotedHtml = buildQuotedBlock(state.type === 'forward' ? 'forward' : 'reply', orig);
       setContent(quotedHtml);
       setIsDraftLoaded(true); // Triggers editor.setData()
 
       window.history.replaceState({}, document.title);
+      return;
+    }
+
+    // ── 3. New mail to a contact ─────────────────────────────────────────
+    if (state.to) {
+      setTo(state.to);
+      window.history.replaceState({}, document.title);
     }
   }, [location.state, availableAccounts, buildQuotedBlock]);
 
@@ -418,14 +492,46 @@ const ComposePage: React.FC = () => {
       ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|cid|data):)/i
     }) as string;
 
-  const handleSend = async () => {
+  /** Undo toast for a held send; undoing reopens the mail as a draft */
+  const showUndoToast = (held: HeldMail) => {
+    const remaining = Math.max(new Date(held.sendAt).getTime() - Date.now(), 1000);
+    toast.info(({ closeToast }) => (
+      <UndoSendToast
+        closeToast={closeToast}
+        onUndo={async () => {
+          try {
+            const draft = await undoSend(held.id);
+            if (afterSendTimerRef.current) clearTimeout(afterSendTimerRef.current);
+            toast.success('Sending undone — message moved back to drafts');
+            navigate('/compose', { state: { draftId: draft.id, fromDraft: true, draftData: draft } });
+          } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Too late to undo — the email was sent');
+          }
+        }}
+      />
+    ), {
+      autoClose: remaining,
+      closeOnClick: false,
+      // The server doesn't pause, so neither does the countdown
+      pauseOnHover: false,
+      pauseOnFocusLoss: false,
+    });
+  };
+
+  /** Send now, or queue on the server when `scheduledAt` is given */
+  const handleSend = async (scheduledAt?: Date) => {
+    if (scheduledAt && (Number.isNaN(scheduledAt.getTime()) || scheduledAt.getTime() <= Date.now())) {
+      toast.error('Please pick a time in the future');
+      return;
+    }
+
     // Validation
     if (!fromAccount) {
       toast.error('Please select a sender account');
       return;
     }
     
-    if (!to.trim()) {
+    if (parseRecipients(to).length === 0) {
       toast.error('Please enter recipient email address');
       return;
     }
@@ -441,12 +547,47 @@ const ComposePage: React.FC = () => {
       return;
     }
 
+    /**
+     * Reset the form once the email has left it (sent, scheduled or in the outbox)
+     */
+    const finishSend = async (destination: string) => {
+      // Delete the draft if it exists (email was sent, scheduled or kept in the outbox)
+      if (currentDraftId) {
+        try {
+          await removeDrafts([currentDraftId]);
+          setCurrentDraftId(null);
+        } catch (draftError) {
+          console.error('Error deleting draft after send:', draftError);
+          // Don't show error to user - email left the compose form
+        }
+      }
+    
+      // Clear form
+      setTo(''); 
+      setCc(''); 
+      setBcc(''); 
+      setSubject(''); 
+      setContent(''); 
+      setAttachments([]); 
+      setForwardSource(null);
+      setForwardIndexes([]);
+      setInReplyTo(null);
+      setCharCount(0);
+      setShowSchedule(false);
+      editorRef.current?.setData('');
+    
+      // Navigate to the folder the email ended up in
+      afterSendTimerRef.current = setTimeout(() => {
+        navigate(destination);
+      }, 1500);
+    };
+
     setIsSending(true);
     try {
       // Parse recipients
-      const toArray = to.split(',').map(e => e.trim()).filter(e => e);
-      const ccArray = cc ? cc.split(',').map(e => e.trim()).filter(e => e) : [];
-      const bccArray = bcc ? bcc.split(',').map(e => e.trim()).filter(e => e) : [];
+      const toArray = parseRecipients(to);
+      const ccArray = parseRecipients(cc);
+      const bccArray = parseRecipients(bcc);
       
       // Prepare payload
       const payload = {
@@ -463,45 +604,49 @@ const ComposePage: React.FC = () => {
           contentType: att.type,
           size: att.size,
         })) : undefined,
+        inReplyTo: inReplyTo || undefined,
+        forward: forwardSource && (forwardAsMessage || forwardIndexes.length > 0) ? {
+          accountCode: forwardSource.accountCode,
+          mailbox: forwardSource.mailbox,
+          uid: forwardSource.uid,
+          mode: forwardAsMessage ? 'message' : 'attachments',
+          attachmentIndexes: forwardIndexes,
+        } : undefined,
       };
       
-      // Send email via API
-      const response = await apiFetch('/api/mail/send', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
-      
-      toast.success(response.message || 'Email sent successfully!');
-      
-      // Delete the draft if it exists (email was sent successfully)
-      if (currentDraftId) {
-        try {
-          await deleteDraft(currentDraftId);
-          setCurrentDraftId(null);
-        } catch (draftError) {
-          console.error('Error deleting draft after send:', draftError);
-          // Don't show error to user - email was sent successfully
+      if (scheduledAt) {
+        // Queued server-side; it goes out even if this tab is closed
+        const scheduled = await scheduleMail(payload, scheduledAt);
+        toast.success(`Email scheduled for ${formatScheduledTime(scheduled.scheduledAt)}`);
+      } else {
+        // Send email via API
+        const response = await apiFetch('/api/mail/send', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+        });
+
+        if (response.queued) {
+          // Held server-side for the undo window; it is sent even if this tab closes
+          showUndoToast(response.data as HeldMail);
+        } else {
+          toast.success(response.message || 'Email sent successfully!');
         }
       }
       
-      // Clear form
-      setTo(''); 
-      setCc(''); 
-      setBcc(''); 
-      setSubject(''); 
-      setContent(''); 
-      setAttachments([]); 
-      setCharCount(0);
-      editorRef.current?.setData('');
-      
-      // Navigate to sent folder
-      setTimeout(() => {
-        navigate('/sent');
-      }, 1500);
+      await finishSend(scheduledAt ? '/scheduled' : '/sent');
       
     } catch (error: unknown) {
       console.error('Error sending email:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to send email');
+      const outbox = (error as { errors?: { outboxId?: string; nextRetryAt?: string | null } }).errors;
+      if (outbox?.outboxId) {
+        // The server kept the failed send in the outbox
+        toast.warning(outbox.nextRetryAt
+          ? 'Sending failed — the email is in the outbox and will be retried automatically'
+          : 'Sending failed — the email was saved to the outbox');
+        await finishSend('/outbox');
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : scheduledAt ? 'Failed to schedule email' : 'Failed to send email');
     } finally {
       setIsSending(false);
     }
@@ -524,6 +669,7 @@ const ComposePage: React.FC = () => {
       const draftData = {
         id: currentDraftId || undefined,
         fromAccountId: fromAccount?.id || null,
+        fromAccountCode: fromAccount?.accountCode || null,
         fromEmail: fromAccount?.email || null,
         to,
         cc,
@@ -537,6 +683,8 @@ const ComposePage: React.FC = () => {
       
       const savedDraft = await saveDraft(draftData);
       setCurrentDraftId(savedDraft.id);
+      // Server copy + IMAP Drafts folder; retried on the next sync when offline
+      void pushDraft(savedDraft);
       lastSavedContentRef.current = JSON.stringify({ to, cc, bcc, subject, content, attachments });
       setDraftSaved(true);
       
@@ -616,6 +764,7 @@ const ComposePage: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
                 {composeMode === 'draft' ? 'Edit Draft'
                   : composeMode === 'reply' ? 'Reply'
+                  : composeMode === 'replyAll' ? 'Reply All'
                   : composeMode === 'forward' ? 'Forward'
                   : 'Compose Email'}
               </h1>
@@ -690,18 +839,18 @@ const ComposePage: React.FC = () => {
               </div>
               <div>
                 <span className="text-sm font-medium text-gray-500 dark:text-gray-400">To:</span>
-                <p className="text-gray-900 dark:text-white">{to || 'No recipient'}</p>
+                <p className="text-gray-900 dark:text-white">{parseRecipients(to).join(', ') || 'No recipient'}</p>
               </div>
               {cc && (
                 <div>
                   <span className="text-sm font-medium text-gray-500 dark:text-gray-400">CC:</span>
-                  <p className="text-gray-900 dark:text-white">{cc}</p>
+                  <p className="text-gray-900 dark:text-white">{parseRecipients(cc).join(', ')}</p>
                 </div>
               )}
               {bcc && (
                 <div>
                   <span className="text-sm font-medium text-gray-500 dark:text-gray-400">BCC:</span>
-                  <p className="text-gray-900 dark:text-white">{bcc}</p>
+                  <p className="text-gray-900 dark:text-white">{parseRecipients(bcc).join(', ')}</p>
                 </div>
               )}
               <div>
@@ -817,13 +966,11 @@ const ComposePage: React.FC = () => {
             <div className="space-y-3">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To *</label>
-                <input
-                  type="email"
+                <RecipientInput
                   value={to}
-                  onChange={(e) => setTo(e.target.value)}
+                  onChange={setTo}
+                  contacts={contacts}
                   placeholder="recipient@example.com"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                  multiple
                 />
               </div>
 
@@ -849,12 +996,11 @@ const ComposePage: React.FC = () => {
               {showCc && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">CC</label>
-                  <input
-                    type="email"
+                  <RecipientInput
                     value={cc}
-                    onChange={(e) => setCc(e.target.value)}
+                    onChange={setCc}
+                    contacts={contacts}
                     placeholder="cc@example.com"
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
                   />
                 </div>
               )}
@@ -862,12 +1008,11 @@ const ComposePage: React.FC = () => {
               {showBcc && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">BCC</label>
-                  <input
-                    type="email"
+                  <RecipientInput
                     value={bcc}
-                    onChange={(e) => setBcc(e.target.value)}
+                    onChange={setBcc}
+                    contacts={contacts}
                     placeholder="bcc@example.com"
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
                   />
                 </div>
               )}
@@ -929,6 +1074,55 @@ const ComposePage: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {/* Forwarded from the original message (attached by the server on send) */}
+            {forwardSource && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {forwardAsMessage
+                      ? 'Original message attached (.eml)'
+                      : `Forwarded attachments (${forwardIndexes.length})`}
+                  </p>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={forwardAsMessage}
+                      onChange={(e) => setForwardAsMessage(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    Forward as attachment
+                  </label>
+                </div>
+                {!forwardAsMessage && forwardIndexes.map(index => {
+                  const attachment = forwardSource.attachments[index];
+                  return (
+                    <div
+                      key={index}
+                      className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <Paperclip className="w-4 h-4 text-gray-400" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {attachment.filename}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatFileSize(attachment.size)}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setForwardIndexes(prev => prev.filter(i => i !== index))}
+                        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                      >
+                        <X className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
         {/* Footer */}
@@ -936,7 +1130,7 @@ const ComposePage: React.FC = () => {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <Button
-                onClick={handleSend}
+                onClick={() => handleSend()}
                 disabled={isSending}
                 className="flex items-center space-x-2 submit-button-gradient-border"
               >
@@ -944,6 +1138,66 @@ const ComposePage: React.FC = () => {
                 <span>{isSending ? 'Sending...' : 'Send'}</span>
               </Button>
 
+              <div className="relative">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (!showSchedule && !scheduleValue) {
+                      setScheduleValue(toDateTimeLocalValue(getSchedulePresets()[0].date));
+                    }
+                    setShowSchedule(!showSchedule);
+                  }}
+                  disabled={isSending}
+                  className="flex items-center space-x-2"
+                >
+                  <Clock className="w-4 h-4" />
+                  <span>Send later</span>
+                </Button>
+
+                {showSchedule && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="absolute bottom-full left-0 mb-2 w-72 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-20 space-y-3"
+                  >
+                    <div className="space-y-1">
+                      {getSchedulePresets().map(preset => (
+                        <button
+                          key={preset.label}
+                          onClick={() => handleSend(preset.date)}
+                          className="w-full flex items-center justify-between px-3 py-2 text-sm text-left rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        >
+                          <span className="text-gray-900 dark:text-white">{preset.label}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatScheduledTime(preset.date.toISOString())}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-2">
+                      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400">
+                        Pick date &amp; time
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={scheduleValue}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setScheduleValue(e.target.value)}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <Button
+                        size="small"
+                        onClick={() => handleSend(new Date(scheduleValue))}
+                        disabled={isSending || !scheduleValue}
+                        className="w-full"
+                      >
+                        {isSending ? 'Scheduling...' : 'Schedule send'}
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </div>
+
               <label className="cursor-pointer">
                 <input
                   type="file"
@@ -0,0 +1,357 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence, easeOut } from 'framer-motion';
+import {
+  BookUser,
+  Download,
+  Edit3,
+  Info,
+  Mail,
+  Plus,
+  Save,
+  Search,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import Button from '@/components/ui/Button';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import { useContacts } from '@/hooks/useContacts';
+import {
+  contactLabel,
+  createContact,
+  deleteContact,
+  harvestContacts,
+  parseRecipients,
+  updateContact,
+  type Contact,
+  type ContactInput,
+} from '@/lib/contacts';
+import { formatTimeAgo } from '@/lib/navigation';
+import { toast } from '@/lib/toast';
+
+// Editor state; emails are edited as one comma-separated field
+interface ContactDraft {
+  name: string;
+  emails: string;
+  notes: string;
+}
+
+const emptyDraft: ContactDraft = { name: '', emails: '', notes: '' };
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+const toInput = (draft: ContactDraft): ContactInput => ({
+  name: draft.name,
+  emails: parseRecipients(draft.emails),
+  notes: draft.notes,
+});
+
+const matchesSearch = (contact: Contact, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [contact.name ?? '', contact.notes ?? '', ...contact.emails].some(value => value.toLowerCase().includes(q));
+};
+
+const ContactsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const contacts = useContacts();
+  const [search, setSearch] = useState('');
+  // undefined: editor closed, null: new contact
+  const [editingId, setEditingId] = useState<number | null | undefined>(undefined);
+  const [draft, setDraft] = useState<ContactDraft>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isHarvesting, setIsHarvesting] = useState(false);
+  const [contactToDelete, setContactToDelete] = useState<Contact | null>(null);
+
+  const visible = useMemo(() => contacts.filter(c => matchesSearch(c, search)), [contacts, search]);
+
+  const showError = (err: unknown, fallback: string) => {
+    const errors = (err as { errors?: Record<string, string> })?.errors;
+    const detail = errors ? Object.values(errors)[0] : undefined;
+    toast.error(detail || (err instanceof Error ? err.message : fallback));
+  };
+
+  const openEditor = (contact?: Contact) => {
+    setEditingId(contact ? contact.id : null);
+    setDraft(contact
+      ? { name: contact.name ?? '', emails: contact.emails.join(', '), notes: contact.notes ?? '' }
+      : emptyDraft);
+  };
+
+  const closeEditor = () => {
+    setEditingId(undefined);
+    setDraft(emptyDraft);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await updateContact(editingId, toInput(draft));
+        toast.success('Contact updated');
+      } else {
+        await createContact(toInput(draft));
+        toast.success('Contact created');
+      }
+      closeEditor();
+    } catch (err: unknown) {
+      showError(err, 'Failed to save contact');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!contactToDelete) return;
+    try {
+      await deleteContact(contactToDelete.id);
+      if (editingId === contactToDelete.id) closeEditor();
+      toast.success('Contact deleted');
+    } catch (err: unknown) {
+      showError(err, 'Failed to delete contact');
+    } finally {
+      setContactToDelete(null);
+    }
+  };
+
+  const handleHarvest = async () => {
+    try {
+      setIsHarvesting(true);
+      const created = await harvestContacts();
+      toast.success(created > 0 ? `Added ${created} contact(s) from your mail` : 'No new contacts found');
+    } catch (err: unknown) {
+      showError(err, 'Failed to import contacts');
+    } finally {
+      setIsHarvesting(false);
+    }
+  };
+
+  const pageVariants = {
+    initial: { opacity: 0, y: 20 },
+    animate: {
+      opacity: 1,
+      y: 0,
+      transition: {
+        duration: 0.4,
+        ease: easeOut
+      }
+    },
+  };
+
+  const itemVariants = {
+    initial: { opacity: 0, x: -20 },
+    animate: { opacity: 1, x: 0, transition: { duration: 0.3, ease: easeOut } },
+    exit: { opacity: 0, x: -20, height: 0, transition: { duration: 0.2, ease: easeOut } },
+  };
+
+  const editor = (
+    <form onSubmit={handleSave} className="space-y-3 p-4 bg-gray-50 dark:bg-gray-900/40">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Jane Doe"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email addresses *</label>
+          <input
+            type="text"
+            value={draft.emails}
+            onChange={e => setDraft({ ...draft, emails: e.target.value })}
+            placeholder="jane@example.com, jane@work.example"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+        <textarea
+          value={draft.notes}
+          onChange={e => setDraft({ ...draft, notes: e.target.value })}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="small" onClick={closeEditor} className="flex items-center space-x-1">
+          <X className="w-3.5 h-3.5" />
+          <span>Cancel</span>
+        </Button>
+        <Button type="submit" size="small" disabled={isSaving || parseRecipients(draft.emails).length === 0} className="flex items-center space-x-1">
+          <Save className="w-3.5 h-3.5" />
+          <span>{editingId ? 'Save' : 'Add contact'}</span>
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <motion.div
+      className="max-w-6xl mx-auto"
+      variants={pageVariants}
+      initial="initial"
+      animate="animate"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="border-b border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center space-x-3">
+              <BookUser className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Contacts
+              </h1>
+              {contacts.length > 0 && (
+                <span className="px-2.5 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium rounded-full">
+                  {contacts.length}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={handleHarvest}
+                disabled={isHarvesting}
+                className="flex items-center space-x-2"
+              >
+                <Download className={`w-4 h-4 ${isHarvesting ? 'animate-pulse' : ''}`} />
+                <span>Import from mail</span>
+              </Button>
+              <Button onClick={() => openEditor()} className="flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>New contact</span>
+              </Button>
+            </div>
+          </div>
+
+          <div className="relative mb-4">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search contacts"
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+
+          {/* Info Banner */}
+          <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 text-sm text-blue-700 dark:text-blue-300">
+            <div className="flex items-center space-x-2">
+              <Info className="w-4 h-4 shrink-0" />
+              <span>People you write to and receive mail from are added automatically. Compose suggests the ones you mail most often and most recently first.</span>
+            </div>
+          </div>
+        </div>
+
+        {editingId === null && <div className="border-b border-gray-200 dark:border-gray-700">{editor}</div>}
+
+        {/* Empty State */}
+        {visible.length === 0 && (
+          <div className="p-12 text-center">
+            <div className="flex flex-col items-center space-y-4">
+              <BookUser className="w-16 h-16 text-gray-300 dark:text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                {contacts.length === 0 ? 'No contacts yet' : 'No matching contacts'}
+              </h3>
+              {contacts.length === 0 && (
+                <p className="text-gray-500 dark:text-gray-400">
+                  Add a contact, or import the people from your sent and received mail.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Contact List */}
+        {visible.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            <AnimatePresence mode="popLayout">
+              {visible.map((contact) => (
+                <motion.div
+                  key={contact.id}
+                  variants={itemVariants}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  layout
+                >
+                  {editingId === contact.id ? editor : (
+                    <div className="p-4 flex items-start justify-between gap-4">
+                      <div className="flex items-start space-x-3 flex-1 min-w-0">
+                        <div className="h-10 w-10 shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white font-medium">
+                          {contactLabel(contact).charAt(0).toUpperCase()}
+                        </div>
+                        <div className="min-w-0">
+                          <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                            {contactLabel(contact)}
+                          </h3>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                            {contact.emails.join(', ')}
+                          </p>
+                          {contact.notes && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2 mt-1">{contact.notes}</p>
+                          )}
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {contact.sentCount} sent · {contact.receivedCount} received
+                            {contact.lastContactedAt && ` · last ${formatTimeAgo(new Date(contact.lastContactedAt))}`}
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Actions */}
+                      <div className="flex items-center space-x-2 shrink-0">
+                        <Button
+                          size="small"
+                          variant="outline"
+                          onClick={() => navigate('/compose', { state: { to: contact.emails[0] } })}
+                          className="flex items-center space-x-1"
+                        >
+                          <Mail className="w-3.5 h-3.5" />
+                          <span>Email</span>
+                        </Button>
+                        <button
+                          onClick={() => openEditor(contact)}
+                          className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setContactToDelete(contact)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={contactToDelete !== null}
+        onCancel={() => setContactToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Contact"
+        message="The contact is removed from your address book and won't be added again from your mail."
+        confirmLabel="Delete"
+        variant="danger"
+      />
+    </motion.div>
+  );
+};
+
+export default ContactsPage;
@@ -18,10 +18,9 @@ import Button from '@/components/ui/Button';
 import ConfirmDialog from '@/components/common/ConfirmDialog';
 import {
   getAllDrafts,
-  deleteDraft,
-  deleteDrafts,
   type EmailDraft,
 } from '@/lib/db';
+import { DRAFTS_UPDATED_EVENT, removeDrafts, syncDrafts } from '@/lib/draftSync';
 import { toast } from '@/lib/toast';
 
 const DraftsPage: React.FC = () => {
@@ -60,13 +59,19 @@ const DraftsPage: React.FC = () => {
     }
   }, []);
 
-  // Initial load
+  // Initial load: local drafts first, then drafts saved on other devices
   useEffect(() => {
     isMountedRef.current = true;
     loadDrafts();
-    
+    syncDrafts().catch(err => console.warn('Draft sync failed:', err));
+
+    // Server-side changes (WebSocket sync_required for drafts)
+    const handleDraftsUpdated = () => { loadDrafts(); };
+    window.addEventListener(DRAFTS_UPDATED_EVENT, handleDraftsUpdated);
+
     return () => {
       isMountedRef.current = false;
+      window.removeEventListener(DRAFTS_UPDATED_EVENT, handleDraftsUpdated);
     };
   }, [loadDrafts]);
 
@@ -85,6 +90,11 @@ const DraftsPage: React.FC = () => {
   };
 
   const handleRefresh = async () => {
+    try {
+      await syncDrafts();
+    } catch (err: unknown) {
+      console.warn('Draft sync failed:', err);
+    }
     await loadDrafts();
     toast.success('Drafts refreshed');
   };
@@ -109,7 +119,7 @@ const DraftsPage: React.FC = () => {
     if (!draftToDelete) return;
     
     try {
-      await deleteDraft(draftToDelete);
+      await removeDrafts([draftToDelete]);
       setDrafts(prev => prev.filter(d => d.id !== draftToDelete));
       setSelectedDrafts(prev => prev.filter(id => id !== draftToDelete));
       toast.success('Draft deleted');
@@ -126,7 +136,7 @@ const DraftsPage: React.FC = () => {
     if (selectedDrafts.length === 0) return;
     
     try {
-      await deleteDrafts(selectedDrafts);
+      await removeDrafts(selectedDrafts);
       setDrafts(prev => prev.filter(d => !selectedDrafts.includes(d.id)));
       setSelectedDrafts([]);
       toast.success(`${selectedDrafts.length} draft${selectedDrafts.length > 1 ? 's' : ''} deleted`);
@@ -250,7 +260,7 @@ const DraftsPage: React.FC = () => {
           <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3 text-sm text-amber-700 dark:text-amber-300">
             <div className="flex items-center space-x-2">
               <Info className="w-4 h-4 shrink-0" />
-              <span>Drafts are saved locally in your browser. Once sent, they will be automatically removed.</span>
+              <span>Drafts are synced to your account and its Drafts folder. Once sent, they will be automatically removed.</span>
             </div>
           </div>
         </div>
@@ -1,14 +1,32 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Star, Archive, Trash2, Reply, Forward, MoreVertical, Paperclip, Clock, Send, Eye, Download } from 'lucide-react';
+import { ArrowLeft, Star, Archive, Trash2, Reply, Forward, MoreVertical, Paperclip, Clock, Send, Eye, Download, ReplyAll, X } from 'lucide-react';
 import Button from '@/components/ui/Button';
 import { useEmail, Email, inboxRecordToEmail } from '@/contexts/EmailContext';
 import { apiFetch } from '@/lib/apiFetch';
-import { getSentMailByThreadId, getInboxMailById } from '@/lib/db';
-import { injectEmailStyles, sanitizeEmailHtml, formatFileSize } from '@/lib/emailStyles';
+import { getSentMailByThreadId, getInboxMailById, updateMailLabels, type InboxMailRecord } from '@/lib/db';
+import { injectEmailStyles, sanitizeEmailHtml, formatFileSize, canPreviewFile } from '@/lib/emailStyles';
 import { toast } from '@/lib/toast';
+import { archiveMail, pushMailFlags } from '@/lib/mailActions';
+import { applyLabelChange, getLabelColor, userLabels } from '@/lib/labels';
+import { useLabels } from '@/hooks/useLabels';
+import LabelMenu from '@/components/email/LabelMenu';
+import { loadInboxMailBody } from '@/lib/mailBody';
+import {
+  blobToBase64,
+  canFetchInboxAttachments,
+  fetchInboxAttachment,
+  inboxAttachmentUrl,
+} from '@/lib/attachments';
 import AttachmentViewer, { AttachmentData } from '@/components/common/AttachmentViewer';
+import ConversationMessages from '@/components/email/ConversationMessages';
+import {
+  fetchConversation,
+  isAnchorMessage,
+  type ConversationAnchor,
+  type ConversationMessage,
+} from '@/lib/conversations';
 
 // Global map to track in-progress fetches - prevents duplicate API calls across mounts
 const fetchInProgress = new Map<string, Promise<SentMailDetail | null>>();
@@ -48,9 +66,15 @@ const EmailPage: React.FC = () => {
   const navigate = useNavigate();
   const { emails, markAsRead, toggleEmailStarred, deleteEmail } = useEmail();
   const [email, setEmail] = useState<Email | null>(null);
+  // Dexie record of a received mail (uid/mailbox are needed to fetch attachments)
+  const [inboxRecord, setInboxRecord] = useState<InboxMailRecord | null>(null);
+  const [loadingAttachment, setLoadingAttachment] = useState<number | null>(null);
   const [sentMail, setSentMail] = useState<SentMailDetail | null>(null);
+  // Other messages of the same conversation (received and sent), oldest first
+  const [conversation, setConversation] = useState<ConversationMessage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showActions, setShowActions] = useState(false);
+  const labels = useLabels();
   
   // Attachment viewer state
   const [selectedAttachment, setSelectedAttachment] = useState<AttachmentWithContent | null>(null);
@@ -239,13 +263,22 @@ const EmailPage: React.FC = () => {
     };
     
     const loadInboxMail = async (): Promise<Email | null> => {
-      // Try context first (already in memory)
+      let record = await getInboxMailById(id!);
+      // Synced mails carry only a snippet until they are opened
+      if (record?.bodyLoaded === false) {
+        try {
+          record = await loadInboxMailBody(record);
+        } catch (error) {
+          console.warn('Failed to load message body:', error);
+        }
+      }
+      if (!signal.aborted) setInboxRecord(record ?? null);
+      // Try context first (already in memory) unless it predates the body
       const found = emails.find(e => e.id === id);
-      if (found) return found;
+      if (found && (found.content || !record)) return found;
       // Fall back to Dexie (handles deep-links before context loads)
-      const record = await getInboxMailById(id!);
       if (record) return inboxRecordToEmail(record);
-      return null;
+      return found ?? null;
     };
     
     const loadEmail = async () => {
@@ -303,6 +336,41 @@ const EmailPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id, emailType, currentLoadId]);
 
+  // Load the rest of the conversation once the message itself is shown
+  const conversationAnchor = useMemo((): ConversationAnchor | null => {
+    if (emailType === 'sent') return sentMail ? { type: 'sent', threadId: sentMail.threadId } : null;
+    return inboxRecord ? { type: 'received', mail: inboxRecord } : null;
+  }, [emailType, sentMail, inboxRecord]);
+
+  useEffect(() => {
+    if (!conversationAnchor) return;
+    let cancelled = false;
+    fetchConversation(conversationAnchor).then(result => {
+      if (!cancelled) setConversation(result?.messages ?? []);
+    });
+    return () => {
+      cancelled = true;
+      setConversation([]);
+    };
+  }, [conversationAnchor]);
+
+  const { earlierMessages, laterMessages } = useMemo(() => {
+    const anchorIndex = conversationAnchor
+      ? conversation.findIndex(m => isAnchorMessage(m, conversationAnchor))
+      : -1;
+    if (anchorIndex < 0) return { earlierMessages: [], laterMessages: [] };
+    return {
+      earlierMessages: conversation.slice(0, anchorIndex),
+      laterMessages: conversation.slice(anchorIndex + 1),
+    };
+  }, [conversation, conversationAnchor]);
+
+  const conversationHeader = earlierMessages.length + laterMessages.length > 0 && (
+    <p className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+      Conversation &middot; {earlierMessages.length + laterMessages.length + 1} messages
+    </p>
+  );
+
   const handleGoBack = () => {
     navigate(-1);
   };
@@ -314,6 +382,18 @@ const EmailPage: React.FC = () => {
     }
   };
 
+  const handleLabels = async (add: string[], remove: string[]) => {
+    if (!inboxRecord) return;
+    setInboxRecord({ ...inboxRecord, labels: applyLabelChange(inboxRecord.labels, add, remove) });
+    try {
+      await updateMailLabels([inboxRecord.id], add, remove);
+      const result = await pushMailFlags([inboxRecord], { addLabels: add, removeLabels: remove });
+      if (result === 'queued') toast.info('Labels updated (server update queued)');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update labels');
+    }
+  };
+
   const handleDelete = () => {
     if (email) {
       deleteEmail(email.id);
@@ -322,46 +402,19 @@ const EmailPage: React.FC = () => {
     // TODO: Implement delete for sent mails
   };
 
-  const handleReply = () => {
-    if (sentMail) {
-      navigate('/compose', { 
-        state: { 
-          type: 'reply', 
-          originalEmail: {
-            subject: sentMail.subject,
-            senderEmail: sentMail.toEmails[0], // reply goes to original recipient
-            fromEmail: sentMail.fromEmail,
-            toEmails: sentMail.toEmails,
-            htmlBody: sentMail.htmlBody,
-            textBody: sentMail.textBody,
-            sentAt: sentMail.sentAt,
-          }
-        } 
-      });
-    } else if (email) {
-      navigate('/compose', { 
-        state: { 
-          type: 'reply', 
-          originalEmail: {
-            subject: email.subject,
-            sender: email.sender,
-            senderName: email.senderName,
-            senderEmail: email.senderEmail,
-            recipient: email.recipient,
-            content: email.content,
-            time: email.time,
-            timestamp: email.timestamp,
-          }
-        } 
-      });
-    }
-  };
+  // Received mail attachments (content streamed from the server)
+  const inboxAttachments = inboxRecord?.attachmentsMetadata ?? [];
+  const canFetchAttachments = inboxRecord ? canFetchInboxAttachments(inboxRecord) : false;
 
-  const handleForward = () => {
+  /**
+   * Open Compose for a reply, reply-all or forward. Compose works out the
+   * recipients (Reply-To, own addresses) and sends the threading headers.
+   */
+  const openCompose = (type: 'reply' | 'replyAll' | 'forward') => {
     if (sentMail) {
-      navigate('/compose', { 
-        state: { 
-          type: 'forward', 
+      navigate('/compose', {
+        state: {
+          type,
           originalEmail: {
             subject: sentMail.subject,
             fromEmail: sentMail.fromEmail,
@@ -369,13 +422,21 @@ const EmailPage: React.FC = () => {
             htmlBody: sentMail.htmlBody,
             textBody: sentMail.textBody,
             sentAt: sentMail.sentAt,
+            messageId: sentMail.messageId,
+            replySource: {
+              fromAddress: sentMail.fromEmail,
+              toAddresses: sentMail.toEmails,
+              ccAddresses: sentMail.cc,
+            },
+            // Sent mail keeps its attachment content locally, so a forward can reuse it
+            attachments: sentMail.attachmentsMetadata?.filter(a => a.content) ?? [],
           }
-        } 
+        }
       });
     } else if (email) {
-      navigate('/compose', { 
-        state: { 
-          type: 'forward', 
+      navigate('/compose', {
+        state: {
+          type,
           originalEmail: {
             subject: email.subject,
             sender: email.sender,
@@ -385,21 +446,41 @@ const EmailPage: React.FC = () => {
             content: email.content,
             time: email.time,
             timestamp: email.timestamp,
+            messageId: inboxRecord?.messageId ?? null,
+            replySource: {
+              fromAddress: email.senderEmail,
+              replyTo: inboxRecord?.replyTo ?? null,
+              toAddresses: inboxRecord?.toAddresses ?? (email.recipient ? [email.recipient] : []),
+              ccAddresses: inboxRecord?.ccAddresses ?? null,
+            },
+            // Received attachments are fetched from IMAP by the server when forwarding
+            forwardSource: inboxRecord && canFetchAttachments ? {
+              accountCode: inboxRecord.accountId,
+              mailbox: inboxRecord.mailbox || 'INBOX',
+              uid: inboxRecord.uid,
+              attachments: inboxAttachments,
+            } : null,
           }
-        } 
+        }
       });
     }
   };
 
+  const handleReply = () => openCompose('reply');
+  const handleReplyAll = () => openCompose('replyAll');
+  const handleForward = () => openCompose('forward');
+
   const handleArchive = async () => {
-    // Archive works on local DB only — does not affect mail server
+    // Moves to the server's \Archive folder when there is one, otherwise archives locally
     if (email) {
       try {
-        const { archiveInboxMail } = await import('@/lib/db');
-        await archiveInboxMail(email.id);
-        toast.success('Email archived');
+        const record = await getInboxMailById(email.id);
+        if (record) {
+          const result = await archiveMail(record);
+          toast.success(result === 'queued' ? 'Email archived (server update queued)' : 'Email archived');
+        }
       } catch {
-        toast.error('Failed to archive email');
+        toast.error('Failed to archive email on the server');
       }
     }
     navigate(-1);
@@ -469,6 +550,56 @@ const EmailPage: React.FC = () => {
     }
   };
 
+  // ── Received mail attachments (content streamed from the server) ──
+
+  const imageAttachmentIndexes = inboxAttachments
+    .map((a, index) => (a.contentType.startsWith('image/') ? index : -1))
+    .filter(index => index >= 0);
+
+  const loadInboxAttachment = async (index: number): Promise<AttachmentData> => {
+    const meta = inboxAttachments[index];
+    const blob = await fetchInboxAttachment(inboxRecord!, index);
+    return {
+      filename: meta.filename,
+      contentType: meta.contentType || blob.type,
+      size: meta.size || blob.size,
+      content: await blobToBase64(blob),
+    };
+  };
+
+  const handlePreviewInboxAttachment = async (index: number) => {
+    if (!inboxRecord) return;
+    setLoadingAttachment(index);
+    try {
+      if (imageAttachmentIndexes.includes(index)) {
+        // Images open as a gallery of every image attachment
+        const images = await Promise.all(imageAttachmentIndexes.map(loadInboxAttachment));
+        setInlineImages(images);
+        setSelectedImageIndex(imageAttachmentIndexes.indexOf(index));
+        setSelectedAttachment(null);
+      } else {
+        setSelectedAttachment(await loadInboxAttachment(index));
+      }
+      setShowAttachmentViewer(true);
+    } catch (error) {
+      console.error('Error loading attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load attachment');
+    } finally {
+      setLoadingAttachment(null);
+    }
+  };
+
+  const handleDownloadInboxAttachment = (index: number) => {
+    if (!inboxRecord) return;
+    // The server sends Content-Disposition: attachment, so the browser streams it to disk
+    const link = document.createElement('a');
+    link.href = inboxAttachmentUrl(inboxRecord, index, { download: true });
+    link.download = inboxAttachments[index]?.filename || '';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   // Close attachment viewer
   const handleCloseAttachmentViewer = () => {
     setShowAttachmentViewer(false);
@@ -566,6 +697,14 @@ const EmailPage: React.FC = () => {
             </div>
           </motion.div>
 
+          {/* Earlier messages in the conversation */}
+          {conversationHeader}
+          {earlierMessages.length > 0 && (
+            <div className="mb-4">
+              <ConversationMessages messages={earlierMessages} />
+            </div>
+          )}
+
           {/* Sent Email Content */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -707,6 +846,10 @@ const EmailPage: React.FC = () => {
                   <Reply size={16} />
                   Reply
                 </Button>
+                <Button variant="outline" onClick={handleReplyAll} className="flex items-center gap-2">
+                  <ReplyAll size={16} />
+                  Reply All
+                </Button>
                 <Button variant="outline" onClick={handleForward} className="flex items-center gap-2">
                   <Forward size={16} />
                   Forward
@@ -714,6 +857,13 @@ const EmailPage: React.FC = () => {
               </div>
             </div>
           </motion.div>
+
+          {/* Later messages in the conversation */}
+          {laterMessages.length > 0 && (
+            <div className="mt-4">
+              <ConversationMessages messages={laterMessages} />
+            </div>
+          )}
         </div>
 
         {/* Attachment Viewer Modal - for regular attachments */}
@@ -790,6 +940,15 @@ const EmailPage: React.FC = () => {
               >
                 <Reply size={18} />
               </Button>
+
+              <Button
+                variant="ghost"
+                size="small"
+                onClick={handleReplyAll}
+                className="text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <ReplyAll size={18} />
+              </Button>
               
               <Button
                 variant="ghost"
@@ -800,6 +959,14 @@ const EmailPage: React.FC = () => {
                 <Forward size={18} />
               </Button>
 
+              {inboxRecord && (
+                <LabelMenu
+                  labels={labels}
+                  mailLabels={[inboxRecord.labels]}
+                  onChange={handleLabels}
+                />
+              )}
+
               <div className="relative">
                 <Button
                   variant="ghost"
@@ -840,6 +1007,14 @@ const EmailPage: React.FC = () => {
           </div>
         </motion.div>
 
+        {/* Earlier messages in the conversation */}
+        {conversationHeader}
+        {earlierMessages.length > 0 && (
+          <div className="mb-4">
+            <ConversationMessages messages={earlierMessages} />
+          </div>
+        )}
+
         {/* Email Content */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -858,6 +1033,25 @@ const EmailPage: React.FC = () => {
                   <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
                     {email.subject}
                   </h1>
+                  {userLabels(inboxRecord?.labels).length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {userLabels(inboxRecord?.labels).map(label => (
+                        <span
+                          key={label}
+                          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${getLabelColor(label, labels).chip}`}
+                        >
+                          {label}
+                          <button
+                            onClick={() => handleLabels([], [label])}
+                            className="opacity-60 hover:opacity-100"
+                            title={`Remove label "${label}"`}
+                          >
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
                     <div className="flex items-center gap-1">
                       <span className="text-gray-500">From:</span>
@@ -894,7 +1088,7 @@ const EmailPage: React.FC = () => {
                   Attachments ({email.attachments.length})
                 </h3>
                 <div className="space-y-2">
-                  {email.attachments.map((attachment) => (
+                  {email.attachments.map((attachment, index) => (
                     <div
                       key={attachment.id}
                       className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
@@ -912,10 +1106,57 @@ const EmailPage: React.FC = () => {
                           </p>
                         </div>
                       </div>
-                      <span className="text-xs text-gray-400 italic">Stored on server</span>
+                      {canFetchAttachments ? (
+                        <div className="flex items-center gap-2">
+                          {canPreviewFile(attachment.type) && (
+                            <Button
+                              variant="outline"
+                              size="small"
+                              onClick={() => handlePreviewInboxAttachment(index)}
+                              disabled={loadingAttachment !== null}
+                              className="flex items-center gap-1"
+                            >
+                              <Eye size={14} className={loadingAttachment === index ? 'animate-pulse' : ''} />
+                              Open
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="small"
+                            onClick={() => handleDownloadInboxAttachment(index)}
+                            className="flex items-center gap-1"
+                          >
+                            <Download size={14} />
+                            Download
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400 italic">Stored on server</span>
+                      )}
                     </div>
                   ))}
                 </div>
+
+                {/* Image attachments as a thumbnail gallery */}
+                {canFetchAttachments && imageAttachmentIndexes.length > 0 && (
+                  <div className="mt-3 grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {imageAttachmentIndexes.map(index => (
+                      <button
+                        key={index}
+                        onClick={() => handlePreviewInboxAttachment(index)}
+                        className="aspect-square overflow-hidden rounded-lg bg-gray-100 dark:bg-gray-700 hover:ring-2 hover:ring-blue-400"
+                        title={inboxAttachments[index].filename}
+                      >
+                        <img
+                          src={inboxAttachmentUrl(inboxRecord!, index)}
+                          alt={inboxAttachments[index].filename}
+                          loading="lazy"
+                          className="w-full h-full object-cover"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -935,6 +1176,15 @@ const EmailPage: React.FC = () => {
                   {email.content}
                 </div>
               </div>
+            ) : inboxRecord?.bodyLoaded === false ? (
+              <div className="space-y-2">
+                {inboxRecord.snippet && (
+                  <p className="text-gray-700 dark:text-gray-300">{inboxRecord.snippet}…</p>
+                )}
+                <p className="text-sm text-gray-400 dark:text-gray-500 italic">
+                  The full message could not be downloaded. Check your connection and open it again.
+                </p>
+              </div>
             ) : (
               <div className="text-center py-8 text-gray-400 dark:text-gray-500 italic">
                 (No content)
@@ -950,6 +1200,10 @@ const EmailPage: React.FC = () => {
                   <Reply size={16} />
                   Reply
                 </Button>
+                <Button variant="outline" onClick={handleReplyAll} className="flex items-center gap-2">
+                  <ReplyAll size={16} />
+                  Reply All
+                </Button>
                 <Button variant="outline" onClick={handleForward} className="flex items-center gap-2">
                   <Forward size={16} />
                   Forward
@@ -968,6 +1222,38 @@ const EmailPage: React.FC = () => {
             </div>
           </div>
         </motion.div>
+
+        {/* Later messages in the conversation */}
+        {laterMessages.length > 0 && (
+          <div className="mt-4">
+            <ConversationMessages messages={laterMessages} />
+          </div>
+        )}
+
+        {/* Attachment Viewer Modal - for downloaded attachments */}
+        {selectedAttachment && showAttachmentViewer && (
+          <AttachmentViewer
+            attachments={[{
+              filename: selectedAttachment.filename,
+              contentType: selectedAttachment.contentType,
+              content: selectedAttachment.content || '',
+              size: selectedAttachment.size
+            }]}
+            initialIndex={0}
+            isOpen={showAttachmentViewer}
+            onClose={handleCloseAttachmentViewer}
+          />
+        )}
+
+        {/* Attachment Viewer Modal - image gallery (inline or attached images) */}
+        {!selectedAttachment && inlineImages.length > 0 && showAttachmentViewer && (
+          <AttachmentViewer
+            attachments={inlineImages}
+            initialIndex={selectedImageIndex}
+            isOpen={showAttachmentViewer}
+            onClose={handleCloseAttachmentViewer}
+          />
+        )}
       </div>
     </div>
   );
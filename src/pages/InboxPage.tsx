@@ -18,27 +18,41 @@ import {
   Download,
   Eye,
   EyeOff,
+  FolderInput,
 } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import Button from '@/components/ui/Button';
 import ConfirmDialog from '@/components/common/ConfirmDialog';
+import LabelMenu from '@/components/email/LabelMenu';
 import {
   getInboxMailsPaginated,
   searchInboxMails,
   deleteInboxMails,
-  updateMailReadStatus,
-  updateMailStarredStatus,
   upsertInboxMails,
   trimInboxToLimit,
   clearAccountInbox,
   getHighestUid,
   getExistingMailIds,
+  updateMailLabels,
   type InboxMailRecord,
 } from '@/lib/db';
 import { useEmail } from '@/contexts/EmailContext';
 import { apiFetch } from '@/lib/apiFetch';
+import { pushMailDeletion, pushMailFlags, moveMails } from '@/lib/mailActions';
+import { applyLabelChange, getColorClasses, getLabelColor, hasLabel, userLabels } from '@/lib/labels';
+import { useLabels } from '@/hooks/useLabels';
+import {
+  folderRoute,
+  getCachedFolders,
+  getFolderDisplayName,
+  getFolderIcon,
+  isInboxPath,
+  MAIL_DRAG_TYPE,
+  type MailDragPayload,
+} from '@/lib/folders';
 import { toast } from '@/lib/toast';
 import { isMobileTabletWidth } from '@/lib/navigation';
+import { ALL_ACCOUNTS, getAccountColor, syncAllAccounts } from '@/lib/unifiedInbox';
 
 // ── Types ────────────────────────────────────────────────────────────────
 
@@ -50,14 +64,27 @@ interface EmailAccount {
   incomingType?: 'IMAP' | 'POP3';
 }
 
-type FilterMode = 'all' | 'unread' | 'read' | 'starred' | 'attachments';
+type FilterMode = 'all' | 'unread' | 'read' | 'starred' | 'attachments' | `label:${string}`;
+
+/** Dropdown entry for the unified inbox, which merges the INBOX of every account */
+const ALL_ACCOUNTS_ENTRY: EmailAccount = { id: ALL_ACCOUNTS, email: 'All accounts', accountCode: ALL_ACCOUNTS };
+
+/** Dexie account filter for the selected entry; null reads every account */
+const accountFilter = (account: EmailAccount): string | null =>
+  account.accountCode === ALL_ACCOUNTS ? null : account.accountCode;
+
+/** Server search steps: the index of synced mail, then IMAP SEARCH for 6 months, 12 months, all time */
+const SERVER_SEARCH_DONE = 4;
 
 interface ServerMailData {
   id?: string | number;
   uid: number;
+  accountCode?: string;
   mailbox?: string;
   message_id?: string;
   messageId?: string;
+  reply_to?: string[] | null;
+  replyTo?: string[] | null;
   from_address?: string;
   fromAddress?: string;
   from_name?: string;
@@ -73,6 +100,9 @@ interface ServerMailData {
   htmlBody?: string;
   text_body?: string;
   textBody?: string;
+  snippet?: string | null;
+  body_loaded?: boolean;
+  bodyLoaded?: boolean;
   date?: string;
   is_read?: boolean;
   isRead?: boolean;
@@ -87,12 +117,20 @@ interface ServerMailData {
   createdAt?: string;
 }
 
+/** Dexie id for a mail the server has not cached yet (INBOX ids keep the old format) */
+const localMailId = (accountCode: string, mailbox: string, uid: number): string =>
+  isInboxPath(mailbox) ? `${accountCode}:${uid}` : `${accountCode}:${mailbox}:${uid}`;
+
 // ── Component ────────────────────────────────────────────────────────────
 
 const InboxPage: React.FC = () => {
   const navigate = useNavigate();
-  const { refreshEmails, toggleEmailStarred } = useEmail();
+  // /inbox shows INBOX; /folder/:accountCode/:mailbox browses any IMAP folder
+  const { accountCode: routeAccountCode, mailbox: routeMailbox } = useParams();
+  const mailbox = routeMailbox || 'INBOX';
+  const { refreshEmails, starEmail, unstarEmail, markAsRead, markAsUnread } = useEmail();
   const isMobile = isMobileTabletWidth();
+  const labels = useLabels();
 
   // Data
   const [mails, setMails] = useState<InboxMailRecord[]>([]);
@@ -109,6 +147,8 @@ const InboxPage: React.FC = () => {
   const [selectedAccount, setSelectedAccount] = useState<EmailAccount | null>(null);
   const [showAccountDropdown, setShowAccountDropdown] = useState(false);
   const accountDropdownRef = useRef<HTMLDivElement>(null);
+  const isUnified = selectedAccount?.accountCode === ALL_ACCOUNTS;
+  const accountCodes = useMemo(() => accounts.map(a => a.accountCode), [accounts]);
 
   // UI state
   const [isLoading, setIsLoading] = useState(true);
@@ -122,10 +162,14 @@ const InboxPage: React.FC = () => {
   const filterRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
+  // Accounts that failed the last unified sync
+  const [accountErrors, setAccountErrors] = useState<{ email: string; error: string }[]>([]);
 
   // Selection & delete
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [mailToDelete, setMailToDelete] = useState<InboxMailRecord | null>(null);
+  const [showMoveMenu, setShowMoveMenu] = useState(false);
+  const moveMenuRef = useRef<HTMLDivElement>(null);
 
   // Server-side search (progressive depth: 0=local only, 1=6mo, 2=12mo, 3=all)
   const [serverSearchDepth, setServerSearchDepth] = useState(0);
@@ -152,6 +196,7 @@ const InboxPage: React.FC = () => {
     if (!selectedAccount) return;
     const state = {
       accountCode: selectedAccount.accountCode,
+      mailbox,
       currentPage,
       filterMode,
       searchQuery,
@@ -159,7 +204,7 @@ const InboxPage: React.FC = () => {
       scrollY: window.scrollY,
     };
     sessionStorage.setItem(INBOX_STATE_KEY, JSON.stringify(state));
-  }, [selectedAccount, currentPage, filterMode, searchQuery, showSearchBar]);
+  }, [selectedAccount, mailbox, currentPage, filterMode, searchQuery, showSearchBar]);
 
   // ── Load accounts ────────────────────────────────────────────────────
 
@@ -170,14 +215,24 @@ const InboxPage: React.FC = () => {
         const parsed: EmailAccount[] = JSON.parse(emailAccountsStr);
         setAccounts(parsed);
 
+        // A folder route always names its account
+        const routeMatch = routeAccountCode
+          ? parsed.find(a => a.accountCode === routeAccountCode)
+          : undefined;
+
         // Try to restore previously-selected account from sessionStorage
+        // (only when returning to the same mailbox)
         let restored = false;
         const savedRaw = sessionStorage.getItem(INBOX_STATE_KEY);
         if (savedRaw) {
           try {
             const saved = JSON.parse(savedRaw);
-            const match = parsed.find(a => a.accountCode === saved.accountCode);
-            if (match) {
+            const match = saved.accountCode === ALL_ACCOUNTS && parsed.length > 1
+              ? ALL_ACCOUNTS_ENTRY
+              : parsed.find(a => a.accountCode === saved.accountCode);
+            const sameView = (saved.mailbox ?? 'INBOX') === mailbox
+              && (!routeMatch || routeMatch.accountCode === match?.accountCode);
+            if (match && sameView) {
               setSelectedAccount(match);
               setCurrentPage(saved.currentPage ?? 1);
               setFilterMode(saved.filterMode ?? 'all');
@@ -193,14 +248,15 @@ const InboxPage: React.FC = () => {
         }
 
         if (!restored) {
-          const primary = parsed.find(a => a.isPrimary) || parsed[0] || null;
-          setSelectedAccount(primary);
+          const primary = routeMatch || parsed.find(a => a.isPrimary) || parsed[0] || null;
+          setSelectedAccount(prev => (prev?.accountCode === primary?.accountCode ? prev : primary));
         }
       }
     } catch (err) {
       console.error('[InboxPage] Error loading email accounts:', err);
     }
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- mailbox changes are handled by loadMails; only the route's account re-selects
+  }, [routeAccountCode]);
 
   // Close dropdowns on outside click
   useEffect(() => {
@@ -211,6 +267,9 @@ const InboxPage: React.FC = () => {
       if (filterRef.current && !filterRef.current.contains(e.target as Node)) {
         setShowFilterMenu(false);
       }
+      if (moveMenuRef.current && !moveMenuRef.current.contains(e.target as Node)) {
+        setShowMoveMenu(false);
+      }
     };
     document.addEventListener('mousedown', handler);
     return () => document.removeEventListener('mousedown', handler);
@@ -230,7 +289,7 @@ const InboxPage: React.FC = () => {
     try {
       setIsLoading(true);
       setError(null);
-      const result = await getInboxMailsPaginated(selectedAccount.accountCode, page, limit);
+      const result = await getInboxMailsPaginated(accountFilter(selectedAccount), page, limit, mailbox);
       setMails(result.mails);
       setTotal(result.total);
       setTotalPages(result.totalPages);
@@ -250,9 +309,9 @@ const InboxPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedAccount, limit]);
+  }, [selectedAccount, mailbox, limit]);
 
-  // Load mails when account changes
+  // Load mails when account or mailbox changes
   useEffect(() => {
     if (selectedAccount) {
       // If this is the initial mount and we restored state, load the
@@ -297,7 +356,7 @@ const InboxPage: React.FC = () => {
     try {
       setMobileLoadingMore(!reset);
       if (reset) setIsLoading(true);
-      const result = await getInboxMailsPaginated(selectedAccount.accountCode, page, limit);
+      const result = await getInboxMailsPaginated(accountFilter(selectedAccount), page, limit, mailbox);
       if (reset) {
         setMobileMails(result.mails);
       } else {
@@ -312,7 +371,7 @@ const InboxPage: React.FC = () => {
       setMobileLoadingMore(false);
       setIsLoading(false);
     }
-  }, [selectedAccount, limit]);
+  }, [selectedAccount, mailbox, limit]);
 
   // Intersection observer for mobile scroll-to-load
   useEffect(() => {
@@ -341,8 +400,10 @@ const InboxPage: React.FC = () => {
     const handleNewMail = (e: Event) => {
       const detail = (e as CustomEvent).detail;
       console.info('[InboxPage] New mail notification:', detail);
-      // Auto-refresh if the event matches the selected account
-      if (!detail?.accountCode || detail.accountCode === selectedAccount?.accountCode) {
+      // Auto-refresh if the event matches the selected account (any, when unified) and mailbox
+      const eventMailbox = detail?.mailbox || 'INBOX';
+      const eventAccount = !detail?.accountCode || isUnified || detail.accountCode === selectedAccount?.accountCode;
+      if (eventAccount && eventMailbox === mailbox) {
         if (isMobile) loadMobileMails(true);
         else loadMails(currentPage);
         toast.info(detail?.count === 1
@@ -356,15 +417,29 @@ const InboxPage: React.FC = () => {
       setCacheLimitRaw(newLimit);
     };
 
+    // Mails dragged onto a folder in the Sidebar/Flowbar
+    const handleMailsMoved = (e: Event) => {
+      const detail = (e as CustomEvent).detail;
+      if (!isUnified && detail?.accountCode !== selectedAccount?.accountCode) return;
+      const moved: string[] = detail?.ids || [];
+      setSelectedIds(prev => prev.filter(id => !moved.includes(id)));
+      if (searchResults) setSearchResults(prev => prev ? prev.filter(m => !moved.includes(m.id)) : prev);
+      if (isMobile) loadMobileMails(true);
+      else loadMails(currentPage);
+      refreshEmails();
+    };
+
     window.addEventListener('inbox:sync-complete', handleSyncComplete);
     window.addEventListener('inbox:new-mail', handleNewMail);
     window.addEventListener('settings:updated', handleSettingsUpdated);
+    window.addEventListener('inbox:mails-moved', handleMailsMoved);
     return () => {
       window.removeEventListener('inbox:sync-complete', handleSyncComplete);
       window.removeEventListener('inbox:new-mail', handleNewMail);
       window.removeEventListener('settings:updated', handleSettingsUpdated);
+      window.removeEventListener('inbox:mails-moved', handleMailsMoved);
     };
-  }, [isMobile, currentPage, selectedAccount, loadMails, loadMobileMails]);
+  }, [isMobile, currentPage, selectedAccount, isUnified, mailbox, searchResults, loadMails, loadMobileMails, refreshEmails]);
 
   // ── Refresh on tab visibility ────────────────────────────────────────
 
@@ -408,13 +483,14 @@ const InboxPage: React.FC = () => {
    * Handles both camelCase and snake_case for robustness.
    */
   const mapServerMailToRecord = useCallback((m: ServerMailData, accountCode: string): InboxMailRecord => ({
-    id: String(m.id ?? `${accountCode}:${m.uid}`),
+    id: String(m.id ?? localMailId(accountCode, m.mailbox || 'INBOX', m.uid)),
     uid: m.uid,
     accountId: accountCode,
     mailbox: m.mailbox || 'INBOX',
     messageId: m.message_id || m.messageId || undefined,
     fromAddress: m.from_address || m.fromAddress || '',
     fromName: m.from_name || m.fromName || '',
+    replyTo: m.reply_to || m.replyTo || undefined,
     toAddresses: Array.isArray(m.to_addresses || m.toAddresses)
       ? (m.to_addresses || m.toAddresses) as string[]
       : [m.to_addresses?.[0] || m.toAddresses?.[0] || ''],
@@ -427,6 +503,8 @@ const InboxPage: React.FC = () => {
     subject: m.subject || '(No Subject)',
     htmlBody: m.html_body || m.htmlBody || null,
     textBody: m.text_body || m.textBody || null,
+    snippet: m.snippet ?? null,
+    bodyLoaded: m.body_loaded ?? m.bodyLoaded,
     date: m.date || new Date().toISOString(),
     isRead: m.is_read ?? m.isRead ?? false,
     isStarred: m.is_starred ?? m.isStarred ?? false,
@@ -437,42 +515,65 @@ const InboxPage: React.FC = () => {
     createdAt: m.created_at || m.createdAt || m.date || new Date().toISOString(),
   }), []);
 
+  /** Fetch new mail of one account into Dexie; returns how many mails arrived */
+  const syncAccount = useCallback(async (accountCode: string): Promise<number> => {
+    // Use sinceUid for incremental sync — only fetch new mails
+    const highestUid = await getHighestUid(accountCode, mailbox);
+
+    const response = await apiFetch('/api/inbox/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        accountCode,
+        mailbox,
+        sinceUid: highestUid > 0 ? highestUid : undefined,
+      }),
+    });
+
+    const fetchedMails = response?.data?.mails || response?.mails || [];
+    if (fetchedMails.length === 0) return 0;
+
+    const records = fetchedMails.map((m: ServerMailData) => mapServerMailToRecord(m, accountCode));
+    await upsertInboxMails(records);
+
+    // Enforce local cache limit — keep only latest N mails per account + mailbox
+    const cacheLimit = parseInt(localStorage.getItem('inbox_cache_limit') || '15', 10);
+    const trimmed = await trimInboxToLimit(accountCode, cacheLimit, mailbox);
+    if (trimmed > 0) {
+      console.log(`[InboxPage] Trimmed ${trimmed} old mails of ${accountCode} from local cache`);
+    }
+    return records.length;
+  }, [mailbox, mapServerMailToRecord]);
+
   const handleSync = useCallback(async () => {
     if (!selectedAccount || isSyncing) return;
     try {
       setIsSyncing(true);
       setError(null);
-
-      // Use sinceUid for incremental sync — only fetch new mails
-      const highestUid = await getHighestUid(selectedAccount.accountCode);
-
-      const response = await apiFetch('/api/inbox/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accountCode: selectedAccount.accountCode,
-          sinceUid: highestUid > 0 ? highestUid : undefined,
-        }),
-      });
-
-      const fetchedMails = response?.data?.mails || response?.mails || [];
-
-      if (fetchedMails.length > 0) {
-        const records = fetchedMails.map((m: ServerMailData) =>
-          mapServerMailToRecord(m, selectedAccount.accountCode)
-        );
-
-        await upsertInboxMails(records);
-
-        // Enforce local cache limit — keep only latest N mails per account
-        const cacheLimit = parseInt(localStorage.getItem('inbox_cache_limit') || '15', 10);
-        const trimmed = await trimInboxToLimit(selectedAccount.accountCode, cacheLimit);
-        if (trimmed > 0) {
-          console.log(`[InboxPage] Trimmed ${trimmed} old mails from local cache`);
+      setAccountErrors([]);
+
+      let synced = 0;
+      let failed = 0;
+      if (isUnified) {
+        // Every account at once; a failing server doesn't hold up the others
+        const results = await syncAllAccounts(accounts, acc => syncAccount(acc.accountCode));
+        const errors = results.filter(r => !r.ok).map(r => ({
+          email: accounts.find(a => a.accountCode === r.accountCode)?.email ?? r.accountCode,
+          error: r.error || 'Failed to sync emails from server',
+        }));
+        synced = results.reduce((sum, r) => sum + (r.value ?? 0), 0);
+        failed = errors.length;
+        setAccountErrors(errors);
+        if (failed > 0) {
+          toast.error(`${failed} of ${results.length} accounts could not be synced`);
         }
-
-        toast.success(`Synced ${records.length} email${records.length !== 1 ? 's' : ''}`);
       } else {
+        synced = await syncAccount(selectedAccount.accountCode);
+      }
+
+      if (synced > 0) {
+        toast.success(`Synced ${synced} email${synced !== 1 ? 's' : ''}`);
+      } else if (failed === 0) {
         toast.info('No new emails');
       }
 
@@ -491,14 +592,15 @@ const InboxPage: React.FC = () => {
     } finally {
       setIsSyncing(false);
     }
-  }, [selectedAccount, isSyncing, currentPage, isMobile, loadMails, loadMobileMails, refreshEmails, mapServerMailToRecord]);
+  }, [selectedAccount, isUnified, accounts, isSyncing, currentPage, isMobile, loadMails, loadMobileMails, refreshEmails, syncAccount]);
 
   // ── Refresh from Mail Server (full re-fetch, replaces all emails) ────
 
   const [isRefreshingFromServer, setIsRefreshingFromServer] = useState(false);
 
   const handleRefreshFromServer = useCallback(async () => {
-    if (!selectedAccount || isRefreshingFromServer) return;
+    // Replacing every account's cache at once is too heavy; it's per account only
+    if (!selectedAccount || isUnified || isRefreshingFromServer) return;
     try {
       setIsRefreshingFromServer(true);
       setError(null);
@@ -507,13 +609,13 @@ const InboxPage: React.FC = () => {
       const response = await apiFetch('/api/inbox/sync', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ accountCode: selectedAccount.accountCode }),
+        body: JSON.stringify({ accountCode: selectedAccount.accountCode, mailbox }),
       });
 
       const fetchedMails = response?.data?.mails || response?.mails || [];
 
-      // Clear local Dexie data for this account, then insert fresh data
-      await clearAccountInbox(selectedAccount.accountCode);
+      // Clear local Dexie data for this account + mailbox, then insert fresh data
+      await clearAccountInbox(selectedAccount.accountCode, mailbox);
 
       if (fetchedMails.length > 0) {
         const records = fetchedMails.map((m: ServerMailData) =>
@@ -522,7 +624,7 @@ const InboxPage: React.FC = () => {
         await upsertInboxMails(records);
 
         const cacheLimit = parseInt(localStorage.getItem('inbox_cache_limit') || '15', 10);
-        await trimInboxToLimit(selectedAccount.accountCode, cacheLimit);
+        await trimInboxToLimit(selectedAccount.accountCode, cacheLimit, mailbox);
 
         toast.success(`Refreshed ${records.length} email${records.length !== 1 ? 's' : ''} from server`);
       } else {
@@ -544,7 +646,7 @@ const InboxPage: React.FC = () => {
     } finally {
       setIsRefreshingFromServer(false);
     }
-  }, [selectedAccount, isRefreshingFromServer, currentPage, isMobile, loadMails, loadMobileMails, refreshEmails, mapServerMailToRecord]);
+  }, [selectedAccount, isUnified, mailbox, isRefreshingFromServer, currentPage, isMobile, loadMails, loadMobileMails, refreshEmails, mapServerMailToRecord]);
 
   // ── Search ───────────────────────────────────────────────────────────
 
@@ -564,7 +666,8 @@ const InboxPage: React.FC = () => {
       setServerSearchInfo(null);
       const results = await searchInboxMails(
         query,
-        selectedAccount?.accountCode
+        selectedAccount ? accountFilter(selectedAccount) ?? undefined : undefined,
+        mailbox
       );
       setSearchResults(results);
     } catch (err) {
@@ -572,7 +675,7 @@ const InboxPage: React.FC = () => {
     } finally {
       setIsSearching(false);
     }
-  }, [selectedAccount]);
+  }, [selectedAccount, mailbox]);
 
   // Debounced search
   useEffect(() => {
@@ -585,22 +688,29 @@ const InboxPage: React.FC = () => {
   const handleServerSearch = useCallback(async () => {
     if (!selectedAccount || !searchQuery.trim() || isServerSearching) return;
 
-    // Determine sinceMonths based on current depth
-    const depthMap: Record<number, number> = { 0: 6, 1: 12, 2: 0 }; // 0 = all time
-    const nextDepth = serverSearchDepth + 1;
+    // Step 0 searches the server's index of synced mail; the next steps run
+    // IMAP SEARCH over a widening date range (0 = all time)
+    const depthMap: Record<number, number> = { 1: 6, 2: 12, 3: 0 };
+    const isIndexSearch = serverSearchDepth === 0;
+    // POP3 has no IMAP SEARCH, the index is all there is. IMAP SEARCH runs
+    // against one account, so the unified inbox stops at the index too.
+    const nextDepth = isIndexSearch && (isUnified || selectedAccount.incomingType === 'POP3')
+      ? SERVER_SEARCH_DONE
+      : serverSearchDepth + 1;
     const sinceMonths = depthMap[serverSearchDepth] ?? 0;
 
     try {
       setIsServerSearching(true);
       setServerSearchInfo(null);
 
-      const response = await apiFetch('/api/inbox/search', {
+      const response = await apiFetch(isIndexSearch ? '/api/inbox/search/indexed' : '/api/inbox/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          accountCode: selectedAccount.accountCode,
+          accountCode: isUnified ? undefined : selectedAccount.accountCode,
           query: searchQuery.trim(),
           sinceMonths,
+          mailbox,
         }),
       });
 
@@ -611,30 +721,41 @@ const InboxPage: React.FC = () => {
       if (protocol === 'POP3') {
         setServerSearchInfo('Server search is not available for POP3 accounts');
         toast.info('Server search is not supported for POP3 accounts');
-        setServerSearchDepth(3); // Prevent further clicks
+        setServerSearchDepth(SERVER_SEARCH_DONE); // Prevent further clicks
         return;
       }
 
       if (serverMails.length > 0) {
+        // Unified results come from several accounts
+        const accountOf = (m: ServerMailData): string =>
+          isUnified && m.accountCode ? m.accountCode : selectedAccount.accountCode;
+
         // Look up existing Dexie IDs so we upsert over the same primary key
-        const uids = serverMails.map((m: ServerMailData) => m.uid);
-        const existingIds = await getExistingMailIds(selectedAccount.accountCode, uids);
+        const existingIds = new Map<string, string>();
+        for (const code of new Set<string>(serverMails.map(accountOf))) {
+          const uids = serverMails.filter((m: ServerMailData) => accountOf(m) === code).map((m: ServerMailData) => m.uid);
+          const ids = await getExistingMailIds(code, uids, mailbox);
+          ids.forEach((id, uid) => existingIds.set(`${code}:${uid}`, id));
+        }
 
         // Convert to InboxMailRecord and upsert into Dexie (local-only storage)
         const records: InboxMailRecord[] = serverMails.map((m: ServerMailData) => ({
-          id: existingIds.get(m.uid) ?? `${selectedAccount.accountCode}:${m.uid}`,
+          id: existingIds.get(`${accountOf(m)}:${m.uid}`) ?? localMailId(accountOf(m), mailbox, m.uid),
           uid: m.uid,
-          accountId: selectedAccount.accountCode,
-          mailbox: m.mailbox || 'INBOX',
+          accountId: accountOf(m),
+          mailbox: m.mailbox || mailbox,
           messageId: m.messageId || null,
           fromAddress: m.fromAddress || '',
           fromName: m.fromName || '',
+          replyTo: m.replyTo || undefined,
           toAddresses: m.toAddresses || [],
           ccAddresses: m.ccAddresses || [],
           bccAddresses: m.bccAddresses || [],
           subject: m.subject || '(No Subject)',
           htmlBody: m.htmlBody || null,
           textBody: m.textBody || null,
+          snippet: m.snippet ?? null,
+          bodyLoaded: m.bodyLoaded,
           date: m.date || new Date().toISOString(),
           isRead: m.isRead ?? false,
           isStarred: m.isStarred ?? false,
@@ -650,14 +771,14 @@ const InboxPage: React.FC = () => {
         await upsertInboxMails(records);
 
         // Re-run local search to merge new results
-        const merged = await searchInboxMails(searchQuery, selectedAccount.accountCode);
+        const merged = await searchInboxMails(searchQuery, accountFilter(selectedAccount) ?? undefined, mailbox);
         setSearchResults(merged);
 
-        const rangeLabel = sinceMonths === 6 ? 'last 6 months' : sinceMonths === 12 ? 'last 12 months' : 'all time';
+        const rangeLabel = isIndexSearch ? 'synced mail' : sinceMonths === 6 ? 'last 6 months' : sinceMonths === 12 ? 'last 12 months' : 'all time';
         setServerSearchInfo(`Found ${serverMails.length} result${serverMails.length !== 1 ? 's' : ''} on server (${rangeLabel})`);
         toast.success(`Found ${serverMails.length} email${serverMails.length !== 1 ? 's' : ''} on server`);
       } else {
-        const rangeLabel = sinceMonths === 6 ? 'last 6 months' : sinceMonths === 12 ? 'last 12 months' : 'all time';
+        const rangeLabel = isIndexSearch ? 'synced mail' : sinceMonths === 6 ? 'last 6 months' : sinceMonths === 12 ? 'last 12 months' : 'all time';
         setServerSearchInfo(`No additional results on server (${rangeLabel})`);
         toast.info(`No matches found on server (${rangeLabel})`);
       }
@@ -671,7 +792,7 @@ const InboxPage: React.FC = () => {
     } finally {
       setIsServerSearching(false);
     }
-  }, [selectedAccount, searchQuery, serverSearchDepth, isServerSearching]);
+  }, [selectedAccount, isUnified, mailbox, searchQuery, serverSearchDepth, isServerSearching]);
 
   // ── Filter logic ─────────────────────────────────────────────────────
 
@@ -681,7 +802,8 @@ const InboxPage: React.FC = () => {
       case 'read': return items.filter(m => m.isRead);
       case 'starred': return items.filter(m => m.isStarred);
       case 'attachments': return items.filter(m => m.hasAttachments);
-      default: return items;
+      case 'all': return items;
+      default: return items.filter(m => hasLabel(m.labels, filterMode.slice('label:'.length)));
     }
   }, [filterMode]);
 
@@ -696,14 +818,14 @@ const InboxPage: React.FC = () => {
 
   const handleStarToggle = async (e: React.MouseEvent, mail: InboxMailRecord) => {
     e.stopPropagation();
-    await updateMailStarredStatus(mail.id, !mail.isStarred);
     // Update local state
     const updater = (prev: InboxMailRecord[]) =>
       prev.map(m => m.id === mail.id ? { ...m, isStarred: !m.isStarred } : m);
     setMails(updater);
     setMobileMails(updater);
     if (searchResults) setSearchResults(prev => prev ? updater(prev) : prev);
-    toggleEmailStarred(mail.id);
+    // Persists to Dexie and writes \Flagged back to the server
+    await (mail.isStarred ? unstarEmail(mail.id) : starEmail(mail.id));
   };
 
   const handleMailClick = (mail: InboxMailRecord) => {
@@ -713,12 +835,13 @@ const InboxPage: React.FC = () => {
 
   const handleReadToggle = async (e: React.MouseEvent, mail: InboxMailRecord) => {
     e.stopPropagation();
-    await updateMailReadStatus(mail.id, !mail.isRead);
     const updater = (prev: InboxMailRecord[]) =>
       prev.map(m => m.id === mail.id ? { ...m, isRead: !m.isRead } : m);
     setMails(updater);
     setMobileMails(updater);
     if (searchResults) setSearchResults(prev => prev ? updater(prev) : prev);
+    // Persists to Dexie and writes \Seen back to the server
+    await (mail.isRead ? markAsUnread(mail.id) : markAsRead(mail.id));
   };
 
   const confirmDelete = async () => {
@@ -729,7 +852,8 @@ const InboxPage: React.FC = () => {
       setMobileMails(prev => prev.filter(m => m.id !== mailToDelete.id));
       if (searchResults) setSearchResults(prev => prev ? prev.filter(m => m.id !== mailToDelete.id) : prev);
       setTotal(prev => prev - 1);
-      toast.success('Email deleted');
+      const result = await pushMailDeletion([mailToDelete]);
+      toast.success(result === 'queued' ? 'Email deleted (server update queued)' : 'Email deleted');
       await refreshEmails();
     } catch (_err) {
       toast.error('Failed to delete email');
@@ -741,18 +865,77 @@ const InboxPage: React.FC = () => {
   const handleBulkDelete = async () => {
     if (selectedIds.length === 0) return;
     try {
+      const selectedMails = [...mails, ...mobileMails, ...(searchResults ?? [])]
+        .filter((m, i, all) => selectedIds.includes(m.id) && all.findIndex(x => x.id === m.id) === i);
       await deleteInboxMails(selectedIds);
       setMails(prev => prev.filter(m => !selectedIds.includes(m.id)));
       setMobileMails(prev => prev.filter(m => !selectedIds.includes(m.id)));
       setTotal(prev => prev - selectedIds.length);
       setSelectedIds([]);
-      toast.success(`Deleted ${selectedIds.length} email(s)`);
+      const result = await pushMailDeletion(selectedMails);
+      toast.success(result === 'queued'
+        ? `Deleted ${selectedIds.length} email(s) (server update queued)`
+        : `Deleted ${selectedIds.length} email(s)`);
       await refreshEmails();
     } catch (_err) {
       toast.error('Failed to delete emails');
     }
   };
 
+  const handleBulkMove = async (destination: string) => {
+    if (selectedIds.length === 0) return;
+    setShowMoveMenu(false);
+    const ids = [...selectedIds];
+    const selectedMails = [...mails, ...mobileMails, ...(searchResults ?? [])]
+      .filter((m, i, all) => ids.includes(m.id) && all.findIndex(x => x.id === m.id) === i);
+    const name = getFolderDisplayName(destination, moveTargets.find(f => f.path === destination)?.delimiter);
+    try {
+      const result = await moveMails(selectedMails, destination);
+      setMails(prev => prev.filter(m => !ids.includes(m.id)));
+      setMobileMails(prev => prev.filter(m => !ids.includes(m.id)));
+      if (searchResults) setSearchResults(prev => prev ? prev.filter(m => !ids.includes(m.id)) : prev);
+      setTotal(prev => prev - ids.length);
+      setSelectedIds([]);
+      toast.success(result === 'queued'
+        ? `Moved ${ids.length} email(s) to ${name} (server update queued)`
+        : `Moved ${ids.length} email(s) to ${name}`);
+      await refreshEmails();
+    } catch (_err) {
+      toast.error(`Failed to move emails to ${name}`);
+    }
+  };
+
+  const handleBulkLabels = async (add: string[], remove: string[]) => {
+    const ids = [...selectedIds];
+    const selectedMails = [...mails, ...mobileMails, ...(searchResults ?? [])]
+      .filter((m, i, all) => ids.includes(m.id) && all.findIndex(x => x.id === m.id) === i);
+    const updater = (prev: InboxMailRecord[]) =>
+      prev.map(m => ids.includes(m.id) ? { ...m, labels: applyLabelChange(m.labels, add, remove) } : m);
+    setMails(updater);
+    setMobileMails(updater);
+    if (searchResults) setSearchResults(prev => prev ? updater(prev) : prev);
+    const what = add.length > 0 ? `Labelled ${ids.length} email(s) "${add[0]}"` : `Removed "${remove[0]}" from ${ids.length} email(s)`;
+    try {
+      await updateMailLabels(ids, add, remove);
+      const result = await pushMailFlags(selectedMails, { addLabels: add, removeLabels: remove });
+      toast.success(result === 'queued' ? `${what} (server update queued)` : what);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update labels');
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, mail: InboxMailRecord) => {
+    if (!selectedAccount) return;
+    // Dragging a selected mail drags the whole selection, as far as it belongs
+    // to the same account (the unified inbox mixes accounts)
+    const ids = selectedIds.includes(mail.id)
+      ? selectedIds.filter(id => displayMails.find(m => m.id === id)?.accountId === mail.accountId)
+      : [mail.id];
+    const payload: MailDragPayload = { accountCode: mail.accountId, ids };
+    e.dataTransfer.setData(MAIL_DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     loadMails(page);
@@ -761,6 +944,7 @@ const InboxPage: React.FC = () => {
     if (selectedAccount) {
       const state = {
         accountCode: selectedAccount.accountCode,
+        mailbox,
         currentPage: page,
         filterMode,
         searchQuery,
@@ -785,6 +969,7 @@ const InboxPage: React.FC = () => {
   };
 
   const getPreview = (mail: InboxMailRecord): string => {
+    if (mail.snippet) return mail.snippet.substring(0, 120);
     if (mail.textBody) return mail.textBody.substring(0, 120);
     if (mail.htmlBody) {
       const div = document.createElement('div');
@@ -802,7 +987,48 @@ const InboxPage: React.FC = () => {
     { value: 'read', label: 'Read', icon: <Eye className="w-3.5 h-3.5" /> },
     { value: 'starred', label: 'Starred', icon: <Star className="w-3.5 h-3.5" /> },
     { value: 'attachments', label: 'Has Attachments', icon: <Paperclip className="w-3.5 h-3.5" /> },
+    ...labels.map(l => ({
+      value: `label:${l.name}` as FilterMode,
+      label: l.name,
+      icon: <span className={`w-2.5 h-2.5 mx-0.5 rounded-full ${getColorClasses(l.color).dot}`} />,
+    })),
   ];
+  // A label filter restored from the session may name a label that's gone since
+  const filterLabel = filterOptions.find(f => f.value === filterMode)?.label ?? filterMode.replace(/^label:/, '');
+
+  /** Label chips of a mail; clicking one filters by it */
+  const renderLabels = (mail: InboxMailRecord) => userLabels(mail.labels).map(name => (
+    <button
+      key={name}
+      onClick={e => { e.stopPropagation(); setFilterMode(`label:${name}`); }}
+      className={`text-[10px] px-1.5 py-0.5 rounded shrink-0 max-w-24 truncate ${getLabelColor(name, labels).chip}`}
+      title={`Show mail labelled ${name}`}
+    >
+      {name}
+    </button>
+  ));
+
+  // ── Folder title ─────────────────────────────────────────────────────
+
+  const cachedFolder = selectedAccount && !isUnified
+    ? getCachedFolders(selectedAccount.accountCode).find(f => f.path === mailbox)
+    : undefined;
+  const folderTitle = getFolderDisplayName(mailbox, cachedFolder?.delimiter);
+  const folderIcon = getFolderIcon({ path: mailbox, specialUse: cachedFolder?.specialUse ?? null });
+  // Folders belong to one account, so the unified inbox only moves by dragging onto the folder tree
+  const moveTargets = selectedAccount && !isUnified && selectedAccount.incomingType !== 'POP3'
+    ? getCachedFolders(selectedAccount.accountCode).filter(f => f.selectable && f.path !== mailbox)
+    : [];
+
+  /** Coloured dot and address of the mail's account, in the unified inbox only */
+  const renderAccountBadge = (mail: InboxMailRecord, variant: 'dot' | 'badge') => {
+    if (!isUnified) return null;
+    const color = getAccountColor(mail.accountId, accountCodes);
+    const email = accounts.find(a => a.accountCode === mail.accountId)?.email ?? mail.accountId;
+    return variant === 'dot'
+      ? <span className={`w-2 h-2 rounded-full shrink-0 ${color.dot}`} title={email} />
+      : <span className={`hidden lg:inline text-[10px] px-1.5 py-0.5 rounded shrink-0 max-w-40 truncate ${color.badge}`}>{email}</span>;
+  };
 
   // ── Animation variants ───────────────────────────────────────────────
 
@@ -825,9 +1051,9 @@ const InboxPage: React.FC = () => {
         <div className="border-b border-gray-200 dark:border-gray-700 p-4 sm:p-6">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-3">
-              <Inbox className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+              {React.createElement(folderIcon, { className: 'w-6 h-6 text-blue-600 dark:text-blue-400' })}
               <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
-                Inbox
+                {folderTitle}
               </h1>
               {total > 0 && (
                 <span className="bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs px-2 py-0.5 rounded-full">
@@ -859,7 +1085,7 @@ const InboxPage: React.FC = () => {
                 disabled={isSyncing || isRefreshingFromServer || !selectedAccount}
                 className="flex items-center gap-2"
                 size="small"
-                title="Incremental sync — fetch new emails"
+                title={isUnified ? 'Incremental sync — fetch new emails of every account' : 'Incremental sync — fetch new emails'}
               >
                 <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
                 <span className="hidden sm:inline">{isSyncing ? 'Syncing…' : 'Sync'}</span>
@@ -867,10 +1093,12 @@ const InboxPage: React.FC = () => {
               <Button
                 variant="outline"
                 onClick={handleRefreshFromServer}
-                disabled={isRefreshingFromServer || isSyncing || !selectedAccount}
+                disabled={isRefreshingFromServer || isSyncing || !selectedAccount || isUnified}
                 className="flex items-center gap-2"
                 size="small"
-                title="Full re-fetch — replaces all emails from mail server"
+                title={isUnified
+                  ? 'Select a single account to reload it from the mail server'
+                  : 'Full re-fetch — replaces all emails from mail server'}
               >
                 <Download className={`w-4 h-4 ${isRefreshingFromServer ? 'animate-bounce' : ''}`} />
                 <span className="hidden sm:inline">{isRefreshingFromServer ? 'Refreshing…' : 'Reload'}</span>
@@ -887,7 +1115,9 @@ const InboxPage: React.FC = () => {
                   onClick={() => setShowAccountDropdown(v => !v)}
                   className="flex items-center gap-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors w-full sm:w-auto min-w-45"
                 >
-                  <Mail className="w-4 h-4 text-gray-400 shrink-0" />
+                  {isUnified
+                    ? <Inbox className="w-4 h-4 text-gray-400 shrink-0" />
+                    : <Mail className="w-4 h-4 text-gray-400 shrink-0" />}
                   <span className="truncate flex-1 text-left">
                     {selectedAccount?.email || 'Select account'}
                   </span>
@@ -902,12 +1132,36 @@ const InboxPage: React.FC = () => {
                       exit={{ opacity: 0, y: -4 }}
                       className="absolute z-20 mt-1 w-full sm:w-72 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg overflow-hidden"
                     >
+                      {/* The unified inbox has no folders, it's only offered on /inbox */}
+                      {accounts.length > 1 && !routeAccountCode && (
+                        <button
+                          onClick={() => {
+                            setShowAccountDropdown(false);
+                            setAccountErrors([]);
+                            setSelectedAccount(ALL_ACCOUNTS_ENTRY);
+                          }}
+                          className={`w-full text-left px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center gap-2 border-b border-gray-100 dark:border-gray-600 ${
+                            isUnified
+                              ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+                              : 'text-gray-700 dark:text-gray-200'
+                          }`}
+                        >
+                          <Inbox className="w-4 h-4 shrink-0" />
+                          <span className="truncate">{ALL_ACCOUNTS_ENTRY.email}</span>
+                        </button>
+                      )}
                       {accounts.map(acc => (
                         <button
                           key={acc.id}
                           onClick={() => {
-                            setSelectedAccount(acc);
                             setShowAccountDropdown(false);
+                            setAccountErrors([]);
+                            // Folders belong to one account — switching account opens its INBOX
+                            if (routeAccountCode && acc.accountCode !== routeAccountCode) {
+                              navigate(folderRoute(acc.accountCode, 'INBOX'));
+                              return;
+                            }
+                            setSelectedAccount(acc);
                           }}
                           className={`w-full text-left px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center gap-2 ${
                             selectedAccount?.id === acc.id
@@ -917,6 +1171,9 @@ const InboxPage: React.FC = () => {
                         >
                           <Mail className="w-4 h-4 shrink-0" />
                           <span className="truncate">{acc.email}</span>
+                          {accounts.length > 1 && !routeAccountCode && (
+                            <span className={`w-2 h-2 rounded-full shrink-0 ${getAccountColor(acc.accountCode, accountCodes).dot}`} />
+                          )}
                           {acc.isPrimary && (
                             <span className="ml-auto text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded">
                               Primary
@@ -943,7 +1200,7 @@ const InboxPage: React.FC = () => {
               >
                 <Filter className="w-4 h-4" />
                 <span className="hidden sm:inline">
-                  {filterMode === 'all' ? 'Filter' : filterOptions.find(f => f.value === filterMode)?.label}
+                  {filterMode === 'all' ? 'Filter' : filterLabel}
                 </span>
                 {filterMode !== 'all' && (
                   <button
@@ -961,7 +1218,7 @@ const InboxPage: React.FC = () => {
                     initial={{ opacity: 0, y: -4 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -4 }}
-                    className="absolute right-0 z-20 mt-1 w-48 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg overflow-hidden"
+                    className="absolute right-0 z-20 mt-1 w-48 max-h-80 overflow-y-auto bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg"
                   >
                     {filterOptions.map(opt => (
                       <button
@@ -1002,7 +1259,8 @@ const InboxPage: React.FC = () => {
                     type="text"
                     value={searchQuery}
                     onChange={e => setSearchQuery(e.target.value)}
-                    placeholder="Search cached emails by subject, sender, body…"
+                    placeholder="Search cached emails — try from:alice, is:unread, has:attachment, after:2024-01-01…"
+                    title="Operators: from: to: subject: has:attachment is:unread|read|starred before: after: in: &quot;exact phrase&quot; -exclude OR"
                     className="w-full pl-10 pr-10 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white text-sm"
                     onKeyDown={e => {
                       if (e.key === 'Escape') {
@@ -1050,6 +1308,45 @@ const InboxPage: React.FC = () => {
                   {selectedIds.length} selected
                 </span>
                 <div className="flex items-center gap-2">
+                  {moveTargets.length > 0 && (
+                    <div className="relative" ref={moveMenuRef}>
+                      <Button
+                        variant="outline"
+                        size="small"
+                        onClick={() => setShowMoveMenu(v => !v)}
+                        className="flex items-center gap-1"
+                      >
+                        <FolderInput className="w-4 h-4" />
+                        <span>Move to…</span>
+                      </Button>
+                      <AnimatePresence>
+                        {showMoveMenu && (
+                          <motion.div
+                            initial={{ opacity: 0, y: -4 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -4 }}
+                            className="absolute right-0 z-20 mt-1 w-56 max-h-72 overflow-y-auto bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg"
+                          >
+                            {moveTargets.map(folder => (
+                              <button
+                                key={folder.path}
+                                onClick={() => handleBulkMove(folder.path)}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors flex items-center gap-2"
+                              >
+                                {React.createElement(getFolderIcon(folder), { className: 'w-4 h-4 shrink-0' })}
+                                <span className="truncate">{folder.parentPath ? folder.path : getFolderDisplayName(folder.path)}</span>
+                              </button>
+                            ))}
+                          </motion.div>
+                        )}
+                      </AnimatePresence>
+                    </div>
+                  )}
+                  <LabelMenu
+                    labels={labels}
+                    mailLabels={displayMails.filter(m => selectedIds.includes(m.id)).map(m => m.labels)}
+                    onChange={handleBulkLabels}
+                  />
                   <Button
                     variant="outline"
                     size="small"
@@ -1083,6 +1380,23 @@ const InboxPage: React.FC = () => {
           </div>
         )}
 
+        {/* ── Per-account sync errors (unified inbox) ─────────────── */}
+        {accountErrors.length > 0 && (
+          <div className="px-4 py-3 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            <ul className="flex-1 space-y-0.5">
+              {accountErrors.map(({ email, error: message }) => (
+                <li key={email}>
+                  <span className="font-medium">{email}:</span> {message}
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => setAccountErrors([])} className="hover:text-red-900">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* ── No accounts ─────────────────────────────────────────── */}
         {accounts.length === 0 && !isLoading && (
           <div className="p-12 text-center">
@@ -1121,7 +1435,7 @@ const InboxPage: React.FC = () => {
           <div className="p-12 text-center">
             <Inbox className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-              {searchQuery ? 'No results found' : filterMode !== 'all' ? 'No matching emails' : 'Inbox is empty'}
+              {searchQuery ? 'No results found' : filterMode !== 'all' ? 'No matching emails' : `${folderTitle} is empty`}
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
               {searchQuery
@@ -1146,6 +1460,8 @@ const InboxPage: React.FC = () => {
               <div
                 key={mail.id}
                 onClick={() => handleMailClick(mail)}
+                draggable={isUnified || moveTargets.length > 0}
+                onDragStart={e => handleDragStart(e, mail)}
                 className={`
                   group px-4 py-3 cursor-pointer transition-colors
                   ${!mail.isRead ? 'bg-blue-50/50 dark:bg-blue-900/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}
@@ -1184,17 +1500,20 @@ const InboxPage: React.FC = () => {
                     {/* Desktop layout */}
                     <div className="hidden sm:grid sm:grid-cols-12 sm:gap-4 sm:items-baseline">
                       {/* Sender */}
-                      <div className="col-span-3 min-w-0">
+                      <div className="col-span-3 min-w-0 flex items-center gap-2">
+                        {renderAccountBadge(mail, 'dot')}
                         <p className={`text-sm truncate ${!mail.isRead ? 'font-semibold text-gray-900 dark:text-white' : 'font-medium text-gray-700 dark:text-gray-300'}`}>
                           {mail.fromName || mail.fromAddress}
                         </p>
                       </div>
                       {/* Subject + Preview */}
                       <div className="col-span-7 min-w-0 flex items-center gap-2">
+                        {renderAccountBadge(mail, 'badge')}
                         <p className={`text-sm truncate ${!mail.isRead ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
                           {mail.subject || '(No Subject)'}
                         </p>
                         {mail.hasAttachments && <Paperclip className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                        {renderLabels(mail)}
                         <span className="text-xs text-gray-400 dark:text-gray-500 truncate hidden lg:inline">
                           — {getPreview(mail)}
                         </span>
@@ -1226,9 +1545,12 @@ const InboxPage: React.FC = () => {
                     {/* Mobile layout */}
                     <div className="sm:hidden">
                       <div className="flex items-center justify-between mb-0.5">
-                        <p className={`text-sm truncate ${!mail.isRead ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
-                          {mail.fromName || mail.fromAddress}
-                        </p>
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          {renderAccountBadge(mail, 'dot')}
+                          <p className={`text-sm truncate ${!mail.isRead ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                            {mail.fromName || mail.fromAddress}
+                          </p>
+                        </div>
                         <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0 ml-2">
                           {formatDate(mail.date)}
                         </span>
@@ -1238,6 +1560,7 @@ const InboxPage: React.FC = () => {
                           {mail.subject || '(No Subject)'}
                         </p>
                         {mail.hasAttachments && <Paperclip className="w-3 h-3 text-gray-400 shrink-0" />}
+                        {renderLabels(mail)}
                       </div>
                       <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
                         {getPreview(mail)}
@@ -1311,14 +1634,14 @@ const InboxPage: React.FC = () => {
         )}
 
         {/* ── Search: progressive server search ─────────────────── */}
-        {searchQuery && searchResults !== null && selectedAccount?.incomingType !== 'POP3' && (
+        {searchQuery && searchResults !== null && selectedAccount && (
           <div className="border-t border-gray-200 dark:border-gray-700 p-4 text-center space-y-2">
             {serverSearchInfo && (
               <p className="text-xs text-gray-500 dark:text-gray-400">
                 {serverSearchInfo}
               </p>
             )}
-            {serverSearchDepth < 3 && (
+            {serverSearchDepth < SERVER_SEARCH_DONE && (
               <button
                 onClick={handleServerSearch}
                 disabled={isServerSearching}
@@ -1332,13 +1655,15 @@ const InboxPage: React.FC = () => {
                 {isServerSearching
                   ? 'Searching server…'
                   : serverSearchDepth === 0
-                    ? 'Search server (last 6 months)'
+                    ? 'Search synced mail on server'
                     : serverSearchDepth === 1
-                      ? 'Widen search (last 12 months)'
-                      : 'Search all time'}
+                      ? 'Search mail server (last 6 months)'
+                      : serverSearchDepth === 2
+                        ? 'Widen search (last 12 months)'
+                        : 'Search all time'}
               </button>
             )}
-            {serverSearchDepth >= 3 && (
+            {serverSearchDepth >= SERVER_SEARCH_DONE && (
               <p className="text-xs text-gray-400 dark:text-gray-500 italic">
                 All server emails searched
               </p>
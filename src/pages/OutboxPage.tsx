@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence, easeOut } from 'framer-motion';
+import {
+  MailWarning,
+  RefreshCw,
+  RotateCw,
+  AlertCircle,
+  Paperclip,
+  Mail,
+  Edit3,
+  Trash2,
+  Clock,
+  Info,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import Button from '@/components/ui/Button';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import {
+  discardOutboxMail,
+  editOutboxMail,
+  getOutbox,
+  retryOutboxMail,
+  type OutboxMail,
+} from '@/lib/outbox';
+import { formatScheduledTime } from '@/lib/scheduled';
+import { toast } from '@/lib/toast';
+
+const OutboxPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [mails, setMails] = useState<OutboxMail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [mailToDiscard, setMailToDiscard] = useState<string | null>(null);
+
+  // Track mount state
+  const isMountedRef = useRef(true);
+
+  /**
+   * Load failed sends from the server
+   */
+  const loadOutbox = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const outbox = await getOutbox();
+      if (isMountedRef.current) {
+        setMails(outbox);
+        setIsLoading(false);
+      }
+    } catch (err: unknown) {
+      console.error('Error loading outbox:', err);
+      if (isMountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load outbox');
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    loadOutbox();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [loadOutbox]);
+
+  // Reload shortly after the next automatic retry, so its outcome shows up
+  useEffect(() => {
+    const retryTimes = mails
+      .filter(mail => mail.nextRetryAt)
+      .map(mail => new Date(mail.nextRetryAt!).getTime());
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(Math.min(...retryTimes) - Date.now(), 0) + 10000;
+    const timer = setTimeout(() => { loadOutbox(); }, delay);
+    return () => clearTimeout(timer);
+  }, [mails, loadOutbox]);
+
+  const handleRefresh = async () => {
+    await loadOutbox();
+    toast.success('Outbox refreshed');
+  };
+
+  const handleRetry = async (id: string) => {
+    setBusyId(id);
+    try {
+      const updated = await retryOutboxMail(id);
+      setMails(prev => prev.map(mail => (mail.id === id ? updated : mail)));
+      toast.info('Retrying — the email will leave the outbox once it is sent');
+    } catch (err: unknown) {
+      console.error('Error retrying mail:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to retry');
+      loadOutbox();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEdit = async (id: string) => {
+    setBusyId(id);
+    try {
+      const draft = await editOutboxMail(id);
+      navigate('/compose', { state: { draftId: draft.id, fromDraft: true, draftData: draft } });
+    } catch (err: unknown) {
+      console.error('Error moving mail to drafts:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to open the mail for editing');
+      loadOutbox();
+      setBusyId(null);
+    }
+  };
+
+  const confirmDiscard = async () => {
+    if (!mailToDiscard) return;
+
+    try {
+      await discardOutboxMail(mailToDiscard);
+      setMails(prev => prev.filter(mail => mail.id !== mailToDiscard));
+      toast.success('Mail discarded');
+    } catch (err: unknown) {
+      console.error('Error discarding mail:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to discard');
+      loadOutbox();
+    } finally {
+      setMailToDiscard(null);
+    }
+  };
+
+  const pageVariants = {
+    initial: { opacity: 0, y: 20 },
+    animate: {
+      opacity: 1,
+      y: 0,
+      transition: {
+        duration: 0.4,
+        ease: easeOut
+      }
+    },
+  };
+
+  const itemVariants = {
+    initial: { opacity: 0, x: -20 },
+    animate: { opacity: 1, x: 0, transition: { duration: 0.3, ease: easeOut } },
+    exit: { opacity: 0, x: -20, height: 0, transition: { duration: 0.2, ease: easeOut } },
+  };
+
+  return (
+    <motion.div
+      className="max-w-6xl mx-auto"
+      variants={pageVariants}
+      initial="initial"
+      animate="animate"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="border-b border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <MailWarning className="w-6 h-6 text-red-600 dark:text-red-400" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Outbox
+              </h1>
+              {mails.length > 0 && (
+                <span className="px-2.5 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-sm font-medium rounded-full">
+                  {mails.length}
+                </span>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleRefresh}
+              disabled={isLoading}
+              className="flex items-center space-x-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </Button>
+          </div>
+
+          {/* Info Banner */}
+          <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-3 text-sm text-red-700 dark:text-red-300">
+            <div className="flex items-center space-x-2">
+              <Info className="w-4 h-4 shrink-0" />
+              <span>Emails that could not be sent. Temporary server errors are retried automatically; others need a retry or an edit.</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="p-6 text-center">
+            <div className="flex flex-col items-center space-y-3 text-red-500">
+              <AlertCircle className="w-12 h-12" />
+              <p>{error}</p>
+              <Button variant="outline" onClick={handleRefresh}>
+                Try Again
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && !error && mails.length === 0 && (
+          <div className="p-6 text-center">
+            <div className="flex flex-col items-center space-y-3">
+              <RefreshCw className="w-8 h-8 animate-spin text-red-500" />
+              <p className="text-gray-500 dark:text-gray-400">Loading outbox...</p>
+            </div>
+          </div>
+        )}
+
+        {/* Empty State */}
+        {!isLoading && !error && mails.length === 0 && (
+          <div className="p-12 text-center">
+            <div className="flex flex-col items-center space-y-4">
+              <MailWarning className="w-16 h-16 text-gray-300 dark:text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Outbox is empty</h3>
+              <p className="text-gray-500 dark:text-gray-400">
+                Emails that fail to send will appear here.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Outbox List */}
+        {!error && mails.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            <AnimatePresence mode="popLayout">
+              {mails.map((mail) => (
+                <motion.div
+                  key={mail.id}
+                  variants={itemVariants}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  layout
+                  className="p-4"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate mb-1">
+                        {mail.subject || '(No Subject)'}
+                      </h3>
+
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Mail className="w-3 h-3 text-gray-400" />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                          {mail.toEmails.join(', ')}
+                          <span className="text-gray-400"> · from {mail.fromEmail}</span>
+                        </span>
+                      </div>
+
+                      {mail.errorMessage && (
+                        <p className="text-sm text-red-600 dark:text-red-400 line-clamp-2">
+                          {mail.errorMessage}
+                        </p>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span>
+                          Failed {formatScheduledTime(mail.failedAt)}
+                          {mail.retryCount > 1 && ` · ${mail.retryCount} attempts`}
+                        </span>
+                        {mail.nextRetryAt ? (
+                          <span className="flex items-center text-amber-600 dark:text-amber-400">
+                            <Clock className="w-3 h-3 mr-1" />
+                            Retrying {new Date(mail.nextRetryAt).getTime() <= Date.now() ? 'now' : formatScheduledTime(mail.nextRetryAt)}
+                          </span>
+                        ) : (
+                          <span>No automatic retry</span>
+                        )}
+                        {mail.attachmentCount > 0 && (
+                          <span className="flex items-center">
+                            <Paperclip className="w-3 h-3 mr-1" />
+                            {mail.attachmentCount} attachment{mail.attachmentCount !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <Button
+                        size="small"
+                        onClick={() => handleRetry(mail.id)}
+                        disabled={busyId === mail.id}
+                        className="flex items-center space-x-1"
+                      >
+                        <RotateCw className="w-3.5 h-3.5" />
+                        <span>Retry now</span>
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="outline"
+                        onClick={() => handleEdit(mail.id)}
+                        disabled={busyId === mail.id}
+                        className="flex items-center space-x-1"
+                      >
+                        <Edit3 className="w-3.5 h-3.5" />
+                        <span>Edit</span>
+                      </Button>
+                      <button
+                        onClick={() => setMailToDiscard(mail.id)}
+                        disabled={busyId === mail.id}
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        title="Discard"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+
+      {/* Discard Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={mailToDiscard !== null}
+        onCancel={() => setMailToDiscard(null)}
+        onConfirm={confirmDiscard}
+        title="Discard Email"
+        message="This email will not be sent and will be removed from the outbox. This action cannot be undone."
+        confirmLabel="Discard"
+        variant="danger"
+      />
+    </motion.div>
+  );
+};
+
+export default OutboxPage;
@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence, easeOut } from 'framer-motion';
+import {
+  CalendarClock,
+  Clock,
+  RefreshCw,
+  AlertCircle,
+  Paperclip,
+  Mail,
+  Trash2,
+  Info,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import Button from '@/components/ui/Button';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import {
+  cancelScheduledMail,
+  formatScheduledTime,
+  getScheduledMails,
+  rescheduleMail,
+  toDateTimeLocalValue,
+  type ScheduledMail,
+} from '@/lib/scheduled';
+import { toast } from '@/lib/toast';
+
+const ScheduledPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [mails, setMails] = useState<ScheduledMail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [mailToCancel, setMailToCancel] = useState<string | null>(null);
+
+  // Track mount state
+  const isMountedRef = useRef(true);
+
+  /**
+   * Load scheduled mails from the server
+   */
+  const loadScheduled = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const scheduled = await getScheduledMails();
+      if (isMountedRef.current) {
+        setMails(scheduled);
+        setIsLoading(false);
+      }
+    } catch (err: unknown) {
+      console.error('Error loading scheduled mails:', err);
+      if (isMountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load scheduled mails');
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    loadScheduled();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [loadScheduled]);
+
+  // Reload shortly after the next mail is due, so sent mails drop off the list
+  useEffect(() => {
+    if (mails.length === 0) return;
+    const delay = Math.max(new Date(mails[0].scheduledAt).getTime() - Date.now(), 0) + 10000;
+    // setTimeout overflows past ~24.8 days; a later reload happens on the next visit
+    if (delay > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => { loadScheduled(); }, delay);
+    return () => clearTimeout(timer);
+  }, [mails, loadScheduled]);
+
+  const handleRefresh = async () => {
+    await loadScheduled();
+    toast.success('Scheduled mails refreshed');
+  };
+
+  const startEditing = (mail: ScheduledMail) => {
+    setEditingId(mail.id);
+    setEditValue(toDateTimeLocalValue(new Date(mail.scheduledAt)));
+  };
+
+  const handleReschedule = async (id: string) => {
+    const date = new Date(editValue);
+    if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      toast.error('Please pick a time in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await rescheduleMail(id, date);
+      setMails(prev =>
+        prev
+          .map(mail => (mail.id === id ? updated : mail))
+          .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+      );
+      setEditingId(null);
+      toast.success(`Rescheduled for ${formatScheduledTime(updated.scheduledAt)}`);
+    } catch (err: unknown) {
+      console.error('Error rescheduling mail:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to reschedule');
+      if ((err as { status?: number })?.status === 409) loadScheduled();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmCancel = async () => {
+    if (!mailToCancel) return;
+
+    try {
+      await cancelScheduledMail(mailToCancel);
+      setMails(prev => prev.filter(mail => mail.id !== mailToCancel));
+      toast.success('Scheduled mail cancelled');
+    } catch (err: unknown) {
+      console.error('Error cancelling scheduled mail:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel');
+      loadScheduled();
+    } finally {
+      setMailToCancel(null);
+    }
+  };
+
+  const getPreviewText = (mail: ScheduledMail) => {
+    const text = (mail.textBody || '').trim();
+    if (text.length > 100) {
+      return text.substring(0, 100) + '...';
+    }
+    return text || '(No content)';
+  };
+
+  const pageVariants = {
+    initial: { opacity: 0, y: 20 },
+    animate: {
+      opacity: 1,
+      y: 0,
+      transition: {
+        duration: 0.4,
+        ease: easeOut
+      }
+    },
+  };
+
+  const itemVariants = {
+    initial: { opacity: 0, x: -20 },
+    animate: { opacity: 1, x: 0, transition: { duration: 0.3, ease: easeOut } },
+    exit: { opacity: 0, x: -20, height: 0, transition: { duration: 0.2, ease: easeOut } },
+  };
+
+  return (
+    <motion.div
+      className="max-w-6xl mx-auto"
+      variants={pageVariants}
+      initial="initial"
+      animate="animate"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="border-b border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <CalendarClock className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Scheduled
+              </h1>
+              {mails.length > 0 && (
+                <span className="px-2.5 py-0.5 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-sm font-medium rounded-full">
+                  {mails.length}
+                </span>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleRefresh}
+              disabled={isLoading}
+              className="flex items-center space-x-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </Button>
+          </div>
+
+          {/* Info Banner */}
+          <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-3 text-sm text-indigo-700 dark:text-indigo-300">
+            <div className="flex items-center space-x-2">
+              <Info className="w-4 h-4 shrink-0" />
+              <span>Scheduled mails are sent by the server, even when MailVoyage is closed. Once sent, they move to Sent.</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="p-6 text-center">
+            <div className="flex flex-col items-center space-y-3 text-red-500">
+              <AlertCircle className="w-12 h-12" />
+              <p>{error}</p>
+              <Button variant="outline" onClick={handleRefresh}>
+                Try Again
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && !error && mails.length === 0 && (
+          <div className="p-6 text-center">
+            <div className="flex flex-col items-center space-y-3">
+              <RefreshCw className="w-8 h-8 animate-spin text-indigo-500" />
+              <p className="text-gray-500 dark:text-gray-400">Loading scheduled mails...</p>
+            </div>
+          </div>
+        )}
+
+        {/* Empty State */}
+        {!isLoading && !error && mails.length === 0 && (
+          <div className="p-12 text-center">
+            <div className="flex flex-col items-center space-y-4">
+              <CalendarClock className="w-16 h-16 text-gray-300 dark:text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Nothing scheduled</h3>
+              <p className="text-gray-500 dark:text-gray-400">
+                Use "Send later" in Compose to schedule a mail.
+              </p>
+              <Button onClick={() => navigate('/compose')}>
+                Compose Email
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Scheduled List */}
+        {!error && mails.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            <AnimatePresence mode="popLayout">
+              {mails.map((mail) => (
+                <motion.div
+                  key={mail.id}
+                  variants={itemVariants}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  layout
+                  className="p-4"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      {/* Top Row: Subject */}
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate mb-1">
+                        {mail.subject || '(No Subject)'}
+                      </h3>
+
+                      {/* Middle Row: Recipients */}
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Mail className="w-3 h-3 text-gray-400" />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                          {mail.toEmails.join(', ')}
+                          <span className="text-gray-400"> · from {mail.fromEmail}</span>
+                        </span>
+                      </div>
+
+                      {/* Bottom Row: Preview */}
+                      <p className="text-sm text-gray-500 dark:text-gray-500 line-clamp-2">
+                        {getPreviewText(mail)}
+                      </p>
+
+                      {mail.attachmentCount > 0 && (
+                        <div className="flex items-center mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          <Paperclip className="w-3 h-3 mr-1" />
+                          <span>{mail.attachmentCount} attachment{mail.attachmentCount !== 1 ? 's' : ''}</span>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Schedule & Actions */}
+                    <div className="flex flex-col items-end space-y-2 shrink-0">
+                      <div className="flex items-center space-x-1 text-xs font-medium text-indigo-600 dark:text-indigo-400">
+                        <Clock className="w-3 h-3" />
+                        <span>{formatScheduledTime(mail.scheduledAt)}</span>
+                      </div>
+
+                      {editingId === mail.id ? (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="datetime-local"
+                            value={editValue}
+                            min={toDateTimeLocalValue(new Date())}
+                            onChange={(e) => setEditValue(e.target.value)}
+                            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                          <Button size="small" onClick={() => handleReschedule(mail.id)} disabled={isSaving || !editValue}>
+                            Save
+                          </Button>
+                          <Button size="small" variant="outline" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <Button size="small" variant="outline" onClick={() => startEditing(mail)}>
+                            Reschedule
+                          </Button>
+                          <button
+                            onClick={() => setMailToCancel(mail.id)}
+                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            title="Cancel send"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+
+      {/* Cancel Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={mailToCancel !== null}
+        onCancel={() => setMailToCancel(null)}
+        onConfirm={confirmCancel}
+        title="Cancel Scheduled Mail"
+        message="This mail will not be sent and will be removed. This action cannot be undone."
+        confirmLabel="Cancel send"
+        variant="danger"
+      />
+    </motion.div>
+  );
+};
+
+export default ScheduledPage;
@@ -9,6 +9,10 @@ import {
   Palette, 
   Globe, 
   Database, 
+  Send,
+  Filter,
+  FileCode,
+  Tag,
   Download,
   Upload,
   Trash2,
@@ -27,6 +31,11 @@ import { isMobileTabletWidth } from '@/lib/navigation';
 import { apiFetch } from '@/lib/apiFetch';
 import * as validators from '@/lib/validators';
 import EmailSettings from './settings/EmailSettings';
+import SendingSettings from './settings/SendingSettings';
+import RulesSettings from './settings/RulesSettings';
+import SieveSettings from './settings/SieveSettings';
+import LabelsSettings from './settings/LabelsSettings';
+import BackgroundSyncSettings from './settings/BackgroundSyncSettings';
 
 interface SettingsSection {
   id: string;
@@ -219,6 +228,10 @@ const SettingsPage: React.FC = () => {
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'email', label: 'Email Settings', icon: Mail },
+    { id: 'sending', label: 'Sending', icon: Send },
+    { id: 'rules', label: 'Rules', icon: Filter },
+    { id: 'sieve', label: 'Server Filters', icon: FileCode },
+    { id: 'labels', label: 'Labels', icon: Tag },
     { id: 'appearance', label: 'Appearance', icon: Palette },
     { id: 'privacy', label: 'Privacy', icon: Globe },
     { id: 'data', label: 'Data Management', icon: Database },
@@ -522,6 +535,8 @@ const SettingsPage: React.FC = () => {
               </div>
             </div>
 
+            <BackgroundSyncSettings />
+
             <div className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
               <div>
                 <p className="font-medium text-gray-900 dark:text-white">Export Data</p>
@@ -571,6 +586,18 @@ const SettingsPage: React.FC = () => {
     email: (
       <EmailSettings isMobile={isMobile} />
     ),
+    sending: (
+      <SendingSettings />
+    ),
+    rules: (
+      <RulesSettings />
+    ),
+    sieve: (
+      <SieveSettings />
+    ),
+    labels: (
+      <LabelsSettings />
+    ),
     default: (
       <motion.div variants={sectionVariants} initial="initial" animate="animate" className="space-y-6">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
@@ -611,8 +638,8 @@ const SettingsPage: React.FC = () => {
                     className="p-4 overflow-auto max-h-[70vh]"
                   >
                     {sectionMap[section.id] || sectionMap.default}
-                    {/* Footer button: only for non-profile, non-appearance, non-email sections */}
-                    {section.id !== 'profile' && section.id !== 'appearance' && section.id !== 'email' && (
+                    {/* Footer button: only for sections without their own save (not profile, appearance, email, rules, sieve, labels) */}
+                    {section.id !== 'profile' && section.id !== 'appearance' && section.id !== 'email' && section.id !== 'rules' && section.id !== 'sieve' && section.id !== 'labels' && (
                       <div className="mt-4 text-right">
                         <Button
                           onClick={() => handleSave()}
@@ -732,7 +759,7 @@ const SettingsPage: React.FC = () => {
             {sectionMap[activeSection] || sectionMap.default}
 
             {/* Save Button */}
-            {activeSection !== 'profile' && activeSection !== 'appearance' && activeSection !== 'email' && (
+            {activeSection !== 'profile' && activeSection !== 'appearance' && activeSection !== 'email' && activeSection !== 'rules' && activeSection !== 'sieve' && activeSection !== 'labels' && (
               <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <Button onClick={handleSave} className="flex items-center space-x-2">
                   <Save className="w-4 h-4" />
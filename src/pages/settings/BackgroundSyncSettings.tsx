@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Save } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { apiFetch } from '@/lib/apiFetch';
+import { toast } from '@/lib/toast';
+
+/** Background sync intervals offered in the UI (minutes, 0 = off) */
+const POLL_INTERVAL_OPTIONS = [0, 5, 15, 30, 60];
+
+const formatInterval = (minutes: number): string =>
+  minutes === 0 ? 'Off' : minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+/**
+ * How often the server syncs the user's accounts in the background,
+ * so the cached inbox is fresh even when no tab is open.
+ */
+const BackgroundSyncSettings: React.FC = () => {
+  const [pollInterval, setPollInterval] = useState(15);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = () => {
+      apiFetch('/api/inbox/settings')
+        .then((response: unknown) => {
+          const res = response as { data?: { pollInterval?: number } };
+          setPollInterval(res?.data?.pollInterval ?? 15);
+        })
+        .catch(() => { /* silent — use default */ })
+        .finally(() => setIsLoading(false));
+    };
+
+    loadSettings();
+
+    // Changed from another tab or device
+    window.addEventListener('settings:updated', loadSettings);
+    return () => window.removeEventListener('settings:updated', loadSettings);
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await apiFetch('/api/inbox/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ pollInterval }),
+      });
+      toast.success(pollInterval > 0 ? `Background sync every ${formatInterval(pollInterval)}` : 'Background sync turned off');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save setting');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+      <div className="flex items-start gap-3 mb-3">
+        <RefreshCw className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">Background Sync</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            How often the server checks your accounts for new mail, even when MailVoyage is closed
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {POLL_INTERVAL_OPTIONS.map(minutes => (
+          <button
+            key={minutes}
+            onClick={() => setPollInterval(minutes)}
+            disabled={isLoading}
+            className={`px-3 py-1.5 text-sm rounded-lg border-2 transition-all ${
+              pollInterval === minutes
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+            }`}
+          >
+            {formatInterval(minutes)}
+          </button>
+        ))}
+        <Button
+          size="small"
+          onClick={handleSave}
+          disabled={isSaving || isLoading}
+          className="flex items-center gap-1 ml-auto"
+        >
+          <Save className="w-3.5 h-3.5" />
+          <span>{isSaving ? 'Saving…' : 'Save'}</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundSyncSettings;
@@ -21,11 +21,17 @@ interface EmailAccount {
   outgoingPort: number;
   outgoingUsername?: string;
   outgoingSecurity: 'SSL' | 'STARTTLS' | 'NONE';
+  saveToSent?: boolean;
+  pop3Policy?: Pop3Policy;
+  pop3RetentionDays?: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+/** What happens to POP3 mail on the server once MailVoyage has downloaded it */
+type Pop3Policy = 'leave' | 'delete_after_download' | 'delete_after_days';
+
 interface AddAccountForm {
   email: string;
   password: string;
@@ -60,6 +66,9 @@ interface EditAccountForm {
   outgoingUsername: string;
   outgoingPassword: string;
   outgoingSecurity: 'SSL' | 'STARTTLS' | 'NONE';
+  saveToSent: boolean;
+  pop3Policy: Pop3Policy;
+  pop3RetentionDays: string;
 }
 
 interface TestStatus {
@@ -155,6 +164,9 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
     outgoingUsername: '',
     outgoingPassword: '',
     outgoingSecurity: 'SSL',
+    saveToSent: true,
+    pop3Policy: 'leave',
+    pop3RetentionDays: '30',
   });
 
   // Load email accounts from localStorage on component mount
@@ -346,7 +358,7 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
     setFormErrors({});
     
     try {
-      const requestData: Record<string, string | number | boolean> = {
+      const requestData: Record<string, string | number | boolean | null> = {
         email: editForm.email,
         edit: true,
         incomingType: editForm.incomingType,
@@ -358,6 +370,9 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
         outgoingPort: parseInt(editForm.outgoingPort),
         outgoingUsername: editForm.outgoingUsername || editForm.email,
         outgoingSecurity: editForm.outgoingSecurity,
+        saveToSent: editForm.saveToSent,
+        pop3Policy: editForm.pop3Policy,
+        pop3RetentionDays: editForm.pop3Policy === 'delete_after_days' ? parseInt(editForm.pop3RetentionDays) || null : null,
       };
 
       // Only include password fields if user provided them
@@ -441,6 +456,9 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
       outgoingUsername: account.outgoingUsername || account.email,
       outgoingPassword: '', // leave blank to keep current
       outgoingSecurity: account.outgoingSecurity || 'SSL',
+      saveToSent: account.saveToSent ?? true,
+      pop3Policy: account.pop3Policy || 'leave',
+      pop3RetentionDays: String(account.pop3RetentionDays ?? 30),
     });
   };
 
@@ -1520,6 +1538,46 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
                           <option value="STARTTLS">STARTTLS</option>
                         </select>
                       </div>
+
+                      {/* Mail on server (POP3 only) */}
+                      {editForm.incomingType === 'POP3' && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Mail on Server
+                          </label>
+                          <select
+                            value={editForm.pop3Policy}
+                            onChange={(e) => setEditForm({ ...editForm, pop3Policy: e.target.value as Pop3Policy })}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                          >
+                            <option value="leave">Leave on server</option>
+                            <option value="delete_after_download">Delete after download</option>
+                            <option value="delete_after_days">Delete after a number of days</option>
+                          </select>
+                          {editForm.pop3Policy === 'delete_after_days' && (
+                            <div className="flex items-center gap-2 mt-2 text-sm text-gray-700 dark:text-gray-300">
+                              <span>Delete</span>
+                              <input
+                                type="number"
+                                min={1}
+                                max={3650}
+                                value={editForm.pop3RetentionDays}
+                                onChange={(e) => setEditForm({ ...editForm, pop3RetentionDays: e.target.value })}
+                                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                              />
+                              <span>days after download</span>
+                            </div>
+                          )}
+                          {formErrors.pop3RetentionDays && (
+                            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{formErrors.pop3RetentionDays}</p>
+                          )}
+                          {editForm.pop3Policy !== 'leave' && (
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              Mail is removed from the server on the next sync, so other apps using this account won't see it anymore.
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -1598,6 +1656,24 @@ const EmailSettings: React.FC<EmailSettingsProps> = ({ isMobile }) => {
                           placeholder="Leave blank to keep current"
                         />
                       </div>
+
+                      {/* Save to Sent (IMAP only) */}
+                      {editForm.incomingType === 'IMAP' && (
+                        <label className="flex items-start gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={editForm.saveToSent}
+                            onChange={(e) => setEditForm({ ...editForm, saveToSent: e.target.checked })}
+                            className="rounded mt-0.5"
+                          />
+                          <span className="text-gray-700 dark:text-gray-300">
+                            Save sent messages to the server's Sent folder
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              Turn off if your provider already files sent mail (e.g. Gmail, Outlook)
+                            </span>
+                          </span>
+                        </label>
+                      )}
                     </div>
                   </div>
 
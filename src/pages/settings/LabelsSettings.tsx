@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { motion, easeOut } from 'framer-motion';
+import { Check, Pencil, Plus, Tag, Trash2, X } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { toast } from '@/lib/toast';
+import { useLabels } from '@/hooks/useLabels';
+import {
+  LABEL_COLORS,
+  createLabel,
+  deleteLabel,
+  getColorClasses,
+  updateLabel,
+  type LabelColor,
+  type MailLabel,
+} from '@/lib/labels';
+
+const sectionVariants = {
+  initial: { opacity: 0, x: 20 },
+  animate: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.3,
+      ease: easeOut,
+    },
+  },
+};
+
+const inputClass = 'px-2 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+interface ColorPickerProps {
+  value: LabelColor;
+  onChange: (color: LabelColor) => void;
+}
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1">
+    {LABEL_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        title={color}
+        className={`w-5 h-5 rounded-full ${getColorClasses(color).dot} ${value === color ? 'ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-gray-800' : ''}`}
+      />
+    ))}
+  </div>
+);
+
+const LabelsSettings: React.FC = () => {
+  const labels = useLabels();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<LabelColor>('blue');
+  const [editing, setEditing] = useState<{ id: number; name: string; color: LabelColor } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = (err: unknown, fallback: string) => {
+    const errors = (err as { errors?: Record<string, string> })?.errors;
+    const detail = errors ? Object.values(errors)[0] : undefined;
+    toast.error(detail || (err instanceof Error ? err.message : fallback));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      setIsSaving(true);
+      await createLabel(newName.trim(), newColor);
+      setNewName('');
+      toast.success('Label created');
+    } catch (err: unknown) {
+      showError(err, 'Failed to create label');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing || !editing.name.trim()) return;
+    try {
+      setIsSaving(true);
+      await updateLabel(editing.id, editing.name.trim(), editing.color);
+      setEditing(null);
+      toast.success('Label updated');
+    } catch (err: unknown) {
+      showError(err, 'Failed to update label');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (label: MailLabel) => {
+    if (!window.confirm(`Delete the label "${label.name}"? It is removed from your mail as well.`)) return;
+    try {
+      await deleteLabel(label.id);
+      if (editing?.id === label.id) setEditing(null);
+      toast.success('Label deleted');
+    } catch (err: unknown) {
+      showError(err, 'Failed to delete label');
+    }
+  };
+
+  return (
+    <motion.div variants={sectionVariants} initial="initial" animate="animate" className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Labels</h2>
+
+      <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div className="flex items-start gap-3 mb-3">
+          <Tag className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+          <div className="flex-1">
+            <p className="font-medium text-gray-900 dark:text-white">Mail Labels</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Labels are stored on the mail server as IMAP keywords, so other mail apps see them too. Renaming or deleting a label updates the mail cached here.
+            </p>
+          </div>
+        </div>
+
+        {labels.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No labels yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {labels.map(label => (
+              <li key={label.id} className="flex flex-wrap items-center gap-3 py-2">
+                {editing?.id === label.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={e => setEditing({ ...editing, name: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-32`}
+                    />
+                    <ColorPicker value={editing.color} onChange={color => setEditing({ ...editing, color })} />
+                    <button onClick={handleUpdate} disabled={isSaving} title="Save" className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditing(null)} title="Cancel" className="p-1 text-gray-500 hover:text-gray-700">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className={`w-3 h-3 rounded-full shrink-0 ${getColorClasses(label.color).dot}`} />
+                    <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white truncate">{label.name}</span>
+                    <button onClick={() => setEditing({ id: label.id, name: label.name, color: label.color })} title="Edit" className="p-1 text-gray-500 hover:text-blue-600">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(label)} title="Delete" className="p-1 text-gray-500 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="New label"
+            className={`${inputClass} flex-1 min-w-32`}
+          />
+          <ColorPicker value={newColor} onChange={setNewColor} />
+          <Button type="submit" size="small" disabled={isSaving || !newName.trim()} className="flex items-center gap-1">
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        </form>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LabelsSettings;
@@ -0,0 +1,519 @@
+import React, { useEffect, useState } from 'react';
+import { motion, easeOut } from 'framer-motion';
+import { Eye, Filter, Pencil, Play, Plus, Save, Trash2, X } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { toast } from '@/lib/toast';
+import { getCachedFolders } from '@/lib/folders';
+import {
+  TEXT_FIELDS,
+  TEXT_OPERATORS,
+  deleteRule,
+  describePlan,
+  emptyRule,
+  fetchRules,
+  runRules,
+  saveRule,
+  type MailRule,
+  type MailRuleDraft,
+  type RuleAction,
+  type RuleCondition,
+  type RuleRunResult,
+} from '@/lib/mailRules';
+
+interface RuleAccount {
+  accountCode: string;
+  email: string;
+  incomingType?: 'IMAP' | 'POP3';
+}
+
+const sectionVariants = {
+  initial: { opacity: 0, x: 20 },
+  animate: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.3,
+      ease: easeOut,
+    },
+  },
+};
+
+const inputClass = 'px-2 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+const loadAccounts = (): RuleAccount[] => {
+  try {
+    return JSON.parse(localStorage.getItem('emailAccounts') || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Switching a row's kind keeps nothing from the old one
+const defaultCondition = (field: RuleCondition['field']): RuleCondition => {
+  if (field === 'hasAttachment') return { field, value: true };
+  if (field === 'size') return { field, operator: 'greaterThan', value: 1024 * 1024 };
+  return { field, operator: 'contains', value: '' };
+};
+
+const defaultAction = (type: RuleAction['type']): RuleAction => {
+  switch (type) {
+    case 'label': return { type, label: '' };
+    case 'move': return { type, folder: '' };
+    case 'forward': return { type, to: '' };
+    default: return { type };
+  }
+};
+
+const describeRule = (rule: MailRule, accounts: RuleAccount[]): string => {
+  const account = rule.accountCode
+    ? accounts.find(a => a.accountCode === rule.accountCode)?.email ?? rule.accountCode
+    : 'All accounts';
+  return `${account} · ${rule.conditions.length} condition${rule.conditions.length === 1 ? '' : 's'} (${rule.matchAll ? 'all' : 'any'}) · ${rule.actions.length} action${rule.actions.length === 1 ? '' : 's'}`;
+};
+
+const RulesSettings: React.FC = () => {
+  const [rules, setRules] = useState<MailRule[]>([]);
+  const [accounts] = useState<RuleAccount[]>(loadAccounts);
+  const [isLoading, setIsLoading] = useState(true);
+  // Rule being edited; editingId undefined means a new rule
+  const [draft, setDraft] = useState<MailRuleDraft | null>(null);
+  const [editingId, setEditingId] = useState<number | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [preview, setPreview] = useState<RuleRunResult | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      fetchRules()
+        .then(setRules)
+        .catch(() => toast.error('Failed to load rules'))
+        .finally(() => setIsLoading(false));
+    };
+
+    load();
+
+    // Changed from another tab or device
+    window.addEventListener('settings:updated', load);
+    return () => window.removeEventListener('settings:updated', load);
+  }, []);
+
+  // Folder suggestions for "move to": the cached folders of the IMAP accounts the rule covers
+  const folderOptions = [...new Set(
+    accounts
+      .filter(a => a.incomingType !== 'POP3' && (!draft?.accountCode || a.accountCode === draft.accountCode))
+      .flatMap(a => getCachedFolders(a.accountCode).filter(f => f.selectable).map(f => f.path))
+  )];
+
+  const openEditor = (rule?: MailRule) => {
+    setPreview(null);
+    setEditingId(rule?.id);
+    setDraft(rule
+      ? {
+          name: rule.name,
+          accountCode: rule.accountCode,
+          enabled: rule.enabled,
+          matchAll: rule.matchAll,
+          conditions: rule.conditions,
+          actions: rule.actions,
+          stopProcessing: rule.stopProcessing,
+        }
+      : emptyRule());
+  };
+
+  const closeEditor = () => {
+    setDraft(null);
+    setEditingId(undefined);
+    setPreview(null);
+  };
+
+  const updateDraft = (changes: Partial<MailRuleDraft>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+    setPreview(null);
+  };
+
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    if (!draft) return;
+    updateDraft({ conditions: draft.conditions.map((c, i) => (i === index ? condition : c)) });
+  };
+
+  const updateAction = (index: number, action: RuleAction) => {
+    if (!draft) return;
+    updateDraft({ actions: draft.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    const errors = (err as { errors?: Record<string, string> })?.errors;
+    const detail = errors ? Object.values(errors)[0] : undefined;
+    toast.error(detail || (err instanceof Error ? err.message : fallback));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      setIsSaving(true);
+      const saved = await saveRule(draft, editingId);
+      setRules(current => editingId
+        ? current.map(r => (r.id === editingId ? saved : r))
+        : [...current, saved]);
+      toast.success(editingId ? 'Rule updated' : 'Rule created');
+      closeEditor();
+    } catch (err: unknown) {
+      showError(err, 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: MailRule) => {
+    try {
+      const saved = await saveRule({ ...rule, enabled: !rule.enabled }, rule.id);
+      setRules(current => current.map(r => (r.id === rule.id ? saved : r)));
+    } catch (err: unknown) {
+      showError(err, 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: MailRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      await deleteRule(rule.id);
+      setRules(current => current.filter(r => r.id !== rule.id));
+      if (editingId === rule.id) closeEditor();
+      toast.success('Rule deleted');
+    } catch (err: unknown) {
+      showError(err, 'Failed to delete rule');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    try {
+      setIsRunning(true);
+      setPreview(await runRules({ rule: draft, ruleId: editingId, dryRun: true }));
+    } catch (err: unknown) {
+      showError(err, 'Failed to preview rule');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRun = async (ruleId?: number) => {
+    const what = ruleId ? 'this rule' : 'all enabled rules';
+    if (!window.confirm(`Apply ${what} to the mail already in your inbox?`)) return;
+    try {
+      setIsRunning(true);
+      const result = await runRules({ ruleId, dryRun: false });
+      if (result.errors.length > 0) {
+        toast.error(`Rules applied with ${result.errors.length} error(s): ${result.errors[0]}`);
+      } else {
+        toast.success(result.applied > 0 ? `Rules applied to ${result.applied} mail(s)` : 'No mail matched');
+      }
+    } catch (err: unknown) {
+      showError(err, 'Failed to run rules');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <motion.div variants={sectionVariants} initial="initial" animate="animate" className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Rules</h2>
+
+      <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div className="flex items-start gap-3 mb-3">
+          <Filter className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+          <div className="flex-1">
+            <p className="font-medium text-gray-900 dark:text-white">Filter Rules</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Rules run in order on new mail as it arrives in the inbox. Preview a rule to see which cached mails it would change.
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading rules…</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No rules yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => handleToggle(rule)}
+                  title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                  className="w-4 h-4"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium truncate ${rule.enabled ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>
+                    {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{describeRule(rule, accounts)}</p>
+                </div>
+                <button onClick={() => handleRun(rule.id)} disabled={isRunning} title="Apply to existing mail" className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50">
+                  <Play className="w-4 h-4" />
+                </button>
+                <button onClick={() => openEditor(rule)} title="Edit" className="p-1 text-gray-500 hover:text-blue-600">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(rule)} title="Delete" className="p-1 text-gray-500 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <Button size="small" onClick={() => openEditor()} disabled={draft !== null} className="flex items-center gap-1">
+            <Plus className="w-3.5 h-3.5" />
+            <span>New Rule</span>
+          </Button>
+          <Button
+            size="small"
+            variant="outline"
+            onClick={() => handleRun()}
+            disabled={isRunning || !rules.some(r => r.enabled)}
+            className="flex items-center gap-1 ml-auto"
+          >
+            <Play className="w-3.5 h-3.5" />
+            <span>{isRunning ? 'Running…' : 'Run All Now'}</span>
+          </Button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-medium text-gray-900 dark:text-white">{editingId ? 'Edit Rule' : 'New Rule'}</p>
+            <button onClick={closeEditor} title="Close" className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => updateDraft({ name: e.target.value })}
+              placeholder="Rule name"
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <select
+              value={draft.accountCode ?? ''}
+              onChange={e => updateDraft({ accountCode: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">All accounts</option>
+              {accounts.map(a => (
+                <option key={a.accountCode} value={a.accountCode}>{a.email}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              When{' '}
+              <select
+                value={draft.matchAll ? 'all' : 'any'}
+                onChange={e => updateDraft({ matchAll: e.target.value === 'all' })}
+                className={inputClass}
+              >
+                <option value="all">all</option>
+                <option value="any">any</option>
+              </select>{' '}
+              of these conditions match:
+            </p>
+            {draft.conditions.map((condition, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  value={condition.field}
+                  onChange={e => updateCondition(index, defaultCondition(e.target.value as RuleCondition['field']))}
+                  className={inputClass}
+                >
+                  {TEXT_FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                  <option value="hasAttachment">Attachment</option>
+                  <option value="size">Size</option>
+                </select>
+
+                {condition.field === 'hasAttachment' ? (
+                  <select
+                    value={condition.value ? 'yes' : 'no'}
+                    onChange={e => updateCondition(index, { field: 'hasAttachment', value: e.target.value === 'yes' })}
+                    className={inputClass}
+                  >
+                    <option value="yes">is present</option>
+                    <option value="no">is absent</option>
+                  </select>
+                ) : condition.field === 'size' ? (
+                  <>
+                    <select
+                      value={condition.operator}
+                      onChange={e => updateCondition(index, { ...condition, operator: e.target.value as 'greaterThan' | 'lessThan' })}
+                      className={inputClass}
+                    >
+                      <option value="greaterThan">is larger than</option>
+                      <option value="lessThan">is smaller than</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={Math.round((condition.value / (1024 * 1024)) * 10) / 10}
+                      onChange={e => updateCondition(index, { ...condition, value: Math.round(Number(e.target.value) * 1024 * 1024) })}
+                      className={`${inputClass} w-24`}
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">MB</span>
+                  </>
+                ) : (
+                  <>
+                    <select
+                      value={condition.operator}
+                      onChange={e => updateCondition(index, { ...condition, operator: e.target.value as typeof condition.operator })}
+                      className={inputClass}
+                    >
+                      {TEXT_OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      value={condition.value}
+                      onChange={e => updateCondition(index, { ...condition, value: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-[10rem]`}
+                    />
+                  </>
+                )}
+
+                <button
+                  onClick={() => updateDraft({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+                  disabled={draft.conditions.length === 1}
+                  title="Remove condition"
+                  className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateDraft({ conditions: [...draft.conditions, defaultCondition('subject')] })}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add condition
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">Do the following:</p>
+            {draft.actions.map((action, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  value={action.type}
+                  onChange={e => updateAction(index, defaultAction(e.target.value as RuleAction['type']))}
+                  className={inputClass}
+                >
+                  <option value="markRead">Mark as read</option>
+                  <option value="star">Star</option>
+                  <option value="label">Add label</option>
+                  <option value="move">Move to folder</option>
+                  <option value="forward">Forward to</option>
+                  <option value="delete">Delete</option>
+                </select>
+
+                {action.type === 'label' && (
+                  <input
+                    type="text"
+                    value={action.label}
+                    onChange={e => updateAction(index, { type: 'label', label: e.target.value })}
+                    placeholder="Label (no spaces)"
+                    className={`${inputClass} flex-1 min-w-[10rem]`}
+                  />
+                )}
+                {action.type === 'move' && (
+                  <>
+                    <input
+                      type="text"
+                      list="rule-folders"
+                      value={action.folder}
+                      onChange={e => updateAction(index, { type: 'move', folder: e.target.value })}
+                      placeholder="Folder path"
+                      className={`${inputClass} flex-1 min-w-[10rem]`}
+                    />
+                    <datalist id="rule-folders">
+                      {folderOptions.map(path => <option key={path} value={path} />)}
+                    </datalist>
+                  </>
+                )}
+                {action.type === 'forward' && (
+                  <input
+                    type="email"
+                    value={action.to}
+                    onChange={e => updateAction(index, { type: 'forward', to: e.target.value })}
+                    placeholder="name@example.com"
+                    className={`${inputClass} flex-1 min-w-[10rem]`}
+                  />
+                )}
+
+                <button
+                  onClick={() => updateDraft({ actions: draft.actions.filter((_, i) => i !== index) })}
+                  disabled={draft.actions.length === 1}
+                  title="Remove action"
+                  className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateDraft({ actions: [...draft.actions, defaultAction('star')] })}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add action
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.stopProcessing}
+              onChange={e => updateDraft({ stopProcessing: e.target.checked })}
+              className="w-4 h-4"
+            />
+            Stop processing later rules when this one matches
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="small" variant="outline" onClick={handlePreview} disabled={isRunning} className="flex items-center gap-1">
+              <Eye className="w-3.5 h-3.5" />
+              <span>{isRunning ? 'Checking…' : 'Preview'}</span>
+            </Button>
+            <Button size="small" onClick={handleSave} disabled={isSaving} className="flex items-center gap-1 ml-auto">
+              <Save className="w-3.5 h-3.5" />
+              <span>{isSaving ? 'Saving…' : 'Save Rule'}</span>
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                {preview.matches.length === 0
+                  ? 'No cached inbox mail matches this rule.'
+                  : `${preview.matches.length} cached mail(s) would match:`}
+              </p>
+              <ul className="space-y-1 max-h-64 overflow-auto">
+                {preview.matches.map(match => (
+                  <li key={`${match.accountCode}:${match.uid}`} className="text-sm">
+                    <span className="text-gray-900 dark:text-white">{match.subject}</span>
+                    <span className="text-gray-500 dark:text-gray-400"> — {match.fromAddress}, {new Date(match.date).toLocaleDateString()}</span>
+                    <span className="block text-xs text-blue-600 dark:text-blue-400">{describePlan(match.plan)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default RulesSettings;
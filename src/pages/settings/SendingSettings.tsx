@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { motion, easeOut } from 'framer-motion';
+import { Save, Undo2 } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { apiFetch } from '@/lib/apiFetch';
+import { toast } from '@/lib/toast';
+
+/** Undo-send delays offered in the UI (seconds, 0 = off) */
+const UNDO_SEND_OPTIONS = [0, 5, 10, 20, 30];
+
+const sectionVariants = {
+  initial: { opacity: 0, x: 20 },
+  animate: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.3,
+      ease: easeOut,
+    },
+  },
+};
+
+const SendingSettings: React.FC = () => {
+  const [undoSendDelay, setUndoSendDelay] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = () => {
+      apiFetch('/api/inbox/settings')
+        .then((response: unknown) => {
+          const res = response as { data?: { undoSendDelay?: number } };
+          setUndoSendDelay(res?.data?.undoSendDelay ?? 0);
+        })
+        .catch(() => { /* silent — use default */ })
+        .finally(() => setIsLoading(false));
+    };
+
+    loadSettings();
+
+    // Changed from another tab or device
+    window.addEventListener('settings:updated', loadSettings);
+    return () => window.removeEventListener('settings:updated', loadSettings);
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await apiFetch('/api/inbox/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ undoSendDelay }),
+      });
+      toast.success(undoSendDelay > 0 ? `Undo send set to ${undoSendDelay} seconds` : 'Undo send turned off');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save setting');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div variants={sectionVariants} initial="initial" animate="animate" className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Sending</h2>
+
+      <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div className="flex items-start gap-3 mb-3">
+          <Undo2 className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <p className="font-medium text-gray-900 dark:text-white">Undo Send</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Hold sent emails on the server for a few seconds so you can undo them. Emails still go out if you close the tab.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {UNDO_SEND_OPTIONS.map(seconds => (
+            <button
+              key={seconds}
+              onClick={() => setUndoSendDelay(seconds)}
+              disabled={isLoading}
+              className={`px-3 py-1.5 text-sm rounded-lg border-2 transition-all ${
+                undoSendDelay === seconds
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                  : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+              }`}
+            >
+              {seconds === 0 ? 'Off' : `${seconds}s`}
+            </button>
+          ))}
+          <Button
+            size="small"
+            onClick={handleSave}
+            disabled={isSaving || isLoading}
+            className="flex items-center gap-1 ml-auto"
+          >
+            <Save className="w-3.5 h-3.5" />
+            <span>{isSaving ? 'Saving…' : 'Save'}</span>
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SendingSettings;
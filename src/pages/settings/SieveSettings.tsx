@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { motion, easeOut } from 'framer-motion';
+import { CheckCircle, FileCode, Palmtree, Pencil, Plus, Power, RefreshCw, Save, Trash2, X } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { toast } from '@/lib/toast';
+import {
+  VACATION_SCRIPT_NAME,
+  buildVacationScript,
+  checkSieveScript,
+  deleteSieveScript,
+  fetchSieveScript,
+  fetchSieveScripts,
+  saveSieveScript,
+  setActiveSieveScript,
+  type SieveCheckResult,
+  type SieveScriptList,
+} from '@/lib/sieve';
+
+interface SieveAccount {
+  accountCode: string;
+  email: string;
+  incomingType?: 'IMAP' | 'POP3';
+}
+
+const sectionVariants = {
+  initial: { opacity: 0, x: 20 },
+  animate: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.3,
+      ease: easeOut,
+    },
+  },
+};
+
+const inputClass = 'px-2 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+// Sieve runs on the IMAP server; POP3 accounts have none
+const loadImapAccounts = (): SieveAccount[] => {
+  try {
+    const parsed: SieveAccount[] = JSON.parse(localStorage.getItem('emailAccounts') || '[]');
+    return parsed.filter(acc => acc.incomingType !== 'POP3');
+  } catch {
+    return [];
+  }
+};
+
+const errorMessage = (err: unknown, fallback: string): string => {
+  const errors = (err as { errors?: Record<string, string> })?.errors;
+  return errors?.sieve || (err instanceof Error ? err.message : fallback);
+};
+
+const SieveSettings: React.FC = () => {
+  const [accounts] = useState<SieveAccount[]>(loadImapAccounts);
+  const [accountCode, setAccountCode] = useState(() => accounts[0]?.accountCode ?? '');
+  const [list, setList] = useState<SieveScriptList | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Script in the editor; originalName null means a new script
+  const [editor, setEditor] = useState<{ name: string; content: string; originalName: string | null } | null>(null);
+  const [check, setCheck] = useState<SieveCheckResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [vacation, setVacation] = useState({ subject: 'Out of office', message: '', days: 7, startDate: '', endDate: '' });
+  const [showVacation, setShowVacation] = useState(false);
+
+  const loadScripts = (code: string) => {
+    if (!code) return;
+    setIsLoading(true);
+    setLoadError(null);
+    fetchSieveScripts(code)
+      .then(setList)
+      .catch((err: unknown) => {
+        setList(null);
+        setLoadError(errorMessage(err, 'Failed to load Sieve scripts'));
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    if (!accounts[0]) return;
+    fetchSieveScripts(accounts[0].accountCode)
+      .then(setList)
+      .catch((err: unknown) => setLoadError(errorMessage(err, 'Failed to load Sieve scripts')));
+  }, [accounts]);
+
+  const handleAccountChange = (code: string) => {
+    setAccountCode(code);
+    setEditor(null);
+    setCheck(null);
+    setList(null);
+    loadScripts(code);
+  };
+
+  const openScript = async (name: string) => {
+    try {
+      setIsBusy(true);
+      const script = await fetchSieveScript(accountCode, name);
+      setEditor({ name: script.name, content: script.content, originalName: script.name });
+      setCheck(null);
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, 'Failed to load script'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string, fallback: string) => {
+    try {
+      setIsBusy(true);
+      await action();
+      toast.success(success);
+      loadScripts(accountCode);
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, fallback));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!editor) return;
+    try {
+      setIsBusy(true);
+      setCheck(await checkSieveScript(accountCode, editor.content));
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, 'Failed to check script'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (activate: boolean) => {
+    if (!editor) return;
+    const name = editor.name.trim();
+    if (!name) {
+      toast.error('Script name is required');
+      return;
+    }
+    return runAction(async () => {
+      await saveSieveScript(accountCode, name, editor.content, activate);
+      // Saving under a new name leaves the old script in place
+      setEditor({ ...editor, name, originalName: name });
+      setCheck(null);
+    }, activate ? `Saved and activated "${name}"` : `Saved "${name}"`, 'Failed to save script');
+  };
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(`Delete the Sieve script "${name}"?`)) return;
+    return runAction(async () => {
+      await deleteSieveScript(accountCode, name);
+      if (editor?.originalName === name) setEditor(null);
+    }, `Deleted "${name}"`, 'Failed to delete script');
+  };
+
+  const handleGenerateVacation = () => {
+    if (!vacation.message.trim()) {
+      toast.error('Write the reply message first');
+      return;
+    }
+    const email = accounts.find(a => a.accountCode === accountCode)?.email;
+    setEditor({
+      name: VACATION_SCRIPT_NAME,
+      content: buildVacationScript({ ...vacation, addresses: email ? [email] : [] }),
+      originalName: list?.scripts.some(s => s.name === VACATION_SCRIPT_NAME) ? VACATION_SCRIPT_NAME : null,
+    });
+    setCheck(null);
+    setShowVacation(false);
+  };
+
+  const activeScript = list?.scripts.find(s => s.active)?.name ?? null;
+
+  return (
+    <motion.div variants={sectionVariants} initial="initial" animate="animate" className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Server Filters</h2>
+
+      {accounts.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Sieve filters need an IMAP account.</p>
+      ) : (
+        <>
+          <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <div className="flex items-start gap-3 mb-3">
+              <FileCode className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900 dark:text-white">Sieve Scripts</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Filters that run on your mail server (ManageSieve), even when MailVoyage is closed. The server runs one script: the active one.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <select value={accountCode} onChange={e => handleAccountChange(e.target.value)} className={inputClass}>
+                {accounts.map(a => (
+                  <option key={a.accountCode} value={a.accountCode}>{a.email}</option>
+                ))}
+              </select>
+              <button onClick={() => loadScripts(accountCode)} disabled={isLoading} title="Reload" className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50">
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </button>
+              {list?.implementation && (
+                <span className="text-xs text-gray-400 dark:text-gray-500 ml-auto">{list.implementation}</span>
+              )}
+            </div>
+
+            {loadError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+            ) : !list ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading scripts…</p>
+            ) : list.scripts.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No scripts on the server yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {list.scripts.map(script => (
+                  <li key={script.name} className="flex items-center gap-3 py-2">
+                    <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white truncate">{script.name}</span>
+                    {script.active && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">Active</span>
+                    )}
+                    <button
+                      onClick={() => runAction(
+                        () => setActiveSieveScript(accountCode, script.active ? null : script.name),
+                        script.active ? 'Server filtering turned off' : `Activated "${script.name}"`,
+                        'Failed to change the active script'
+                      )}
+                      disabled={isBusy}
+                      title={script.active ? 'Deactivate' : 'Activate'}
+                      className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => openScript(script.name)} disabled={isBusy} title="Edit" className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(script.name)}
+                      disabled={isBusy || script.active}
+                      title={script.active ? 'Deactivate the script before deleting it' : 'Delete'}
+                      className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <Button
+                size="small"
+                onClick={() => { setEditor({ name: '', content: 'require ["fileinto"];\n\n', originalName: null }); setCheck(null); }}
+                disabled={!list}
+                className="flex items-center gap-1"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                <span>New Script</span>
+              </Button>
+              <Button
+                size="small"
+                variant="outline"
+                onClick={() => setShowVacation(v => !v)}
+                disabled={!list}
+                className="flex items-center gap-1"
+              >
+                <Palmtree className="w-3.5 h-3.5" />
+                <span>Vacation Responder</span>
+              </Button>
+            </div>
+          </div>
+
+          {showVacation && list && (
+            <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3">
+              <p className="font-medium text-gray-900 dark:text-white">Vacation Responder</p>
+              {!list.extensions.includes('vacation') && (
+                <p className="text-sm text-amber-600 dark:text-amber-400">This server doesn't list the vacation extension; the script may be rejected.</p>
+              )}
+              <input
+                type="text"
+                value={vacation.subject}
+                onChange={e => setVacation({ ...vacation, subject: e.target.value })}
+                placeholder="Subject"
+                className={`${inputClass} w-full`}
+              />
+              <textarea
+                value={vacation.message}
+                onChange={e => setVacation({ ...vacation, message: e.target.value })}
+                placeholder="I'm away until… and will reply when I'm back."
+                rows={4}
+                className={`${inputClass} w-full`}
+              />
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span>From</span>
+                <input type="date" value={vacation.startDate} onChange={e => setVacation({ ...vacation, startDate: e.target.value })} className={inputClass} />
+                <span>until</span>
+                <input type="date" value={vacation.endDate} onChange={e => setVacation({ ...vacation, endDate: e.target.value })} className={inputClass} />
+                <span>· reply to each sender once every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={vacation.days}
+                  onChange={e => setVacation({ ...vacation, days: Number(e.target.value) })}
+                  className={`${inputClass} w-16`}
+                />
+                <span>days</span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Activating the vacation script replaces the active one{activeScript ? ` ("${activeScript}")` : ''} until you switch back.
+              </p>
+              <Button size="small" onClick={handleGenerateVacation} className="flex items-center gap-1">
+                <FileCode className="w-3.5 h-3.5" />
+                <span>Generate Script</span>
+              </Button>
+            </div>
+          )}
+
+          {editor && (
+            <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={editor.name}
+                  onChange={e => setEditor({ ...editor, name: e.target.value })}
+                  placeholder="Script name"
+                  className={`${inputClass} flex-1`}
+                />
+                <button onClick={() => setEditor(null)} title="Close" className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={editor.content}
+                onChange={e => { setEditor({ ...editor, content: e.target.value }); setCheck(null); }}
+                rows={14}
+                spellCheck={false}
+                className={`${inputClass} w-full font-mono`}
+              />
+              {check && (
+                <p className={`text-sm ${check.valid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {check.valid ? 'The server accepts this script.' : check.error || 'The server rejected this script.'}
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <Button size="small" variant="outline" onClick={handleCheck} disabled={isBusy} className="flex items-center gap-1">
+                  <CheckCircle className="w-3.5 h-3.5" />
+                  <span>Check Syntax</span>
+                </Button>
+                <Button size="small" variant="outline" onClick={() => handleSave(false)} disabled={isBusy} className="flex items-center gap-1 ml-auto">
+                  <Save className="w-3.5 h-3.5" />
+                  <span>Save</span>
+                </Button>
+                <Button size="small" onClick={() => handleSave(true)} disabled={isBusy} className="flex items-center gap-1">
+                  <Power className="w-3.5 h-3.5" />
+                  <span>Save &amp; Activate</span>
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default SieveSettings;
@@ -16,6 +16,9 @@ const ComposePage = React.lazy(() => import('@/pages/ComposePage'));
 const InboxPage = React.lazy(() => import('@/pages/InboxPage'));
 const SentPage = React.lazy(() => import('@/pages/SentPage'));
 const DraftsPage = React.lazy(() => import('@/pages/DraftsPage'));
+const ScheduledPage = React.lazy(() => import('@/pages/ScheduledPage'));
+const OutboxPage = React.lazy(() => import('@/pages/OutboxPage'));
+const ContactsPage = React.lazy(() => import('@/pages/ContactsPage'));
 const SettingsPage = React.lazy(() => import('@/pages/SettingsPage'));
 const SearchPage = React.lazy(() => import('@/pages/SearchPage'));
 const EmailPage = React.lazy(() => import('@/pages/EmailPage'));
@@ -101,6 +104,15 @@ const AppRouter: React.FC = () => {
         }
       />
       
+      <Route
+        path="/folder/:accountCode/:mailbox"
+        element={
+          <ProtectedRoute>
+            <InboxPage />
+          </ProtectedRoute>
+        }
+      />
+      
       <Route
         path="/sent"
         element={
@@ -119,6 +131,33 @@ const AppRouter: React.FC = () => {
         }
       />
       
+      <Route
+        path="/scheduled"
+        element={
+          <ProtectedRoute>
+            <ScheduledPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      <Route
+        path="/outbox"
+        element={
+          <ProtectedRoute>
+            <OutboxPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      <Route
+        path="/contacts"
+        element={
+          <ProtectedRoute>
+            <ContactsPage />
+          </ProtectedRoute>
+        }
+      />
+      
       <Route
         path="/settings"
         element={
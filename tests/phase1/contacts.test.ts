@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { contactScore, parseRecipients, rankContacts, type Contact } from '../../src/lib/contacts';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const contact = (id: number, overrides: Partial<Contact>): Contact => ({
+  id,
+  name: null,
+  emails: [],
+  notes: null,
+  sentCount: 0,
+  receivedCount: 0,
+  lastContactedAt: null,
+  ...overrides,
+});
+
+describe('contacts', () => {
+  it('weighs frequency down with age', () => {
+    const recent = contact(1, { sentCount: 1, receivedCount: 1, lastContactedAt: now.toISOString() });
+    const monthOld = contact(2, { sentCount: 1, receivedCount: 1, lastContactedAt: '2026-09-19T12:00:00Z' });
+
+    expect(contactScore(recent, now)).toBe(4);
+    expect(contactScore(monthOld, now)).toBe(2);
+    expect(contactScore(contact(3, {}), now)).toBe(0);
+  });
+
+  it('ranks prefix matches first, then by score, leaving out entered addresses', () => {
+    const contacts = [
+      contact(1, { name: 'Anna Berg', emails: ['anna@work.example', 'anna@home.example'], sentCount: 1, lastContactedAt: now.toISOString() }),
+      contact(2, { name: 'Jo Annable', emails: ['jo@example.com'], sentCount: 20, lastContactedAt: now.toISOString() }),
+      contact(3, { name: 'Hannah', emails: ['h@example.com'], sentCount: 50, lastContactedAt: now.toISOString() }),
+    ];
+
+    expect(rankContacts(contacts, 'ann', ['ANNA@home.example'], 8, now).map(s => s.email))
+      .toEqual(['jo@example.com', 'anna@work.example', 'h@example.com']);
+    expect(rankContacts(contacts, '  ', [], 8, now)).toEqual([]);
+  });
+
+  it('splits a recipient field', () => {
+    expect(parseRecipients(' a@x.example, ,b@y.example, ')).toEqual(['a@x.example', 'b@y.example']);
+  });
+});
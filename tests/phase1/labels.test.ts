@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { applyLabelChange, getLabelColor, hasLabel, userLabels, type MailLabel } from '../../src/lib/labels';
+
+describe('mail labels', () => {
+  it('adds and removes labels like IMAP keywords, ignoring case', () => {
+    expect(applyLabelChange(['Work', 'todo'], ['work', 'finance'], ['TODO'])).toEqual(['Work', 'finance']);
+    expect(applyLabelChange(undefined, ['a'], [])).toEqual(['a']);
+    expect(hasLabel(['Finance'], 'finance')).toBe(true);
+    expect(hasLabel(undefined, 'finance')).toBe(false);
+  });
+
+  it('colours known labels and falls back to gray', () => {
+    const labels: MailLabel[] = [{ id: 1, name: 'Work', color: 'blue' }];
+
+    expect(getLabelColor('work', labels).dot).toBe('bg-blue-500');
+    expect(getLabelColor('$Junk', labels).dot).toBe('bg-gray-400');
+  });
+
+  it('hides keywords other clients and servers set', () => {
+    expect(userLabels(['$Forwarded', 'Work', '$MDNSent', 'NonJunk', 'junk', '$Junk'])).toEqual(['Work']);
+    expect(userLabels(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildReplyRecipients, forwardSubject, replySubject } from '../../src/lib/replies';
+
+const own = new Set(['me@example.com', 'me@work.example.com']);
+
+describe('reply helpers', () => {
+  it('reply goes to the sender', () => {
+    const recipients = buildReplyRecipients(
+      { fromAddress: 'alice@example.com', toAddresses: ['me@example.com', 'bob@example.com'] },
+      'reply',
+      own
+    );
+
+    expect(recipients).toEqual({ to: ['alice@example.com'], cc: [] });
+  });
+
+  it('reply honours Reply-To', () => {
+    const recipients = buildReplyRecipients(
+      { fromAddress: 'noreply@list.example.com', replyTo: ['list@example.com'], toAddresses: ['me@example.com'] },
+      'reply',
+      own
+    );
+
+    expect(recipients.to).toEqual(['list@example.com']);
+  });
+
+  it('reply-all keeps everyone except my own addresses', () => {
+    const recipients = buildReplyRecipients(
+      {
+        fromAddress: 'alice@example.com',
+        toAddresses: ['Me@Example.com', 'bob@example.com', 'ALICE@example.com'],
+        ccAddresses: ['me@work.example.com', 'carol@example.com', 'bob@example.com'],
+      },
+      'replyAll',
+      own
+    );
+
+    expect(recipients).toEqual({
+      to: ['alice@example.com', 'bob@example.com'],
+      cc: ['carol@example.com'],
+    });
+  });
+
+  it('replying to my own sent mail goes to its recipients', () => {
+    const source = {
+      fromAddress: 'me@example.com',
+      toAddresses: ['bob@example.com', 'dave@example.com'],
+      ccAddresses: ['carol@example.com'],
+    };
+
+    expect(buildReplyRecipients(source, 'reply', own).to).toEqual(['bob@example.com']);
+    expect(buildReplyRecipients(source, 'replyAll', own)).toEqual({
+      to: ['bob@example.com', 'dave@example.com'],
+      cc: ['carol@example.com'],
+    });
+  });
+
+  it('subject prefixes are not stacked', () => {
+    expect(replySubject('Hello')).toBe('Re: Hello');
+    expect(replySubject('RE: Hello')).toBe('RE: Hello');
+    expect(forwardSubject('Fw: Hello')).toBe('Fw: Hello');
+    expect(forwardSubject('Hello')).toBe('Fwd: Hello');
+  });
+});
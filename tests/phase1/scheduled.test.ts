@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getSchedulePresets, toDateTimeLocalValue } from '../../src/lib/scheduled';
+
+describe('scheduled send helpers', () => {
+  it('offers this evening only while it is more than an hour away', () => {
+    // Wednesday 10:15 local time
+    const morning = getSchedulePresets(new Date(2026, 9, 21, 10, 15));
+    expect(morning.map(p => p.label)).toEqual(['In 1 hour', 'This evening', 'Tomorrow morning', 'Monday morning']);
+
+    const lateAfternoon = getSchedulePresets(new Date(2026, 9, 21, 17, 30));
+    expect(lateAfternoon.map(p => p.label)).not.toContain('This evening');
+  });
+
+  it('schedules Monday morning a week ahead when today is Monday', () => {
+    const wednesday = getSchedulePresets(new Date(2026, 9, 21, 10, 0));
+    expect(wednesday.find(p => p.label === 'Monday morning')!.date).toEqual(new Date(2026, 9, 26, 8, 0));
+
+    const monday = getSchedulePresets(new Date(2026, 9, 26, 7, 0));
+    expect(monday.find(p => p.label === 'Monday morning')!.date).toEqual(new Date(2026, 10, 2, 8, 0));
+  });
+
+  it('formats datetime-local values in local time', () => {
+    expect(toDateTimeLocalValue(new Date(2026, 0, 5, 9, 7))).toBe('2026-01-05T09:07');
+  });
+});
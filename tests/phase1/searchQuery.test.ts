@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, toMailFilter, type SearchableMail } from '../../src/lib/searchQuery';
+
+const mail = (overrides: Partial<SearchableMail> = {}): SearchableMail => ({
+  subject: 'Weekly report',
+  fromAddress: 'alice@example.com',
+  fromName: 'Alice Doe',
+  toAddresses: ['me@example.com'],
+  ccAddresses: ['bob@example.com'],
+  textBody: 'Numbers for\nthe  Q3 plan are attached.',
+  snippet: null,
+  date: '2024-03-10T09:00:00.000Z',
+  isRead: false,
+  isStarred: false,
+  hasAttachments: true,
+  mailbox: 'INBOX',
+  ...overrides,
+});
+
+const search = (query: string, record: SearchableMail = mail()) => toMailFilter(parseSearchQuery(query))(record);
+
+describe('search query mail filter', () => {
+  it('matches plain words and phrases anywhere, ignoring case and line breaks', () => {
+    expect(search('WEEKLY')).toBe(true);
+    expect(search('"the q3 plan"')).toBe(true);
+    expect(search('alice')).toBe(true);
+    expect(search('invoice')).toBe(false);
+  });
+
+  it('matches field operators', () => {
+    expect(search('from:"alice doe"')).toBe(true);
+    expect(search('to:bob')).toBe(true);
+    expect(search('subject:plan')).toBe(false);
+  });
+
+  it('matches flags, dates and mailboxes', () => {
+    expect(search('is:unread has:attachment in:inbox')).toBe(true);
+    expect(search('in:Archive', mail({ mailbox: 'Archive' }))).toBe(true);
+    expect(search('in:archive', mail({ mailbox: 'Archive' }))).toBe(false);
+    expect(search('is:starred')).toBe(false);
+    expect(search('after:2024-03-01 before:2024-04-01')).toBe(true);
+    expect(search('before:2024-03-01')).toBe(false);
+  });
+
+  it('combines negation and OR', () => {
+    expect(search('-from:alice')).toBe(false);
+    expect(search('from:carol OR from:alice')).toBe(true);
+    expect(search('report -(is:unread OR is:starred)')).toBe(false);
+  });
+
+  it('uses the snippet while the body is not loaded', () => {
+    expect(search('"q3 plan"', mail({ textBody: null, snippet: 'Numbers for the Q3 plan' }))).toBe(true);
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(search('')).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildVacationScript } from '../../src/lib/sieve';
+
+const base = {
+  subject: 'Out of office',
+  message: 'Back on Monday.\nUrgent? Call "Sam".',
+  days: 7,
+  startDate: '',
+  endDate: '',
+  addresses: ['me@example.com'],
+};
+
+describe('vacation responder script', () => {
+  it('answers every sender once per period', () => {
+    expect(buildVacationScript(base)).toBe([
+      '# Vacation responder, generated by MailVoyage',
+      'require ["vacation"];',
+      '',
+      'vacation :days 7 :subject "Out of office" :addresses ["me@example.com"]',
+      '  "Back on Monday.\nUrgent? Call \\"Sam\\".";',
+      '',
+    ].join('\n'));
+  });
+
+  it('only answers between the given dates', () => {
+    const script = buildVacationScript({ ...base, days: 0, startDate: '2026-12-20', endDate: '2027-01-04', addresses: [] });
+
+    expect(script).toContain('require ["vacation", "date", "relational"];');
+    expect(script).toContain('if allof (currentdate :value "ge" "date" "2026-12-20",');
+    expect(script).toContain('currentdate :value "le" "date" "2027-01-04") {');
+    expect(script).toContain('  vacation :days 1 :subject "Out of office"\n');
+    expect(script.trimEnd().endsWith('}')).toBe(true);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getAccountColor, syncAllAccounts } from '../../src/lib/unifiedInbox';
+
+describe('unified inbox helpers', () => {
+  it('gives listed accounts distinct, stable colours', () => {
+    const codes = ['work', 'home', 'club'];
+    const colors = codes.map(code => getAccountColor(code, codes).dot);
+
+    expect(new Set(colors).size).toBe(3);
+    expect(getAccountColor('home', codes)).toEqual(getAccountColor('home', [...codes]));
+    expect(getAccountColor('gone', codes)).toEqual(getAccountColor('gone', []));
+  });
+
+  it('reports failing accounts without dropping the others', async () => {
+    const results = await syncAllAccounts(
+      [{ accountCode: 'work' }, { accountCode: 'home' }],
+      async account => {
+        if (account.accountCode === 'home') throw new Error('IMAP connection failed');
+        return 3;
+      }
+    );
+
+    expect(results).toEqual([
+      { accountCode: 'work', ok: true, value: 3 },
+      { accountCode: 'home', ok: false, error: 'IMAP connection failed' },
+    ]);
+  });
+});